@@ -7,6 +7,8 @@ import DashboardPage from './pages/DashboardPage';
 import BillingPage from './pages/BillingPage';
 import SupportPage from './pages/SupportPage';
 import AnalyticsPage from './pages/AnalyticsPage';
+import AdminDunningPage from './pages/AdminDunningPage';
+import SharedDashboardPage from './pages/SharedDashboardPage';
 import TermsOfService from './pages/legal/TermsOfService';
 import PrivacyPolicy from './pages/legal/PrivacyPolicy';
 import CookiePolicy from './pages/legal/CookiePolicy';
@@ -27,6 +29,8 @@ function App() {
             <Route path="/billing" element={<BillingPage />} />
             <Route path="/support" element={<SupportPage />} />
             <Route path="/analytics" element={<AnalyticsPage />} />
+            <Route path="/admin/dunning" element={<AdminDunningPage />} />
+            <Route path="/dashboards/shared/:token" element={<SharedDashboardPage />} />
             <Route path="/legal/terms" element={<TermsOfService />} />
             <Route path="/legal/privacy" element={<PrivacyPolicy />} />
             <Route path="/legal/cookies" element={<CookiePolicy />} />
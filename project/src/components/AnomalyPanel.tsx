@@ -0,0 +1,186 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { format } from 'date-fns';
+import { BellRing, Loader2, Plus, Trash2 } from 'lucide-react';
+import { trpc } from '../lib/trpc';
+import { AGGREGATIONS, type Aggregation } from '../lib/timeseries';
+import { ANOMALY_SEVERITIES, DETECTOR_BUCKETS, type AnomalySeverity, type DetectorBucket } from '../lib/anomaly';
+
+const SEVERITY_STYLES: Record<AnomalySeverity, string> = {
+  low: 'bg-blue-500/20 text-blue-300',
+  medium: 'bg-yellow-500/20 text-yellow-400',
+  high: 'bg-red-500/20 text-red-400'
+};
+
+const INPUT_CLASS = 'bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-sm';
+
+function MonitorForm({ onCreated }: { onCreated: () => void }) {
+  const [metric, setMetric] = useState('');
+  const [aggregation, setAggregation] = useState<Aggregation>('sum');
+  const [bucket, setBucket] = useState<DetectorBucket>('hour');
+
+  const createMonitor = trpc.anomalies.createMonitor.useMutation({
+    onSuccess: () => {
+      setMetric('');
+      onCreated();
+    }
+  });
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    createMonitor.mutate({ metric, aggregation, bucket });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-2">
+      <input
+        value={metric}
+        onChange={(e) => setMetric(e.target.value)}
+        placeholder="Metric or event"
+        required
+        className={`${INPUT_CLASS} font-mono`}
+      />
+      <select value={aggregation} onChange={(e) => setAggregation(e.target.value as Aggregation)} className={INPUT_CLASS}>
+        {AGGREGATIONS.map(option => <option key={option} value={option}>{option}</option>)}
+      </select>
+      <select value={bucket} onChange={(e) => setBucket(e.target.value as DetectorBucket)} className={INPUT_CLASS}>
+        {DETECTOR_BUCKETS.map(option => <option key={option} value={option}>per {option}</option>)}
+      </select>
+      <button
+        type="submit"
+        disabled={createMonitor.isPending}
+        className="flex items-center gap-1 px-3 py-2 rounded-lg bg-blue-500 hover:bg-blue-600 transition-colors text-sm disabled:opacity-50"
+      >
+        {createMonitor.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+        Monitor
+      </button>
+      {createMonitor.error && <p className="w-full text-sm text-red-400">{createMonitor.error.message}</p>}
+    </form>
+  );
+}
+
+function AlertSettingsForm() {
+  const { data: settings } = trpc.anomalies.alertSettings.useQuery();
+  const [minSeverity, setMinSeverity] = useState<AnomalySeverity>('medium');
+  const [emails, setEmails] = useState('');
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const utils = trpc.useUtils();
+
+  useEffect(() => {
+    if (!settings) return;
+    setMinSeverity(settings.minSeverity);
+    setEmails(settings.emails.join(', '));
+    setWebhookUrl(settings.webhookUrl ?? '');
+  }, [settings]);
+
+  const updateSettings = trpc.anomalies.updateAlertSettings.useMutation({
+    onSuccess: () => utils.anomalies.alertSettings.invalidate()
+  });
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    updateSettings.mutate({
+      minSeverity,
+      emails: emails.split(',').map(email => email.trim()).filter(Boolean),
+      webhookUrl: webhookUrl.trim() || null
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 text-sm">
+      <label className="flex items-center gap-2 text-gray-300">
+        Alert on
+        <select value={minSeverity} onChange={(e) => setMinSeverity(e.target.value as AnomalySeverity)} className={INPUT_CLASS}>
+          {ANOMALY_SEVERITIES.map(option => <option key={option} value={option}>{option} and above</option>)}
+        </select>
+      </label>
+      <input
+        value={emails}
+        onChange={(e) => setEmails(e.target.value)}
+        placeholder="Emails, comma separated (billing contacts if empty)"
+        className={`${INPUT_CLASS} w-full`}
+      />
+      <input
+        value={webhookUrl}
+        onChange={(e) => setWebhookUrl(e.target.value)}
+        placeholder="https://example.com/hooks/anomalies"
+        className={`${INPUT_CLASS} w-full`}
+      />
+      {settings?.webhookSecret && (
+        <p className="text-gray-400">
+          Signing secret: <code className="text-gray-200">{settings.webhookSecret}</code>
+        </p>
+      )}
+      {updateSettings.error && <p className="text-red-400">{updateSettings.error.message}</p>}
+      <button
+        type="submit"
+        disabled={updateSettings.isPending}
+        className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-50"
+      >
+        Save alert settings
+      </button>
+    </form>
+  );
+}
+
+function AnomalyPanel() {
+  const utils = trpc.useUtils();
+  const { data: anomalies = [], isLoading } = trpc.anomalies.list.useQuery({ limit: 20 });
+  const { data: monitors = [] } = trpc.anomalies.monitors.useQuery();
+  const deleteMonitor = trpc.anomalies.deleteMonitor.useMutation({
+    onSuccess: () => utils.anomalies.monitors.invalidate()
+  });
+
+  return (
+    <div className="grid lg:grid-cols-3 gap-6 mb-6">
+      <div className="lg:col-span-2 bg-white/5 rounded-xl p-6 border border-white/10">
+        <div className="flex items-center gap-2 mb-4">
+          <BellRing className="w-5 h-5 text-yellow-400" />
+          <span className="font-semibold">Recent anomalies</span>
+        </div>
+        {isLoading ? (
+          <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+        ) : anomalies.length === 0 ? (
+          <p className="text-gray-400 text-sm">
+            {monitors.length === 0 ? 'Add a monitor to start watching a metric.' : 'Nothing unusual so far.'}
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {anomalies.map(anomaly => (
+              <li key={anomaly.id} className="flex items-start gap-3 text-sm">
+                <span className={`px-2 py-0.5 rounded-full text-xs capitalize ${SEVERITY_STYLES[anomaly.severity]}`}>
+                  {anomaly.severity}
+                </span>
+                <div>
+                  <p className="text-gray-200">{anomaly.explanation}</p>
+                  <p className="text-gray-400 text-xs">{format(new Date(anomaly.timestamp), 'MMM dd, HH:mm')}</p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="bg-white/5 rounded-xl p-6 border border-white/10 space-y-6">
+        <div className="space-y-3">
+          <span className="font-semibold">Monitors</span>
+          {monitors.map(monitor => (
+            <div key={monitor.id} className="flex items-center justify-between text-sm">
+              <span className="font-mono">{monitor.aggregation}({monitor.metric}) per {monitor.bucket}</span>
+              <button
+                onClick={() => deleteMonitor.mutate({ monitorId: monitor.id })}
+                title="Stop monitoring"
+                className="text-gray-400 hover:text-red-400"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <MonitorForm onCreated={() => utils.anomalies.monitors.invalidate()} />
+        </div>
+        <AlertSettingsForm />
+      </div>
+    </div>
+  );
+}
+
+export default AnomalyPanel;
@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { KeyRound, Loader2, Plus, RefreshCw, Trash2, Copy, AlertCircle } from 'lucide-react';
+import { trpc } from '../lib/trpc';
+import type { ApiKeyScope } from '../server/services/apiKeyService';
+
+// Kept in sync with API_KEY_SCOPES; the service module itself is server-only
+const SCOPES: { value: ApiKeyScope; label: string }[] = [
+  { value: 'analytics:read', label: 'Read analytics' },
+  { value: 'analytics:write', label: 'Send analytics' },
+  { value: 'automation:read', label: 'View automation' },
+  { value: 'automation:manage', label: 'Run automation' },
+  { value: 'billing:read', label: 'Read billing' }
+];
+
+function formatDate(value?: string | Date | null) {
+  return value ? format(new Date(value), 'MMM dd, yyyy HH:mm') : 'Never';
+}
+
+function keyStatus(key: { revokedAt?: string | Date; expiresAt?: string | Date }) {
+  if (key.revokedAt) return { label: 'Revoked', color: 'bg-red-500/20 text-red-400' };
+  if (key.expiresAt && new Date(key.expiresAt) <= new Date()) {
+    return { label: 'Expired', color: 'bg-gray-500/20 text-gray-400' };
+  }
+  if (key.expiresAt) return { label: `Expires ${formatDate(key.expiresAt)}`, color: 'bg-yellow-500/20 text-yellow-400' };
+  return { label: 'Active', color: 'bg-green-500/20 text-green-400' };
+}
+
+function ApiKeysPanel() {
+  const utils = trpc.useUtils();
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['analytics:read']);
+  const [expiresInDays, setExpiresInDays] = useState('');
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: keys, isLoading } = trpc.apiKeys.listKeys.useQuery();
+
+  const onSuccess = ({ key }: { key: string }) => {
+    // The secret is only ever shown once
+    setNewKey(key);
+    setError(null);
+    utils.apiKeys.listKeys.invalidate();
+  };
+  const onError = (err: { message: string }) => setError(err.message);
+
+  const createKey = trpc.apiKeys.createKey.useMutation({
+    onSuccess: (result) => {
+      onSuccess(result);
+      setName('');
+    },
+    onError
+  });
+  const rotateKey = trpc.apiKeys.rotateKey.useMutation({ onSuccess, onError });
+  const revokeKey = trpc.apiKeys.revokeKey.useMutation({
+    onSuccess: () => utils.apiKeys.listKeys.invalidate(),
+    onError
+  });
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes(current => current.includes(scope) ? current.filter(s => s !== scope) : [...current, scope]);
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createKey.mutate({
+      name,
+      scopes,
+      expiresInDays: expiresInDays ? Number(expiresInDays) : undefined
+    });
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20 mt-8">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-bold">API Keys</h2>
+        <KeyRound className="w-6 h-6 text-blue-400" />
+      </div>
+
+      {error && (
+        <div className="bg-red-500/20 text-red-400 p-3 rounded-lg flex items-center gap-2 mb-4">
+          <AlertCircle className="w-5 h-5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {newKey && (
+        <div className="bg-blue-500/20 border border-blue-400/40 p-4 rounded-lg mb-6">
+          <p className="text-sm text-gray-300 mb-2">
+            Copy this key now. It will not be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 bg-black/30 px-3 py-2 rounded font-mono text-sm break-all">{newKey}</code>
+            <button
+              onClick={() => navigator.clipboard.writeText(newKey)}
+              className="p-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+              title="Copy"
+            >
+              <Copy className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setNewKey(null)}
+              className="px-3 py-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors text-sm"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="flex flex-col gap-4 mb-6">
+        <div className="flex flex-col md:flex-row gap-4">
+          <input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="Key name, e.g. Reporting service"
+            className="flex-1 bg-white/5 border border-white/20 rounded-lg px-4 py-2"
+            required
+          />
+          <input
+            type="number"
+            min={1}
+            max={365}
+            value={expiresInDays}
+            onChange={e => setExpiresInDays(e.target.value)}
+            placeholder="Expires in days (optional)"
+            className="md:w-56 bg-white/5 border border-white/20 rounded-lg px-4 py-2"
+          />
+          <button
+            type="submit"
+            disabled={createKey.isPending || !name || scopes.length === 0}
+            className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-blue-500 hover:bg-blue-600 disabled:opacity-50 transition-colors"
+          >
+            {createKey.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Create key
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-4">
+          {SCOPES.map(scope => (
+            <label key={scope.value} className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={scopes.includes(scope.value)}
+                onChange={() => toggleScope(scope.value)}
+              />
+              {scope.label}
+            </label>
+          ))}
+        </div>
+      </form>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-400" />
+        </div>
+      ) : !keys?.length ? (
+        <p className="text-gray-400">No API keys yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-white/10">
+                <th className="py-2 pr-4">Name</th>
+                <th className="py-2 pr-4">Key</th>
+                <th className="py-2 pr-4">Scopes</th>
+                <th className="py-2 pr-4">Last used</th>
+                <th className="py-2 pr-4">Status</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {keys.map(key => {
+                const status = keyStatus(key);
+                const active = !key.revokedAt && (!key.expiresAt || new Date(key.expiresAt) > new Date());
+                return (
+                  <tr key={key.id} className="border-b border-white/5">
+                    <td className="py-3 pr-4">{key.name}</td>
+                    <td className="py-3 pr-4 font-mono text-gray-300">{key.prefix}_…</td>
+                    <td className="py-3 pr-4 text-gray-300">{key.scopes.join(', ')}</td>
+                    <td className="py-3 pr-4 text-gray-300">{formatDate(key.lastUsedAt)}</td>
+                    <td className="py-3 pr-4">
+                      <span className={`px-2 py-1 rounded-full text-xs ${status.color}`}>{status.label}</span>
+                    </td>
+                    <td className="py-3">
+                      {active && (
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={() => rotateKey.mutate({ keyId: key.id })}
+                            disabled={rotateKey.isPending || !!key.replacedBy}
+                            className="p-2 rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-50 transition-colors"
+                            title="Rotate (the old key keeps working for 24 hours)"
+                          >
+                            <RefreshCw className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => {
+                              if (window.confirm(`Revoke "${key.name}"? Services using it will stop working immediately.`)) {
+                                revokeKey.mutate({ keyId: key.id });
+                              }
+                            }}
+                            disabled={revokeKey.isPending}
+                            className="p-2 rounded-lg bg-red-500/20 text-red-400 hover:bg-red-500/30 disabled:opacity-50 transition-colors"
+                            title="Revoke"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ApiKeysPanel;
@@ -0,0 +1,355 @@
+import { useEffect, useMemo, useState, type FormEvent } from 'react';
+import { subDays } from 'date-fns';
+import {
+  ChevronLeft,
+  ChevronRight,
+  Copy,
+  LayoutDashboard,
+  Link2,
+  Link2Off,
+  Maximize2,
+  Minimize2,
+  Pencil,
+  Plus,
+  Trash2,
+  X
+} from 'lucide-react';
+import { trpc } from '../lib/trpc';
+import type { AnalyticsMetric } from '../lib/analytics';
+import { AGGREGATIONS, type Aggregation } from '../lib/timeseries';
+import {
+  CHART_TYPES,
+  DASHBOARD_RANGES,
+  DASHBOARD_RANGE_LABELS,
+  GRID_COLUMNS,
+  MAX_WIDGET_HEIGHT,
+  MAX_WIDGETS,
+  type ChartType,
+  type DashboardRange,
+  type DashboardWidget
+} from '../lib/dashboards';
+import DashboardGrid from './DashboardGrid';
+
+interface Draft {
+  name: string;
+  widgets: DashboardWidget[];
+}
+
+const INPUT_CLASS = 'bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-sm';
+
+function WidgetForm({ onAdd }: { onAdd: (widget: DashboardWidget) => void }) {
+  const [title, setTitle] = useState('');
+  const [metric, setMetric] = useState('');
+  const [aggregation, setAggregation] = useState<Aggregation>('sum');
+  const [range, setRange] = useState<DashboardRange>('7d');
+  const [chart, setChart] = useState<ChartType>('line');
+  const [groupBy, setGroupBy] = useState('');
+  const [width, setWidth] = useState(2);
+
+  // Suggest what the organization has actually reported recently
+  const [namesRange] = useState(() => ({ from: subDays(new Date(), 30), to: new Date() }));
+  const { data: names } = trpc.analytics.names.useQuery(namesRange);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onAdd({
+      id: crypto.randomUUID(),
+      title: title.trim() || metric,
+      metric: metric.trim(),
+      aggregation,
+      range,
+      chart,
+      groupBy: groupBy.trim() || undefined,
+      width,
+      height: 1
+    });
+    setTitle('');
+    setMetric('');
+    setGroupBy('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white/5 rounded-xl p-4 border border-white/10 mb-6 flex flex-wrap items-end gap-3">
+      <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Title" className={INPUT_CLASS} />
+      <input
+        value={metric}
+        onChange={(e) => setMetric(e.target.value)}
+        placeholder="Metric or event"
+        list="dashboard-metric-names"
+        required
+        className={`${INPUT_CLASS} font-mono`}
+      />
+      <datalist id="dashboard-metric-names">
+        {names?.map(({ name }) => <option key={name} value={name} />)}
+      </datalist>
+      <select value={aggregation} onChange={(e) => setAggregation(e.target.value as Aggregation)} className={INPUT_CLASS}>
+        {AGGREGATIONS.map(option => <option key={option} value={option}>{option}</option>)}
+      </select>
+      <select value={range} onChange={(e) => setRange(e.target.value as DashboardRange)} className={INPUT_CLASS}>
+        {DASHBOARD_RANGES.map(option => <option key={option} value={option}>{DASHBOARD_RANGE_LABELS[option]}</option>)}
+      </select>
+      <select value={chart} onChange={(e) => setChart(e.target.value as ChartType)} className={INPUT_CLASS}>
+        {CHART_TYPES.map(option => <option key={option} value={option}>{option}</option>)}
+      </select>
+      <input
+        value={groupBy}
+        onChange={(e) => setGroupBy(e.target.value)}
+        placeholder={chart === 'doughnut' ? 'Group by (required)' : 'Group by'}
+        required={chart === 'doughnut'}
+        className={`${INPUT_CLASS} font-mono`}
+      />
+      <select value={width} onChange={(e) => setWidth(parseInt(e.target.value))} className={INPUT_CLASS}>
+        {Array.from({ length: GRID_COLUMNS }, (_, index) => (
+          <option key={index} value={index + 1}>{index + 1} of {GRID_COLUMNS} columns</option>
+        ))}
+      </select>
+      <button type="submit" className="flex items-center gap-1 px-4 py-2 rounded-lg bg-blue-500 hover:bg-blue-600 transition-colors text-sm">
+        <Plus className="w-4 h-4" />
+        Add widget
+      </button>
+    </form>
+  );
+}
+
+function DashboardBuilder() {
+  const [dashboardId, setDashboardId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [newName, setNewName] = useState('');
+  const [shareLink, setShareLink] = useState<string | null>(null);
+  const utils = trpc.useUtils();
+
+  const { data: dashboards = [] } = trpc.dashboards.list.useQuery();
+  const dashboard = dashboards.find(d => d.id === dashboardId);
+  const { data: widgetData, isLoading: dataLoading } = trpc.dashboards.data.useQuery(
+    { dashboardId: dashboardId ?? '' },
+    { enabled: Boolean(dashboardId) }
+  );
+
+  useEffect(() => {
+    if (!dashboards.some(d => d.id === dashboardId)) setDashboardId(dashboards[0]?.id ?? null);
+  }, [dashboards, dashboardId]);
+
+  useEffect(() => {
+    setDraft(null);
+    setShareLink(null);
+  }, [dashboardId]);
+
+  // Data comes back in the order of the saved widgets; key it by id so it follows them while rearranging
+  const series = useMemo(() => {
+    const byWidget = new Map<string, AnalyticsMetric[]>();
+    dashboard?.widgets.forEach((widget, index) => {
+      if (widgetData?.[index]) byWidget.set(widget.id, widgetData[index]);
+    });
+    return byWidget;
+  }, [dashboard, widgetData]);
+
+  const refresh = () => {
+    utils.dashboards.list.invalidate();
+    utils.dashboards.data.invalidate();
+  };
+
+  const createDashboard = trpc.dashboards.create.useMutation({
+    onSuccess: async created => {
+      setNewName('');
+      // Select it only once the list has it, or the fallback below would pick another one
+      await utils.dashboards.list.invalidate();
+      setDashboardId(created.id);
+    }
+  });
+  const updateDashboard = trpc.dashboards.update.useMutation({
+    onSuccess: () => {
+      setDraft(null);
+      refresh();
+    }
+  });
+  const deleteDashboard = trpc.dashboards.delete.useMutation({ onSuccess: refresh });
+  const shareDashboard = trpc.dashboards.share.useMutation({
+    onSuccess: ({ token }) => {
+      setShareLink(`${window.location.origin}/dashboards/shared/${token}`);
+      refresh();
+    }
+  });
+  const unshareDashboard = trpc.dashboards.unshare.useMutation({
+    onSuccess: () => {
+      setShareLink(null);
+      refresh();
+    }
+  });
+  const error = createDashboard.error ?? updateDashboard.error ?? deleteDashboard.error
+    ?? shareDashboard.error ?? unshareDashboard.error;
+
+  const handleCreate = (e: FormEvent) => {
+    e.preventDefault();
+    createDashboard.mutate({ name: newName, widgets: [] });
+  };
+
+  const updateWidgets = (change: (widgets: DashboardWidget[]) => DashboardWidget[]) => {
+    setDraft(current => current && { ...current, widgets: change(current.widgets) });
+  };
+
+  const moveWidget = (index: number, offset: number) => updateWidgets(widgets => {
+    const target = index + offset;
+    if (target < 0 || target >= widgets.length) return widgets;
+    const reordered = [...widgets];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    return reordered;
+  });
+
+  const resizeWidget = (id: string, change: Partial<Pick<DashboardWidget, 'width' | 'height'>>) => updateWidgets(widgets =>
+    widgets.map(widget => widget.id === id ? { ...widget, ...change } : widget)
+  );
+
+  const renderControls = (widget: DashboardWidget, index: number) => (
+    <div className="flex items-center gap-1 text-gray-400">
+      <button onClick={() => moveWidget(index, -1)} title="Move earlier" className="hover:text-white">
+        <ChevronLeft className="w-4 h-4" />
+      </button>
+      <button onClick={() => moveWidget(index, 1)} title="Move later" className="hover:text-white">
+        <ChevronRight className="w-4 h-4" />
+      </button>
+      <select
+        value={widget.width}
+        onChange={(e) => resizeWidget(widget.id, { width: parseInt(e.target.value) })}
+        title="Columns"
+        className="bg-white/10 border border-white/20 rounded px-1 text-xs"
+      >
+        {Array.from({ length: GRID_COLUMNS }, (_, column) => (
+          <option key={column} value={column + 1}>{column + 1}</option>
+        ))}
+      </select>
+      <button
+        onClick={() => resizeWidget(widget.id, { height: widget.height === MAX_WIDGET_HEIGHT ? 1 : MAX_WIDGET_HEIGHT })}
+        title={widget.height === MAX_WIDGET_HEIGHT ? 'Make shorter' : 'Make taller'}
+        className="hover:text-white"
+      >
+        {widget.height === MAX_WIDGET_HEIGHT ? <Minimize2 className="w-4 h-4" /> : <Maximize2 className="w-4 h-4" />}
+      </button>
+      <button
+        onClick={() => updateWidgets(widgets => widgets.filter(w => w.id !== widget.id))}
+        title="Remove"
+        className="hover:text-red-400"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <LayoutDashboard className="w-5 h-5 text-blue-400" />
+        <select
+          value={dashboardId ?? ''}
+          onChange={(e) => setDashboardId(e.target.value)}
+          className="bg-white/10 border border-white/20 rounded-lg px-4 py-2"
+        >
+          {dashboards.length === 0 && <option value="">No dashboards yet</option>}
+          {dashboards.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+        </select>
+
+        {dashboard && !draft && (
+          <>
+            <button
+              onClick={() => setDraft({ name: dashboard.name, widgets: dashboard.widgets })}
+              className="flex items-center gap-1 px-3 py-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors text-sm"
+            >
+              <Pencil className="w-4 h-4" />
+              Edit
+            </button>
+            <button
+              onClick={() => shareDashboard.mutate({ dashboardId: dashboard.id })}
+              className="flex items-center gap-1 px-3 py-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors text-sm"
+            >
+              <Link2 className="w-4 h-4" />
+              {dashboard.shared ? 'New share link' : 'Share'}
+            </button>
+            {dashboard.shared && (
+              <button
+                onClick={() => unshareDashboard.mutate({ dashboardId: dashboard.id })}
+                className="flex items-center gap-1 px-3 py-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors text-sm"
+              >
+                <Link2Off className="w-4 h-4" />
+                Stop sharing
+              </button>
+            )}
+            <button
+              onClick={() => deleteDashboard.mutate({ dashboardId: dashboard.id })}
+              className="flex items-center gap-1 px-3 py-2 rounded-lg text-red-300 hover:bg-red-500/20 transition-colors text-sm"
+            >
+              <Trash2 className="w-4 h-4" />
+              Delete
+            </button>
+          </>
+        )}
+
+        <form onSubmit={handleCreate} className="ml-auto flex items-center gap-2">
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New dashboard name"
+            className={INPUT_CLASS}
+          />
+          <button
+            type="submit"
+            disabled={!newName.trim() || createDashboard.isPending}
+            className="flex items-center gap-1 px-3 py-2 rounded-lg bg-blue-500 hover:bg-blue-600 transition-colors text-sm disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            Create
+          </button>
+        </form>
+      </div>
+
+      {error && <p className="text-sm text-red-400 mb-4">{error.message}</p>}
+
+      {shareLink && (
+        <div className="flex items-center gap-3 bg-blue-500/20 border border-blue-400/40 rounded-xl p-3 mb-6 text-sm">
+          <span className="text-gray-300">Anyone with this link can view the dashboard. It won't be shown again.</span>
+          <code className="flex-1 truncate">{shareLink}</code>
+          <button onClick={() => navigator.clipboard.writeText(shareLink)} title="Copy link" className="hover:text-blue-300">
+            <Copy className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {draft && dashboard && (
+        <>
+          <div className="flex items-center gap-3 mb-4">
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className={INPUT_CLASS}
+            />
+            <button
+              onClick={() => updateDashboard.mutate({ dashboardId: dashboard.id, ...draft })}
+              disabled={updateDashboard.isPending}
+              className="px-4 py-2 rounded-lg bg-blue-500 hover:bg-blue-600 transition-colors text-sm disabled:opacity-50"
+            >
+              Save
+            </button>
+            <button onClick={() => setDraft(null)} className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors text-sm">
+              Cancel
+            </button>
+            <span className="text-sm text-gray-400">{draft.widgets.length} of {MAX_WIDGETS} widgets</span>
+          </div>
+          {draft.widgets.length < MAX_WIDGETS && (
+            <WidgetForm onAdd={widget => updateWidgets(widgets => [...widgets, widget])} />
+          )}
+        </>
+      )}
+
+      {dashboard && (draft ?? dashboard).widgets.length === 0 ? (
+        <p className="text-gray-400">This dashboard has no widgets yet. Edit it to add some.</p>
+      ) : dashboard && (
+        <DashboardGrid
+          widgets={(draft ?? dashboard).widgets}
+          series={series}
+          loading={dataLoading}
+          renderControls={draft ? renderControls : undefined}
+        />
+      )}
+    </div>
+  );
+}
+
+export default DashboardBuilder;
@@ -0,0 +1,55 @@
+import type { ReactNode } from 'react';
+import type { AnalyticsMetric } from '../lib/analytics';
+import { DASHBOARD_RANGE_LABELS, GRID_COLUMNS, type DashboardWidget } from '../lib/dashboards';
+import DashboardWidgetChart from './DashboardWidgetChart';
+
+const ROW_HEIGHT = 260;
+
+interface DashboardGridProps {
+  widgets: DashboardWidget[];
+  // Keyed by widget id; widgets without an entry are still loading or not saved yet
+  series: Map<string, AnalyticsMetric[]>;
+  loading?: boolean;
+  renderControls?: (widget: DashboardWidget, index: number) => ReactNode;
+}
+
+function DashboardGrid({ widgets, series, loading, renderControls }: DashboardGridProps) {
+  return (
+    <div
+      className="grid gap-6"
+      style={{ gridTemplateColumns: `repeat(${GRID_COLUMNS}, minmax(0, 1fr))`, gridAutoRows: ROW_HEIGHT }}
+    >
+      {widgets.map((widget, index) => {
+        const points = series.get(widget.id);
+        return (
+          <div
+            key={widget.id}
+            className="bg-white/10 backdrop-blur-lg rounded-2xl p-4 border border-white/20 flex flex-col"
+            style={{ gridColumn: `span ${widget.width}`, gridRow: `span ${widget.height}` }}
+          >
+            <div className="flex items-start justify-between gap-2 mb-2">
+              <div>
+                <h3 className="font-semibold">{widget.title}</h3>
+                <p className="text-xs text-gray-400">
+                  {widget.aggregation} of {widget.metric} · {DASHBOARD_RANGE_LABELS[widget.range]}
+                </p>
+              </div>
+              {renderControls?.(widget, index)}
+            </div>
+            <div className="flex-1 min-h-0">
+              {points ? (
+                <DashboardWidgetChart widget={widget} series={points} />
+              ) : (
+                <div className="h-full flex items-center justify-center text-gray-400 text-sm">
+                  {loading ? 'Loading...' : 'Save to load data'}
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default DashboardGrid;
@@ -0,0 +1,92 @@
+import { Bar, Doughnut, Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  ArcElement,
+  BarElement,
+  CategoryScale,
+  Filler,
+  Legend,
+  LinearScale,
+  LineElement,
+  PointElement,
+  Tooltip
+} from 'chart.js';
+import { format } from 'date-fns';
+import type { AnalyticsMetric } from '../lib/analytics';
+import type { DashboardWidget } from '../lib/dashboards';
+
+ChartJS.register(ArcElement, BarElement, CategoryScale, Filler, Legend, LinearScale, LineElement, PointElement, Tooltip);
+
+const COLORS = ['#60A5FA', '#34D399', '#F472B6', '#FBBF24', '#A78BFA', '#F87171', '#2DD4BF', '#FB923C'];
+
+const AXIS = {
+  grid: { color: 'rgba(255, 255, 255, 0.1)' },
+  ticks: { color: 'rgba(255, 255, 255, 0.7)' },
+};
+
+interface DashboardWidgetChartProps {
+  widget: DashboardWidget;
+  series: AnalyticsMetric[];
+}
+
+// Splits a grouped series into one list of points per group; ungrouped series have a single group
+function byGroup(widget: DashboardWidget, series: AnalyticsMetric[]): Map<string, AnalyticsMetric[]> {
+  const groups = new Map<string, AnalyticsMetric[]>();
+  for (const point of series) {
+    const group = widget.groupBy ? String(point.metadata?.[widget.groupBy] ?? '(none)') : widget.title;
+    groups.set(group, [...(groups.get(group) ?? []), point]);
+  }
+  return groups;
+}
+
+// A doughnut slice is the group's total for sums and its average otherwise
+function summarize(widget: DashboardWidget, points: AnalyticsMetric[]): number {
+  const total = points.reduce((sum, point) => sum + point.value, 0);
+  return widget.aggregation === 'sum' || points.length === 0 ? total : total / points.length;
+}
+
+function DashboardWidgetChart({ widget, series }: DashboardWidgetChartProps) {
+  if (series.length === 0) {
+    return <div className="h-full flex items-center justify-center text-gray-400 text-sm">No data in this range</div>;
+  }
+
+  const groups = Array.from(byGroup(widget, series));
+
+  if (widget.chart === 'doughnut') {
+    return (
+      <Doughnut
+        data={{
+          labels: groups.map(([group]) => group),
+          datasets: [{
+            data: groups.map(([, points]) => summarize(widget, points)),
+            backgroundColor: groups.map((_, index) => COLORS[index % COLORS.length]),
+            borderWidth: 0,
+          }],
+        }}
+        options={{ maintainAspectRatio: false, plugins: { legend: { labels: { color: 'rgba(255, 255, 255, 0.7)' } } } }}
+      />
+    );
+  }
+
+  const timestamps = Array.from(new Set(series.map(point => point.timestamp))).sort((a, b) => a - b);
+  const daily = timestamps.length > 1 && timestamps[1] - timestamps[0] >= 24 * 60 * 60 * 1000;
+  const data = {
+    labels: timestamps.map(timestamp => format(new Date(timestamp), daily ? 'MMM dd' : 'MMM dd HH:mm')),
+    datasets: groups.map(([group, points], index) => ({
+      label: group,
+      data: timestamps.map(timestamp => points.find(point => point.timestamp === timestamp)?.value ?? null),
+      borderColor: COLORS[index % COLORS.length],
+      backgroundColor: widget.chart === 'bar' ? COLORS[index % COLORS.length] : 'rgba(96, 165, 250, 0.1)',
+      tension: 0.4,
+    })),
+  };
+  const options = {
+    maintainAspectRatio: false,
+    scales: { y: { beginAtZero: true, ...AXIS }, x: AXIS },
+    plugins: { legend: { display: Boolean(widget.groupBy) } },
+  };
+
+  return widget.chart === 'bar' ? <Bar data={data} options={options} /> : <Line data={data} options={options} />;
+}
+
+export default DashboardWidgetChart;
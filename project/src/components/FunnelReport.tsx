@@ -0,0 +1,205 @@
+import { useEffect, useMemo, useState, type FormEvent } from 'react';
+import { Filter, Loader2, Plus, Trash2, X } from 'lucide-react';
+import { trpc } from '../lib/trpc';
+
+export type ReportScope = 'organization' | 'platform';
+
+interface FunnelReportProps {
+  // platform reports on the product's own onboarding events and is only offered to platform administrators
+  scope: ReportScope;
+  from: Date;
+  to: Date;
+}
+
+function formatDuration(ms: number) {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.round(minutes / 60);
+  return hours < 48 ? `${hours}h` : `${Math.round(hours / 24)}d`;
+}
+
+function formatPercent(ratio: number) {
+  return `${(ratio * 100).toFixed(1)}%`;
+}
+
+function FunnelForm({ onClose, onCreated }: { onClose: () => void; onCreated: (funnelId: string) => void }) {
+  const [name, setName] = useState('');
+  const [steps, setSteps] = useState('');
+  const [windowHours, setWindowHours] = useState(24 * 7);
+
+  const createFunnel = trpc.analytics.createFunnel.useMutation({
+    onSuccess: funnel => onCreated(funnel.id)
+  });
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    createFunnel.mutate({
+      name,
+      steps: steps.split('\n').map(step => step.trim()).filter(Boolean).map(event => ({ event })),
+      windowHours
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white/5 rounded-xl p-4 border border-white/10 mb-6 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">New funnel</h3>
+        <button type="button" onClick={onClose} className="text-gray-400 hover:text-white">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Name"
+        className="w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2"
+      />
+      <textarea
+        value={steps}
+        onChange={(e) => setSteps(e.target.value)}
+        placeholder={'One event per line, in order\nsignup_completed\nproject_created\ninvite_sent'}
+        rows={4}
+        className="w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 font-mono text-sm"
+      />
+      <label className="flex items-center gap-3 text-sm text-gray-300">
+        Conversion window (hours)
+        <input
+          type="number"
+          min={1}
+          value={windowHours}
+          onChange={(e) => setWindowHours(parseInt(e.target.value) || 1)}
+          className="w-24 bg-white/10 border border-white/20 rounded-lg px-3 py-1"
+        />
+      </label>
+      {createFunnel.error && <p className="text-sm text-red-400">{createFunnel.error.message}</p>}
+      <button
+        type="submit"
+        disabled={createFunnel.isPending}
+        className="px-4 py-2 rounded-lg bg-blue-500 hover:bg-blue-600 transition-colors disabled:opacity-50"
+      >
+        Save funnel
+      </button>
+    </form>
+  );
+}
+
+function FunnelReport({ scope, from, to }: FunnelReportProps) {
+  const [funnelId, setFunnelId] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const utils = trpc.useUtils();
+
+  const organizationFunnels = trpc.analytics.funnels.useQuery(undefined, { enabled: scope === 'organization' });
+  const platformFunnels = trpc.growth.funnels.useQuery(undefined, { enabled: scope === 'platform' });
+  const funnels = useMemo(
+    () => (scope === 'platform' ? platformFunnels.data : organizationFunnels.data) ?? [],
+    [scope, platformFunnels.data, organizationFunnels.data]
+  );
+
+  // Fall back to the first funnel when the selection is gone, e.g. after switching scope
+  useEffect(() => {
+    if (funnels.length > 0 && !funnels.some(funnel => funnel.id === funnelId)) {
+      setFunnelId(funnels[0].id);
+    }
+  }, [funnels, funnelId]);
+
+  const input = { funnelId: funnelId ?? '', from, to };
+  const organizationReport = trpc.analytics.funnel.useQuery(input, { enabled: scope === 'organization' && Boolean(funnelId) });
+  const platformReport = trpc.growth.funnel.useQuery(input, { enabled: scope === 'platform' && Boolean(funnelId) });
+  const report = scope === 'platform' ? platformReport : organizationReport;
+
+  const deleteFunnel = trpc.analytics.deleteFunnel.useMutation({
+    onSuccess: () => {
+      setFunnelId(null);
+      utils.analytics.funnels.invalidate();
+    }
+  });
+
+  const handleCreated = (id: string) => {
+    setCreating(false);
+    setFunnelId(id);
+    utils.analytics.funnels.invalidate();
+  };
+
+  const steps = report.data?.result.steps ?? [];
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <Filter className="w-5 h-5 text-blue-400" />
+        <select
+          value={funnelId ?? ''}
+          onChange={(e) => setFunnelId(e.target.value)}
+          className="bg-white/10 border border-white/20 rounded-lg px-4 py-2"
+        >
+          {funnels.length === 0 && <option value="">No funnels yet</option>}
+          {funnels.map(funnel => (
+            <option key={funnel.id} value={funnel.id}>{funnel.name}</option>
+          ))}
+        </select>
+        {scope === 'organization' && (
+          <>
+            <button
+              onClick={() => setCreating(true)}
+              className="flex items-center gap-1 px-3 py-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors text-sm"
+            >
+              <Plus className="w-4 h-4" />
+              New funnel
+            </button>
+            {funnelId && (
+              <button
+                onClick={() => deleteFunnel.mutate({ funnelId })}
+                className="flex items-center gap-1 px-3 py-2 rounded-lg text-red-300 hover:bg-red-500/20 transition-colors text-sm"
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete
+              </button>
+            )}
+          </>
+        )}
+        {report.data && (
+          <span className="ml-auto text-sm text-gray-400">
+            Conversion window: {report.data.funnel.windowHours}h
+          </span>
+        )}
+      </div>
+
+      {creating && <FunnelForm onClose={() => setCreating(false)} onCreated={handleCreated} />}
+
+      {report.isLoading && funnelId ? (
+        <div className="flex items-center gap-2 text-gray-400">
+          <Loader2 className="w-5 h-5 animate-spin" />
+          Computing funnel...
+        </div>
+      ) : report.error ? (
+        <p className="text-red-400">{report.error.message}</p>
+      ) : steps.length > 0 && (
+        <div className="space-y-3">
+          {steps.map((step, index) => (
+            <div key={`${step.event}-${index}`}>
+              <div className="flex items-center justify-between text-sm mb-1">
+                <span>{index + 1}. {step.label}</span>
+                <span className="text-gray-400">
+                  {step.count.toLocaleString()} · {formatPercent(step.conversionFromStart)}
+                </span>
+              </div>
+              <div className="h-3 rounded-full bg-white/5 overflow-hidden">
+                <div
+                  className="h-full bg-blue-500/70"
+                  style={{ width: `${step.conversionFromStart * 100}%` }}
+                />
+              </div>
+              {index > 0 && (
+                <div className="text-xs text-gray-400 mt-1">
+                  {formatPercent(1 - step.conversionFromPrevious)} dropped off after the previous step
+                  {step.medianMsFromPrevious !== null && ` · median ${formatDuration(step.medianMsFromPrevious)} to get here`}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default FunnelReport;
@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { X, Loader2, AlertCircle } from 'lucide-react';
+import { trpc } from '../lib/trpc';
+import { STRIPE_PLANS, formatPrice, type PlanTier } from '../lib/stripe';
+import type { PlanChangeTiming } from '../server/services/planChangeService';
+
+interface PlanChangeDialogProps {
+  subscriptionId: string;
+  plan: PlanTier;
+  newPriceId: string;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const TIMINGS: { value: PlanChangeTiming; label: string; description: string }[] = [
+  { value: 'immediate', label: 'Change now', description: 'Prorated difference is invoiced today' },
+  { value: 'period_end', label: 'At renewal', description: 'Takes effect when the current period ends' }
+];
+
+// Stripe amounts are in cents
+function formatAmount(cents: number) {
+  return formatPrice(cents / 100);
+}
+
+function formatDate(value: string | Date) {
+  return format(new Date(value), 'MMM dd, yyyy');
+}
+
+function PlanChangeDialog({ subscriptionId, plan, newPriceId, onClose, onChanged }: PlanChangeDialogProps) {
+  const [timing, setTiming] = useState<PlanChangeTiming>('immediate');
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: preview, isLoading, error: previewError } = trpc.previewPlanChange.useQuery(
+    { subscriptionId, newPriceId, timing },
+    { retry: false }
+  );
+
+  const updateSubscription = trpc.updateSubscription.useMutation({
+    onSuccess: onChanged,
+    onError: (err) => setError(err.message)
+  });
+
+  const handleConfirm = () => {
+    if (!preview) return;
+    setError(null);
+    updateSubscription.mutate({
+      subscriptionId,
+      newPriceId,
+      timing,
+      prorationDate: timing === 'immediate' ? preview.prorationDate : undefined
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-slate-900 rounded-xl p-6 max-w-lg w-full mx-4 border border-white/10">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold">Switch to {STRIPE_PLANS[plan].name}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 mb-6">
+          {TIMINGS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setTiming(option.value)}
+              className={`p-3 rounded-lg text-left border transition-colors ${
+                timing === option.value ? 'border-blue-400 bg-blue-500/10' : 'border-white/10 bg-white/5'
+              }`}
+            >
+              <div className="font-medium">{option.label}</div>
+              <div className="text-sm text-gray-400">{option.description}</div>
+            </button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-400" />
+          </div>
+        ) : preview ? (
+          <dl className="space-y-3 mb-6">
+            <div className="flex justify-between">
+              <dt className="text-gray-400">Takes effect</dt>
+              <dd>{timing === 'immediate' ? 'Immediately' : formatDate(preview.effectiveDate)}</dd>
+            </div>
+            <div className="flex justify-between">
+              <dt className="text-gray-400">Prorated adjustment</dt>
+              <dd>{formatAmount(preview.prorationAmount)}</dd>
+            </div>
+            <div className="flex justify-between">
+              <dt className="text-gray-400">Due today</dt>
+              <dd className="font-semibold">{formatAmount(preview.amountDueNow)}</dd>
+            </div>
+            <div className="flex justify-between">
+              <dt className="text-gray-400">Next invoice ({formatDate(preview.nextInvoiceDate)})</dt>
+              <dd>{formatAmount(preview.nextInvoiceTotal)}</dd>
+            </div>
+            {preview.prorationAmount < 0 && (
+              <p className="text-sm text-gray-400">The unused credit is applied to your next invoice.</p>
+            )}
+          </dl>
+        ) : null}
+
+        {(error || previewError) && (
+          <div className="bg-red-500/20 text-red-400 p-3 rounded-lg flex items-center gap-2 mb-6">
+            <AlertCircle className="w-5 h-5" />
+            <span>{error ?? previewError?.message}</span>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={!preview || updateSubscription.isPending}
+            className="px-4 py-2 rounded-lg bg-blue-500 hover:bg-blue-600 disabled:bg-gray-600 disabled:cursor-not-allowed flex items-center gap-2 transition-colors"
+          >
+            {updateSubscription.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+            Confirm Change
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default PlanChangeDialog;
@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { trpc } from '../lib/trpc';
+import type { ReportScope } from './FunnelReport';
+
+interface RetentionReportProps {
+  scope: ReportScope;
+}
+
+const DEFAULT_SIGNUP_EVENT: Record<ReportScope, string> = {
+  organization: 'signup_completed',
+  // Visitors are only identifiable from the moment they start onboarding
+  platform: 'onboarding_started'
+};
+
+// Darker cells for cohorts that kept more of their users
+function cellStyle(ratio: number) {
+  return { backgroundColor: `rgba(96, 165, 250, ${0.1 + ratio * 0.6})` };
+}
+
+function RetentionReport({ scope }: RetentionReportProps) {
+  const [signupEvents, setSignupEvents] = useState(DEFAULT_SIGNUP_EVENT);
+  const [weeks, setWeeks] = useState(8);
+  const signupEvent = signupEvents[scope];
+
+  const input = { signupEvent, weeks };
+  const organizationTable = trpc.analytics.retention.useQuery(input, { enabled: scope === 'organization' && Boolean(signupEvent) });
+  const platformTable = trpc.growth.retention.useQuery(input, { enabled: scope === 'platform' && Boolean(signupEvent) });
+  const table = scope === 'platform' ? platformTable : organizationTable;
+  const columns = table.data?.cohorts.length ?? 0;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-3 mb-6 text-sm">
+        <label className="flex items-center gap-2 text-gray-300">
+          Cohort by
+          <input
+            value={signupEvent}
+            onChange={(e) => setSignupEvents(prev => ({ ...prev, [scope]: e.target.value.trim() }))}
+            className="bg-white/10 border border-white/20 rounded-lg px-3 py-1 font-mono"
+          />
+        </label>
+        <select
+          value={weeks}
+          onChange={(e) => setWeeks(parseInt(e.target.value))}
+          className="bg-white/10 border border-white/20 rounded-lg px-3 py-1"
+        >
+          <option value={4}>4 weeks</option>
+          <option value={8}>8 weeks</option>
+          <option value={12}>12 weeks</option>
+        </select>
+      </div>
+
+      {table.isLoading && signupEvent ? (
+        <div className="flex items-center gap-2 text-gray-400">
+          <Loader2 className="w-5 h-5 animate-spin" />
+          Computing retention...
+        </div>
+      ) : table.error ? (
+        <p className="text-red-400">{table.error.message}</p>
+      ) : table.data && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-center">
+            <thead>
+              <tr className="text-gray-400">
+                <th className="text-left font-normal py-2 pr-4">Signup week</th>
+                <th className="font-normal py-2 px-2">Users</th>
+                {Array.from({ length: columns }, (_, week) => (
+                  <th key={week} className="font-normal py-2 px-2">Week {week}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {table.data.cohorts.map(cohort => (
+                <tr key={cohort.week} className="border-t border-white/10">
+                  <td className="text-left py-2 pr-4">{format(new Date(cohort.week), 'MMM dd')}</td>
+                  <td className="py-2 px-2">{cohort.size.toLocaleString()}</td>
+                  {Array.from({ length: columns }, (_, week) => {
+                    const retained = cohort.retained[week];
+                    if (retained === undefined || cohort.size === 0) return <td key={week} className="py-2 px-2 text-gray-600">—</td>;
+                    const ratio = retained / cohort.size;
+                    return (
+                      <td key={week} className="py-2 px-2" style={cellStyle(ratio)} title={`${retained} of ${cohort.size}`}>
+                        {Math.round(ratio * 100)}%
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RetentionReport;
@@ -0,0 +1,21 @@
+import { trpc } from '../lib/trpc';
+import { PLAN_NAMES, minimumPlanFor, type Feature } from '../lib/entitlements';
+
+// What the current organization's plan includes; features are treated as unavailable until loaded
+export function useEntitlements() {
+  const { data: entitlements, isLoading, error } = trpc.entitlements.current.useQuery(undefined, {
+    staleTime: 60_000
+  });
+
+  const hasFeature = (feature: Feature) => entitlements?.features.includes(feature) ?? false;
+
+  return {
+    entitlements,
+    isLoading,
+    error,
+    plan: entitlements?.plan ?? 'FREE',
+    hasFeature,
+    // Name of the cheapest plan that unlocks the feature, for upgrade prompts
+    upgradePlanFor: (feature: Feature) => PLAN_NAMES[minimumPlanFor(feature)]
+  };
+}
@@ -0,0 +1,14 @@
+import { useCallback } from 'react';
+import { trpc } from '../lib/trpc';
+import type { ClientEvent } from '../lib/timeseries';
+
+// Records a platform event; works before sign-up, unlike the organization ingestion API.
+// The server follows the visitor with its own anonymous id cookie, so nothing identifying is sent here.
+// Best effort: a failed event is dropped rather than shown to the visitor.
+export function useTrackEvent() {
+  const { mutate } = trpc.trackEvent.useMutation();
+
+  return useCallback((eventName: ClientEvent, properties?: Record<string, string | number | boolean>) => {
+    mutate({ eventName, properties });
+  }, [mutate]);
+}
@@ -2,6 +2,9 @@ import { analyticsService } from '../analytics';
 import { OpenAI } from 'openai';
 import * as tf from '@tensorflow/tfjs';
 import { LinearRegression } from 'ml-regression';
+import { demandForecastService } from '../automation/ecommerce/demand';
+import { type DemandForecast } from '../automation/ecommerce/types';
+import { everyInterval, schedulerService } from '../scheduler';
 
 interface AIModel {
   type: 'prediction' | 'optimization' | 'recommendation';
@@ -80,10 +83,10 @@ class AIAutomationService {
       {
         type: 'prediction',
         name: 'demand_forecast',
-        version: '1.0.0',
-        features: ['historical_usage', 'time_of_day', 'day_of_week', 'seasonality'],
-        target: 'resource_demand',
-        model: await this.createPredictiveModel('demand_forecast'),
+        version: '2.0.0',
+        features: ['order_history', 'day_of_week', 'seasonality', 'lead_time'],
+        target: 'sku_daily_demand',
+        model: demandForecastService,
         metrics: { accuracy: 0, confidence: 0, latency: 0 }
       },
       {
@@ -172,57 +175,83 @@ class AIAutomationService {
   }
 
   private startContinuousLearning() {
-    setInterval(async () => {
-      try {
-        // Update models with new data
-        await this.updateModels();
+    schedulerService.registerJob({
+      name: 'ai.continuous-learning',
+      schedule: everyInterval(this.updateInterval),
+      handler: async () => {
+        try {
+          // Update models with new data
+          await this.updateModels();
         
-        // Retrain if necessary
-        await this.retrainModels();
+          // Retrain if necessary
+          await this.retrainModels();
         
-        // Validate model performance
-        await this.validateModels();
-      } catch (error) {
-        await this.handleAIError('continuous_learning', error);
+          // Validate model performance
+          await this.validateModels();
+        } catch (error) {
+          await this.handleAIError('continuous_learning', error);
+          throw error;
+        }
       }
-    }, this.updateInterval);
+    });
   }
 
   private startModelOptimization() {
-    setInterval(async () => {
-      try {
-        // Analyze model performance
-        const performance = await this.analyzeModelPerformance();
+    schedulerService.registerJob({
+      name: 'ai.model-optimization',
+      schedule: everyInterval(this.updateInterval * 2),
+      handler: async () => {
+        try {
+          // Analyze model performance
+          const performance = await this.analyzeModelPerformance();
         
-        // Generate optimizations
-        const optimizations = await this.generateModelOptimizations(performance);
+          // Generate optimizations
+          const optimizations = await this.generateModelOptimizations(performance);
         
-        // Apply optimizations
-        await this.applyModelOptimizations(optimizations);
-      } catch (error) {
-        await this.handleAIError('model_optimization', error);
+          // Apply optimizations
+          await this.applyModelOptimizations(optimizations);
+        } catch (error) {
+          await this.handleAIError('model_optimization', error);
+          throw error;
+        }
       }
-    }, this.updateInterval * 2);
+    });
   }
 
   private startPerformanceMonitoring() {
-    setInterval(async () => {
-      try {
-        // Monitor model metrics
-        for (const [name, model] of this.models) {
-          const metrics = await this.evaluateModelPerformance(model);
-          await this.updateModelMetrics(name, metrics);
+    schedulerService.registerJob({
+      name: 'ai.performance-monitoring',
+      schedule: everyInterval(this.updateInterval / 2),
+      handler: async () => {
+        try {
+          // Monitor model metrics
+          for (const [name, model] of this.models) {
+            const metrics = await this.evaluateModelPerformance(model);
+            await this.updateModelMetrics(name, metrics);
+          }
+        } catch (error) {
+          await this.handleAIError('performance_monitoring', error);
+          throw error;
         }
-      } catch (error) {
-        await this.handleAIError('performance_monitoring', error);
       }
-    }, this.updateInterval / 2);
+    });
   }
 
-  public async predictResourceDemand(features: any): Promise<any> {
+  public async predictDemand(productId: string, variantId?: string): Promise<DemandForecast | null> {
+    const startTime = Date.now();
+
     try {
       const model = this.models.get('demand_forecast') as PredictiveModel;
-      return await this.runPrediction(model, features);
+      const forecast: DemandForecast | null = await model.model.forecastProduct(productId, variantId);
+      const accuracy = forecast?.accuracy.mape != null ? Math.max(0, 1 - forecast.accuracy.mape) : 0;
+
+      await this.updateModelMetrics(model.name, {
+        accuracy,
+        confidence: accuracy,
+        latency: Date.now() - startTime
+      });
+
+      return forecast;
     } catch (error) {
       await this.handleAIError('prediction', error);
       throw error;
@@ -265,39 +294,6 @@ class AIAutomationService {
     return model;
   }
 
-  private async runPrediction(model: PredictiveModel, features: any) {
-    const startTime = Date.now();
-    
-    try {
-      // Prepare input data
-      const inputTensor = tf.tensor2d([Object.values(features)]);
-      
-      // Run prediction
-      const prediction = await model.model.predict(inputTensor);
-      
-      // Calculate confidence
-      const confidence = await this.calculateConfidence(prediction);
-      
-      // Track latency
-      const latency = Date.now() - startTime;
-      
-      // Update metrics
-      await this.updateModelMetrics(model.name, {
-        accuracy: confidence,
-        confidence,
-        latency
-      });
-      
-      return {
-        prediction: prediction.dataSync()[0],
-        confidence,
-        latency
-      };
-    } catch (error) {
-      throw new Error(`Prediction failed: ${error.message}`);
-    }
-  }
-
   private async runOptimization(model: OptimizationModel, parameters: any) {
     const startTime = Date.now();
     
@@ -388,7 +384,6 @@ class AIAutomationService {
   private async applyModelOptimizations(optimizations: any[]) {}
   private async evaluateModelPerformance(model: AIModel) { return { accuracy: 0, confidence: 0, latency: 0 }; }
   private async updateModelMetrics(name: string, metrics: any) {}
-  private async calculateConfidence(prediction: any) { return 0; }
   private prepareOptimizationProblem(model: OptimizationModel, parameters: any) { return {}; }
   private async solveOptimizationProblem(problem: any) { return {}; }
   private async validateSolution(solution: any, constraints: any) { return true; }
@@ -2,6 +2,7 @@ import { analyticsService } from '../analytics';
 import { OpenAI } from 'openai';
 import * as tf from 'tensorflow';
 import { LinearRegression } from 'ml-regression';
+import { everyInterval, schedulerService } from '../scheduler';
 
 interface RecommendationModel {
   id: string;
@@ -261,23 +262,28 @@ class RecommendationService {
   }
 
   private startContentOptimization() {
-    setInterval(async () => {
-      try {
-        // Analyze content performance
-        const performance = await this.analyzeContentPerformance();
+    schedulerService.registerJob({
+      name: 'ai.recommendation.content-optimization',
+      schedule: everyInterval(this.updateInterval),
+      handler: async () => {
+        try {
+          // Analyze content performance
+          const performance = await this.analyzeContentPerformance();
         
-        // Generate content optimizations
-        const optimizations = await this.generateContentOptimizations(performance);
+          // Generate content optimizations
+          const optimizations = await this.generateContentOptimizations(performance);
         
-        // Apply optimizations
-        await this.applyContentOptimizations(optimizations);
+          // Apply optimizations
+          await this.applyContentOptimizations(optimizations);
         
-        // Update templates
-        await this.updateContentTemplates(performance);
-      } catch (error) {
-        await this.handleRecommendationError('content_optimization', error);
+          // Update templates
+          await this.updateContentTemplates(performance);
+        } catch (error) {
+          await this.handleRecommendationError('content_optimization', error);
+          throw error;
+        }
       }
-    }, this.updateInterval);
+    });
   }
 
   public async getHyperPersonalizedRecommendations(userId: string, context: any): Promise<Recommendation[]> {
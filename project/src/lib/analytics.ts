@@ -1,5 +1,7 @@
 import { format } from 'date-fns';
 import { automationService } from './automation';
+import { everyInterval, intervalJitter, schedulerService } from './scheduler';
+import { STANDARD_METRICS, bucketFor, combineSeries, ratio, type SeriesQuery, type TimeBucket } from './timeseries';
 
 export interface AnalyticsMetric {
   timestamp: number;
@@ -7,6 +9,66 @@ export interface AnalyticsMetric {
   metadata?: Record<string, any>;
 }
 
+export interface TrackedEvent {
+  event: string;
+  properties?: Record<string, any>;
+  timestamp: number;
+}
+
+// Where buffered events and metrics go; the browser posts them to the ingestion API, the server writes them straight to the event store
+export interface AnalyticsSink {
+  sendEvents(events: TrackedEvent[]): Promise<void>;
+  sendMetrics(metrics: Record<string, AnalyticsMetric[]>): Promise<void>;
+}
+
+// Where reports read aggregated series from; the browser goes through the query API, the server reads the event store
+export interface AnalyticsSource {
+  series(queries: SeriesQuery[]): Promise<AnalyticsMetric[][]>;
+}
+
+// Act within the organization picked in the UI, as the tRPC client does
+function organizationHeaders(): Record<string, string> {
+  const organizationId = typeof localStorage === 'undefined' ? null : localStorage.getItem('organizationId');
+  return organizationId ? { 'x-organization-id': organizationId } : {};
+}
+
+export class HttpAnalyticsSink implements AnalyticsSink {
+  public async sendEvents(events: TrackedEvent[]): Promise<void> {
+    await this.post('/api/analytics/events', { events });
+  }
+
+  public async sendMetrics(metrics: Record<string, AnalyticsMetric[]>): Promise<void> {
+    await this.post('/api/analytics/metrics', metrics);
+  }
+
+  private async post(url: string, body: unknown): Promise<void> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...organizationHeaders() },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) throw new Error(`Analytics ingestion failed with ${response.status}`);
+  }
+}
+
+export class HttpAnalyticsSource implements AnalyticsSource {
+  public async series(queries: SeriesQuery[]): Promise<AnalyticsMetric[][]> {
+    const input = encodeURIComponent(JSON.stringify({ queries }));
+    const response = await fetch(`/api/trpc/analytics.series?input=${input}`, {
+      headers: organizationHeaders(),
+      credentials: 'include',
+    });
+    if (!response.ok) throw new Error(`Analytics query failed with ${response.status}`);
+    const body = await response.json();
+    return body.result.data;
+  }
+}
+
+// Events are sent in batches of this size, or on the regular flush if fewer are waiting
+const EVENT_BATCH_SIZE = 100;
+// Beyond this, the oldest unsent events are dropped while the sink is unreachable
+const MAX_BUFFERED_EVENTS = 5000;
+
 export interface PerformanceMetrics {
   apiLatency: AnalyticsMetric[];
   errorRates: AnalyticsMetric[];
@@ -86,6 +148,9 @@ interface OptimizationResult {
 class AnalyticsService {
   private static instance: AnalyticsService;
   private metricsBuffer: Map<string, AnalyticsMetric[]>;
+  private eventBuffer: TrackedEvent[] = [];
+  private sink: AnalyticsSink = new HttpAnalyticsSink();
+  private source: AnalyticsSource = new HttpAnalyticsSource();
   private flushInterval: number = 60000;
   private aiModelVersion: string = '2.0.0';
   private readonly automationThresholds = {
@@ -118,13 +183,29 @@ class AnalyticsService {
     return AnalyticsService.instance;
   }
 
+  public useSink(sink: AnalyticsSink) {
+    this.sink = sink;
+  }
+
+  public useSource(source: AnalyticsSource) {
+    this.source = source;
+  }
+
   private startAutoFlush() {
-    setInterval(() => this.flush(), this.flushInterval);
+    schedulerService.registerJob({
+      name: 'analytics.flush',
+      schedule: everyInterval(this.flushInterval),
+      jitterMs: intervalJitter(this.flushInterval),
+      handler: () => this.flush()
+    });
   }
 
   private startAutomatedOptimization() {
-    setInterval(async () => {
-      try {
+    schedulerService.registerJob({
+      name: 'analytics.automated-optimization',
+      schedule: '*/15 * * * *',
+      jitterMs: 60 * 1000,
+      handler: async () => {
         const suggestions = await this.getOptimizationSuggestions();
         const automatedSuggestions = suggestions.filter(suggestion => 
           suggestion.confidence >= 0.85 && suggestion.potentialValue > 10000
@@ -133,10 +214,8 @@ class AnalyticsService {
         for (const suggestion of automatedSuggestions) {
           await this.implementOptimization(suggestion);
         }
-      } catch (error) {
-        console.error('Automated optimization error:', error instanceof Error ? error.message : 'Unknown error');
       }
-    }, 15 * 60 * 1000); // Every 15 minutes
+    });
   }
 
   private async implementOptimization(suggestion: OptimizationSuggestion) {
@@ -187,18 +266,37 @@ class AnalyticsService {
     };
   }
 
-  private async flush() {
+  public async flush() {
+    await Promise.all([this.flushEvents(), this.flushMetrics()]);
+  }
+
+  private async flushEvents() {
+    if (this.eventBuffer.length === 0) return;
+
+    const batch = this.eventBuffer.splice(0, EVENT_BATCH_SIZE);
+    try {
+      await this.sink.sendEvents(batch);
+    } catch (error) {
+      // Put the batch back for the next flush
+      this.eventBuffer = [...batch, ...this.eventBuffer].slice(-MAX_BUFFERED_EVENTS);
+      console.error('Failed to flush events:', error instanceof Error ? error.message : 'Unknown error');
+      return;
+    }
+    if (this.eventBuffer.length >= EVENT_BATCH_SIZE) await this.flushEvents();
+  }
+
+  private async flushMetrics() {
     if (this.metricsBuffer.size === 0) return;
 
+    const metrics = Object.fromEntries(this.metricsBuffer);
+    this.metricsBuffer = new Map();
     try {
-      const metrics = Object.fromEntries(this.metricsBuffer);
-      await fetch('/api/analytics/metrics', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(metrics),
-      });
-      this.metricsBuffer.clear();
+      await this.sink.sendMetrics(metrics);
     } catch (error) {
+      // Merge the unsent metrics back ahead of any tracked since
+      for (const [name, values] of Object.entries(metrics)) {
+        this.metricsBuffer.set(name, [...values, ...(this.metricsBuffer.get(name) ?? [])]);
+      }
       console.error('Failed to flush metrics:', error instanceof Error ? error.message : 'Unknown error');
     }
   }
@@ -217,13 +315,20 @@ class AnalyticsService {
     this.metricsBuffer.set(name, [...currentMetrics, metric]);
   }
 
-  public async getPerformanceMetrics(startDate: Date, endDate: Date): Promise<PerformanceMetrics> {
+  public async getPerformanceMetrics(startDate: Date, endDate: Date, bucket?: TimeBucket): Promise<PerformanceMetrics> {
     try {
+      const [requestVolume, errors, apiLatency] = await this.querySeries(startDate, endDate, bucket, [
+        { name: STANDARD_METRICS.apiRequest, type: 'event', aggregation: 'sum' },
+        { name: STANDARD_METRICS.apiError, type: 'event', aggregation: 'sum' },
+        { name: STANDARD_METRICS.apiLatency, type: 'metric', aggregation: 'avg' }
+      ]);
+      const errorRates = combineSeries(errors, requestVolume, ratio);
+
       return {
-        apiLatency: this.generateMockTimeSeriesData(startDate, endDate, 100, 500),
-        errorRates: this.generateMockTimeSeriesData(startDate, endDate, 0, 0.02),
-        requestVolume: this.generateMockTimeSeriesData(startDate, endDate, 1000, 5000),
-        successRates: this.generateMockTimeSeriesData(startDate, endDate, 0.95, 1),
+        apiLatency,
+        errorRates,
+        requestVolume,
+        successRates: errorRates.map(point => ({ ...point, value: 1 - point.value })),
         campaigns: this.generateMockCampaigns()
       };
     } catch (error) {
@@ -239,13 +344,22 @@ class AnalyticsService {
     }
   }
 
-  public async getSalesMetrics(startDate: Date, endDate: Date): Promise<SalesMetrics> {
+  public async getSalesMetrics(startDate: Date, endDate: Date, bucket?: TimeBucket): Promise<SalesMetrics> {
     try {
+      const [purchases, sessions, revenue, spend, acquired, customerLifetimeValue] = await this.querySeries(startDate, endDate, bucket, [
+        { name: STANDARD_METRICS.purchaseCompleted, type: 'event', aggregation: 'sum' },
+        { name: STANDARD_METRICS.sessionStarted, type: 'event', aggregation: 'sum' },
+        { name: STANDARD_METRICS.revenue, type: 'metric', aggregation: 'sum' },
+        { name: STANDARD_METRICS.marketingSpend, type: 'metric', aggregation: 'sum' },
+        { name: STANDARD_METRICS.customerAcquired, type: 'event', aggregation: 'sum' },
+        { name: STANDARD_METRICS.customerLifetimeValue, type: 'metric', aggregation: 'avg' }
+      ]);
+
       return {
-        conversionRate: this.generateMockTimeSeriesData(startDate, endDate, 0.01, 0.1),
-        revenue: this.generateMockTimeSeriesData(startDate, endDate, 10000, 50000),
-        customerAcquisitionCost: this.generateMockTimeSeriesData(startDate, endDate, 50, 200),
-        customerLifetimeValue: this.generateMockTimeSeriesData(startDate, endDate, 1000, 5000),
+        conversionRate: combineSeries(purchases, sessions, ratio),
+        revenue,
+        customerAcquisitionCost: combineSeries(spend, acquired, ratio),
+        customerLifetimeValue,
         pipeline: this.generateMockSalesPipeline()
       };
     } catch (error) {
@@ -285,13 +399,22 @@ class AnalyticsService {
     }
   }
 
-  public async getBusinessMetrics(startDate: Date, endDate: Date): Promise<BusinessMetrics> {
+  public async getBusinessMetrics(startDate: Date, endDate: Date, bucket?: TimeBucket): Promise<BusinessMetrics> {
     try {
+      const [revenue, costOfGoods, operatingExpenses, cashFlow] = await this.querySeries(startDate, endDate, bucket, [
+        { name: STANDARD_METRICS.revenue, type: 'metric', aggregation: 'sum' },
+        { name: STANDARD_METRICS.costOfGoodsSold, type: 'metric', aggregation: 'sum' },
+        { name: STANDARD_METRICS.operatingExpense, type: 'metric', aggregation: 'sum' },
+        { name: STANDARD_METRICS.cashFlow, type: 'metric', aggregation: 'sum' }
+      ]);
+      const grossProfit = combineSeries(revenue, costOfGoods, (income, cost) => income - cost);
+      const netProfit = combineSeries(grossProfit, operatingExpenses, (profit, expenses) => profit - expenses);
+
       return {
-        grossMargin: this.generateMockTimeSeriesData(startDate, endDate, 0.3, 0.5),
-        operatingExpenses: this.generateMockTimeSeriesData(startDate, endDate, 5000, 20000),
-        netProfitMargin: this.generateMockTimeSeriesData(startDate, endDate, 0.1, 0.3),
-        cashFlow: this.generateMockTimeSeriesData(startDate, endDate, -5000, 15000)
+        grossMargin: combineSeries(grossProfit, revenue, ratio),
+        operatingExpenses,
+        netProfitMargin: combineSeries(netProfit, revenue, ratio),
+        cashFlow
       };
     } catch (error) {
       console.error('Error getting business metrics:', error instanceof Error ? error.message : 'Unknown error');
@@ -304,12 +427,13 @@ class AnalyticsService {
     }
   }
 
-  public async getUserBehaviorMetrics(startDate: Date, endDate: Date) {
+  public async getUserBehaviorMetrics(startDate: Date, endDate: Date, bucket?: TimeBucket) {
     try {
-      return {
-        userRetention: this.generateMockTimeSeriesData(startDate, endDate, 60, 90),
-        sessionDuration: this.generateMockTimeSeriesData(startDate, endDate, 120, 300)
-      };
+      const [userRetention, sessionDuration] = await this.querySeries(startDate, endDate, bucket, [
+        { name: STANDARD_METRICS.userRetention, type: 'metric', aggregation: 'avg' },
+        { name: STANDARD_METRICS.sessionDuration, type: 'metric', aggregation: 'avg' }
+      ]);
+      return { userRetention, sessionDuration };
     } catch (error) {
       console.error('Error getting user behavior metrics:', error instanceof Error ? error.message : 'Unknown error');
       return {
@@ -365,17 +489,16 @@ class AnalyticsService {
     }
   }
 
-  private generateMockTimeSeriesData(startDate: Date, endDate: Date, min: number, max: number): AnalyticsMetric[] {
-    try {
-      const days = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-      return Array.from({ length: Math.max(1, days) }, (_, i) => ({
-        timestamp: startDate.getTime() + i * 24 * 60 * 60 * 1000,
-        value: min + Math.random() * (max - min)
-      }));
-    } catch (error) {
-      console.error('Error generating mock data:', error instanceof Error ? error.message : 'Unknown error');
-      return [{ timestamp: Date.now(), value: 0 }];
-    }
+  // The bucket defaults to one that suits the length of the range
+  private querySeries(
+    startDate: Date,
+    endDate: Date,
+    bucket: TimeBucket | undefined,
+    series: Omit<SeriesQuery, 'from' | 'to' | 'bucket'>[]
+  ): Promise<AnalyticsMetric[][]> {
+    const from = startDate.getTime();
+    const to = endDate.getTime();
+    return this.source.series(series.map(query => ({ ...query, from, to, bucket: bucket ?? bucketFor(from, to) })));
   }
 
   private generateMockCampaigns() {
@@ -429,19 +552,9 @@ class AnalyticsService {
   }
 
   public async trackEvent(eventName: string, properties?: Record<string, any>) {
-    try {
-      await fetch('/api/analytics/events', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          event: eventName,
-          properties,
-          timestamp: Date.now()
-        }),
-      });
-    } catch (error) {
-      console.error('Failed to track event:', error instanceof Error ? error.message : 'Unknown error');
-    }
+    this.eventBuffer.push({ event: eventName, properties, timestamp: Date.now() });
+    if (this.eventBuffer.length > MAX_BUFFERED_EVENTS) this.eventBuffer.shift();
+    if (this.eventBuffer.length >= EVENT_BATCH_SIZE) await this.flushEvents();
   }
 
   // Helper methods for optimization
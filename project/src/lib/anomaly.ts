@@ -0,0 +1,134 @@
+export const ANOMALY_SEVERITIES = ['low', 'medium', 'high'] as const;
+export type AnomalySeverity = typeof ANOMALY_SEVERITIES[number];
+
+// Minimum z-score for each severity
+export const SEVERITY_Z_SCORES: Record<AnomalySeverity, number> = {
+  low: 3,
+  medium: 4,
+  high: 6,
+};
+
+// Buckets a detector can watch; minutes are too noisy to have a weekly pattern worth learning
+export const DETECTOR_BUCKETS = ['hour', 'day'] as const;
+export type DetectorBucket = typeof DETECTOR_BUCKETS[number];
+
+// Exponentially weighted mean and variance of the values seen so far
+export interface Baseline {
+  count: number;
+  mean: number;
+  variance: number;
+}
+
+export interface DetectorState {
+  rolling: Baseline;
+  // Keyed by seasonalSlot, so Monday 09:00 is compared with earlier Mondays at 09:00
+  seasonal: Record<string, Baseline>;
+}
+
+export interface DetectorOptions {
+  alpha: number;
+  // Each slot only sees one value a week, so it has to adapt faster than the rolling baseline
+  seasonalAlpha: number;
+  // Values to see before the rolling baseline is trusted
+  warmup: number;
+  // Weeks to see before a slot's own baseline is trusted over the rolling one
+  seasonalWarmup: number;
+}
+
+export const DEFAULT_DETECTOR_OPTIONS: DetectorOptions = {
+  alpha: 0.1,
+  seasonalAlpha: 0.3,
+  warmup: 24,
+  seasonalWarmup: 3,
+};
+
+export interface AnomalyScore {
+  value: number;
+  expected: number;
+  stdDev: number;
+  zScore: number;
+  severity: AnomalySeverity;
+  direction: 'spike' | 'drop';
+  baseline: 'seasonal' | 'rolling';
+  slot: string;
+}
+
+// Deviations within this fraction of the mean are never surprising, however steady the series has been
+const RELATIVE_NOISE_FLOOR = 0.05;
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export function createDetectorState(): DetectorState {
+  return { rolling: { count: 0, mean: 0, variance: 0 }, seasonal: {} };
+}
+
+// Hour of the week for hourly series, day of the week for daily ones, in UTC
+export function seasonalSlot(timestamp: number, bucket: DetectorBucket): string {
+  const date = new Date(timestamp);
+  const day = WEEKDAYS[date.getUTCDay()];
+  return bucket === 'hour' ? `${day} ${String(date.getUTCHours()).padStart(2, '0')}:00 UTC` : day;
+}
+
+function update(baseline: Baseline, value: number, alpha: number): void {
+  // The first value seeds the mean instead of being averaged with zero
+  if (baseline.count === 0) {
+    baseline.mean = value;
+  } else {
+    const diff = value - baseline.mean;
+    const increment = alpha * diff;
+    baseline.mean += increment;
+    baseline.variance = (1 - alpha) * (baseline.variance + diff * increment);
+  }
+  baseline.count++;
+}
+
+export function severityFor(zScore: number): AnomalySeverity | null {
+  const magnitude = Math.abs(zScore);
+  return [...ANOMALY_SEVERITIES].reverse().find(severity => magnitude >= SEVERITY_Z_SCORES[severity]) ?? null;
+}
+
+// Scores a value against what was expected, then learns from it; updates state in place.
+// Returns null for unremarkable values and while the detector is still warming up.
+export function observe(
+  state: DetectorState,
+  timestamp: number,
+  value: number,
+  bucket: DetectorBucket,
+  options: DetectorOptions = DEFAULT_DETECTOR_OPTIONS
+): AnomalyScore | null {
+  const slot = seasonalSlot(timestamp, bucket);
+  const seasonal = state.seasonal[slot] ?? (state.seasonal[slot] = { count: 0, mean: 0, variance: 0 });
+
+  const baseline = seasonal.count >= options.seasonalWarmup ? 'seasonal' as const
+    : state.rolling.count >= options.warmup ? 'rolling' as const
+    : null;
+
+  let score: AnomalyScore | null = null;
+  if (baseline) {
+    const { mean, variance } = baseline === 'seasonal' ? seasonal : state.rolling;
+    const stdDev = Math.max(Math.sqrt(variance), Math.abs(mean) * RELATIVE_NOISE_FLOOR);
+    const zScore = stdDev > 0 ? (value - mean) / stdDev : 0;
+    const severity = severityFor(zScore);
+    if (severity) {
+      score = { value, expected: mean, stdDev, zScore, severity, direction: zScore > 0 ? 'spike' : 'drop', baseline, slot };
+    }
+  }
+
+  update(state.rolling, value, options.alpha);
+  update(seasonal, value, options.seasonalAlpha);
+  return score;
+}
+
+function round(value: number): string {
+  return Number(value.toPrecision(3)).toLocaleString('en-US');
+}
+
+// One line for alerts, e.g. "api_latency (hourly avg) was 480, 5.2σ above the usual 120 for Monday 14:00 UTC"
+export function explain(metric: string, aggregation: string, bucket: DetectorBucket, score: AnomalyScore): string {
+  const series = `${metric} (${bucket === 'hour' ? 'hourly' : 'daily'} ${aggregation})`;
+  const sigma = `${Math.abs(score.zScore).toFixed(1)}σ ${score.direction === 'spike' ? 'above' : 'below'}`;
+  const expected = score.baseline === 'seasonal'
+    ? `the usual ${round(score.expected)} for ${score.slot}`
+    : `the recent average of ${round(score.expected)}`;
+  return `${series} was ${round(score.value)}, ${sigma} ${expected}`;
+}
@@ -2,6 +2,7 @@ import { analyticsService } from './analytics';
 import { stripe } from './stripe';
 import { trpc } from './trpc';
 import { format } from 'date-fns';
+import { everyInterval, schedulerService } from './scheduler';
 
 interface AutomationConfig {
   safetyThresholds: {
@@ -19,6 +20,7 @@ interface AutomationConfig {
 class AutomationService {
   private static instance: AutomationService;
   private activeChanges: Set<string>;
+  private monitoredChanges = 0;
   private changeHistory: Map<string, any[]>;
   private config: AutomationConfig = {
     safetyThresholds: {
@@ -56,8 +58,10 @@ class AutomationService {
   }
 
   private async startPerformanceOptimization() {
-    setInterval(async () => {
-      try {
+    schedulerService.registerJob({
+      name: 'automation.performance-optimization',
+      schedule: '*/5 * * * *',
+      handler: async () => {
         const metrics = await analyticsService.getPerformanceMetrics(
           new Date(Date.now() - 24 * 60 * 60 * 1000),
           new Date()
@@ -66,15 +70,15 @@ class AutomationService {
         if (this.shouldOptimizePerformance(metrics)) {
           await this.implementPerformanceOptimizations(metrics);
         }
-      } catch (error) {
-        console.error('Performance optimization error:', error instanceof Error ? error.message : 'Unknown error');
       }
-    }, 5 * 60 * 1000); // Every 5 minutes
+    });
   }
 
   private async startSalesOptimization() {
-    setInterval(async () => {
-      try {
+    schedulerService.registerJob({
+      name: 'automation.sales-optimization',
+      schedule: '*/15 * * * *',
+      handler: async () => {
         const metrics = await analyticsService.getSalesMetrics(
           new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
           new Date()
@@ -83,15 +87,15 @@ class AutomationService {
         if (this.shouldOptimizeSales(metrics)) {
           await this.implementSalesOptimizations(metrics);
         }
-      } catch (error) {
-        console.error('Sales optimization error:', error instanceof Error ? error.message : 'Unknown error');
       }
-    }, 15 * 60 * 1000); // Every 15 minutes
+    });
   }
 
   private async startUserExperienceOptimization() {
-    setInterval(async () => {
-      try {
+    schedulerService.registerJob({
+      name: 'automation.user-experience-optimization',
+      schedule: '*/30 * * * *',
+      handler: async () => {
         const metrics = await analyticsService.getUserBehaviorMetrics(
           new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
           new Date()
@@ -100,15 +104,15 @@ class AutomationService {
         if (this.shouldOptimizeUserExperience(metrics)) {
           await this.implementUserExperienceOptimizations(metrics);
         }
-      } catch (error) {
-        console.error('UX optimization error:', error instanceof Error ? error.message : 'Unknown error');
       }
-    }, 30 * 60 * 1000); // Every 30 minutes
+    });
   }
 
   private async startCostOptimization() {
-    setInterval(async () => {
-      try {
+    schedulerService.registerJob({
+      name: 'automation.cost-optimization',
+      schedule: '0 * * * *',
+      handler: async () => {
         const metrics = await analyticsService.getBusinessMetrics(
           new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
           new Date()
@@ -117,20 +121,18 @@ class AutomationService {
         if (this.shouldOptimizeCosts(metrics)) {
           await this.implementCostOptimizations(metrics);
         }
-      } catch (error) {
-        console.error('Cost optimization error:', error instanceof Error ? error.message : 'Unknown error');
       }
-    }, 60 * 60 * 1000); // Every hour
+    });
   }
 
   private async startSecurityMonitoring() {
-    setInterval(async () => {
-      try {
+    schedulerService.registerJob({
+      name: 'automation.security-monitoring',
+      schedule: '*/10 * * * *',
+      handler: async () => {
         await this.performSecurityAudit();
-      } catch (error) {
-        console.error('Security monitoring error:', error instanceof Error ? error.message : 'Unknown error');
       }
-    }, 10 * 60 * 1000); // Every 10 minutes
+    });
   }
 
   public async implementChange(change: any): Promise<boolean> {
@@ -339,20 +341,25 @@ class AutomationService {
     }
   }
 
+  // Checks an applied change every minute and rolls it back, ending the check, once it stops looking healthy
   private async monitorChange(change: any) {
-    const monitoringInterval = setInterval(async () => {
-      try {
-        const metrics = await this.getChangeMetrics(change);
-        if (!this.isChangeSuccessful(metrics)) {
-          await this.rollbackChange(change);
-          clearInterval(monitoringInterval);
+    const name = `automation.change-monitor.${++this.monitoredChanges}`;
+    schedulerService.registerJob({
+      name,
+      schedule: everyInterval(60000),
+      description: 'Roll back an applied change if its metrics degrade',
+      handler: async () => {
+        let healthy = false;
+        try {
+          healthy = this.isChangeSuccessful(await this.getChangeMetrics(change));
+        } finally {
+          if (!healthy) {
+            schedulerService.unregisterJob(name);
+            await this.rollbackChange(change);
+          }
         }
-      } catch (error) {
-        console.error('Change monitoring error:', error instanceof Error ? error.message : 'Unknown error');
-        await this.rollbackChange(change);
-        clearInterval(monitoringInterval);
       }
-    }, 60000); // Monitor every minute
+    });
   }
 
   private calculateAverage(metrics: any[]): number {
@@ -0,0 +1,100 @@
+import {
+  type Address,
+  type Parcel,
+  type ShippingLabel,
+  type ShippingRate,
+  type TrackingEvent,
+  type TrackingStatus
+} from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Each real carrier (UPS, DHL, ...) gets an adapter implementing this
+export interface CarrierAdapter {
+  readonly name: string;
+  getRates(origin: Address, destination: Address, parcel: Parcel): Promise<ShippingRate[]>;
+  purchaseLabel(origin: Address, destination: Address, parcel: Parcel, service: string): Promise<ShippingLabel>;
+  getTrackingEvents(trackingNumber: string): Promise<TrackingEvent[]>;
+}
+
+interface LocalService {
+  base: number;
+  perKg: number;
+  days: number;
+}
+
+const LOCAL_SERVICES: Record<string, LocalService> = {
+  standard: { base: 5, perKg: 1.5, days: 5 },
+  express: { base: 12, perKg: 3, days: 2 }
+};
+
+// In-process carrier for development and tests; tracking only moves when `advance` is called
+export class LocalCarrier implements CarrierAdapter {
+  public readonly name = 'local';
+  private events = new Map<string, TrackingEvent[]>();
+  private sequence = 0;
+
+  public async getRates(origin: Address, destination: Address, parcel: Parcel): Promise<ShippingRate[]> {
+    this.assertParcel(parcel);
+    return Object.entries(LOCAL_SERVICES).map(([service, rate]) => this.quote(service, rate, origin, destination, parcel));
+  }
+
+  public async purchaseLabel(
+    origin: Address,
+    destination: Address,
+    parcel: Parcel,
+    service: string
+  ): Promise<ShippingLabel> {
+    this.assertParcel(parcel);
+    const rate = LOCAL_SERVICES[service];
+    if (!rate) throw new Error(`Unknown local carrier service ${service}`);
+
+    const quote = this.quote(service, rate, origin, destination, parcel);
+    const trackingNumber = `LOCAL${Date.now().toString(36).toUpperCase()}${(++this.sequence).toString().padStart(4, '0')}`;
+    this.events.set(trackingNumber, []);
+    this.advance(trackingNumber, 'label_created');
+
+    return {
+      carrier: this.name,
+      service,
+      trackingNumber,
+      cost: quote.cost,
+      labelUrl: `https://labels.local/${trackingNumber}.pdf`,
+      estimatedDelivery: new Date(Date.now() + quote.estimatedDays * DAY_MS)
+    };
+  }
+
+  public async getTrackingEvents(trackingNumber: string): Promise<TrackingEvent[]> {
+    const events = this.events.get(trackingNumber);
+    if (!events) throw new Error(`Unknown tracking number ${trackingNumber}`);
+    return events.map(event => ({ ...event }));
+  }
+
+  // Simulate the parcel moving along
+  public advance(trackingNumber: string, status: TrackingStatus, timestamp = new Date(), location?: string): TrackingEvent {
+    const events = this.events.get(trackingNumber);
+    if (!events) throw new Error(`Unknown tracking number ${trackingNumber}`);
+
+    const event: TrackingEvent = { trackingNumber, status, timestamp, location };
+    events.push(event);
+    return event;
+  }
+
+  private quote(service: string, rate: LocalService, origin: Address, destination: Address, parcel: Parcel): ShippingRate {
+    // International parcels cost double and take twice as long
+    const international = origin.country !== destination.country;
+    const cost = (rate.base + rate.perKg * parcel.weight) * (international ? 2 : 1);
+
+    return {
+      carrier: this.name,
+      service,
+      cost: Math.round(cost * 100) / 100,
+      currency: 'USD',
+      estimatedDays: rate.days * (international ? 2 : 1)
+    };
+  }
+
+  private assertParcel(parcel: Parcel): void {
+    if (!(parcel.weight > 0)) throw new Error(`Invalid parcel weight ${parcel.weight}`);
+  }
+}
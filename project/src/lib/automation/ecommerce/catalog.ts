@@ -0,0 +1,65 @@
+import { type Product, type ProductSearchQuery } from './types';
+import { createStore, type CollectionStore, type StorageDriver } from '../../storage';
+
+export interface ProductRepository {
+  findAll(): Promise<Product[]>;
+  findById(id: string): Promise<Product | null>;
+  search(query: ProductSearchQuery): Promise<Product[]>;
+  save(product: Product): Promise<Product>;
+  delete(id: string): Promise<boolean>;
+}
+
+export class StoreProductRepository implements ProductRepository {
+  constructor(private readonly store: CollectionStore<Product>) {}
+
+  public async findAll(): Promise<Product[]> {
+    return await this.store.list();
+  }
+
+  public async findById(id: string): Promise<Product | null> {
+    return (await this.store.get(id)) ?? null;
+  }
+
+  public async search(query: ProductSearchQuery): Promise<Product[]> {
+    const products = await this.store.list();
+    const matches = products.filter(product => this.matches(product, query));
+    const offset = query.offset ?? 0;
+    return query.limit !== undefined
+      ? matches.slice(offset, offset + query.limit)
+      : matches.slice(offset);
+  }
+
+  public async save(product: Product): Promise<Product> {
+    await this.store.put(product.id, product);
+    return product;
+  }
+
+  public async delete(id: string): Promise<boolean> {
+    return await this.store.delete(id);
+  }
+
+  private matches(product: Product, query: ProductSearchQuery): boolean {
+    if (query.text) {
+      const text = query.text.toLowerCase();
+      const haystack = [product.name, product.description, ...product.tags].join(' ').toLowerCase();
+      if (!haystack.includes(text)) return false;
+    }
+
+    if (query.category && product.category !== query.category) return false;
+    if (query.subcategory && product.subcategory !== query.subcategory) return false;
+    if (query.tags && !query.tags.every(tag => product.tags.includes(tag))) return false;
+    if (query.minPrice !== undefined && product.price < query.minPrice) return false;
+    if (query.maxPrice !== undefined && product.price > query.maxPrice) return false;
+    if (query.sku && !product.variants.some(variant => variant.sku === query.sku)) return false;
+
+    return true;
+  }
+}
+
+export function createProductRepository(driver?: StorageDriver): ProductRepository {
+  return new StoreProductRepository(createStore<Product>('catalog', driver));
+}
+
+export function createInMemoryProductRepository(): ProductRepository {
+  return createProductRepository('memory');
+}
@@ -0,0 +1,197 @@
+import {
+  type DemandForecast,
+  type ForecastComparison,
+  type ForecastSettings,
+  type InventoryInfo,
+  type Order,
+  type Product
+} from './types';
+import { bucketDailyDemand, calculateSafetyStock, forecastSeries, toDateKey } from './forecasting';
+import { productService } from './product';
+import { orderService } from './order';
+import { inventoryService } from './inventory';
+import { analyticsService } from '../../analytics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_SETTINGS: ForecastSettings = {
+  historyDays: 90,
+  serviceLevel: 0.95,
+  reviewPeriod: 30,
+  movingAverageWindow: 7,
+  seasonLength: 7,
+  smoothing: { alpha: 0.3, beta: 0.05, gamma: 0.2 }
+};
+
+interface ForecastTarget {
+  product: Product;
+  variantId?: string;
+  sku?: string;
+  inventory: InventoryInfo;
+}
+
+class DemandForecastService {
+  private static instance: DemandForecastService;
+  private settings: ForecastSettings = { ...DEFAULT_SETTINGS, smoothing: { ...DEFAULT_SETTINGS.smoothing } };
+
+  private constructor() {}
+
+  public static getInstance(): DemandForecastService {
+    if (!DemandForecastService.instance) {
+      DemandForecastService.instance = new DemandForecastService();
+    }
+    return DemandForecastService.instance;
+  }
+
+  public configure(settings: Partial<ForecastSettings>): ForecastSettings {
+    this.settings = {
+      ...this.settings,
+      ...settings,
+      smoothing: { ...this.settings.smoothing, ...settings.smoothing }
+    };
+    return this.getSettings();
+  }
+
+  public getSettings(): ForecastSettings {
+    return { ...this.settings, smoothing: { ...this.settings.smoothing } };
+  }
+
+  // One forecast per stock-holding unit that has sold
+  public async forecastAll(): Promise<DemandForecast[]> {
+    const orders = await this.listDemandOrders();
+    const forecasts: DemandForecast[] = [];
+
+    for (const product of await productService.getAllProducts()) {
+      for (const target of this.targetsFor(product)) {
+        const forecast = this.forecastTarget(target, orders);
+        if (forecast) forecasts.push(forecast);
+      }
+    }
+
+    return forecasts;
+  }
+
+  public async forecastProduct(productId: string, variantId?: string): Promise<DemandForecast | null> {
+    const target = await this.requireTarget(productId, variantId);
+    return this.forecastTarget(target, await this.listDemandOrders());
+  }
+
+  // Write forecast-driven reorder levels back to the catalog
+  public async recomputeReorderPoints(): Promise<DemandForecast[]> {
+    const forecasts = await this.forecastAll();
+
+    for (const forecast of forecasts) {
+      await inventoryService.updateReorderLevels(forecast.productId, {
+        reorderPoint: forecast.reorderPoint,
+        reorderQuantity: forecast.reorderQuantity
+      }, forecast.variantId);
+    }
+
+    await analyticsService.trackEvent('reorder_points_recomputed', {
+      forecasts: forecasts.length,
+      timestamp: Date.now()
+    });
+
+    return forecasts;
+  }
+
+  // Observed daily demand next to what the model expected, followed by the forecast horizon
+  public async getForecastVsActual(
+    productId: string,
+    variantId?: string,
+    horizonDays = 14
+  ): Promise<ForecastComparison | null> {
+    const target = await this.requireTarget(productId, variantId);
+    const { dates, series } = this.buildSeries(target, await this.listDemandOrders());
+    if (!series.some(units => units > 0)) return null;
+
+    const result = forecastSeries(series, this.settings, horizonDays);
+    const lastDay = Date.parse(dates[dates.length - 1]);
+
+    return {
+      productId,
+      variantId,
+      sku: target.sku,
+      method: result.method,
+      points: [
+        ...dates.map((date, i) => ({ date, actual: series[i], forecast: result.fitted[i] })),
+        ...result.horizon.map((units, h) => ({
+          date: toDateKey(lastDay + (h + 1) * DAY_MS),
+          actual: null,
+          forecast: units
+        }))
+      ],
+      accuracy: result.accuracy
+    };
+  }
+
+  private forecastTarget(target: ForecastTarget, orders: Order[]): DemandForecast | null {
+    const { series } = this.buildSeries(target, orders);
+    // No sales history means no basis for changing reorder levels
+    if (!series.some(units => units > 0)) return null;
+
+    const { leadTime } = target.inventory;
+    const horizonDays = Math.max(1, Math.ceil(leadTime));
+    const result = forecastSeries(series, this.settings, horizonDays);
+
+    const dailyDemand = result.horizon.reduce((sum, units) => sum + units, 0) / horizonDays;
+    const safetyStock = calculateSafetyStock(result.standardDeviation, leadTime, this.settings.serviceLevel);
+
+    return {
+      productId: target.product.id,
+      variantId: target.variantId,
+      sku: target.sku,
+      method: result.method,
+      dailyDemand,
+      standardDeviation: result.standardDeviation,
+      safetyStock,
+      reorderPoint: Math.ceil(dailyDemand * leadTime + safetyStock),
+      reorderQuantity: Math.max(1, Math.ceil(dailyDemand * this.settings.reviewPeriod)),
+      horizon: result.horizon,
+      accuracy: result.accuracy
+    };
+  }
+
+  // Daily units since the first sale; leading zeros from before launch would drag the average down
+  private buildSeries(target: ForecastTarget, orders: Order[]): { dates: string[]; series: number[] } {
+    const sales = orders.flatMap(order => order.items
+      .filter(item => item.productId === target.product.id && (!target.variantId || item.variantId === target.variantId))
+      .map(item => ({ timestamp: new Date(order.timestamps.created).getTime(), quantity: item.quantity }))
+    );
+
+    const { dates, series } = bucketDailyDemand(sales, this.settings.historyDays);
+    const first = series.findIndex(units => units > 0);
+    if (first === -1) return { dates: [], series: [] };
+    return { dates: dates.slice(first), series: series.slice(first) };
+  }
+
+  // Reorder levels live wherever the stock does: on each variant, or on the product if it has none
+  private targetsFor(product: Product): ForecastTarget[] {
+    if (product.variants.length === 0) return [{ product, inventory: product.inventory }];
+
+    return product.variants.map(variant => ({
+      product,
+      variantId: variant.id,
+      sku: variant.sku,
+      inventory: variant.inventory
+    }));
+  }
+
+  // Without a variant this is the whole product's demand, which is still useful on a dashboard
+  private async requireTarget(productId: string, variantId?: string): Promise<ForecastTarget> {
+    const product = await productService.getProduct(productId);
+    if (!product) throw new Error(`Product ${productId} not found`);
+    if (!variantId) return { product, inventory: product.inventory };
+
+    const target = this.targetsFor(product).find(t => t.variantId === variantId);
+    if (!target) throw new Error(`Variant ${variantId} not found`);
+    return target;
+  }
+
+  // Cancelled orders never shipped, so they are not demand we had to serve
+  private async listDemandOrders(): Promise<Order[]> {
+    return (await orderService.listOrders()).filter(order => order.status !== 'cancelled');
+  }
+}
+
+export const demandForecastService = DemandForecastService.getInstance();
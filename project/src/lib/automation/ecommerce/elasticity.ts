@@ -0,0 +1,134 @@
+import { type ElasticityEstimate, type PriceObservation } from './types';
+
+export interface DemandPoint {
+  price: number;
+  demand: number; // purchases per view over the interval
+  weight: number;
+}
+
+export interface PriceSearchBounds {
+  basePrice: number;
+  minPrice: number;
+  maxPrice: number;
+  unitCost?: number;
+  steps?: number;
+}
+
+const MIN_ELASTICITY = -6;
+const MAX_ELASTICITY = -0.05;
+
+// Turn cumulative metric snapshots into per-interval (price, conversion) points.
+// The realized price comes from revenue / purchases so discounts are accounted for.
+export function buildDemandPoints(history: PriceObservation[]): DemandPoint[] {
+  const sorted = [...history].sort((a, b) => a.timestamp - b.timestamp);
+  const points: DemandPoint[] = [];
+
+  for (let i = 1; i < sorted.length; i++) {
+    const prev = sorted[i - 1];
+    const curr = sorted[i];
+    const views = curr.views - prev.views;
+    const purchases = curr.purchases - prev.purchases;
+    const revenue = curr.revenue - prev.revenue;
+
+    // Counter resets or idle intervals carry no demand signal
+    if (views <= 0 || purchases < 0) continue;
+
+    const price = purchases > 0 && revenue > 0 ? revenue / purchases : prev.price;
+    if (price <= 0) continue;
+
+    points.push({
+      price,
+      demand: (purchases + 0.5) / (views + 1),
+      weight: views
+    });
+  }
+
+  return points;
+}
+
+// Weighted least squares fit of ln(demand) = intercept + elasticity * ln(price)
+export function estimateElasticity(points: DemandPoint[]): ElasticityEstimate | null {
+  if (points.length < 2) return null;
+
+  const totalWeight = points.reduce((sum, p) => sum + p.weight, 0);
+  if (totalWeight <= 0) return null;
+
+  const xs = points.map(p => Math.log(p.price));
+  const ys = points.map(p => Math.log(p.demand));
+  const meanX = points.reduce((sum, p, i) => sum + p.weight * xs[i], 0) / totalWeight;
+  const meanY = points.reduce((sum, p, i) => sum + p.weight * ys[i], 0) / totalWeight;
+
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  points.forEach((p, i) => {
+    sxx += p.weight * (xs[i] - meanX) ** 2;
+    sxy += p.weight * (xs[i] - meanX) * (ys[i] - meanY);
+    syy += p.weight * (ys[i] - meanY) ** 2;
+  });
+
+  // Without price variation there is nothing to learn from
+  if (sxx < 1e-9) return null;
+
+  const slope = sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  const residual = points.reduce((sum, p, i) => sum + p.weight * (ys[i] - (intercept + slope * xs[i])) ** 2, 0);
+  const rSquared = syy > 0 ? Math.max(0, 1 - residual / syy) : 0;
+
+  return {
+    elasticity: slope,
+    intercept,
+    rSquared,
+    samples: points.length
+  };
+}
+
+export function clampElasticity(elasticity: number): number {
+  return Math.min(MAX_ELASTICITY, Math.max(MIN_ELASTICITY, elasticity));
+}
+
+// Constant-elasticity demand curve anchored at the current price and demand
+export function projectDemand(elasticity: number, basePrice: number, baseDemand: number, price: number): number {
+  return baseDemand * Math.pow(price / basePrice, elasticity);
+}
+
+export function evaluatePrice(
+  elasticity: number,
+  basePrice: number,
+  baseDemand: number,
+  price: number,
+  unitCost = 0
+) {
+  const sales = projectDemand(elasticity, basePrice, baseDemand, price);
+  return {
+    sales,
+    revenue: price * sales,
+    profit: (price - unitCost) * sales
+  };
+}
+
+// Grid search within the guardrail bounds. Maximizes profit when the unit cost is known,
+// otherwise revenue.
+export function findOptimalPrice(elasticity: number, baseDemand: number, bounds: PriceSearchBounds): number {
+  const steps = bounds.steps ?? 40;
+  const minPrice = Math.min(bounds.minPrice, bounds.maxPrice);
+  const span = bounds.maxPrice - minPrice;
+  const objective = (price: number) => {
+    const result = evaluatePrice(elasticity, bounds.basePrice, baseDemand, price, bounds.unitCost);
+    return bounds.unitCost !== undefined ? result.profit : result.revenue;
+  };
+
+  let bestPrice = minPrice;
+  let bestValue = objective(minPrice);
+  for (let i = 1; i <= steps; i++) {
+    const price = minPrice + (span * i) / steps;
+    const value = objective(price);
+    if (value > bestValue) {
+      bestPrice = price;
+      bestValue = value;
+    }
+  }
+
+  // Round to cents without dropping below the floor
+  return Math.max(Math.ceil(minPrice * 100) / 100, Math.round(bestPrice * 100) / 100);
+}
@@ -0,0 +1,152 @@
+import { type ForecastAccuracy, type ForecastMethod, type ForecastSettings } from './types';
+
+export interface SeriesForecast {
+  method: ForecastMethod;
+  fitted: (number | null)[]; // one-day-ahead forecast for each observed day
+  horizon: number[];
+  standardDeviation: number;
+  accuracy: ForecastAccuracy;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function toDateKey(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+// Units per UTC day for the `days` complete days before `end`
+export function bucketDailyDemand(
+  sales: { timestamp: number; quantity: number }[],
+  days: number,
+  end = Date.now()
+): { dates: string[]; series: number[] } {
+  const endDay = Math.floor(end / DAY_MS);
+  const startDay = endDay - days;
+  const series = new Array<number>(days).fill(0);
+
+  for (const sale of sales) {
+    const day = Math.floor(sale.timestamp / DAY_MS);
+    if (day >= startDay && day < endDay) series[day - startDay] += sale.quantity;
+  }
+
+  const dates = series.map((_, i) => toDateKey((startDay + i) * DAY_MS));
+  return { dates, series };
+}
+
+export function movingAverage(series: number[], window: number, horizon: number): SeriesForecast {
+  const fitted = series.map((_, t) => t >= window ? mean(series.slice(t - window, t)) : null);
+  const recent = series.slice(-window);
+  const level = recent.length > 0 ? mean(recent) : 0;
+
+  return finish('moving_average', series, fitted, new Array<number>(horizon).fill(level));
+}
+
+// Additive Holt-Winters; needs two full seasons to initialise level, trend and seasonal indices
+export function holtWinters(
+  series: number[],
+  seasonLength: number,
+  smoothing: ForecastSettings['smoothing'],
+  horizon: number
+): SeriesForecast | null {
+  if (series.length < seasonLength * 2) return null;
+
+  const { alpha, beta, gamma } = smoothing;
+  const firstSeason = mean(series.slice(0, seasonLength));
+  const secondSeason = mean(series.slice(seasonLength, seasonLength * 2));
+  const seasonal = series.slice(0, seasonLength).map(value => value - firstSeason);
+  let level = firstSeason;
+  let trend = (secondSeason - firstSeason) / seasonLength;
+
+  const fitted: (number | null)[] = series.map(() => null);
+  for (let t = seasonLength; t < series.length; t++) {
+    const s = t % seasonLength;
+    fitted[t] = Math.max(0, level + trend + seasonal[s]);
+
+    const previousLevel = level;
+    level = alpha * (series[t] - seasonal[s]) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    seasonal[s] = gamma * (series[t] - level) + (1 - gamma) * seasonal[s];
+  }
+
+  const forecast = Array.from({ length: horizon }, (_, h) =>
+    Math.max(0, level + (h + 1) * trend + seasonal[(series.length + h) % seasonLength])
+  );
+
+  return finish('holt_winters', series, fitted, forecast);
+}
+
+// Holt-Winters when there is enough history and it actually fits better, otherwise the moving average
+export function forecastSeries(series: number[], settings: ForecastSettings, horizon: number): SeriesForecast {
+  const average = movingAverage(series, settings.movingAverageWindow, horizon);
+  const seasonal = holtWinters(series, settings.seasonLength, settings.smoothing, horizon);
+  if (!seasonal) return average;
+
+  // Compare on the days both methods forecast
+  const from = Math.max(settings.movingAverageWindow, settings.seasonLength);
+  return meanAbsoluteError(series, seasonal.fitted, from) <= meanAbsoluteError(series, average.fitted, from)
+    ? seasonal
+    : average;
+}
+
+// Units to hold back so demand during lead time is covered at the given service level
+export function calculateSafetyStock(standardDeviation: number, leadTime: number, serviceLevel: number): number {
+  return normalQuantile(serviceLevel) * standardDeviation * Math.sqrt(Math.max(leadTime, 0));
+}
+
+// Abramowitz & Stegun 26.2.23, accurate to ~4.5e-4
+export function normalQuantile(p: number): number {
+  if (p <= 0 || p >= 1) throw new Error(`Service level must be between 0 and 1, got ${p}`);
+  if (p < 0.5) return -normalQuantile(1 - p);
+
+  const t = Math.sqrt(-2 * Math.log(1 - p));
+  return t - (2.515517 + 0.802853 * t + 0.010328 * t * t) /
+    (1 + 1.432788 * t + 0.189269 * t * t + 0.001308 * t * t * t);
+}
+
+function finish(
+  method: ForecastMethod,
+  series: number[],
+  fitted: (number | null)[],
+  horizon: number[]
+): SeriesForecast {
+  const residuals = series.flatMap((value, t) => fitted[t] === null ? [] : [value - fitted[t]!]);
+  // Too few residuals to judge the model; fall back to the raw demand spread
+  const standardDeviation = residuals.length >= 2 ? rootMeanSquare(residuals) : standardDeviationOf(series);
+
+  return {
+    method,
+    fitted,
+    horizon,
+    standardDeviation,
+    accuracy: {
+      mae: meanAbsoluteError(series, fitted, 0),
+      mape: meanAbsolutePercentageError(series, fitted)
+    }
+  };
+}
+
+function meanAbsoluteError(series: number[], fitted: (number | null)[], from: number): number {
+  const errors = series.flatMap((value, t) => t < from || fitted[t] === null ? [] : [Math.abs(value - fitted[t]!)]);
+  return errors.length > 0 ? mean(errors) : 0;
+}
+
+function meanAbsolutePercentageError(series: number[], fitted: (number | null)[]): number | null {
+  const errors = series.flatMap((value, t) =>
+    fitted[t] === null || value === 0 ? [] : [Math.abs(value - fitted[t]!) / value]
+  );
+  return errors.length > 0 ? mean(errors) : null;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function rootMeanSquare(values: number[]): number {
+  return Math.sqrt(values.reduce((sum, value) => sum + value * value, 0) / values.length);
+}
+
+function standardDeviationOf(values: number[]): number {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1));
+}
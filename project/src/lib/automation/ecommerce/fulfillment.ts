@@ -0,0 +1,186 @@
+import { type Address, type Order, type Parcel, type ShippingRate, type TrackingEvent } from './types';
+import { type CarrierAdapter, LocalCarrier } from './carriers';
+import { orderService } from './order';
+import { productService } from './product';
+import { analyticsService } from '../../analytics';
+
+// Used for products that have no weight set
+const DEFAULT_UNIT_WEIGHT = 0.5; // kg
+
+class FulfillmentService {
+  private static instance: FulfillmentService;
+  private carriers = new Map<string, CarrierAdapter>();
+  private origin: Address | null = null;
+
+  private constructor() {
+    // Until a real carrier adapter is registered, labels come from the local carrier
+    this.registerCarrier(new LocalCarrier());
+
+    if (process.env.SHIP_FROM_POSTAL_CODE) {
+      this.origin = {
+        street: process.env.SHIP_FROM_STREET || '',
+        city: process.env.SHIP_FROM_CITY || '',
+        state: process.env.SHIP_FROM_STATE || '',
+        country: process.env.SHIP_FROM_COUNTRY || 'US',
+        postalCode: process.env.SHIP_FROM_POSTAL_CODE
+      };
+    }
+  }
+
+  public static getInstance(): FulfillmentService {
+    if (!FulfillmentService.instance) {
+      FulfillmentService.instance = new FulfillmentService();
+    }
+    return FulfillmentService.instance;
+  }
+
+  public registerCarrier(carrier: CarrierAdapter): void {
+    this.carriers.set(carrier.name, carrier);
+  }
+
+  public getCarrier(name: string): CarrierAdapter {
+    const carrier = this.carriers.get(name);
+    if (!carrier) throw new Error(`Carrier ${name} is not registered`);
+    return carrier;
+  }
+
+  public setOrigin(address: Address): void {
+    this.origin = address;
+  }
+
+  public async buildParcel(order: Order): Promise<Parcel> {
+    let weight = 0;
+    for (const item of order.items) {
+      const product = await productService.getProduct(item.productId);
+      weight += (product?.weight ?? DEFAULT_UNIT_WEIGHT) * item.quantity;
+    }
+    return { weight: Math.round(weight * 1000) / 1000 };
+  }
+
+  // Rates from every registered carrier, cheapest first
+  public async quoteRates(destination: Address, parcel: Parcel): Promise<ShippingRate[]> {
+    const origin = this.requireOrigin();
+    const rates: ShippingRate[] = [];
+
+    for (const carrier of this.carriers.values()) {
+      try {
+        rates.push(...await carrier.getRates(origin, destination, parcel));
+      } catch (error) {
+        // One carrier being down should not block checkout
+        console.error(`Rate quote failed for carrier ${carrier.name}:`, error);
+      }
+    }
+
+    return rates.sort((a, b) => a.cost - b.cost);
+  }
+
+  public async quoteOrder(orderId: string): Promise<ShippingRate[]> {
+    const order = await this.requireOrder(orderId);
+    return await this.quoteRates(order.shipping.address, await this.buildParcel(order));
+  }
+
+  public async buyLabel(orderId: string, carrierName: string, service: string): Promise<Order> {
+    const order = await this.requireOrder(orderId);
+    if (order.status !== 'processing') throw new Error(`Cannot ship a ${order.status} order`);
+    if (order.shipping.trackingNumber) throw new Error(`Order ${orderId} already has a label`);
+
+    const carrier = this.getCarrier(carrierName);
+    const label = await carrier.purchaseLabel(
+      this.requireOrigin(),
+      order.shipping.address,
+      await this.buildParcel(order),
+      service
+    );
+
+    const updated = await orderService.updateShipping(orderId, {
+      carrier: label.carrier,
+      method: label.service,
+      trackingNumber: label.trackingNumber,
+      estimatedDelivery: label.estimatedDelivery,
+      cost: label.cost,
+      labelUrl: label.labelUrl,
+      trackingEvents: []
+    });
+
+    await analyticsService.trackEvent('shipping_label_purchased', {
+      orderId,
+      carrier: label.carrier,
+      service: label.service,
+      cost: label.cost,
+      timestamp: Date.now()
+    });
+
+    return updated;
+  }
+
+  // Carrier webhooks and polling both end up here; events already seen are ignored
+  public async ingestTrackingEvent(event: TrackingEvent): Promise<Order | null> {
+    const order = await orderService.findByTrackingNumber(event.trackingNumber);
+    if (!order) return null;
+
+    const timestamp = new Date(event.timestamp);
+    const seen = order.shipping.trackingEvents ?? [];
+    if (seen.some(e => e.status === event.status && new Date(e.timestamp).getTime() === timestamp.getTime())) {
+      return order;
+    }
+
+    await orderService.updateShipping(order.id, { trackingEvents: [...seen, { ...event, timestamp }] });
+
+    switch (event.status) {
+      case 'in_transit':
+      case 'out_for_delivery':
+        if (order.status === 'processing') await orderService.transitionOrder(order.id, 'shipped', timestamp);
+        break;
+      case 'delivered':
+        // A carrier may report delivery without any in-transit scan
+        if (order.status === 'processing') await orderService.transitionOrder(order.id, 'shipped', timestamp);
+        if (order.status === 'processing' || order.status === 'shipped') {
+          await orderService.transitionOrder(order.id, 'delivered', timestamp);
+        }
+        break;
+      case 'exception':
+        await orderService.reportIssue(order.id, event.description ?? `Carrier exception at ${event.location ?? 'unknown location'}`);
+        break;
+    }
+
+    return await orderService.getOrder(order.id);
+  }
+
+  // For carriers without webhooks: pull events for every parcel still on its way
+  public async pollTracking(): Promise<number> {
+    let ingested = 0;
+
+    for (const order of await orderService.listOrders()) {
+      const { trackingNumber, carrier } = order.shipping;
+      if (!trackingNumber || (order.status !== 'processing' && order.status !== 'shipped')) continue;
+
+      const known = order.shipping.trackingEvents?.length ?? 0;
+      try {
+        for (const event of await this.getCarrier(carrier).getTrackingEvents(trackingNumber)) {
+          await this.ingestTrackingEvent(event);
+        }
+      } catch (error) {
+        console.error(`Tracking poll failed for order ${order.id}:`, error);
+        continue;
+      }
+
+      const updated = await orderService.getOrder(order.id);
+      ingested += (updated?.shipping.trackingEvents?.length ?? 0) - known;
+    }
+
+    return ingested;
+  }
+
+  private requireOrigin(): Address {
+    if (!this.origin) throw new Error('Shipping origin is not configured');
+    return this.origin;
+  }
+
+  private async requireOrder(orderId: string): Promise<Order> {
+    const order = await orderService.getOrder(orderId);
+    if (!order) throw new Error(`Order ${orderId} not found`);
+    return order;
+  }
+}
+
+export const fulfillmentService = FulfillmentService.getInstance();
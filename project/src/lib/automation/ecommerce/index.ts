@@ -1,9 +1,14 @@
 import { analyticsService } from '../../analytics';
-import { type Product, type PriceOptimization, type InventoryUpdate, type MarketingAction } from './types';
+import { type Product, type PriceOptimization, type InventoryInfo, type InventoryUpdate, type MarketingAction, type DemandForecast, type ProductMetrics, type Promotion } from './types';
 import { productService } from './product';
 import { pricingService } from './pricing';
-import { inventoryService } from './inventory';
+import { inventoryService, stockKey } from './inventory';
 import { orderService } from './order';
+import { procurementService } from './procurement';
+import { demandForecastService } from './demand';
+import { fulfillmentService } from './fulfillment';
+import { promotionService } from './promotions';
+import { everyInterval, intervalJitter, schedulerService } from '../../scheduler';
 
 class EcommerceAutomationService {
   private static instance: EcommerceAutomationService;
@@ -11,7 +16,14 @@ class EcommerceAutomationService {
     pricing: 900000,    // 15 minutes
     inventory: 300000,  // 5 minutes
     marketing: 1800000, // 30 minutes
-    analytics: 600000   // 10 minutes
+    analytics: 600000,  // 10 minutes
+    tracking: 900000    // 15 minutes
+  };
+  private readonly promotionRules = {
+    minViews: 100,        // below this, conversion rate is mostly noise
+    conversionRate: 0.02, // promote products converting worse than this
+    discount: 10,         // percent
+    duration: 7           // days
   };
 
   private constructor() {
@@ -26,11 +38,12 @@ class EcommerceAutomationService {
   }
 
   private async initializeAutomation() {
-    // Start all automation processes
+    // Register automation jobs; the scheduler runs them once the server starts it
     this.startPricingOptimization();
     this.startInventoryManagement();
     this.startMarketingAutomation();
     this.startAnalyticsTracking();
+    this.startShipmentTracking();
 
     console.log('E-commerce automation system initialized');
   }
@@ -47,8 +60,11 @@ class EcommerceAutomationService {
     return await inventoryService.checkInventoryLevels();
   }
 
-  public async updateInventory(inventory: Record<string, InventoryInfo>): Promise<InventoryUpdate[]> {
-    return await inventoryService.generateInventoryUpdates(inventory);
+  public async updateInventory(
+    inventory: Record<string, InventoryInfo>,
+    dailyDemand: Record<string, number> = {}
+  ): Promise<InventoryUpdate[]> {
+    return await inventoryService.generateInventoryUpdates(inventory, dailyDemand);
   }
 
   public async recoverOperations(): Promise<void> {
@@ -73,84 +89,240 @@ class EcommerceAutomationService {
   }
 
   private startPricingOptimization() {
-    setInterval(async () => {
-      try {
-        // Get current products
-        const products = await this.getAllProducts();
+    schedulerService.registerJob({
+      name: 'ecommerce.pricing-optimization',
+      schedule: everyInterval(this.checkIntervals.pricing),
+      jitterMs: intervalJitter(this.checkIntervals.pricing),
+      handler: async () => {
+        try {
+          // Get current products
+          const products = await this.getAllProducts();
         
-        // Generate optimizations
-        const optimizations = await this.optimizePricing(products);
+          // Generate optimizations
+          const optimizations = await this.optimizePricing(products);
         
-        // Apply price updates
-        await this.applyPriceOptimizations(optimizations);
+          // Apply price updates
+          await this.applyPriceOptimizations(optimizations);
         
-        // Track results
-        await this.trackPricingResults(optimizations);
-      } catch (error) {
-        console.error('Pricing optimization error:', error);
-        await this.handleAutomationError('pricing', error);
+          // Track results
+          await this.trackPricingResults(optimizations);
+        } catch (error) {
+          await this.handleAutomationError('pricing', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.pricing);
+    });
+  }
+
+  private async applyPriceOptimizations(optimizations: PriceOptimization[]) {
+    const { minConfidence } = pricingService.getGuardrails();
+
+    for (const optimization of optimizations) {
+      if (optimization.confidence < minConfidence) continue;
+      await productService.updateProductPrice(optimization.productId, optimization.newPrice);
+    }
+  }
+
+  private async trackPricingResults(optimizations: PriceOptimization[]) {
+    await analyticsService.trackEvent('pricing_optimization_results', {
+      optimizations: optimizations.length,
+      expectedRevenue: optimizations.reduce((sum, o) => sum + o.expectedImpact.revenue, 0),
+      expectedProfit: optimizations.reduce((sum, o) => sum + o.expectedImpact.profit, 0),
+      averageConfidence: optimizations.length > 0
+        ? optimizations.reduce((sum, o) => sum + o.confidence, 0) / optimizations.length
+        : 0,
+      timestamp: Date.now()
+    });
   }
 
   private startInventoryManagement() {
-    setInterval(async () => {
-      try {
-        // Check inventory levels
-        const inventory = await this.checkInventory();
+    schedulerService.registerJob({
+      name: 'ecommerce.inventory-management',
+      schedule: everyInterval(this.checkIntervals.inventory),
+      jitterMs: intervalJitter(this.checkIntervals.inventory),
+      handler: async () => {
+        try {
+          // Refresh reorder levels from the sales forecast
+          const forecasts = await demandForecastService.recomputeReorderPoints();
+
+          // Check inventory levels
+          const inventory = await this.checkInventory();
         
-        // Generate inventory updates
-        const updates = await this.updateInventory(inventory);
+          // Generate inventory updates
+          const updates = await this.updateInventory(inventory, this.stockDemand(forecasts));
         
-        // Apply inventory changes
-        await this.applyInventoryUpdates(updates);
+          // Apply inventory changes
+          await this.applyInventoryUpdates(updates);
         
-        // Track results
-        await this.trackInventoryResults(updates);
-      } catch (error) {
-        console.error('Inventory management error:', error);
-        await this.handleAutomationError('inventory', error);
+          // Track results
+          await this.trackInventoryResults(updates);
+
+          // Raise low-stock alerts per SKU
+          await inventoryService.getLowStockAlerts();
+        } catch (error) {
+          await this.handleAutomationError('inventory', error);
+          throw error;
+        }
+      }
+    });
+  }
+
+  private stockDemand(forecasts: DemandForecast[]): Record<string, number> {
+    const demand: Record<string, number> = {};
+    for (const forecast of forecasts) {
+      demand[stockKey(forecast.productId, forecast.variantId)] = forecast.dailyDemand;
+    }
+    return demand;
+  }
+
+  // Reorders become draft purchase orders; stock only moves when goods are received
+  private async applyInventoryUpdates(updates: InventoryUpdate[]) {
+    return await procurementService.createDraftPurchaseOrders(updates);
+  }
+
+  private async trackInventoryResults(updates: InventoryUpdate[]) {
+    await analyticsService.trackEvent('inventory_management_results', {
+      reorders: updates.length,
+      highPriority: updates.filter(update => update.priority === 'high').length,
+      timestamp: Date.now()
+    });
+  }
+
+  // Carriers without webhooks are polled so orders still move to shipped/delivered
+  private startShipmentTracking() {
+    schedulerService.registerJob({
+      name: 'ecommerce.shipment-tracking',
+      schedule: everyInterval(this.checkIntervals.tracking),
+      jitterMs: intervalJitter(this.checkIntervals.tracking),
+      handler: async () => {
+        try {
+          const events = await fulfillmentService.pollTracking();
+
+          await analyticsService.trackEvent('shipment_tracking_results', {
+            events,
+            timestamp: Date.now()
+          });
+        } catch (error) {
+          await this.handleAutomationError('tracking', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.inventory);
+    });
   }
 
   private startMarketingAutomation() {
-    setInterval(async () => {
-      try {
-        // Analyze product performance
-        const performance = await productService.analyzeProductPerformance();
+    schedulerService.registerJob({
+      name: 'ecommerce.marketing-automation',
+      schedule: everyInterval(this.checkIntervals.marketing),
+      jitterMs: intervalJitter(this.checkIntervals.marketing),
+      handler: async () => {
+        try {
+          // Analyze product performance
+          const performance = await productService.analyzeProductPerformance();
         
-        // Generate marketing actions
-        const actions = await this.generateMarketingActions(performance);
+          // Generate marketing actions
+          const actions = await this.generateMarketingActions(performance);
         
-        // Implement marketing changes
-        await this.implementMarketingActions(actions);
+          // Implement marketing changes
+          await this.implementMarketingActions(actions);
         
-        // Track results
-        await this.trackMarketingResults(actions);
-      } catch (error) {
-        console.error('Marketing automation error:', error);
-        await this.handleAutomationError('marketing', error);
+          // Track results
+          await this.trackMarketingResults(actions);
+        } catch (error) {
+          await this.handleAutomationError('marketing', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.marketing);
+    });
+  }
+
+  // Products that get looked at but rarely bought are the ones a discount can move
+  private async generateMarketingActions(performance: Record<string, ProductMetrics>): Promise<MarketingAction[]> {
+    const { minViews, conversionRate, discount, duration } = this.promotionRules;
+    const actions: MarketingAction[] = [];
+
+    for (const [productId, metrics] of Object.entries(performance)) {
+      if (metrics.views < minViews || metrics.conversionRate >= conversionRate) continue;
+
+      actions.push({
+        type: 'promotion',
+        target: { products: [productId] },
+        parameters: {
+          discount,
+          duration,
+          priority: 1,
+          message: `${discount}% off for ${duration} days`
+        },
+        expectedImpact: {
+          metric: 'conversionRate',
+          improvement: conversionRate - metrics.conversionRate
+        }
+      });
+    }
+
+    return actions;
+  }
+
+  // Promotion actions become automatic promotions; other action types are tracked only
+  private async implementMarketingActions(actions: MarketingAction[]): Promise<Promotion[]> {
+    const live = (await promotionService.listPromotions(true)).filter(promotion => promotion.source === 'automation');
+    const covered = new Set(live.flatMap(promotion => promotion.target.products ?? []));
+    const created: Promotion[] = [];
+
+    for (const action of actions) {
+      if (action.type !== 'promotion' || !action.parameters.discount) continue;
+      // Don't pile a second automated discount onto a product that already has one running
+      if ((action.target.products ?? []).some(productId => covered.has(productId))) continue;
+
+      const startsAt = new Date();
+      const days = action.parameters.duration ?? this.promotionRules.duration;
+      created.push(await promotionService.createPromotion({
+        name: action.parameters.message ?? `${action.parameters.discount}% off`,
+        type: 'percentage',
+        value: action.parameters.discount,
+        target: action.target,
+        // Automated discounts never combine with coupons, which keeps margins predictable
+        stacking: 'exclusive',
+        priority: action.parameters.priority ?? 0,
+        startsAt,
+        endsAt: new Date(startsAt.getTime() + days * 24 * 60 * 60 * 1000),
+        source: 'automation'
+      }));
+      (action.target.products ?? []).forEach(productId => covered.add(productId));
+    }
+
+    return created;
+  }
+
+  private async trackMarketingResults(actions: MarketingAction[]) {
+    await analyticsService.trackEvent('marketing_automation_results', {
+      actions: actions.length,
+      promotions: actions.filter(action => action.type === 'promotion').length,
+      timestamp: Date.now()
+    });
   }
 
   private startAnalyticsTracking() {
-    setInterval(async () => {
-      try {
-        // Track key metrics
-        await this.trackEcommerceMetrics();
+    schedulerService.registerJob({
+      name: 'ecommerce.analytics-tracking',
+      schedule: everyInterval(this.checkIntervals.analytics),
+      jitterMs: intervalJitter(this.checkIntervals.analytics),
+      handler: async () => {
+        try {
+          // Track key metrics
+          await this.trackEcommerceMetrics();
         
-        // Generate insights
-        const insights = await this.generateInsights();
+          // Generate insights
+          const insights = await this.generateInsights();
         
-        // Apply optimizations
-        await this.implementOptimizations(insights);
-      } catch (error) {
-        console.error('Analytics tracking error:', error);
-        await this.handleAutomationError('analytics', error);
+          // Apply optimizations
+          await this.implementOptimizations(insights);
+        } catch (error) {
+          await this.handleAutomationError('analytics', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.analytics);
+    });
   }
 
   private async handleAutomationError(type: string, error: any) {
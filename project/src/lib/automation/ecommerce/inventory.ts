@@ -1,8 +1,43 @@
-import { type Product, type InventoryUpdate, type InventoryInfo } from './types';
+import {
+  type InventoryUpdate,
+  type InventoryInfo,
+  type LowStockAlert,
+  type OrderItem,
+  type Product,
+  type StockLevel
+} from './types';
+import { productService } from './product';
 import { analyticsService } from '../../analytics';
 
+export class InsufficientStockError extends Error {
+  constructor(
+    public readonly productId: string,
+    public readonly requested: number,
+    public readonly available: number,
+    public readonly variantId?: string
+  ) {
+    super(`Insufficient stock for ${describeStock(productId, variantId)}: requested ${requested}, available ${available}`);
+    this.name = 'InsufficientStockError';
+  }
+}
+
+// Stock is held per variant where a product has them, otherwise on the product itself
+export function stockKey(productId: string, variantId?: string): string {
+  return variantId ? `${productId}:${variantId}` : productId;
+}
+
+export function parseStockKey(key: string): { productId: string; variantId?: string } {
+  const [productId, variantId] = key.split(':');
+  return variantId ? { productId, variantId } : { productId };
+}
+
+function describeStock(productId: string, variantId?: string): string {
+  return variantId ? `variant ${variantId} of product ${productId}` : `product ${productId}`;
+}
+
 class InventoryService {
   private static instance: InventoryService;
+  private stockLock: Promise<unknown> = Promise.resolve();
 
   private constructor() {}
 
@@ -13,25 +48,43 @@ class InventoryService {
     return InventoryService.instance;
   }
 
+  public async listStockLevels(): Promise<StockLevel[]> {
+    return (await productService.getAllProducts()).flatMap(product => this.stockLevelsFor(product));
+  }
+
+  // Keyed by stockKey, so variants are checked individually
   public async checkInventoryLevels(): Promise<Record<string, InventoryInfo>> {
-    // Implementation for inventory level checking
-    return {};
+    const levels: Record<string, InventoryInfo> = {};
+    for (const level of await this.listStockLevels()) {
+      levels[stockKey(level.productId, level.variantId)] = level.inventory;
+    }
+    return levels;
+  }
+
+  public async getStockBySku(sku: string): Promise<StockLevel | null> {
+    const match = await productService.getProductBySku(sku);
+    if (!match) return null;
+
+    const { product, variant } = match;
+    return { productId: product.id, variantId: variant.id, sku: variant.sku, inventory: variant.inventory };
   }
 
+  // dailyDemand comes from the demand forecast, keyed like `inventory`
   public async generateInventoryUpdates(
-    inventory: Record<string, InventoryInfo>
+    inventory: Record<string, InventoryInfo>,
+    dailyDemand: Record<string, number> = {}
   ): Promise<InventoryUpdate[]> {
     const updates: InventoryUpdate[] = [];
 
-    for (const [productId, info] of Object.entries(inventory)) {
+    for (const [key, info] of Object.entries(inventory)) {
       // Check if reorder is needed
       if (this.shouldReorder(info)) {
         updates.push({
-          productId,
+          ...parseStockKey(key),
           oldLevel: info.quantity,
           newLevel: info.quantity + info.reorderQuantity,
           reason: 'Automatic reorder - Low inventory',
-          priority: this.calculatePriority(info),
+          priority: this.calculatePriority(info, dailyDemand[key] ?? 0),
           automated: true
         });
       }
@@ -40,21 +93,215 @@ class InventoryService {
     return updates;
   }
 
-  public async updateInventoryLevel(productId: string, newLevel: number): Promise<void> {
-    // Implementation for updating inventory levels
+  public async getLowStockAlerts(): Promise<LowStockAlert[]> {
+    const alerts: LowStockAlert[] = [];
+
+    for (const level of await this.listStockLevels()) {
+      const available = this.getAvailable(level.inventory);
+      if (available > level.inventory.reorderPoint) continue;
+
+      const alert: LowStockAlert = {
+        productId: level.productId,
+        variantId: level.variantId,
+        sku: level.sku,
+        available,
+        reorderPoint: level.inventory.reorderPoint
+      };
+      alerts.push(alert);
+
+      await analyticsService.trackEvent('inventory_low_stock', { ...alert, timestamp: Date.now() });
+    }
+
+    return alerts;
+  }
+
+  public async updateInventoryLevel(productId: string, newLevel: number, variantId?: string): Promise<void> {
+    if (!Number.isInteger(newLevel) || newLevel < 0) {
+      throw new Error(`Invalid inventory level ${newLevel}`);
+    }
+
+    let oldLevel = 0;
+    await this.withStockLock(() => this.adjust(productId, variantId, info => {
+      oldLevel = info.quantity;
+      return { ...info, quantity: newLevel };
+    }));
+
+    await analyticsService.trackEvent('inventory_level_updated', {
+      productId,
+      variantId,
+      oldLevel,
+      newLevel,
+      timestamp: Date.now()
+    });
+  }
+
+  // Goods physically arrived, e.g. from a purchase order
+  public async receiveStock(productId: string, quantity: number, variantId?: string): Promise<void> {
+    await this.withStockLock(() => this.adjust(productId, variantId, info => ({
+      ...info,
+      quantity: info.quantity + quantity
+    })));
+
+    await analyticsService.trackEvent('inventory_received', {
+      productId,
+      variantId,
+      quantity,
+      timestamp: Date.now()
+    });
+  }
+
+  // Reorder levels are recomputed from the demand forecast; stock counts are left alone
+  public async updateReorderLevels(
+    productId: string,
+    levels: Pick<InventoryInfo, 'reorderPoint' | 'reorderQuantity'>,
+    variantId?: string
+  ): Promise<void> {
+    await this.withStockLock(() => this.adjust(productId, variantId, info => ({ ...info, ...levels })));
+  }
+
+  public getAvailable(info: InventoryInfo): number {
+    return info.quantity - info.reserved;
+  }
+
+  // Reserve stock for every item or none of them
+  public async reserveStock(items: OrderItem[]): Promise<void> {
+    await this.withStockLock(async () => {
+      const quantities = this.aggregate(items);
+
+      for (const [key, quantity] of quantities) {
+        const { productId, variantId } = parseStockKey(key);
+        const product = await productService.getProduct(productId);
+        if (!product) throw new Error(`Product ${productId} not found`);
+
+        const available = this.getAvailable(this.resolveInventory(product, variantId));
+        if (available < quantity) {
+          throw new InsufficientStockError(productId, quantity, available, variantId);
+        }
+      }
+
+      for (const [key, quantity] of quantities) {
+        const { productId, variantId } = parseStockKey(key);
+        await this.adjust(productId, variantId, info => ({ ...info, reserved: info.reserved + quantity }));
+      }
+    });
+
+    await analyticsService.trackEvent('inventory_reserved', {
+      items: items.length,
+      timestamp: Date.now()
+    });
+  }
+
+  public async releaseStock(items: OrderItem[]): Promise<void> {
+    await this.withStockLock(async () => {
+      for (const [key, quantity] of this.aggregate(items)) {
+        const { productId, variantId } = parseStockKey(key);
+        await this.adjust(productId, variantId, info => ({ ...info, reserved: Math.max(0, info.reserved - quantity) }));
+      }
+    });
+
+    await analyticsService.trackEvent('inventory_released', {
+      items: items.length,
+      timestamp: Date.now()
+    });
+  }
+
+  // Reserved units leave the warehouse: both on-hand and reserved counts drop
+  public async commitStock(items: OrderItem[]): Promise<void> {
+    await this.withStockLock(async () => {
+      for (const [key, quantity] of this.aggregate(items)) {
+        const { productId, variantId } = parseStockKey(key);
+        await this.adjust(productId, variantId, info => ({
+          ...info,
+          quantity: Math.max(0, info.quantity - quantity),
+          reserved: Math.max(0, info.reserved - quantity)
+        }));
+      }
+    });
+  }
+
+  // Overwrite reserved counts with what open orders actually hold, keyed by stockKey
+  public async reconcileReservations(expected: Map<string, number>): Promise<string[]> {
+    const corrected: string[] = [];
+
+    await this.withStockLock(async () => {
+      for (const level of await this.listStockLevels()) {
+        const key = stockKey(level.productId, level.variantId);
+        const reserved = expected.get(key) ?? 0;
+        if (level.inventory.reserved !== reserved) {
+          await productService.updateInventory(level.productId, { ...level.inventory, reserved }, level.variantId);
+          corrected.push(key);
+        }
+      }
+    });
+
+    return corrected;
+  }
+
+  private stockLevelsFor(product: Product): StockLevel[] {
+    if (product.variants.length === 0) {
+      return [{ productId: product.id, inventory: product.inventory }];
+    }
+    return product.variants.map(variant => ({
+      productId: product.id,
+      variantId: variant.id,
+      sku: variant.sku,
+      inventory: variant.inventory
+    }));
+  }
+
+  private resolveInventory(product: Product, variantId?: string): InventoryInfo {
+    if (!variantId) {
+      if (product.variants.length > 0) throw new Error(`Product ${product.id} requires a variant`);
+      return product.inventory;
+    }
+
+    const variant = product.variants.find(v => v.id === variantId);
+    if (!variant) throw new Error(`Variant ${variantId} not found`);
+    return variant.inventory;
+  }
+
+  private async adjust(
+    productId: string,
+    variantId: string | undefined,
+    change: (info: InventoryInfo) => InventoryInfo
+  ): Promise<void> {
+    const product = await productService.getProduct(productId);
+    if (!product) throw new Error(`Product ${productId} not found`);
+    await productService.updateInventory(productId, change(this.resolveInventory(product, variantId)), variantId);
+  }
+
+  private aggregate(items: OrderItem[]): Map<string, number> {
+    const quantities = new Map<string, number>();
+    for (const item of items) {
+      const key = stockKey(item.productId, item.variantId);
+      quantities.set(key, (quantities.get(key) ?? 0) + item.quantity);
+    }
+    return quantities;
+  }
+
+  // Stock mutations read-modify-write the catalog, so they must not interleave
+  private withStockLock<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.stockLock.then(task, task);
+    this.stockLock = run.catch(() => undefined);
+    return run;
   }
 
   private shouldReorder(info: InventoryInfo): boolean {
     return info.quantity <= info.reorderPoint;
   }
 
-  private calculatePriority(info: InventoryInfo): 'low' | 'medium' | 'high' {
-    const daysOfStock = (info.quantity - info.reserved) / (info.reorderQuantity / 30);
-    
+  private calculatePriority(info: InventoryInfo, dailyDemand: number): 'low' | 'medium' | 'high' {
+    const available = info.quantity - info.reserved;
+    if (available <= 0) return 'high';
+    // Nothing is selling, so nothing is about to run out
+    if (dailyDemand <= 0) return 'low';
+
+    const daysOfStock = available / dailyDemand;
+
     if (daysOfStock <= info.leadTime) return 'high';
     if (daysOfStock <= info.leadTime * 2) return 'medium';
     return 'low';
   }
 }
 
-export const inventoryService = InventoryService.getInstance();
\ No newline at end of file
+export const inventoryService = InventoryService.getInstance();
@@ -0,0 +1,42 @@
+import { type OrderStatus, type OrderTimestamps } from './types';
+
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['processing', 'cancelled'],
+  processing: ['shipped', 'cancelled', 'refunded'],
+  shipped: ['delivered', 'refunded'],
+  delivered: ['refunded'],
+  cancelled: [],
+  refunded: []
+};
+
+export const STATUS_TIMESTAMPS: Partial<Record<OrderStatus, keyof OrderTimestamps>> = {
+  processing: 'processed',
+  shipped: 'shipped',
+  delivered: 'delivered',
+  cancelled: 'cancelled',
+  refunded: 'refunded'
+};
+
+// Stock stays reserved until the order ships or is abandoned
+export const RESERVING_STATUSES: OrderStatus[] = ['pending', 'processing'];
+
+export class InvalidOrderTransitionError extends Error {
+  constructor(public readonly from: OrderStatus, public readonly to: OrderStatus) {
+    super(`Invalid order transition from ${from} to ${to}`);
+    this.name = 'InvalidOrderTransitionError';
+  }
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from].includes(to);
+}
+
+export function assertTransition(from: OrderStatus, to: OrderStatus): void {
+  if (!canTransition(from, to)) {
+    throw new InvalidOrderTransitionError(from, to);
+  }
+}
+
+export function holdsReservation(status: OrderStatus): boolean {
+  return RESERVING_STATUSES.includes(status);
+}
@@ -1,12 +1,17 @@
-import { type Order, type OrderStatus } from './types';
+import { type Order, type OrderStatus, type ShippingInfo } from './types';
+import { assertTransition, holdsReservation, STATUS_TIMESTAMPS } from './lifecycle';
+import { inventoryService, stockKey } from './inventory';
+import { productService } from './product';
+import { promotionService } from './promotions';
+import { createStore, type CollectionStore } from '../../storage';
 import { analyticsService } from '../../analytics';
 
 class OrderService {
   private static instance: OrderService;
-  private orders: Map<string, Order>;
+  private orders: CollectionStore<Order>;
 
   private constructor() {
-    this.orders = new Map();
+    this.orders = createStore<Order>('orders');
   }
 
   public static getInstance(): OrderService {
@@ -16,16 +21,45 @@ class OrderService {
     return OrderService.instance;
   }
 
+  public useStore(store: CollectionStore<Order>): void {
+    this.orders = store;
+  }
+
+  public async getOrder(orderId: string): Promise<Order | null> {
+    return (await this.orders.get(orderId)) ?? null;
+  }
+
+  public async listOrders(status?: OrderStatus): Promise<Order[]> {
+    const orders = await this.orders.list();
+    return status ? orders.filter(order => order.status === status) : orders;
+  }
+
   public async processOrder(order: Order): Promise<void> {
+    let recorded = false;
+    let reserved = false;
+
     try {
       // Validate order
       await this.validateOrder(order);
 
-      // Process payment
-      await this.processPayment(order);
+      // Price promotions into the line items
+      await this.applyPromotions(order);
 
-      // Update inventory
+      // Record the order and hold its stock
+      await this.orders.put(order.id, {
+        ...order,
+        status: 'pending',
+        timestamps: { ...order.timestamps, created: order.timestamps.created ?? new Date() }
+      });
+      recorded = true;
       await this.updateInventory(order);
+      reserved = true;
+      if (order.promotions?.length) {
+        await promotionService.redeem(order.id, order.customerId, order.promotions);
+      }
+
+      // Process payment
+      await this.processPayment(order);
 
       // Update order status
       await this.updateOrderStatus(order.id, 'processing');
@@ -39,30 +73,211 @@ class OrderService {
       });
     } catch (error) {
       console.error('Order processing error:', error);
-      await this.handleOrderError(order, error);
+      await this.handleOrderError(order, error, recorded, reserved);
+      throw error;
+    }
+  }
+
+  // `at` lets carrier events record when something actually happened rather than when we heard about it
+  public async transitionOrder(orderId: string, status: OrderStatus, at?: Date): Promise<Order> {
+    return await this.updateOrderStatus(orderId, status, at);
+  }
+
+  public async cancelOrder(orderId: string): Promise<Order> {
+    return await this.updateOrderStatus(orderId, 'cancelled');
+  }
+
+  public async findByTrackingNumber(trackingNumber: string): Promise<Order | null> {
+    const orders = await this.orders.list();
+    return orders.find(order => order.shipping.trackingNumber === trackingNumber) ?? null;
+  }
+
+  public async updateShipping(orderId: string, changes: Partial<ShippingInfo>): Promise<Order> {
+    const order = await this.orders.get(orderId);
+    if (!order) throw new Error(`Order ${orderId} not found`);
+
+    order.shipping = { ...order.shipping, ...changes };
+    await this.orders.put(orderId, order);
+    return order;
+  }
+
+  public async reportIssue(orderId: string, issue: string): Promise<Order> {
+    const order = await this.orders.get(orderId);
+    if (!order) throw new Error(`Order ${orderId} not found`);
+
+    order.metrics.issuesReported.push(issue);
+    await this.orders.put(orderId, order);
+
+    await analyticsService.trackEvent('order_issue_reported', {
+      orderId,
+      issue,
+      timestamp: Date.now()
+    });
+
+    return order;
+  }
+
+  // Returned money is tracked on the payment; the order itself only becomes refunded once nothing is left to return
+  public async recordRefund(orderId: string, amount: number, final: boolean): Promise<Order> {
+    const order = await this.orders.get(orderId);
+    if (!order) throw new Error(`Order ${orderId} not found`);
+
+    const refunded = Math.round(((order.payment.refundedAmount ?? 0) + amount) * 100) / 100;
+    if (amount < 0 || refunded > order.payment.amount) {
+      throw new Error(`Invalid refund amount ${amount} for order ${orderId}`);
+    }
+
+    order.payment.refundedAmount = refunded;
+    order.payment.status = final ? 'refunded' : 'partially_refunded';
+    await this.orders.put(orderId, order);
+
+    await analyticsService.trackEvent('order_refunded', {
+      orderId,
+      amount,
+      refunded,
+      final,
+      timestamp: Date.now()
+    });
+
+    return final ? await this.updateOrderStatus(orderId, 'refunded') : order;
+  }
+
+  // Rebuild reservations from open orders so inventory cannot drift from them
+  public async validateOrders(): Promise<string[]> {
+    const expected = new Map<string, number>();
+
+    for (const order of await this.orders.list()) {
+      if (!holdsReservation(order.status)) continue;
+      for (const item of order.items) {
+        const key = stockKey(item.productId, item.variantId);
+        expected.set(key, (expected.get(key) ?? 0) + item.quantity);
+      }
+    }
+
+    const corrected = await inventoryService.reconcileReservations(expected);
+    if (corrected.length > 0) {
+      await analyticsService.trackEvent('order_reservations_reconciled', {
+        products: corrected,
+        timestamp: Date.now()
+      });
     }
+    return corrected;
   }
 
   private async validateOrder(order: Order): Promise<boolean> {
-    // Implementation for order validation
+    if (order.items.length === 0) {
+      throw new Error('Order has no items');
+    }
+
+    if (await this.orders.get(order.id)) {
+      throw new Error(`Order ${order.id} already exists`);
+    }
+
+    for (const item of order.items) {
+      if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+        throw new Error(`Invalid quantity for product ${item.productId}`);
+      }
+      if (item.price < 0 || (item.discount ?? 0) < 0) {
+        throw new Error(`Invalid price for product ${item.productId}`);
+      }
+      const product = await productService.getProduct(item.productId);
+      if (!product) {
+        throw new Error(`Product ${item.productId} not found`);
+      }
+      // Variant-driven products hold no stock of their own, so the variant must be named
+      if (item.variantId ? !product.variants.some(v => v.id === item.variantId) : product.variants.length > 0) {
+        throw new Error(`Invalid variant for product ${item.productId}`);
+      }
+    }
+
     return true;
   }
 
   private async processPayment(order: Order): Promise<void> {
-    // Implementation for payment processing
+    if (order.payment.status === 'failed') {
+      throw new Error(`Payment failed for order ${order.id}`);
+    }
+    if (order.payment.amount < 0) {
+      throw new Error(`Invalid payment amount for order ${order.id}`);
+    }
+  }
+
+  // Promotion discounts are added to any discount already on a line; the payment shrinks to match
+  private async applyPromotions(order: Order): Promise<void> {
+    const priced = await promotionService.priceOrder(order.items, {
+      customerId: order.customerId,
+      codes: order.promotionCodes
+    });
+    if (priced.applied.length === 0) return;
+
+    order.items = priced.items;
+    order.promotions = priced.applied;
+    order.payment.amount = Math.max(0, Math.round((order.payment.amount - priced.discount) * 100) / 100);
   }
 
   private async updateInventory(order: Order): Promise<void> {
-    // Implementation for inventory update
+    await inventoryService.reserveStock(order.items);
   }
 
-  private async updateOrderStatus(orderId: string, status: OrderStatus): Promise<void> {
-    // Implementation for status update
+  private async updateOrderStatus(orderId: string, status: OrderStatus, at = new Date()): Promise<Order> {
+    const order = await this.orders.get(orderId);
+    if (!order) throw new Error(`Order ${orderId} not found`);
+
+    const previous = order.status;
+    assertTransition(previous, status);
+
+    // Apply the stock side effect before persisting so a failure leaves the order untouched
+    if (holdsReservation(previous) && !holdsReservation(status)) {
+      if (status === 'shipped') {
+        await inventoryService.commitStock(order.items);
+      } else {
+        await inventoryService.releaseStock(order.items);
+      }
+    }
+    if (status === 'cancelled') {
+      await promotionService.releaseRedemptions(orderId);
+    }
+
+    const timestampField = STATUS_TIMESTAMPS[status];
+    if (timestampField) {
+      order.timestamps[timestampField] = at;
+    }
+    if (status === 'processing') {
+      order.metrics.processingTime = at.getTime() - new Date(order.timestamps.created).getTime();
+    }
+    if (status === 'delivered' && order.timestamps.shipped) {
+      order.metrics.shippingTime = at.getTime() - new Date(order.timestamps.shipped).getTime();
+    }
+    order.status = status;
+    await this.orders.put(orderId, order);
+
+    await analyticsService.trackEvent('order_status_changed', {
+      orderId,
+      from: previous,
+      to: status,
+      timestamp: at.getTime()
+    });
+
+    return order;
   }
 
-  private async handleOrderError(order: Order, error: any): Promise<void> {
-    // Implementation for error handling
+  private async handleOrderError(order: Order, error: any, recorded: boolean, reserved: boolean): Promise<void> {
+    if (recorded && reserved) {
+      // Cancelling releases the stock we managed to hold
+      const stored = await this.orders.get(order.id);
+      if (stored && holdsReservation(stored.status)) {
+        await this.updateOrderStatus(order.id, 'cancelled');
+      }
+    } else if (recorded) {
+      await this.orders.delete(order.id);
+    }
+
+    await analyticsService.trackEvent('order_processing_error', {
+      orderId: order.id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: Date.now()
+    });
   }
 }
 
-export const orderService = OrderService.getInstance();
\ No newline at end of file
+export const orderService = OrderService.getInstance();
@@ -1,10 +1,49 @@
-import { type Product, type PriceOptimization } from './types';
-import { analyticsService } from '../../analytics';
+import {
+  type Product,
+  type PriceOptimization,
+  type PriceObservation,
+  type ElasticityEstimate,
+  type PricingGuardrails
+} from './types';
+import {
+  buildDemandPoints,
+  clampElasticity,
+  estimateElasticity,
+  evaluatePrice,
+  findOptimalPrice
+} from './elasticity';
+import { productService } from './product';
+import { createStore, type CollectionStore } from '../../storage';
+
+interface MarketAnalysis {
+  estimate: ElasticityEstimate | null;
+  dailyDemand: number;
+  observations: number;
+}
+
+interface CompetitiveAnalysis {
+  peerCount: number;
+  medianPrice: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_HISTORY = 500;
+const DEMAND_WINDOW_DAYS = 7;
 
 class PricingService {
   private static instance: PricingService;
+  private history: CollectionStore<PriceObservation[]>;
+  private guardrails: PricingGuardrails = {
+    minMargin: 0.2,
+    maxChange: 0.1,
+    minObservations: 4,
+    minConfidence: 0.5,
+    minImprovement: 0.01
+  };
 
-  private constructor() {}
+  private constructor() {
+    this.history = createStore<PriceObservation[]>('price_history');
+  }
 
   public static getInstance(): PricingService {
     if (!PricingService.instance) {
@@ -13,16 +52,29 @@ class PricingService {
     return PricingService.instance;
   }
 
+  public useHistoryStore(store: CollectionStore<PriceObservation[]>): void {
+    this.history = store;
+  }
+
+  public configureGuardrails(guardrails: Partial<PricingGuardrails>): PricingGuardrails {
+    this.guardrails = { ...this.guardrails, ...guardrails };
+    return this.guardrails;
+  }
+
+  public getGuardrails(): PricingGuardrails {
+    return { ...this.guardrails };
+  }
+
   public async generateOptimizations(products: Product[]): Promise<PriceOptimization[]> {
     const optimizations: PriceOptimization[] = [];
 
     for (const product of products) {
       // Analyze market conditions
       const marketAnalysis = await this.analyzeMarketConditions(product);
-      
+
       // Analyze competition
       const competitiveAnalysis = await this.analyzeCompetition(product);
-      
+
       // Generate price optimization
       const optimization = await this.calculateOptimalPrice(
         product,
@@ -38,24 +90,142 @@ class PricingService {
     return optimizations;
   }
 
-  private async analyzeMarketConditions(product: Product) {
-    // Implementation for market analysis
-    return {};
+  public async recordObservation(product: Product, timestamp = Date.now()): Promise<void> {
+    const history = (await this.history.get(product.id)) ?? [];
+    history.push({
+      timestamp,
+      price: product.price,
+      views: product.metrics.views,
+      addToCart: product.metrics.addToCart,
+      purchases: product.metrics.purchases,
+      revenue: product.metrics.revenue
+    });
+    await this.history.put(product.id, history.slice(-MAX_HISTORY));
+  }
+
+  public async getObservations(productId: string): Promise<PriceObservation[]> {
+    return (await this.history.get(productId)) ?? [];
   }
 
-  private async analyzeCompetition(product: Product) {
-    // Implementation for competitive analysis
-    return {};
+  private async analyzeMarketConditions(product: Product): Promise<MarketAnalysis> {
+    await this.recordObservation(product);
+    const history = await this.getObservations(product.id);
+
+    return {
+      estimate: estimateElasticity(buildDemandPoints(history)),
+      dailyDemand: this.calculateDailyDemand(history),
+      observations: history.length
+    };
+  }
+
+  private async analyzeCompetition(product: Product): Promise<CompetitiveAnalysis> {
+    // Same-category catalog prices are the only competitive reference we hold
+    const peers = (await productService.searchProducts({ category: product.category }))
+      .filter(peer => peer.id !== product.id)
+      .map(peer => peer.price)
+      .sort((a, b) => a - b);
+
+    if (peers.length === 0) {
+      return { peerCount: 0, medianPrice: null };
+    }
+
+    const mid = Math.floor(peers.length / 2);
+    return {
+      peerCount: peers.length,
+      medianPrice: peers.length % 2 === 0 ? (peers[mid - 1] + peers[mid]) / 2 : peers[mid]
+    };
   }
 
   private async calculateOptimalPrice(
     product: Product,
-    marketAnalysis: any,
-    competitiveAnalysis: any
+    marketAnalysis: MarketAnalysis,
+    competitiveAnalysis: CompetitiveAnalysis
   ): Promise<PriceOptimization | null> {
-    // Implementation for price optimization calculation
-    return null;
+    const { estimate, dailyDemand, observations } = marketAnalysis;
+    if (!estimate || observations < this.guardrails.minObservations || dailyDemand <= 0) {
+      return null;
+    }
+
+    // A positive slope means demand rose with price, which is confounded data rather than a real curve
+    if (estimate.elasticity >= 0) return null;
+
+    const elasticity = clampElasticity(estimate.elasticity);
+    const basePrice = product.price;
+    const marginFloor = product.cost !== undefined
+      ? product.cost / (1 - this.guardrails.minMargin)
+      : 0;
+    const maxPrice = basePrice * (1 + this.guardrails.maxChange);
+    const minPrice = Math.min(maxPrice, Math.max(basePrice * (1 - this.guardrails.maxChange), marginFloor));
+
+    const newPrice = findOptimalPrice(elasticity, dailyDemand, {
+      basePrice,
+      minPrice,
+      maxPrice,
+      unitCost: product.cost
+    });
+    if (newPrice === basePrice) return null;
+
+    const current = evaluatePrice(elasticity, basePrice, dailyDemand, basePrice, product.cost);
+    const projected = evaluatePrice(elasticity, basePrice, dailyDemand, newPrice, product.cost);
+    const objective = product.cost !== undefined ? 'profit' : 'revenue';
+    const improvement = current[objective] !== 0
+      ? (projected[objective] - current[objective]) / Math.abs(current[objective])
+      : 0;
+
+    // Below-floor prices are always corrected, everything else has to be worth the change
+    const belowFloor = basePrice < marginFloor;
+    if (!belowFloor && improvement < this.guardrails.minImprovement) return null;
+
+    const confidence = this.calculateConfidence(estimate, basePrice, newPrice, competitiveAnalysis);
+    if (!belowFloor && confidence < this.guardrails.minConfidence) return null;
+
+    return {
+      productId: product.id,
+      oldPrice: basePrice,
+      newPrice,
+      confidence,
+      reason: belowFloor
+        ? `Price below ${Math.round(this.guardrails.minMargin * 100)}% margin floor`
+        : `Elasticity ${elasticity.toFixed(2)} suggests ${newPrice > basePrice ? 'raising' : 'lowering'} price to improve ${objective} by ${(improvement * 100).toFixed(1)}%`,
+      // Daily deltas projected from the fitted demand curve
+      expectedImpact: {
+        revenue: projected.revenue - current.revenue,
+        sales: projected.sales - current.sales,
+        profit: projected.profit - current.profit
+      }
+    };
+  }
+
+  private calculateDailyDemand(history: PriceObservation[]): number {
+    if (history.length < 2) return 0;
+
+    const latest = history[history.length - 1];
+    const windowStart = latest.timestamp - DEMAND_WINDOW_DAYS * DAY_MS;
+    const first = history.find(observation => observation.timestamp >= windowStart) ?? history[0];
+    const days = (latest.timestamp - first.timestamp) / DAY_MS;
+    if (days <= 0) return 0;
+
+    return Math.max(0, latest.purchases - first.purchases) / days;
+  }
+
+  private calculateConfidence(
+    estimate: ElasticityEstimate,
+    oldPrice: number,
+    newPrice: number,
+    competitiveAnalysis: CompetitiveAnalysis
+  ): number {
+    // Fit quality, discounted for small samples
+    let confidence = estimate.rSquared * (1 - 1 / Math.sqrt(estimate.samples + 1));
+
+    // Moving further than 25% away from the category median is riskier than the curve suggests
+    if (competitiveAnalysis.medianPrice) {
+      const gapBefore = Math.abs(oldPrice - competitiveAnalysis.medianPrice) / competitiveAnalysis.medianPrice;
+      const gapAfter = Math.abs(newPrice - competitiveAnalysis.medianPrice) / competitiveAnalysis.medianPrice;
+      if (gapAfter > 0.25 && gapAfter > gapBefore) confidence *= 0.8;
+    }
+
+    return Math.round(Math.min(1, Math.max(0, confidence)) * 100) / 100;
   }
 }
 
-export const pricingService = PricingService.getInstance();
\ No newline at end of file
+export const pricingService = PricingService.getInstance();
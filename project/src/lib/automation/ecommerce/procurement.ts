@@ -0,0 +1,282 @@
+import { randomUUID } from 'crypto';
+import {
+  type InventoryUpdate,
+  type PurchaseOrder,
+  type PurchaseOrderLine,
+  type Supplier,
+  type SupplierProduct
+} from './types';
+import { inventoryService, stockKey } from './inventory';
+import { createStore, type CollectionStore } from '../../storage';
+import { analyticsService } from '../../analytics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// POs in these states still represent stock on its way
+const OPEN_STATUSES: PurchaseOrder['status'][] = ['draft', 'submitted', 'partially_received'];
+
+interface SupplierOffer {
+  supplier: Supplier;
+  offer: SupplierProduct;
+}
+
+class ProcurementService {
+  private static instance: ProcurementService;
+  private suppliers: CollectionStore<Supplier>;
+  private purchaseOrders: CollectionStore<PurchaseOrder>;
+  private orderLock: Promise<unknown> = Promise.resolve();
+
+  private constructor() {
+    this.suppliers = createStore<Supplier>('suppliers');
+    this.purchaseOrders = createStore<PurchaseOrder>('purchase_orders');
+  }
+
+  public static getInstance(): ProcurementService {
+    if (!ProcurementService.instance) {
+      ProcurementService.instance = new ProcurementService();
+    }
+    return ProcurementService.instance;
+  }
+
+  public useStores(suppliers: CollectionStore<Supplier>, purchaseOrders: CollectionStore<PurchaseOrder>): void {
+    this.suppliers = suppliers;
+    this.purchaseOrders = purchaseOrders;
+  }
+
+  public async createSupplier(input: Omit<Supplier, 'id' | 'active'>): Promise<Supplier> {
+    const supplier: Supplier = { ...input, id: randomUUID(), active: true };
+    await this.suppliers.put(supplier.id, supplier);
+    return supplier;
+  }
+
+  public async updateSupplier(supplierId: string, changes: Partial<Omit<Supplier, 'id'>>): Promise<Supplier> {
+    const supplier = await this.suppliers.get(supplierId);
+    if (!supplier) throw new Error('Supplier not found');
+
+    const updated = { ...supplier, ...changes, id: supplierId };
+    await this.suppliers.put(supplierId, updated);
+    return updated;
+  }
+
+  public async listSuppliers(): Promise<Supplier[]> {
+    return await this.suppliers.list();
+  }
+
+  public async getPurchaseOrder(purchaseOrderId: string): Promise<PurchaseOrder | null> {
+    return (await this.purchaseOrders.get(purchaseOrderId)) ?? null;
+  }
+
+  public async listPurchaseOrders(status?: PurchaseOrder['status']): Promise<PurchaseOrder[]> {
+    const orders = await this.purchaseOrders.list();
+    return status ? orders.filter(order => order.status === status) : orders;
+  }
+
+  // Units ordered but not yet received, keyed by stockKey
+  public async getOnOrderQuantities(): Promise<Map<string, number>> {
+    const onOrder = new Map<string, number>();
+    for (const order of await this.purchaseOrders.list()) {
+      if (!OPEN_STATUSES.includes(order.status)) continue;
+      for (const line of order.lines) {
+        const key = stockKey(line.productId, line.variantId);
+        onOrder.set(key, (onOrder.get(key) ?? 0) + line.quantity - line.received);
+      }
+    }
+    return onOrder;
+  }
+
+  // Turn reorder signals into draft POs, one per supplier
+  public async createDraftPurchaseOrders(updates: InventoryUpdate[]): Promise<PurchaseOrder[]> {
+    const onOrder = await this.getOnOrderQuantities();
+    const suppliers = (await this.suppliers.list()).filter(supplier => supplier.active);
+    const drafts = new Map<string, PurchaseOrder>();
+
+    for (const update of updates) {
+      // Stock is already on its way; ordering again every cycle would double up
+      if ((onOrder.get(stockKey(update.productId, update.variantId)) ?? 0) > 0) continue;
+
+      const source = this.selectSupplier(suppliers, update);
+      if (!source) {
+        await analyticsService.trackEvent('purchase_order_no_supplier', {
+          productId: update.productId,
+          variantId: update.variantId,
+          timestamp: Date.now()
+        });
+        continue;
+      }
+
+      const moq = source.offer.minimumOrderQuantity ?? source.supplier.minimumOrderQuantity;
+      const quantity = Math.max(update.newLevel - update.oldLevel, moq);
+      const draft = drafts.get(source.supplier.id) ?? this.buildDraft(source.supplier, update);
+
+      draft.lines.push({
+        productId: update.productId,
+        variantId: update.variantId,
+        quantity,
+        received: 0,
+        unitCost: source.offer.unitCost
+      });
+      draft.total = this.calculateTotal(draft.lines);
+      if (this.priorityRank(update.priority) > this.priorityRank(draft.priority)) {
+        draft.priority = update.priority;
+      }
+      drafts.set(source.supplier.id, draft);
+    }
+
+    for (const draft of drafts.values()) {
+      await this.purchaseOrders.put(draft.id, draft);
+      await analyticsService.trackEvent('purchase_order_created', {
+        purchaseOrderId: draft.id,
+        supplierId: draft.supplierId,
+        lines: draft.lines.length,
+        total: draft.total,
+        timestamp: Date.now()
+      });
+    }
+
+    return Array.from(drafts.values());
+  }
+
+  public async submitPurchaseOrder(purchaseOrderId: string): Promise<PurchaseOrder> {
+    const now = new Date();
+    const order = await this.withOrderLock(async () => {
+      const order = await this.requirePurchaseOrder(purchaseOrderId);
+      if (order.status !== 'draft') throw new Error(`Cannot submit a ${order.status} purchase order`);
+
+      const supplier = await this.suppliers.get(order.supplierId);
+      order.status = 'submitted';
+      order.timestamps.submitted = now;
+      order.expectedDelivery = new Date(now.getTime() + (supplier?.leadTime ?? 0) * DAY_MS);
+      await this.purchaseOrders.put(order.id, order);
+      return order;
+    });
+
+    await analyticsService.trackEvent('purchase_order_submitted', {
+      purchaseOrderId: order.id,
+      supplierId: order.supplierId,
+      total: order.total,
+      timestamp: now.getTime()
+    });
+
+    return order;
+  }
+
+  // Stock only increases here, when goods actually arrive
+  public receivePurchaseOrder(
+    purchaseOrderId: string,
+    received: { productId: string; variantId?: string; quantity: number }[]
+  ): Promise<PurchaseOrder> {
+    return this.withOrderLock(async () => {
+      const order = await this.requirePurchaseOrder(purchaseOrderId);
+      if (order.status !== 'submitted' && order.status !== 'partially_received') {
+        throw new Error(`Cannot receive a ${order.status} purchase order`);
+      }
+
+      // The same line can appear more than once in a delivery, so check the combined quantity
+      const receiving = new Map<PurchaseOrderLine, number>();
+      for (const receipt of received) {
+        const line = this.findLine(order, receipt);
+        if (!line) throw new Error(`Product ${receipt.productId} is not on this purchase order`);
+        const total = (receiving.get(line) ?? 0) + receipt.quantity;
+        if (receipt.quantity <= 0 || line.received + total > line.quantity) {
+          throw new Error(`Invalid received quantity for product ${receipt.productId}`);
+        }
+        receiving.set(line, total);
+      }
+
+      // Saved after every line, so a failure partway leaves the order matching the stock it already added
+      for (const [line, quantity] of receiving) {
+        await inventoryService.receiveStock(line.productId, quantity, line.variantId);
+        line.received += quantity;
+        order.status = 'partially_received';
+        await this.purchaseOrders.put(order.id, order);
+      }
+
+      const complete = order.lines.every(line => line.received >= line.quantity);
+      if (complete) {
+        order.status = 'received';
+        order.timestamps.received = new Date();
+        await this.purchaseOrders.put(order.id, order);
+      }
+
+      await analyticsService.trackEvent('purchase_order_received', {
+        purchaseOrderId: order.id,
+        complete,
+        timestamp: Date.now()
+      });
+
+      return order;
+    });
+  }
+
+  public cancelPurchaseOrder(purchaseOrderId: string): Promise<PurchaseOrder> {
+    return this.withOrderLock(async () => {
+      const order = await this.requirePurchaseOrder(purchaseOrderId);
+      if (order.status !== 'draft' && order.status !== 'submitted') {
+        throw new Error(`Cannot cancel a ${order.status} purchase order`);
+      }
+
+      order.status = 'cancelled';
+      order.timestamps.cancelled = new Date();
+      await this.purchaseOrders.put(order.id, order);
+      return order;
+    });
+  }
+
+  // Urgent reorders go to the fastest supplier, everything else to the cheapest
+  private selectSupplier(suppliers: Supplier[], update: InventoryUpdate): SupplierOffer | null {
+    const offers: SupplierOffer[] = [];
+    for (const supplier of suppliers) {
+      const offer = supplier.products.find(p =>
+        p.productId === update.productId && (!p.variantId || p.variantId === update.variantId)
+      );
+      if (offer) offers.push({ supplier, offer });
+    }
+    if (offers.length === 0) return null;
+
+    return offers.sort((a, b) => update.priority === 'high'
+      ? a.supplier.leadTime - b.supplier.leadTime || a.offer.unitCost - b.offer.unitCost
+      : a.offer.unitCost - b.offer.unitCost || a.supplier.leadTime - b.supplier.leadTime
+    )[0];
+  }
+
+  private buildDraft(supplier: Supplier, update: InventoryUpdate): PurchaseOrder {
+    return {
+      id: randomUUID(),
+      supplierId: supplier.id,
+      status: 'draft',
+      lines: [],
+      total: 0,
+      reason: update.reason,
+      priority: update.priority,
+      timestamps: { created: new Date() }
+    };
+  }
+
+  private findLine(order: PurchaseOrder, receipt: { productId: string; variantId?: string }): PurchaseOrderLine | undefined {
+    return order.lines.find(line => line.productId === receipt.productId && line.variantId === receipt.variantId);
+  }
+
+  private calculateTotal(lines: PurchaseOrderLine[]): number {
+    return lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0);
+  }
+
+  private priorityRank(priority: InventoryUpdate['priority']): number {
+    return { low: 0, medium: 1, high: 2 }[priority];
+  }
+
+  // Every transition read-modify-writes the order, so two deliveries must not both pass the quantity check
+  // and a cancellation must not land between a receipt's check and its save
+  private withOrderLock<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.orderLock.then(task, task);
+    this.orderLock = run.catch(() => undefined);
+    return run;
+  }
+
+  private async requirePurchaseOrder(purchaseOrderId: string): Promise<PurchaseOrder> {
+    const order = await this.purchaseOrders.get(purchaseOrderId);
+    if (!order) throw new Error('Purchase order not found');
+    return order;
+  }
+}
+
+export const procurementService = ProcurementService.getInstance();
@@ -1,12 +1,44 @@
-import { type Product, type ProductMetrics } from './types';
+import { randomUUID } from 'crypto';
+import {
+  type InventoryInfo,
+  type Product,
+  type ProductInput,
+  type ProductMetrics,
+  type ProductSearchQuery,
+  type ProductVariant,
+  type ProductVariantInput
+} from './types';
+import { createProductRepository, type ProductRepository } from './catalog';
 import { analyticsService } from '../../analytics';
 
+const EMPTY_METRICS: ProductMetrics = {
+  views: 0,
+  addToCart: 0,
+  purchases: 0,
+  revenue: 0,
+  conversionRate: 0,
+  returnRate: 0,
+  ratings: []
+};
+
+// Variant-driven products carry no stock of their own; their inventory is the sum of their variants
+export function rollUpInventory(variants: ProductVariant[]): InventoryInfo {
+  return variants.reduce<InventoryInfo>((total, { inventory }) => ({
+    quantity: total.quantity + inventory.quantity,
+    reserved: total.reserved + inventory.reserved,
+    reorderPoint: total.reorderPoint + inventory.reorderPoint,
+    reorderQuantity: total.reorderQuantity + inventory.reorderQuantity,
+    leadTime: Math.max(total.leadTime, inventory.leadTime)
+  }), { quantity: 0, reserved: 0, reorderPoint: 0, reorderQuantity: 0, leadTime: 0 });
+}
+
 class ProductService {
   private static instance: ProductService;
-  private products: Map<string, Product>;
+  private repository: ProductRepository;
+  private writeLock: Promise<unknown> = Promise.resolve();
 
   private constructor() {
-    this.products = new Map();
+    this.repository = createProductRepository();
   }
 
   public static getInstance(): ProductService {
@@ -16,18 +48,151 @@ class ProductService {
     return ProductService.instance;
   }
 
+  public useRepository(repository: ProductRepository): void {
+    this.repository = repository;
+  }
+
   public async getAllProducts(): Promise<Product[]> {
-    // Implementation for retrieving all products
-    return Array.from(this.products.values());
+    return await this.repository.findAll();
   }
 
-  public async updateProductPrice(productId: string, newPrice: number): Promise<void> {
-    const product = this.products.get(productId);
-    if (!product) throw new Error('Product not found');
+  public async getProduct(productId: string): Promise<Product | null> {
+    return await this.repository.findById(productId);
+  }
+
+  public async searchProducts(query: ProductSearchQuery): Promise<Product[]> {
+    return await this.repository.search(query);
+  }
+
+  public async getProductBySku(sku: string): Promise<{ product: Product; variant: ProductVariant } | null> {
+    const [product] = await this.repository.search({ sku, limit: 1 });
+    const variant = product?.variants.find(v => v.sku === sku);
+    return product && variant ? { product, variant } : null;
+  }
+
+  public async createProduct(input: ProductInput): Promise<Product> {
+    const variants = (input.variants ?? []).map(variant => this.buildVariant(variant));
+    const inventory = variants.length > 0 ? rollUpInventory(variants) : input.inventory;
+    if (!inventory) throw new Error('A product without variants needs its own inventory');
+
+    const product: Product = {
+      id: randomUUID(),
+      name: input.name,
+      description: input.description,
+      price: input.price,
+      cost: input.cost,
+      weight: input.weight,
+      category: input.category,
+      subcategory: input.subcategory,
+      variants,
+      inventory,
+      metrics: { ...EMPTY_METRICS, ratings: [] },
+      images: input.images ?? [],
+      tags: input.tags ?? []
+    };
+
+    await this.withWriteLock(async () => {
+      await this.assertUniqueSkus(variants);
+      await this.repository.save(product);
+    });
+
+    await analyticsService.trackEvent('product_created', {
+      productId: product.id,
+      category: product.category,
+      variants: product.variants.length,
+      timestamp: Date.now()
+    });
+
+    return product;
+  }
+
+  public async updateProduct(productId: string, changes: Partial<Omit<ProductInput, 'variants'>>): Promise<Product> {
+    const updated = await this.withWriteLock(async () => {
+      const product = await this.requireProduct(productId);
+      if (changes.inventory && product.variants.length > 0) {
+        throw new Error(`Inventory for product ${productId} is tracked per variant`);
+      }
+
+      const merged: Product = { ...product, ...changes, id: product.id };
+      await this.repository.save(merged);
+      return merged;
+    });
+
+    await analyticsService.trackEvent('product_updated', {
+      productId,
+      fields: Object.keys(changes),
+      timestamp: Date.now()
+    });
+
+    return updated;
+  }
+
+  public async deleteProduct(productId: string): Promise<void> {
+    const deleted = await this.withWriteLock(() => this.repository.delete(productId));
+    if (!deleted) throw new Error('Product not found');
+
+    await analyticsService.trackEvent('product_deleted', {
+      productId,
+      timestamp: Date.now()
+    });
+  }
 
-    const oldPrice = product.price;
-    product.price = newPrice;
-    this.products.set(productId, product);
+  public async addVariant(productId: string, input: ProductVariantInput): Promise<ProductVariant> {
+    return this.withWriteLock(async () => {
+      const product = await this.requireProduct(productId);
+      const variant = this.buildVariant(input);
+      await this.assertUniqueSkus([variant]);
+
+      product.variants.push(variant);
+      product.inventory = rollUpInventory(product.variants);
+      await this.repository.save(product);
+      return variant;
+    });
+  }
+
+  public async updateVariant(
+    productId: string,
+    variantId: string,
+    changes: Partial<ProductVariantInput>
+  ): Promise<ProductVariant> {
+    return this.withWriteLock(async () => {
+      const product = await this.requireProduct(productId);
+      const index = product.variants.findIndex(variant => variant.id === variantId);
+      if (index === -1) throw new Error('Variant not found');
+
+      const updated: ProductVariant = { ...product.variants[index], ...changes, id: variantId };
+      if (changes.sku && changes.sku !== product.variants[index].sku) {
+        await this.assertUniqueSkus([updated]);
+      }
+
+      product.variants[index] = updated;
+      product.inventory = rollUpInventory(product.variants);
+      await this.repository.save(product);
+      return updated;
+    });
+  }
+
+  public async removeVariant(productId: string, variantId: string): Promise<void> {
+    await this.withWriteLock(async () => {
+      const product = await this.requireProduct(productId);
+      const remaining = product.variants.filter(variant => variant.id !== variantId);
+      if (remaining.length === product.variants.length) throw new Error('Variant not found');
+
+      product.variants = remaining;
+      // The last variant's stock stays on the product once it stops being variant-driven
+      if (remaining.length > 0) product.inventory = rollUpInventory(remaining);
+      await this.repository.save(product);
+    });
+  }
+
+  public async updateProductPrice(productId: string, newPrice: number): Promise<void> {
+    const oldPrice = await this.withWriteLock(async () => {
+      const product = await this.requireProduct(productId);
+      const previous = product.price;
+      product.price = newPrice;
+      await this.repository.save(product);
+      return previous;
+    });
 
     await analyticsService.trackEvent('product_price_updated', {
       productId,
@@ -37,28 +202,78 @@ class ProductService {
     });
   }
 
+  public async updateInventory(productId: string, inventory: InventoryInfo, variantId?: string): Promise<void> {
+    await this.withWriteLock(async () => {
+      const product = await this.requireProduct(productId);
+
+      if (variantId) {
+        const variant = product.variants.find(v => v.id === variantId);
+        if (!variant) throw new Error('Variant not found');
+        variant.inventory = inventory;
+        product.inventory = rollUpInventory(product.variants);
+      } else if (product.variants.length > 0) {
+        throw new Error(`Inventory for product ${productId} is tracked per variant`);
+      } else {
+        product.inventory = inventory;
+      }
+
+      await this.repository.save(product);
+    });
+  }
+
+  public async updateProductMetrics(productId: string, changes: Partial<ProductMetrics>): Promise<ProductMetrics> {
+    return this.withWriteLock(async () => {
+      const product = await this.requireProduct(productId);
+      product.metrics = { ...product.metrics, ...changes };
+      await this.repository.save(product);
+      return product.metrics;
+    });
+  }
+
   public async analyzeProductPerformance(): Promise<Record<string, ProductMetrics>> {
     const performance: Record<string, ProductMetrics> = {};
 
-    for (const [id, product] of this.products) {
-      performance[id] = await this.calculateProductMetrics(product);
+    for (const product of await this.repository.findAll()) {
+      performance[product.id] = await this.calculateProductMetrics(product);
     }
 
     return performance;
   }
 
   private async calculateProductMetrics(product: Product): Promise<ProductMetrics> {
-    // Implementation for calculating product metrics
-    return {
-      views: 0,
-      addToCart: 0,
-      purchases: 0,
-      revenue: 0,
-      conversionRate: 0,
-      returnRate: 0,
-      ratings: []
-    };
+    const metrics = { ...EMPTY_METRICS, ...product.metrics };
+    metrics.conversionRate = metrics.views > 0 ? metrics.purchases / metrics.views : 0;
+    return metrics;
+  }
+
+  private async requireProduct(productId: string): Promise<Product> {
+    const product = await this.repository.findById(productId);
+    if (!product) throw new Error('Product not found');
+    return product;
+  }
+
+  // Every change reads and saves the whole product, so a price or metrics update must not interleave with a stock change
+  private withWriteLock<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.writeLock.then(task, task);
+    this.writeLock = run.catch(() => undefined);
+    return run;
+  }
+
+  private buildVariant(input: ProductVariantInput): ProductVariant {
+    return { ...input, id: randomUUID() };
+  }
+
+  private async assertUniqueSkus(variants: ProductVariant[]): Promise<void> {
+    const skus = variants.map(variant => variant.sku);
+    if (new Set(skus).size !== skus.length) {
+      throw new Error('Duplicate SKU in variants');
+    }
+
+    for (const sku of skus) {
+      const [existing] = await this.repository.search({ sku, limit: 1 });
+      if (existing) throw new Error(`SKU ${sku} is already in use`);
+    }
   }
 }
 
-export const productService = ProductService.getInstance();
\ No newline at end of file
+export const productService = ProductService.getInstance();
@@ -0,0 +1,364 @@
+import { randomUUID } from 'crypto';
+import {
+  type AppliedPromotion,
+  type CustomerSegments,
+  type OrderItem,
+  type PricedOrder,
+  type PricingContext,
+  type Product,
+  type Promotion,
+  type PromotionInput,
+  type PromotionRedemption
+} from './types';
+import { productService } from './product';
+import { createStore, type CollectionStore } from '../../storage';
+import { analyticsService } from '../../analytics';
+
+// Per-line promotion discounts for one way of combining promotions
+interface PromotionOutcome {
+  applied: AppliedPromotion[];
+  lineDiscounts: number[];
+  total: number;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function normalizeCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+class PromotionService {
+  private static instance: PromotionService;
+  private promotions: CollectionStore<Promotion>;
+  private redemptions: CollectionStore<PromotionRedemption>;
+  private customerSegments: CollectionStore<CustomerSegments>;
+  private redemptionLock: Promise<unknown> = Promise.resolve();
+
+  private constructor() {
+    this.promotions = createStore<Promotion>('promotions');
+    this.redemptions = createStore<PromotionRedemption>('promotion_redemptions');
+    this.customerSegments = createStore<CustomerSegments>('customer_segments');
+  }
+
+  public static getInstance(): PromotionService {
+    if (!PromotionService.instance) {
+      PromotionService.instance = new PromotionService();
+    }
+    return PromotionService.instance;
+  }
+
+  public useStores(
+    promotions: CollectionStore<Promotion>,
+    redemptions: CollectionStore<PromotionRedemption>,
+    customerSegments: CollectionStore<CustomerSegments>
+  ): void {
+    this.promotions = promotions;
+    this.redemptions = redemptions;
+    this.customerSegments = customerSegments;
+  }
+
+  public async createPromotion(input: PromotionInput): Promise<Promotion> {
+    const promotion: Promotion = {
+      ...input,
+      code: input.code ? normalizeCode(input.code) : undefined,
+      id: randomUUID(),
+      usageCount: 0,
+      active: true
+    };
+    await this.validatePromotion(promotion);
+    await this.promotions.put(promotion.id, promotion);
+
+    await analyticsService.trackEvent('promotion_created', {
+      promotionId: promotion.id,
+      source: promotion.source,
+      type: promotion.type,
+      value: promotion.value,
+      timestamp: Date.now()
+    });
+
+    return promotion;
+  }
+
+  public async updatePromotion(promotionId: string, changes: Partial<PromotionInput> & { active?: boolean }): Promise<Promotion> {
+    const promotion = await this.requirePromotion(promotionId);
+    const updated: Promotion = {
+      ...promotion,
+      ...changes,
+      code: changes.code ? normalizeCode(changes.code) : promotion.code,
+      id: promotionId
+    };
+    await this.validatePromotion(updated);
+    await this.promotions.put(promotionId, updated);
+    return updated;
+  }
+
+  public async deactivatePromotion(promotionId: string): Promise<Promotion> {
+    return await this.updatePromotion(promotionId, { active: false });
+  }
+
+  public async listPromotions(activeOnly = false): Promise<Promotion[]> {
+    const promotions = await this.promotions.list();
+    return activeOnly ? promotions.filter(promotion => this.isLive(promotion, new Date())) : promotions;
+  }
+
+  public async getCustomerSegments(customerId: string): Promise<string[]> {
+    return (await this.customerSegments.get(customerId))?.segments ?? [];
+  }
+
+  public async setCustomerSegments(customerId: string, segments: string[]): Promise<CustomerSegments> {
+    const entry: CustomerSegments = { customerId, segments: Array.from(new Set(segments)) };
+    await this.customerSegments.put(customerId, entry);
+    return entry;
+  }
+
+  // Work out promotion discounts for a basket. Exclusive promotions never combine with anything;
+  // whichever of the best exclusive and all stackable promotions together saves more wins.
+  public async priceOrder(items: OrderItem[], context: PricingContext): Promise<PricedOrder> {
+    const at = context.at ?? new Date();
+    const products = await this.loadProducts(items);
+    const segments = await this.getCustomerSegments(context.customerId);
+    const candidates = await this.eligiblePromotions(items, products, context, segments, at);
+
+    const baseRemaining = items.map(item => Math.max(0, item.price * item.quantity - (item.discount ?? 0)));
+    const stackable = candidates
+      .filter(promotion => promotion.stacking === 'stackable')
+      .sort((a, b) => b.priority - a.priority);
+
+    const outcomes = [
+      this.combine(stackable, items, products, baseRemaining),
+      ...candidates
+        .filter(promotion => promotion.stacking === 'exclusive')
+        .map(promotion => this.combine([promotion], items, products, baseRemaining))
+    ];
+    const best = outcomes.reduce((a, b) => b.total > a.total ? b : a);
+
+    const priced = items.map((item, i) => best.lineDiscounts[i] > 0
+      ? { ...item, discount: roundCents((item.discount ?? 0) + best.lineDiscounts[i]) }
+      : { ...item }
+    );
+    const subtotal = roundCents(items.reduce((sum, item) => sum + item.price * item.quantity, 0));
+    const existing = items.reduce((sum, item) => sum + (item.discount ?? 0), 0);
+
+    return {
+      items: priced,
+      subtotal,
+      discount: best.total,
+      total: roundCents(Math.max(0, subtotal - existing - best.total)),
+      applied: best.applied
+    };
+  }
+
+  // Count the order against usage limits; re-checked here because pricing happens before the order is final
+  public async redeem(orderId: string, customerId: string, applied: AppliedPromotion[]): Promise<void> {
+    await this.withRedemptionLock(async () => {
+      const promotions: Promotion[] = [];
+      for (const entry of applied) {
+        const promotion = await this.requirePromotion(entry.promotionId);
+        if (!(await this.withinUsageLimits(promotion, customerId))) {
+          throw new Error(`Promotion ${promotion.name} has reached its usage limit`);
+        }
+        promotions.push(promotion);
+      }
+
+      for (const [i, promotion] of promotions.entries()) {
+        promotion.usageCount += 1;
+        await this.promotions.put(promotion.id, promotion);
+
+        const redemption: PromotionRedemption = {
+          id: randomUUID(),
+          promotionId: promotion.id,
+          orderId,
+          customerId,
+          amount: applied[i].amount,
+          timestamp: new Date()
+        };
+        await this.redemptions.put(redemption.id, redemption);
+      }
+    });
+
+    for (const entry of applied) {
+      await analyticsService.trackEvent('promotion_redeemed', {
+        promotionId: entry.promotionId,
+        orderId,
+        amount: entry.amount,
+        timestamp: Date.now()
+      });
+    }
+  }
+
+  // A cancelled order gives its uses back
+  public async releaseRedemptions(orderId: string): Promise<void> {
+    await this.withRedemptionLock(async () => {
+      for (const redemption of await this.redemptions.list()) {
+        if (redemption.orderId !== orderId) continue;
+
+        const promotion = await this.promotions.get(redemption.promotionId);
+        if (promotion) {
+          promotion.usageCount = Math.max(0, promotion.usageCount - 1);
+          await this.promotions.put(promotion.id, promotion);
+        }
+        await this.redemptions.delete(redemption.id);
+      }
+    });
+  }
+
+  private async eligiblePromotions(
+    items: OrderItem[],
+    products: Map<string, Product>,
+    context: PricingContext,
+    customerSegments: string[],
+    at: Date
+  ): Promise<Promotion[]> {
+    const codes = new Set((context.codes ?? []).map(normalizeCode));
+    const eligible: Promotion[] = [];
+
+    for (const promotion of await this.promotions.list()) {
+      const coupon = promotion.code !== undefined;
+      if (coupon && !codes.has(promotion.code!)) continue;
+      if (coupon) codes.delete(promotion.code!);
+
+      const reason = await this.ineligibilityReason(promotion, items, products, context, customerSegments, at);
+      if (!reason) {
+        eligible.push(promotion);
+      } else if (coupon) {
+        // The customer asked for this one, so say why it does not apply
+        throw new Error(`Promotion code ${promotion.code} ${reason}`);
+      }
+    }
+
+    const [unknown] = codes;
+    if (unknown) throw new Error(`Promotion code ${unknown} is not valid`);
+
+    return eligible;
+  }
+
+  private async ineligibilityReason(
+    promotion: Promotion,
+    items: OrderItem[],
+    products: Map<string, Product>,
+    context: PricingContext,
+    customerSegments: string[],
+    at: Date
+  ): Promise<string | null> {
+    if (!this.isLive(promotion, at)) return 'is not active';
+
+    const segments = promotion.target.customerSegments ?? [];
+    if (segments.length > 0 && !segments.some(segment => customerSegments.includes(segment))) {
+      return 'is not available for this customer';
+    }
+
+    const eligibleSubtotal = items
+      .filter(item => this.targets(promotion, item, products))
+      .reduce((sum, item) => sum + item.price * item.quantity - (item.discount ?? 0), 0);
+    if (eligibleSubtotal <= 0) return 'does not apply to these items';
+    if (promotion.minimumSubtotal && eligibleSubtotal < promotion.minimumSubtotal) {
+      return `requires a subtotal of at least ${promotion.minimumSubtotal}`;
+    }
+
+    if (!(await this.withinUsageLimits(promotion, context.customerId))) return 'has reached its usage limit';
+    return null;
+  }
+
+  private combine(
+    promotions: Promotion[],
+    items: OrderItem[],
+    products: Map<string, Product>,
+    baseRemaining: number[]
+  ): PromotionOutcome {
+    const remaining = [...baseRemaining];
+    const lineDiscounts = items.map(() => 0);
+    const applied: AppliedPromotion[] = [];
+
+    for (const promotion of promotions) {
+      const eligible = items.map((item, i) => this.targets(promotion, item, products) && remaining[i] > 0);
+      const eligibleTotal = remaining.reduce((sum, amount, i) => eligible[i] ? sum + amount : sum, 0);
+      if (eligibleTotal <= 0) continue;
+
+      // Fixed amounts are spread over eligible lines in proportion to what is left on them
+      const promotionTotal = promotion.type === 'percentage'
+        ? eligibleTotal * Math.min(promotion.value, 100) / 100
+        : Math.min(promotion.value, eligibleTotal);
+
+      let amount = 0;
+      for (const [i, isEligible] of eligible.entries()) {
+        if (!isEligible) continue;
+        const share = Math.min(remaining[i], roundCents(promotionTotal * remaining[i] / eligibleTotal));
+        remaining[i] -= share;
+        lineDiscounts[i] += share;
+        amount += share;
+      }
+
+      applied.push({ promotionId: promotion.id, name: promotion.name, code: promotion.code, amount: roundCents(amount) });
+    }
+
+    return { applied, lineDiscounts, total: roundCents(lineDiscounts.reduce((sum, d) => sum + d, 0)) };
+  }
+
+  private targets(promotion: Promotion, item: OrderItem, products: Map<string, Product>): boolean {
+    const { products: productIds = [], categories = [] } = promotion.target;
+    if (productIds.length === 0 && categories.length === 0) return true;
+
+    const product = products.get(item.productId);
+    return productIds.includes(item.productId) || (!!product && categories.includes(product.category));
+  }
+
+  private isLive(promotion: Promotion, at: Date): boolean {
+    if (!promotion.active) return false;
+    if (new Date(promotion.startsAt) > at) return false;
+    return !promotion.endsAt || new Date(promotion.endsAt) > at;
+  }
+
+  private async withinUsageLimits(promotion: Promotion, customerId: string): Promise<boolean> {
+    if (promotion.usageLimit !== undefined && promotion.usageCount >= promotion.usageLimit) return false;
+    if (promotion.perCustomerLimit === undefined) return true;
+
+    const uses = (await this.redemptions.list())
+      .filter(r => r.promotionId === promotion.id && r.customerId === customerId).length;
+    return uses < promotion.perCustomerLimit;
+  }
+
+  private async validatePromotion(promotion: Promotion): Promise<void> {
+    if (promotion.type === 'percentage' && (promotion.value <= 0 || promotion.value > 100)) {
+      throw new Error('Percentage promotions must be between 0 and 100');
+    }
+    if (promotion.type === 'fixed' && promotion.value <= 0) {
+      throw new Error('Fixed promotions must be positive');
+    }
+    if (promotion.endsAt && new Date(promotion.endsAt) <= new Date(promotion.startsAt)) {
+      throw new Error('Promotion must end after it starts');
+    }
+
+    if (promotion.code) {
+      const clash = (await this.promotions.list())
+        .find(other => other.code === promotion.code && other.id !== promotion.id);
+      if (clash) throw new Error(`Promotion code ${promotion.code} is already in use`);
+    }
+  }
+
+  private async loadProducts(items: OrderItem[]): Promise<Map<string, Product>> {
+    const products = new Map<string, Product>();
+    for (const item of items) {
+      if (products.has(item.productId)) continue;
+      const product = await productService.getProduct(item.productId);
+      if (product) products.set(product.id, product);
+    }
+    return products;
+  }
+
+  private async requirePromotion(promotionId: string): Promise<Promotion> {
+    const promotion = await this.promotions.get(promotionId);
+    if (!promotion) throw new Error('Promotion not found');
+    return promotion;
+  }
+
+  // Usage counters are read-modify-write, so redemptions must not interleave
+  private withRedemptionLock<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.redemptionLock.then(task, task);
+    this.redemptionLock = run.catch(() => undefined);
+    return run;
+  }
+}
+
+export const promotionService = PromotionService.getInstance();
@@ -0,0 +1,296 @@
+import { randomUUID } from 'crypto';
+import {
+  type Order,
+  type OrderItem,
+  type ReturnDisposition,
+  type ReturnItem,
+  type ReturnReason,
+  type ReturnRequest,
+  type ReturnStatus
+} from './types';
+import { orderService } from './order';
+import { productService } from './product';
+import { inventoryService, stockKey } from './inventory';
+import { createStore, type CollectionStore } from '../../storage';
+import { analyticsService } from '../../analytics';
+
+export interface ReturnItemInput {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+  reason: ReturnReason;
+}
+
+// Only goods that actually left the warehouse can come back
+const RETURNABLE_STATUSES: Order['status'][] = ['shipped', 'delivered'];
+
+const RETURN_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  requested: ['approved', 'rejected'],
+  approved: ['received', 'rejected'],
+  rejected: [],
+  received: ['refunded'],
+  refunded: []
+};
+
+// Faulty goods are written off unless support decides otherwise
+const DEFAULT_DISPOSITIONS: Record<ReturnReason, ReturnDisposition> = {
+  damaged: 'scrap',
+  defective: 'scrap',
+  wrong_item: 'restock',
+  not_as_described: 'restock',
+  no_longer_needed: 'restock',
+  other: 'restock'
+};
+
+class ReturnService {
+  private static instance: ReturnService;
+  private returns: CollectionStore<ReturnRequest>;
+  private orderLocks = new Map<string, Promise<unknown>>();
+
+  private constructor() {
+    this.returns = createStore<ReturnRequest>('returns');
+  }
+
+  public static getInstance(): ReturnService {
+    if (!ReturnService.instance) {
+      ReturnService.instance = new ReturnService();
+    }
+    return ReturnService.instance;
+  }
+
+  public useStore(store: CollectionStore<ReturnRequest>): void {
+    this.returns = store;
+  }
+
+  public async getReturn(returnId: string): Promise<ReturnRequest | null> {
+    return (await this.returns.get(returnId)) ?? null;
+  }
+
+  public async listReturns(orderId?: string): Promise<ReturnRequest[]> {
+    const returns = await this.returns.list();
+    return orderId ? returns.filter(request => request.orderId === orderId) : returns;
+  }
+
+  public async requestReturn(orderId: string, items: ReturnItemInput[], notes?: string): Promise<ReturnRequest> {
+    const request = await this.withOrderLock(orderId, async () => {
+      const order = await orderService.getOrder(orderId);
+      if (!order) throw new Error(`Order ${orderId} not found`);
+      if (!RETURNABLE_STATUSES.includes(order.status)) {
+        throw new Error(`Cannot return items from a ${order.status} order`);
+      }
+      if (items.length === 0) throw new Error('Return has no items');
+
+      const outstanding = await this.outstandingQuantities(order);
+      const returnItems: ReturnItem[] = items.map(item => {
+        const line = this.findLine(order, item);
+        if (!line) throw new Error(`Product ${item.productId} is not on order ${orderId}`);
+
+        const key = stockKey(item.productId, item.variantId);
+        const remaining = outstanding.get(key) ?? 0;
+        if (!Number.isInteger(item.quantity) || item.quantity <= 0 || item.quantity > remaining) {
+          throw new Error(`Invalid return quantity for product ${item.productId}`);
+        }
+        outstanding.set(key, remaining - item.quantity);
+
+        return { ...item, refundAmount: this.calculateRefund(line, remaining, item.quantity) };
+      });
+
+      const request: ReturnRequest = {
+        id: randomUUID(),
+        orderId,
+        customerId: order.customerId,
+        status: 'requested',
+        items: returnItems,
+        refundAmount: this.sum(returnItems.map(item => item.refundAmount)),
+        notes,
+        timestamps: { requested: new Date() }
+      };
+      await this.returns.put(request.id, request);
+      return request;
+    });
+
+    await analyticsService.trackEvent('return_requested', {
+      returnId: request.id,
+      orderId,
+      reasons: request.items.map(item => item.reason),
+      refundAmount: request.refundAmount,
+      timestamp: Date.now()
+    });
+
+    return request;
+  }
+
+  public async approveReturn(returnId: string): Promise<ReturnRequest> {
+    return await this.withReturnLock(returnId, request => this.transition(request, 'approved'));
+  }
+
+  public async rejectReturn(returnId: string, reason: string): Promise<ReturnRequest> {
+    return await this.withReturnLock(returnId, async request => {
+      request.rejectionReason = reason;
+      return await this.transition(request, 'rejected');
+    });
+  }
+
+  // Goods are back: restock what can be sold again, scrap the rest
+  public async receiveReturn(
+    returnId: string,
+    dispositions: { productId: string; variantId?: string; disposition: ReturnDisposition }[] = []
+  ): Promise<ReturnRequest> {
+    return await this.withReturnLock(returnId, async request => {
+      this.assertTransition(request.status, 'received');
+
+      for (const item of request.items) {
+        const decision = dispositions.find(d => d.productId === item.productId && d.variantId === item.variantId);
+        item.disposition = decision?.disposition ?? DEFAULT_DISPOSITIONS[item.reason];
+      }
+
+      for (const item of request.items) {
+        if (item.disposition === 'restock') {
+          await inventoryService.receiveStock(item.productId, item.quantity, item.variantId);
+        }
+      }
+
+      return await this.transition(request, 'received');
+    });
+  }
+
+  public async refundReturn(returnId: string): Promise<ReturnRequest> {
+    const refunded = await this.withReturnLock(returnId, async request => {
+      this.assertTransition(request.status, 'refunded');
+
+      const order = await orderService.getOrder(request.orderId);
+      if (!order) throw new Error(`Order ${request.orderId} not found`);
+
+      const final = await this.completesRefund(order, request);
+      await orderService.recordRefund(order.id, request.refundAmount, final);
+
+      return await this.transition(request, 'refunded');
+    });
+    for (const productId of new Set(refunded.items.map(item => item.productId))) {
+      await this.updateReturnRate(productId);
+    }
+    return refunded;
+  }
+
+  // Refund the customer's effective unit price, so line discounts are not paid back twice. Each claim is
+  // priced as the rounded share of the line up to its last unit minus the share before it, so the
+  // last unit takes the remainder and the refunds add up to exactly what the line cost
+  private calculateRefund(line: OrderItem, remaining: number, quantity: number): number {
+    const lineTotal = Math.max(0, line.price * line.quantity - (line.discount ?? 0));
+    const claimed = line.quantity - remaining;
+    const share = (units: number) => Math.round(lineTotal * units / line.quantity * 100);
+    return (share(claimed + quantity) - share(claimed)) / 100;
+  }
+
+  // Units per order line not yet claimed by a return that is still live
+  private async outstandingQuantities(order: Order): Promise<Map<string, number>> {
+    const outstanding = this.lineQuantities(order.items);
+    for (const request of await this.listReturns(order.id)) {
+      if (request.status === 'rejected') continue;
+      for (const [key, quantity] of this.lineQuantities(request.items)) {
+        outstanding.set(key, (outstanding.get(key) ?? 0) - quantity);
+      }
+    }
+    return outstanding;
+  }
+
+  // Whether refunding `request` pays back every unit on the order
+  private async completesRefund(order: Order, request: ReturnRequest): Promise<boolean> {
+    const refunded = this.lineQuantities(request.items);
+    for (const previous of await this.listReturns(order.id)) {
+      if (previous.status !== 'refunded') continue;
+      for (const [key, quantity] of this.lineQuantities(previous.items)) {
+        refunded.set(key, (refunded.get(key) ?? 0) + quantity);
+      }
+    }
+
+    return Array.from(this.lineQuantities(order.items))
+      .every(([key, quantity]) => (refunded.get(key) ?? 0) >= quantity);
+  }
+
+  private lineQuantities(items: { productId: string; variantId?: string; quantity: number }[]): Map<string, number> {
+    const quantities = new Map<string, number>();
+    for (const item of items) {
+      const key = stockKey(item.productId, item.variantId);
+      quantities.set(key, (quantities.get(key) ?? 0) + item.quantity);
+    }
+    return quantities;
+  }
+
+  // Share of sold units that came back and were refunded
+  private async updateReturnRate(productId: string): Promise<void> {
+    let sold = 0;
+    for (const order of await orderService.listOrders()) {
+      if (order.status === 'cancelled') continue;
+      sold += order.items.filter(item => item.productId === productId).reduce((sum, item) => sum + item.quantity, 0);
+    }
+
+    let returned = 0;
+    for (const request of await this.listReturns()) {
+      if (request.status !== 'refunded') continue;
+      returned += request.items.filter(item => item.productId === productId).reduce((sum, item) => sum + item.quantity, 0);
+    }
+
+    await productService.updateProductMetrics(productId, { returnRate: sold > 0 ? returned / sold : 0 });
+  }
+
+  private async transition(request: ReturnRequest, status: ReturnStatus): Promise<ReturnRequest> {
+    this.assertTransition(request.status, status);
+
+    const previous = request.status;
+    request.status = status;
+    request.timestamps[status] = new Date();
+    await this.returns.put(request.id, request);
+
+    await analyticsService.trackEvent('return_status_changed', {
+      returnId: request.id,
+      orderId: request.orderId,
+      from: previous,
+      to: status,
+      timestamp: Date.now()
+    });
+
+    return request;
+  }
+
+  private assertTransition(from: ReturnStatus, to: ReturnStatus): void {
+    if (!RETURN_TRANSITIONS[from].includes(to)) {
+      throw new Error(`Cannot move a ${from} return to ${to}`);
+    }
+  }
+
+  private findLine(order: Order, item: { productId: string; variantId?: string }): OrderItem | undefined {
+    return order.items.find(line => line.productId === item.productId && line.variantId === item.variantId);
+  }
+
+  private sum(amounts: number[]): number {
+    return Math.round(amounts.reduce((total, amount) => total + amount, 0) * 100) / 100;
+  }
+
+  // Requests, receipts and refunds read every return on the order before writing one, so two of them on
+  // the same order must not interleave: that would over-claim units, restock twice or refund twice
+  private withOrderLock<T>(orderId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.orderLocks.get(orderId) ?? Promise.resolve();
+    const run = previous.then(task, task);
+    const settled = run.catch(() => undefined);
+    this.orderLocks.set(orderId, settled);
+    void settled.then(() => {
+      if (this.orderLocks.get(orderId) === settled) this.orderLocks.delete(orderId);
+    });
+    return run;
+  }
+
+  // Re-reads the return inside the lock so the transition sees the status the last writer left
+  private async withReturnLock<T>(returnId: string, task: (request: ReturnRequest) => Promise<T>): Promise<T> {
+    const { orderId } = await this.requireReturn(returnId);
+    return this.withOrderLock(orderId, async () => task(await this.requireReturn(returnId)));
+  }
+
+  private async requireReturn(returnId: string): Promise<ReturnRequest> {
+    const request = await this.returns.get(returnId);
+    if (!request) throw new Error('Return not found');
+    return request;
+  }
+}
+
+export const returnService = ReturnService.getInstance();
@@ -4,6 +4,8 @@ export interface Product {
   name: string;
   description: string;
   price: number;
+  cost?: number; // unit cost, used for margin guardrails
+  weight?: number; // kg per unit, used for shipping quotes
   category: string;
   subcategory?: string;
   variants: ProductVariant[];
@@ -40,6 +42,36 @@ export interface ProductMetrics {
   ratings: number[];
 }
 
+// Catalog Types
+export type ProductVariantInput = Omit<ProductVariant, 'id'>;
+
+export interface ProductInput {
+  name: string;
+  description: string;
+  price: number;
+  cost?: number;
+  weight?: number;
+  category: string;
+  subcategory?: string;
+  variants?: ProductVariantInput[];
+  // Only for products without variants; variant stock lives on the variants
+  inventory?: InventoryInfo;
+  images?: string[];
+  tags?: string[];
+}
+
+export interface ProductSearchQuery {
+  text?: string;
+  category?: string;
+  subcategory?: string;
+  tags?: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  sku?: string;
+  limit?: number;
+  offset?: number;
+}
+
 // Price Optimization Types
 export interface PriceOptimization {
   productId: string;
@@ -54,9 +86,34 @@ export interface PriceOptimization {
   };
 }
 
+export interface PriceObservation {
+  timestamp: number;
+  price: number;
+  views: number;
+  addToCart: number;
+  purchases: number;
+  revenue: number;
+}
+
+export interface ElasticityEstimate {
+  elasticity: number;
+  intercept: number;
+  rSquared: number;
+  samples: number;
+}
+
+export interface PricingGuardrails {
+  minMargin: number;      // fraction of price, e.g. 0.2 = 20%
+  maxChange: number;      // max relative change per run, e.g. 0.1 = 10%
+  minObservations: number;
+  minConfidence: number;
+  minImprovement: number; // relative objective gain required to act
+}
+
 // Inventory Types
 export interface InventoryUpdate {
   productId: string;
+  variantId?: string;
   oldLevel: number;
   newLevel: number;
   reason: string;
@@ -64,6 +121,123 @@ export interface InventoryUpdate {
   automated: boolean;
 }
 
+// A unit that holds its own stock: a variant, or a product without variants
+export interface StockLevel {
+  productId: string;
+  variantId?: string;
+  sku?: string;
+  inventory: InventoryInfo;
+}
+
+export interface LowStockAlert {
+  productId: string;
+  variantId?: string;
+  sku?: string;
+  available: number;
+  reorderPoint: number;
+}
+
+// Forecasting Types
+export type ForecastMethod = 'moving_average' | 'holt_winters';
+
+export interface ForecastSettings {
+  historyDays: number;
+  serviceLevel: number;   // probability of not stocking out during lead time
+  reviewPeriod: number;   // days of demand a single reorder should cover
+  movingAverageWindow: number;
+  seasonLength: number;   // days, 7 = weekly seasonality
+  smoothing: {
+    alpha: number;
+    beta: number;
+    gamma: number;
+  };
+}
+
+export interface ForecastAccuracy {
+  mae: number;
+  mape: number | null; // undefined on days without sales, so null if there were none
+}
+
+export interface DemandForecast {
+  productId: string;
+  variantId?: string;
+  sku?: string;
+  method: ForecastMethod;
+  dailyDemand: number;        // expected units per day over the lead time
+  standardDeviation: number;  // of one-day-ahead forecast errors
+  safetyStock: number;
+  reorderPoint: number;
+  reorderQuantity: number;
+  horizon: number[];          // expected units for each upcoming day
+  accuracy: ForecastAccuracy;
+}
+
+export interface ForecastPoint {
+  date: string; // YYYY-MM-DD (UTC)
+  actual: number | null;
+  forecast: number | null;
+}
+
+export interface ForecastComparison {
+  productId: string;
+  variantId?: string;
+  sku?: string;
+  method: ForecastMethod;
+  points: ForecastPoint[];
+  accuracy: ForecastAccuracy;
+}
+
+// Procurement Types
+export interface Supplier {
+  id: string;
+  name: string;
+  email?: string;
+  leadTime: number; // in days
+  minimumOrderQuantity: number;
+  products: SupplierProduct[];
+  active: boolean;
+}
+
+export interface SupplierProduct {
+  productId: string;
+  variantId?: string; // offer limited to one variant; otherwise it covers them all
+  unitCost: number;
+  supplierSku?: string;
+  minimumOrderQuantity?: number; // overrides the supplier-wide MOQ
+}
+
+export type PurchaseOrderStatus =
+  | 'draft'
+  | 'submitted'
+  | 'partially_received'
+  | 'received'
+  | 'cancelled';
+
+export interface PurchaseOrderLine {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+  received: number;
+  unitCost: number;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  supplierId: string;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  total: number;
+  reason: string;
+  priority: InventoryUpdate['priority'];
+  expectedDelivery?: Date;
+  timestamps: {
+    created: Date;
+    submitted?: Date;
+    received?: Date;
+    cancelled?: Date;
+  };
+}
+
 // Marketing Types
 export interface MarketingAction {
   type: 'promotion' | 'email' | 'recommendation' | 'display';
@@ -73,8 +247,8 @@ export interface MarketingAction {
     customerSegments?: string[];
   };
   parameters: {
-    discount?: number;
-    duration?: number;
+    discount?: number; // percent off
+    duration?: number; // days
     placement?: string;
     message?: string;
     priority?: number;
@@ -85,6 +259,64 @@ export interface MarketingAction {
   };
 }
 
+// Promotion Types
+export interface Promotion {
+  id: string;
+  name: string;
+  code?: string;              // coupon code; promotions without one apply automatically
+  type: 'percentage' | 'fixed';
+  value: number;              // percent off, or amount off the eligible subtotal
+  target: MarketingAction['target']; // empty means everything
+  stacking: 'stackable' | 'exclusive';
+  priority: number;           // stackable promotions apply in descending priority
+  minimumSubtotal?: number;
+  usageLimit?: number;
+  perCustomerLimit?: number;
+  usageCount: number;
+  startsAt: Date;
+  endsAt?: Date;
+  active: boolean;
+  source: 'manual' | 'automation';
+}
+
+export type PromotionInput = Omit<Promotion, 'id' | 'usageCount' | 'active'>;
+
+export interface PromotionRedemption {
+  id: string;
+  promotionId: string;
+  orderId: string;
+  customerId: string;
+  amount: number;
+  timestamp: Date;
+}
+
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  code?: string;
+  amount: number;
+}
+
+// Assigned by operators or automation; never taken from the shopper
+export interface CustomerSegments {
+  customerId: string;
+  segments: string[];
+}
+
+export interface PricingContext {
+  customerId: string;
+  codes?: string[];
+  at?: Date;
+}
+
+export interface PricedOrder {
+  items: OrderItem[];
+  subtotal: number;
+  discount: number; // from promotions only
+  total: number;
+  applied: AppliedPromotion[];
+}
+
 // Order Types
 export interface Order {
   id: string;
@@ -95,14 +327,16 @@ export interface Order {
   shipping: ShippingInfo;
   metrics: OrderMetrics;
   timestamps: OrderTimestamps;
+  promotionCodes?: string[];
+  promotions?: AppliedPromotion[];
 }
 
 export interface OrderItem {
   productId: string;
   variantId?: string;
   quantity: number;
-  price: number;
-  discount?: number;
+  price: number;      // per unit
+  discount?: number;  // total taken off the line, not per unit
 }
 
 export type OrderStatus = 
@@ -115,10 +349,11 @@ export type OrderStatus =
 
 export interface PaymentInfo {
   method: string;
-  status: 'pending' | 'completed' | 'failed';
+  status: 'pending' | 'completed' | 'failed' | 'partially_refunded' | 'refunded';
   amount: number;
   currency: string;
   transactionId?: string;
+  refundedAmount?: number;
 }
 
 export interface ShippingInfo {
@@ -128,6 +363,8 @@ export interface ShippingInfo {
   estimatedDelivery?: Date;
   address: Address;
   cost: number;
+  labelUrl?: string;
+  trackingEvents?: TrackingEvent[];
 }
 
 export interface Address {
@@ -138,9 +375,41 @@ export interface Address {
   postalCode: string;
 }
 
+// Shipping Types
+export interface Parcel {
+  weight: number; // kg
+}
+
+export interface ShippingRate {
+  carrier: string;
+  service: string;
+  cost: number;
+  currency: string;
+  estimatedDays: number;
+}
+
+export interface ShippingLabel {
+  carrier: string;
+  service: string;
+  trackingNumber: string;
+  cost: number;
+  labelUrl?: string;
+  estimatedDelivery: Date;
+}
+
+export type TrackingStatus = 'label_created' | 'in_transit' | 'out_for_delivery' | 'delivered' | 'exception';
+
+export interface TrackingEvent {
+  trackingNumber: string;
+  status: TrackingStatus;
+  timestamp: Date;
+  location?: string;
+  description?: string;
+}
+
 export interface OrderMetrics {
   processingTime: number;
-  shippingTime?: number;
+  shippingTime?: number; // ms from shipped to delivered
   customerSatisfaction?: number;
   issuesReported: string[];
 }
@@ -152,4 +421,44 @@ export interface OrderTimestamps {
   delivered?: Date;
   cancelled?: Date;
   refunded?: Date;
+}
+
+// Return (RMA) Types
+export type ReturnReason =
+  | 'damaged'
+  | 'defective'
+  | 'wrong_item'
+  | 'not_as_described'
+  | 'no_longer_needed'
+  | 'other';
+
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'received' | 'refunded';
+
+export type ReturnDisposition = 'restock' | 'scrap';
+
+export interface ReturnItem {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+  reason: ReturnReason;
+  disposition?: ReturnDisposition; // decided when the goods come back
+  refundAmount: number;
+}
+
+export interface ReturnRequest {
+  id: string;
+  orderId: string;
+  customerId: string;
+  status: ReturnStatus;
+  items: ReturnItem[];
+  refundAmount: number;
+  notes?: string;
+  rejectionReason?: string;
+  timestamps: {
+    requested: Date;
+    approved?: Date;
+    rejected?: Date;
+    received?: Date;
+    refunded?: Date;
+  };
 }
\ No newline at end of file
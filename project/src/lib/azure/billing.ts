@@ -1,6 +1,7 @@
 import { azureIntegrationService } from './index';
 import { analyticsService } from '../analytics';
 import { format } from 'date-fns';
+import { everyInterval, intervalJitter, schedulerService } from '../scheduler';
 
 interface BillingConfig {
   subscriptionId: string;
@@ -96,58 +97,76 @@ class BillingAutomationService {
 
   private async setupAutomatedPayments() {
     // Start payment monitoring loop
-    setInterval(async () => {
-      try {
-        // Check for pending payments
-        const pendingPayments = await this.checkPendingPayments();
+    schedulerService.registerJob({
+      name: 'azure.billing.automated-payments',
+      schedule: everyInterval(this.checkIntervals.payments),
+      jitterMs: intervalJitter(this.checkIntervals.payments),
+      handler: async () => {
+        try {
+          // Check for pending payments
+          const pendingPayments = await this.checkPendingPayments();
         
-        if (pendingPayments.length > 0) {
-          // Process payments
-          await this.processAutomatedPayments(pendingPayments);
+          if (pendingPayments.length > 0) {
+            // Process payments
+            await this.processAutomatedPayments(pendingPayments);
           
-          // Generate payment reports
-          await this.generatePaymentReports(pendingPayments);
+            // Generate payment reports
+            await this.generatePaymentReports(pendingPayments);
+          }
+        } catch (error) {
+          await this.handleBillingError('payments', error);
+          throw error;
         }
-      } catch (error) {
-        await this.handleBillingError('payments', error);
       }
-    }, this.checkIntervals.payments);
+    });
   }
 
   private async initializeBudgetMonitoring() {
     // Start budget monitoring loop
-    setInterval(async () => {
-      try {
-        // Check current spend
-        const spend = await this.getCurrentSpend();
+    schedulerService.registerJob({
+      name: 'azure.billing.budget-monitoring',
+      schedule: everyInterval(this.checkIntervals.budgets),
+      jitterMs: intervalJitter(this.checkIntervals.budgets),
+      handler: async () => {
+        try {
+          // Check current spend
+          const spend = await this.getCurrentSpend();
         
-        // Update metrics
-        await this.updateBillingMetrics(spend);
+          // Update metrics
+          await this.updateBillingMetrics(spend);
         
-        // Check budget alerts
-        await this.checkBudgetAlerts(spend);
-      } catch (error) {
-        await this.handleBillingError('budgets', error);
+          // Check budget alerts
+          await this.checkBudgetAlerts(spend);
+        } catch (error) {
+          await this.handleBillingError('budgets', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.budgets);
+    });
   }
 
   private async setupCostOptimization() {
     // Start optimization loop
-    setInterval(async () => {
-      try {
-        // Analyze costs
-        const analysis = await this.analyzeCosts();
+    schedulerService.registerJob({
+      name: 'azure.billing.cost-optimization',
+      schedule: everyInterval(this.checkIntervals.optimization),
+      jitterMs: intervalJitter(this.checkIntervals.optimization),
+      handler: async () => {
+        try {
+          // Analyze costs
+          const analysis = await this.analyzeCosts();
         
-        // Generate optimizations
-        const optimizations = await this.generateOptimizations(analysis);
+          // Generate optimizations
+          const optimizations = await this.generateOptimizations(analysis);
         
-        // Implement cost savings
-        await this.implementCostSavings(optimizations);
-      } catch (error) {
-        await this.handleBillingError('optimization', error);
+          // Implement cost savings
+          await this.implementCostSavings(optimizations);
+        } catch (error) {
+          await this.handleBillingError('optimization', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.optimization);
+    });
   }
 
   private async checkPendingPayments() {
@@ -1,5 +1,6 @@
 import { analyticsService } from '../analytics';
 import { format } from 'date-fns';
+import { everyInterval, intervalJitter, schedulerService } from '../scheduler';
 
 interface AzureConfig {
   marketplace: {
@@ -159,71 +160,95 @@ class AzureIntegrationService {
   }
 
   private startMarketplaceMonitoring() {
-    setInterval(async () => {
-      try {
-        // Monitor marketplace metrics
-        const metrics = await this.getMarketplaceMetrics();
+    schedulerService.registerJob({
+      name: 'azure.marketplace-monitoring',
+      schedule: everyInterval(this.checkIntervals.marketplace),
+      jitterMs: intervalJitter(this.checkIntervals.marketplace),
+      handler: async () => {
+        try {
+          // Monitor marketplace metrics
+          const metrics = await this.getMarketplaceMetrics();
         
-        // Update listing if needed
-        await this.updateMarketplaceListing(metrics);
+          // Update listing if needed
+          await this.updateMarketplaceListing(metrics);
         
-        // Process new subscriptions
-        await this.processNewSubscriptions();
-      } catch (error) {
-        await this.handleIntegrationError('marketplace', error);
+          // Process new subscriptions
+          await this.processNewSubscriptions();
+        } catch (error) {
+          await this.handleIntegrationError('marketplace', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.marketplace);
+    });
   }
 
   private startServiceMonitoring() {
-    setInterval(async () => {
-      try {
-        // Monitor service health
-        const health = await this.checkServiceHealth();
+    schedulerService.registerJob({
+      name: 'azure.service-monitoring',
+      schedule: everyInterval(this.checkIntervals.services),
+      jitterMs: intervalJitter(this.checkIntervals.services),
+      handler: async () => {
+        try {
+          // Monitor service health
+          const health = await this.checkServiceHealth();
         
-        // Scale services if needed
-        await this.autoScaleServices(health);
+          // Scale services if needed
+          await this.autoScaleServices(health);
         
-        // Optimize performance
-        await this.optimizeServicePerformance(health);
-      } catch (error) {
-        await this.handleIntegrationError('services', error);
+          // Optimize performance
+          await this.optimizeServicePerformance(health);
+        } catch (error) {
+          await this.handleIntegrationError('services', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.services);
+    });
   }
 
   private startBillingAutomation() {
-    setInterval(async () => {
-      try {
-        // Process automated payments
-        await this.processAutomatedPayments();
+    schedulerService.registerJob({
+      name: 'azure.billing-automation',
+      schedule: everyInterval(this.checkIntervals.billing),
+      jitterMs: intervalJitter(this.checkIntervals.billing),
+      handler: async () => {
+        try {
+          // Process automated payments
+          await this.processAutomatedPayments();
         
-        // Check budget alerts
-        await this.checkBudgetAlerts();
+          // Check budget alerts
+          await this.checkBudgetAlerts();
         
-        // Generate billing reports
-        await this.generateBillingReports();
-      } catch (error) {
-        await this.handleIntegrationError('billing', error);
+          // Generate billing reports
+          await this.generateBillingReports();
+        } catch (error) {
+          await this.handleIntegrationError('billing', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.billing);
+    });
   }
 
   private startOptimizationLoop() {
-    setInterval(async () => {
-      try {
-        // Analyze resource usage
-        const usage = await this.analyzeResourceUsage();
+    schedulerService.registerJob({
+      name: 'azure.optimization-loop',
+      schedule: everyInterval(this.checkIntervals.optimization),
+      jitterMs: intervalJitter(this.checkIntervals.optimization),
+      handler: async () => {
+        try {
+          // Analyze resource usage
+          const usage = await this.analyzeResourceUsage();
         
-        // Optimize costs
-        await this.optimizeCosts(usage);
+          // Optimize costs
+          await this.optimizeCosts(usage);
         
-        // Update resource allocation
-        await this.updateResourceAllocation(usage);
-      } catch (error) {
-        await this.handleIntegrationError('optimization', error);
+          // Update resource allocation
+          await this.updateResourceAllocation(usage);
+        } catch (error) {
+          await this.handleIntegrationError('optimization', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.optimization);
+    });
   }
 
   private async handleIntegrationError(type: string, error: any) {
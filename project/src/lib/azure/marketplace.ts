@@ -1,5 +1,6 @@
 import { azureIntegrationService } from './index';
 import { analyticsService } from '../analytics';
+import { everyInterval, intervalJitter, schedulerService } from '../scheduler';
 
 interface MarketplaceOffer {
   id: string;
@@ -144,20 +145,26 @@ class MarketplaceService {
   }
 
   private startAutomatedUpdates() {
-    setInterval(async () => {
-      try {
-        // Update marketplace metrics
-        await this.updateMetrics();
+    schedulerService.registerJob({
+      name: 'azure.marketplace.automated-updates',
+      schedule: everyInterval(this.updateInterval),
+      jitterMs: intervalJitter(this.updateInterval),
+      handler: async () => {
+        try {
+          // Update marketplace metrics
+          await this.updateMetrics();
         
-        // Optimize pricing
-        await this.optimizePricing();
+          // Optimize pricing
+          await this.optimizePricing();
         
-        // Update offer content
-        await this.updateOfferContent();
-      } catch (error) {
-        await this.handleMarketplaceError('updates', error);
+          // Update offer content
+          await this.updateOfferContent();
+        } catch (error) {
+          await this.handleMarketplaceError('updates', error);
+          throw error;
+        }
       }
-    }, this.updateInterval);
+    });
   }
 
   private async initializeAnalytics() {
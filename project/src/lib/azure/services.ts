@@ -1,5 +1,6 @@
 import { azureIntegrationService } from './index';
 import { analyticsService } from '../analytics';
+import { everyInterval, intervalJitter, schedulerService } from '../scheduler';
 
 interface ServiceConfig {
   type: string;
@@ -159,64 +160,82 @@ class ServiceAutomationService {
   }
 
   private startHealthMonitoring() {
-    setInterval(async () => {
-      try {
-        for (const [name] of this.services) {
-          // Check service health
-          const health = await this.checkServiceHealth(name);
+    schedulerService.registerJob({
+      name: 'azure.services.health-monitoring',
+      schedule: everyInterval(this.checkIntervals.health),
+      jitterMs: intervalJitter(this.checkIntervals.health),
+      handler: async () => {
+        try {
+          for (const [name] of this.services) {
+            // Check service health
+            const health = await this.checkServiceHealth(name);
           
-          // Update metrics
-          await this.updateServiceMetrics(name, health);
+            // Update metrics
+            await this.updateServiceMetrics(name, health);
           
-          // Handle issues
-          if (!this.isHealthy(health)) {
-            await this.handleServiceIssue(name, health);
+            // Handle issues
+            if (!this.isHealthy(health)) {
+              await this.handleServiceIssue(name, health);
+            }
           }
+        } catch (error) {
+          await this.handleServiceError('health_monitoring', error);
+          throw error;
         }
-      } catch (error) {
-        await this.handleServiceError('health_monitoring', error);
       }
-    }, this.checkIntervals.health);
+    });
   }
 
   private startScalingAutomation() {
-    setInterval(async () => {
-      try {
-        for (const [name, config] of this.services) {
-          if (config.scaling.enabled) {
-            // Check scaling needs
-            const metrics = await this.getServiceMetrics(name);
+    schedulerService.registerJob({
+      name: 'azure.services.scaling-automation',
+      schedule: everyInterval(this.checkIntervals.scaling),
+      jitterMs: intervalJitter(this.checkIntervals.scaling),
+      handler: async () => {
+        try {
+          for (const [name, config] of this.services) {
+            if (config.scaling.enabled) {
+              // Check scaling needs
+              const metrics = await this.getServiceMetrics(name);
             
-            // Determine scaling action
-            const action = this.determineScalingAction(metrics, config.scaling);
+              // Determine scaling action
+              const action = this.determineScalingAction(metrics, config.scaling);
             
-            // Apply scaling
-            if (action) {
-              await this.applyScaling(name, action);
+              // Apply scaling
+              if (action) {
+                await this.applyScaling(name, action);
+              }
             }
           }
+        } catch (error) {
+          await this.handleServiceError('scaling_automation', error);
+          throw error;
         }
-      } catch (error) {
-        await this.handleServiceError('scaling_automation', error);
       }
-    }, this.checkIntervals.scaling);
+    });
   }
 
   private startOptimizationLoop() {
-    setInterval(async () => {
-      try {
-        // Analyze service performance
-        const performance = await this.analyzeServicePerformance();
+    schedulerService.registerJob({
+      name: 'azure.services.optimization-loop',
+      schedule: everyInterval(this.checkIntervals.optimization),
+      jitterMs: intervalJitter(this.checkIntervals.optimization),
+      handler: async () => {
+        try {
+          // Analyze service performance
+          const performance = await this.analyzeServicePerformance();
         
-        // Generate optimizations
-        const optimizations = await this.generateOptimizations(performance);
+          // Generate optimizations
+          const optimizations = await this.generateOptimizations(performance);
         
-        // Apply optimizations
-        await this.applyOptimizations(optimizations);
-      } catch (error) {
-        await this.handleServiceError('optimization', error);
+          // Apply optimizations
+          await this.applyOptimizations(optimizations);
+        } catch (error) {
+          await this.handleServiceError('optimization', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.optimization);
+    });
   }
 
   private async checkServiceHealth(name: string) {
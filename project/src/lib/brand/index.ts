@@ -2,6 +2,7 @@ import { analyticsService } from '../analytics';
 import { aiAutomationService } from '../ai';
 import { marketExpansionService } from '../market';
 import { OpenAI } from 'openai';
+import { everyInterval, schedulerService } from '../scheduler';
 
 interface BrandIdentity {
   id: string;
@@ -290,49 +291,59 @@ class BrandAutomationService {
   }
 
   private startBrandMonitoring() {
-    setInterval(async () => {
-      try {
-        for (const [id, brand] of this.brands) {
-          // Monitor comprehensive brand metrics
-          const metrics = await this.monitorBrandMetrics(brand);
+    schedulerService.registerJob({
+      name: 'brand.brand-monitoring',
+      schedule: everyInterval(this.checkIntervals.monitoring),
+      handler: async () => {
+        try {
+          for (const [id, brand] of this.brands) {
+            // Monitor comprehensive brand metrics
+            const metrics = await this.monitorBrandMetrics(brand);
           
-          // Analyze market position
-          const marketPosition = await this.analyzeMarketPosition(brand);
+            // Analyze market position
+            const marketPosition = await this.analyzeMarketPosition(brand);
           
-          // Track brand sentiment
-          const sentiment = await this.trackBrandSentiment(brand);
+            // Track brand sentiment
+            const sentiment = await this.trackBrandSentiment(brand);
           
-          // Update brand metrics
-          await this.updateBrandMetrics(id, {
-            ...metrics,
-            marketPosition,
-            sentiment
-          });
+            // Update brand metrics
+            await this.updateBrandMetrics(id, {
+              ...metrics,
+              marketPosition,
+              sentiment
+            });
+          }
+        } catch (error) {
+          await this.handleBrandError('monitoring', error);
+          throw error;
         }
-      } catch (error) {
-        await this.handleBrandError('monitoring', error);
       }
-    }, this.checkIntervals.monitoring);
+    });
   }
 
   private startInnovationCycle() {
-    setInterval(async () => {
-      try {
-        // Analyze market trends
-        const trends = await this.analyzeMarketTrends();
+    schedulerService.registerJob({
+      name: 'brand.innovation-cycle',
+      schedule: everyInterval(this.checkIntervals.innovation),
+      handler: async () => {
+        try {
+          // Analyze market trends
+          const trends = await this.analyzeMarketTrends();
         
-        // Generate brand innovations
-        const innovations = await this.generateBrandInnovations(trends);
+          // Generate brand innovations
+          const innovations = await this.generateBrandInnovations(trends);
         
-        // Test innovations
-        const testedInnovations = await this.testInnovations(innovations);
+          // Test innovations
+          const testedInnovations = await this.testInnovations(innovations);
         
-        // Implement successful innovations
-        await this.implementInnovations(testedInnovations);
-      } catch (error) {
-        await this.handleBrandError('innovation', error);
+          // Implement successful innovations
+          await this.implementInnovations(testedInnovations);
+        } catch (error) {
+          await this.handleBrandError('innovation', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.innovation);
+    });
   }
 
   private async handleBrandError(type: string, error: any) {
@@ -1,6 +1,7 @@
 import { analyticsService } from './analytics';
 import { monitoringService } from './monitor';
 import { format } from 'date-fns';
+import { everyInterval, intervalJitter, schedulerService } from './scheduler';
 
 interface ComplianceUpdate {
   type: 'terms' | 'privacy' | 'cookies';
@@ -57,73 +58,98 @@ class ComplianceService {
   }
 
   private async startGDPRMonitoring() {
-    setInterval(async () => {
-      try {
-        const gdprStatus = await this.checkGDPRCompliance();
-        if (gdprStatus.status !== 'compliant') {
-          await this.implementGDPRUpdates(gdprStatus);
+    schedulerService.registerJob({
+      name: 'compliance.g-d-p-r-monitoring',
+      schedule: everyInterval(this.checkIntervals.gdpr),
+      jitterMs: intervalJitter(this.checkIntervals.gdpr),
+      handler: async () => {
+        try {
+          const gdprStatus = await this.checkGDPRCompliance();
+          if (gdprStatus.status !== 'compliant') {
+            await this.implementGDPRUpdates(gdprStatus);
+          }
+        } catch (error) {
+          await this.handleComplianceError('gdpr', error);
+          throw error;
         }
-      } catch (error) {
-        console.error('GDPR monitoring error:', error);
-        await this.handleComplianceError('gdpr', error);
       }
-    }, this.checkIntervals.gdpr);
+    });
   }
 
   private async startCCPAMonitoring() {
-    setInterval(async () => {
-      try {
-        const ccpaStatus = await this.checkCCPACompliance();
-        if (ccpaStatus.status !== 'compliant') {
-          await this.implementCCPAUpdates(ccpaStatus);
+    schedulerService.registerJob({
+      name: 'compliance.c-c-p-a-monitoring',
+      schedule: everyInterval(this.checkIntervals.ccpa),
+      jitterMs: intervalJitter(this.checkIntervals.ccpa),
+      handler: async () => {
+        try {
+          const ccpaStatus = await this.checkCCPACompliance();
+          if (ccpaStatus.status !== 'compliant') {
+            await this.implementCCPAUpdates(ccpaStatus);
+          }
+        } catch (error) {
+          await this.handleComplianceError('ccpa', error);
+          throw error;
         }
-      } catch (error) {
-        console.error('CCPA monitoring error:', error);
-        await this.handleComplianceError('ccpa', error);
       }
-    }, this.checkIntervals.ccpa);
+    });
   }
 
   private async startCookieComplianceMonitoring() {
-    setInterval(async () => {
-      try {
-        const cookieStatus = await this.checkCookieCompliance();
-        if (cookieStatus.status !== 'compliant') {
-          await this.implementCookieUpdates(cookieStatus);
+    schedulerService.registerJob({
+      name: 'compliance.cookie-compliance-monitoring',
+      schedule: everyInterval(this.checkIntervals.cookies),
+      jitterMs: intervalJitter(this.checkIntervals.cookies),
+      handler: async () => {
+        try {
+          const cookieStatus = await this.checkCookieCompliance();
+          if (cookieStatus.status !== 'compliant') {
+            await this.implementCookieUpdates(cookieStatus);
+          }
+        } catch (error) {
+          await this.handleComplianceError('cookies', error);
+          throw error;
         }
-      } catch (error) {
-        console.error('Cookie compliance monitoring error:', error);
-        await this.handleComplianceError('cookies', error);
       }
-    }, this.checkIntervals.cookies);
+    });
   }
 
   private async startTermsMonitoring() {
-    setInterval(async () => {
-      try {
-        const termsStatus = await this.checkTermsCompliance();
-        if (termsStatus.status !== 'compliant') {
-          await this.implementTermsUpdates(termsStatus);
+    schedulerService.registerJob({
+      name: 'compliance.terms-monitoring',
+      schedule: everyInterval(this.checkIntervals.terms),
+      jitterMs: intervalJitter(this.checkIntervals.terms),
+      handler: async () => {
+        try {
+          const termsStatus = await this.checkTermsCompliance();
+          if (termsStatus.status !== 'compliant') {
+            await this.implementTermsUpdates(termsStatus);
+          }
+        } catch (error) {
+          await this.handleComplianceError('terms', error);
+          throw error;
         }
-      } catch (error) {
-        console.error('Terms monitoring error:', error);
-        await this.handleComplianceError('terms', error);
       }
-    }, this.checkIntervals.terms);
+    });
   }
 
   private async startSecurityComplianceMonitoring() {
-    setInterval(async () => {
-      try {
-        const securityStatus = await this.checkSecurityCompliance();
-        if (securityStatus.status !== 'compliant') {
-          await this.implementSecurityUpdates(securityStatus);
+    schedulerService.registerJob({
+      name: 'compliance.security-compliance-monitoring',
+      schedule: everyInterval(this.checkIntervals.security),
+      jitterMs: intervalJitter(this.checkIntervals.security),
+      handler: async () => {
+        try {
+          const securityStatus = await this.checkSecurityCompliance();
+          if (securityStatus.status !== 'compliant') {
+            await this.implementSecurityUpdates(securityStatus);
+          }
+        } catch (error) {
+          await this.handleComplianceError('security', error);
+          throw error;
         }
-      } catch (error) {
-        console.error('Security compliance monitoring error:', error);
-        await this.handleComplianceError('security', error);
       }
-    }, this.checkIntervals.security);
+    });
   }
 
   private async checkGDPRCompliance(): Promise<ComplianceCheck> {
@@ -0,0 +1,42 @@
+import type { Aggregation } from './timeseries';
+
+export const CHART_TYPES = ['line', 'bar', 'doughnut'] as const;
+export type ChartType = typeof CHART_TYPES[number];
+
+// Widgets show a window ending now, so a shared dashboard stays current
+export const DASHBOARD_RANGES = ['24h', '7d', '30d', '90d'] as const;
+export type DashboardRange = typeof DASHBOARD_RANGES[number];
+
+export const DASHBOARD_RANGE_MS: Record<DashboardRange, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+  '90d': 90 * 24 * 60 * 60 * 1000,
+};
+
+export const DASHBOARD_RANGE_LABELS: Record<DashboardRange, string> = {
+  '24h': 'Last 24 hours',
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+  '90d': 'Last 90 days',
+};
+
+export const GRID_COLUMNS = 4;
+export const MAX_WIDGET_HEIGHT = 2;
+export const MAX_WIDGETS = 24;
+
+export interface DashboardWidget {
+  id: string;
+  title: string;
+  // An event or metric name, as listed by analytics.names
+  metric: string;
+  type?: 'event' | 'metric';
+  aggregation: Aggregation;
+  range: DashboardRange;
+  chart: ChartType;
+  // Doughnuts need this to have slices; line and bar charts draw one dataset per group
+  groupBy?: string;
+  // Widgets fill the grid in order, each spanning width columns and height rows
+  width: number;
+  height: number;
+}
@@ -1,6 +1,7 @@
 import { testingService } from './testing';
 import { analyticsService } from './analytics';
 import { automationService } from './automation';
+import { schedulerService } from './scheduler';
 
 interface DeploymentConfig {
   version: string;
@@ -20,7 +21,6 @@ class DeploymentService {
   private static instance: DeploymentService;
   private currentDeployment: DeploymentStatus | null = null;
   private deploymentHistory: Map<string, DeploymentConfig>;
-  private monitoringIntervals: NodeJS.Timeout[] = [];
 
   private constructor() {
     this.deploymentHistory = new Map();
@@ -164,25 +164,28 @@ class DeploymentService {
     }
   }
 
+  // Re-registering after each deployment replaces the previous monitoring jobs
   private startDeploymentMonitoring() {
-    // Clear existing monitoring intervals
-    this.monitoringIntervals.forEach(interval => clearInterval(interval));
-    this.monitoringIntervals = [];
-
-    // Monitor system health
-    this.monitoringIntervals.push(
-      setInterval(() => this.monitorSystemHealth(), 60000)
-    );
-
-    // Monitor performance
-    this.monitoringIntervals.push(
-      setInterval(() => this.monitorPerformance(), 300000)
-    );
-
-    // Monitor security
-    this.monitoringIntervals.push(
-      setInterval(() => this.monitorSecurity(), 900000)
-    );
+    schedulerService.registerJob({
+      name: 'deployment.system-health',
+      schedule: '* * * * *',
+      jitterMs: 10 * 1000,
+      handler: () => this.monitorSystemHealth()
+    });
+
+    schedulerService.registerJob({
+      name: 'deployment.performance',
+      schedule: '*/5 * * * *',
+      jitterMs: 30 * 1000,
+      handler: () => this.monitorPerformance()
+    });
+
+    schedulerService.registerJob({
+      name: 'deployment.security',
+      schedule: '*/15 * * * *',
+      jitterMs: 60 * 1000,
+      handler: () => this.monitorSecurity()
+    });
   }
 
   private async monitorSystemHealth() {
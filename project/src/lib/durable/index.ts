@@ -2,6 +2,7 @@ import { analyticsService } from '../analytics';
 import { socialAutomationService } from '../social';
 import { legalProtectionService } from '../legal';
 import { OpenAI } from 'openai';
+import { schedulerService } from '../scheduler';
 
 class DurableAutomationService {
   private static instance: DurableAutomationService;
@@ -226,36 +227,51 @@ class DurableAutomationService {
   }
 
   private startPerformanceMonitoring() {
-    setInterval(async () => {
-      try {
-        const metrics = await this.collectPerformanceMetrics();
-        await this.optimizePerformance(metrics);
-      } catch (error) {
-        await this.handleAutomationError('performance', error);
+    schedulerService.registerJob({
+      name: 'durable.performance-monitoring',
+      schedule: '*/5 * * * *',
+      handler: async () => {
+        try {
+          const metrics = await this.collectPerformanceMetrics();
+          await this.optimizePerformance(metrics);
+        } catch (error) {
+          await this.handleAutomationError('performance', error);
+          throw error;
+        }
       }
-    }, 300000); // Every 5 minutes
+    });
   }
 
   private startContentOptimization() {
-    setInterval(async () => {
-      try {
-        const performance = await this.analyzeContentPerformance();
-        await this.optimizeContent(performance);
-      } catch (error) {
-        await this.handleAutomationError('content', error);
+    schedulerService.registerJob({
+      name: 'durable.content-optimization',
+      schedule: '0 * * * *',
+      handler: async () => {
+        try {
+          const performance = await this.analyzeContentPerformance();
+          await this.optimizeContent(performance);
+        } catch (error) {
+          await this.handleAutomationError('content', error);
+          throw error;
+        }
       }
-    }, 3600000); // Every hour
+    });
   }
 
   private startLeadTracking() {
-    setInterval(async () => {
-      try {
-        const leads = await this.trackLeadActivity();
-        await this.optimizeLeadGeneration(leads);
-      } catch (error) {
-        await this.handleAutomationError('leads', error);
+    schedulerService.registerJob({
+      name: 'durable.lead-tracking',
+      schedule: '*/15 * * * *',
+      handler: async () => {
+        try {
+          const leads = await this.trackLeadActivity();
+          await this.optimizeLeadGeneration(leads);
+        } catch (error) {
+          await this.handleAutomationError('leads', error);
+          throw error;
+        }
       }
-    }, 900000); // Every 15 minutes
+    });
   }
 
   private async handleAutomationError(type: string, error: any) {
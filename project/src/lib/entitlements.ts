@@ -0,0 +1,109 @@
+import type { PlanTier } from './stripe';
+
+// The plan an organization is treated as being on; FREE when it has no live subscription
+export type EffectivePlan = PlanTier | 'FREE';
+
+export const PLAN_ORDER: readonly EffectivePlan[] = ['FREE', 'STARTER', 'GROWTH', 'ENTERPRISE'];
+
+export const PLAN_NAMES: Record<EffectivePlan, string> = {
+  FREE: 'Free',
+  STARTER: 'Starter',
+  GROWTH: 'Growth',
+  ENTERPRISE: 'Enterprise'
+};
+
+// How far an account with an unpaid invoice has escalated; restricted accounts drop to the free tier and suspended ones lose paid features and API access
+export const DUNNING_STAGES = ['grace', 'restricted', 'suspended'] as const;
+export type DunningStage = typeof DUNNING_STAGES[number];
+
+export interface PlanQuota {
+  requestsPerSecond: number;
+  // null means unmetered
+  monthlyRequests: number | null;
+}
+
+// What STRIPE_PLANS and the support FAQ promise customers
+export const PLAN_QUOTAS: Record<EffectivePlan, PlanQuota> = {
+  FREE: { requestsPerSecond: 2, monthlyRequests: 100 },
+  STARTER: { requestsPerSecond: 10, monthlyRequests: 1_000 },
+  GROWTH: { requestsPerSecond: 50, monthlyRequests: 10_000 },
+  ENTERPRISE: { requestsPerSecond: 200, monthlyRequests: null }
+};
+
+// One per line item in the STRIPE_PLANS feature lists
+export const FEATURES = [
+  'basic_ai',
+  'advanced_ai',
+  'full_ai_suite',
+  'email_support',
+  'priority_support',
+  'support_24_7',
+  'standard_api',
+  'advanced_api',
+  'dedicated_gateway',
+  'basic_analytics',
+  'detailed_analytics',
+  'advanced_analytics',
+  'custom_integrations',
+  'custom_solutions',
+  'sla'
+] as const;
+
+export type Feature = typeof FEATURES[number];
+
+export const FEATURE_LABELS: Record<Feature, string> = {
+  basic_ai: 'Basic AI Services',
+  advanced_ai: 'Advanced AI Services',
+  full_ai_suite: 'Full AI Suite',
+  email_support: 'Email Support',
+  priority_support: 'Priority Support',
+  support_24_7: '24/7 Support',
+  standard_api: 'Standard API Access',
+  advanced_api: 'Advanced API Access',
+  dedicated_gateway: 'Dedicated API Gateway',
+  basic_analytics: 'Basic Analytics',
+  detailed_analytics: 'Detailed Analytics',
+  advanced_analytics: 'Advanced Analytics',
+  custom_integrations: 'Custom Integrations',
+  custom_solutions: 'Custom Solutions',
+  sla: 'SLA Guarantee'
+};
+
+const STARTER_FEATURES: Feature[] = ['basic_ai', 'email_support', 'standard_api', 'basic_analytics'];
+const GROWTH_FEATURES: Feature[] = [
+  ...STARTER_FEATURES,
+  'advanced_ai',
+  'priority_support',
+  'advanced_api',
+  'detailed_analytics',
+  'custom_integrations'
+];
+
+// Each tier includes everything below it
+export const PLAN_FEATURES: Record<EffectivePlan, Feature[]> = {
+  FREE: [],
+  STARTER: STARTER_FEATURES,
+  GROWTH: GROWTH_FEATURES,
+  ENTERPRISE: [
+    ...GROWTH_FEATURES,
+    'full_ai_suite',
+    'support_24_7',
+    'dedicated_gateway',
+    'advanced_analytics',
+    'custom_solutions',
+    'sla'
+  ]
+};
+
+export function getPlanQuota(plan?: EffectivePlan | null): PlanQuota {
+  return PLAN_QUOTAS[plan ?? 'FREE'];
+}
+
+export function planHasFeature(plan: EffectivePlan, feature: Feature): boolean {
+  return PLAN_FEATURES[plan].includes(feature);
+}
+
+// The cheapest plan that includes the feature, for upgrade prompts
+export function minimumPlanFor(feature: Feature): EffectivePlan {
+  return PLAN_ORDER.find(plan => planHasFeature(plan, feature)) ?? 'ENTERPRISE';
+}
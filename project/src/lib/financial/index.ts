@@ -4,6 +4,7 @@ import { complianceService } from '../compliance';
 import { AWS } from 'aws-sdk';
 import { Redis } from 'ioredis';
 import { format } from 'date-fns';
+import { everyInterval, schedulerService } from '../scheduler';
 
 interface FinancialMetrics {
   revenue: number;
@@ -80,71 +81,91 @@ class FinancialService {
   }
 
   private startPaymentProcessing() {
-    setInterval(async () => {
-      try {
-        // Process pending payments
-        const pendingPayments = await this.getPendingPayments();
+    schedulerService.registerJob({
+      name: 'financial.payment-processing',
+      schedule: everyInterval(this.checkIntervals.payments),
+      handler: async () => {
+        try {
+          // Process pending payments
+          const pendingPayments = await this.getPendingPayments();
         
-        for (const payment of pendingPayments) {
-          const result = await this.processPayment(payment);
+          for (const payment of pendingPayments) {
+            const result = await this.processPayment(payment);
           
-          if (result.success) {
-            await this.handleSuccessfulPayment(result);
-          } else {
-            await this.handleFailedPayment(payment);
+            if (result.success) {
+              await this.handleSuccessfulPayment(result);
+            } else {
+              await this.handleFailedPayment(payment);
+            }
           }
+        } catch (error) {
+          await this.handleFinancialError('payment_processing', error);
+          throw error;
         }
-      } catch (error) {
-        await this.handleFinancialError('payment_processing', error);
       }
-    }, this.checkIntervals.payments);
+    });
   }
 
   private startAutomaticTransfers() {
-    setInterval(async () => {
-      try {
-        // Check available balance
-        const balance = await stripe.balance.retrieve();
+    schedulerService.registerJob({
+      name: 'financial.automatic-transfers',
+      schedule: everyInterval(this.checkIntervals.transfers),
+      handler: async () => {
+        try {
+          // Check available balance
+          const balance = await stripe.balance.retrieve();
         
-        if (this.shouldTransfer(balance)) {
-          const result = await this.initiateTransfer(balance);
-          await this.trackTransfer(result);
+          if (this.shouldTransfer(balance)) {
+            const result = await this.initiateTransfer(balance);
+            await this.trackTransfer(result);
+          }
+        } catch (error) {
+          await this.handleFinancialError('automatic_transfer', error);
+          throw error;
         }
-      } catch (error) {
-        await this.handleFinancialError('automatic_transfer', error);
       }
-    }, this.checkIntervals.transfers);
+    });
   }
 
   private startFinancialReporting() {
-    setInterval(async () => {
-      try {
-        // Generate financial reports
-        const metrics = await this.calculateFinancialMetrics();
-        const report = await this.generateFinancialReport(metrics);
+    schedulerService.registerJob({
+      name: 'financial.financial-reporting',
+      schedule: everyInterval(this.checkIntervals.reporting),
+      handler: async () => {
+        try {
+          // Generate financial reports
+          const metrics = await this.calculateFinancialMetrics();
+          const report = await this.generateFinancialReport(metrics);
         
-        // Store and distribute reports
-        await this.storeReport(report);
-        await this.distributeReport(report);
-      } catch (error) {
-        await this.handleFinancialError('financial_reporting', error);
+          // Store and distribute reports
+          await this.storeReport(report);
+          await this.distributeReport(report);
+        } catch (error) {
+          await this.handleFinancialError('financial_reporting', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.reporting);
+    });
   }
 
   private startComplianceAuditing() {
-    setInterval(async () => {
-      try {
-        // Perform compliance checks
-        const auditResult = await this.performComplianceAudit();
+    schedulerService.registerJob({
+      name: 'financial.compliance-auditing',
+      schedule: everyInterval(this.checkIntervals.audit),
+      handler: async () => {
+        try {
+          // Perform compliance checks
+          const auditResult = await this.performComplianceAudit();
         
-        if (!auditResult.compliant) {
-          await this.handleComplianceIssues(auditResult.issues);
+          if (!auditResult.compliant) {
+            await this.handleComplianceIssues(auditResult.issues);
+          }
+        } catch (error) {
+          await this.handleFinancialError('compliance_audit', error);
+          throw error;
         }
-      } catch (error) {
-        await this.handleFinancialError('compliance_audit', error);
       }
-    }, this.checkIntervals.audit);
+    });
   }
 
   private async processPayment(payment: any): Promise<PaymentProcessingResult> {
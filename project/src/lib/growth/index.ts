@@ -3,6 +3,7 @@ import { aiAutomationService } from '../ai';
 import { marketingAutomationService } from '../automation/marketing';
 import { financialService } from '../financial';
 import { OpenAI } from 'openai';
+import { everyInterval, schedulerService } from '../scheduler';
 
 interface BusinessOpportunity {
   id: string;
@@ -177,71 +178,91 @@ class GrowthAutomationService {
   }
 
   private startOpportunityMonitoring() {
-    setInterval(async () => {
-      try {
-        // Detect new opportunities
-        const opportunities = await this.detectOpportunities();
+    schedulerService.registerJob({
+      name: 'growth.opportunity-monitoring',
+      schedule: everyInterval(this.checkIntervals.opportunities),
+      handler: async () => {
+        try {
+          // Detect new opportunities
+          const opportunities = await this.detectOpportunities();
         
-        // Evaluate opportunities
-        const evaluatedOpportunities = await this.evaluateOpportunities(opportunities);
+          // Evaluate opportunities
+          const evaluatedOpportunities = await this.evaluateOpportunities(opportunities);
         
-        // Pursue viable opportunities
-        await this.pursueOpportunities(evaluatedOpportunities);
-      } catch (error) {
-        await this.handleGrowthError('opportunity_monitoring', error);
+          // Pursue viable opportunities
+          await this.pursueOpportunities(evaluatedOpportunities);
+        } catch (error) {
+          await this.handleGrowthError('opportunity_monitoring', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.opportunities);
+    });
   }
 
   private startMarketingOptimization() {
-    setInterval(async () => {
-      try {
-        // Analyze campaign performance
-        const performance = await this.analyzeMarketingPerformance();
+    schedulerService.registerJob({
+      name: 'growth.marketing-optimization',
+      schedule: everyInterval(this.checkIntervals.marketing),
+      handler: async () => {
+        try {
+          // Analyze campaign performance
+          const performance = await this.analyzeMarketingPerformance();
         
-        // Generate optimizations
-        const optimizations = await this.generateMarketingOptimizations(performance);
+          // Generate optimizations
+          const optimizations = await this.generateMarketingOptimizations(performance);
         
-        // Implement optimizations
-        await this.implementMarketingOptimizations(optimizations);
-      } catch (error) {
-        await this.handleGrowthError('marketing_optimization', error);
+          // Implement optimizations
+          await this.implementMarketingOptimizations(optimizations);
+        } catch (error) {
+          await this.handleGrowthError('marketing_optimization', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.marketing);
+    });
   }
 
   private startInvestmentOptimization() {
-    setInterval(async () => {
-      try {
-        // Analyze investment performance
-        const performance = await this.analyzeInvestmentPerformance();
+    schedulerService.registerJob({
+      name: 'growth.investment-optimization',
+      schedule: everyInterval(this.checkIntervals.investments),
+      handler: async () => {
+        try {
+          // Analyze investment performance
+          const performance = await this.analyzeInvestmentPerformance();
         
-        // Generate allocation updates
-        const updates = await this.generateAllocationUpdates(performance);
+          // Generate allocation updates
+          const updates = await this.generateAllocationUpdates(performance);
         
-        // Implement allocation changes
-        await this.implementAllocationChanges(updates);
-      } catch (error) {
-        await this.handleGrowthError('investment_optimization', error);
+          // Implement allocation changes
+          await this.implementAllocationChanges(updates);
+        } catch (error) {
+          await this.handleGrowthError('investment_optimization', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.investments);
+    });
   }
 
   private startInnovationCycle() {
-    setInterval(async () => {
-      try {
-        // Generate new ideas
-        const ideas = await this.generateInnovationIdeas();
+    schedulerService.registerJob({
+      name: 'growth.innovation-cycle',
+      schedule: everyInterval(this.checkIntervals.innovation),
+      handler: async () => {
+        try {
+          // Generate new ideas
+          const ideas = await this.generateInnovationIdeas();
         
-        // Evaluate and test ideas
-        const testedIdeas = await this.evaluateAndTestIdeas(ideas);
+          // Evaluate and test ideas
+          const testedIdeas = await this.evaluateAndTestIdeas(ideas);
         
-        // Launch successful innovations
-        await this.launchSuccessfulInnovations(testedIdeas);
-      } catch (error) {
-        await this.handleGrowthError('innovation_cycle', error);
+          // Launch successful innovations
+          await this.launchSuccessfulInnovations(testedIdeas);
+        } catch (error) {
+          await this.handleGrowthError('innovation_cycle', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.innovation);
+    });
   }
 
   private async detectOpportunities(): Promise<BusinessOpportunity[]> {
@@ -3,6 +3,7 @@ import { aiAutomationService } from '../ai';
 import { marketExpansionService } from '../market';
 import { OpenAI } from 'openai';
 import * as tf from 'tensorflow';
+import { everyInterval, schedulerService } from '../scheduler';
 
 interface InnovationProject {
   id: string;
@@ -157,74 +158,94 @@ class InnovationEngine {
   }
 
   private startTrendMonitoring() {
-    setInterval(async () => {
-      try {
-        // Analyze market trends
-        const trends = await this.analyzeMarketTrends();
+    schedulerService.registerJob({
+      name: 'innovation.trend-monitoring',
+      schedule: everyInterval(this.checkIntervals.trends),
+      handler: async () => {
+        try {
+          // Analyze market trends
+          const trends = await this.analyzeMarketTrends();
         
-        // Identify opportunities
-        const opportunities = await this.identifyOpportunities(trends);
+          // Identify opportunities
+          const opportunities = await this.identifyOpportunities(trends);
         
-        // Generate innovation ideas
-        await this.generateInnovationIdeas(opportunities);
-      } catch (error) {
-        await this.handleInnovationError('trend_monitoring', error);
+          // Generate innovation ideas
+          await this.generateInnovationIdeas(opportunities);
+        } catch (error) {
+          await this.handleInnovationError('trend_monitoring', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.trends);
+    });
   }
 
   private startInnovationCycle() {
-    setInterval(async () => {
-      try {
-        // Review active projects
-        const projects = Array.from(this.projects.values());
+    schedulerService.registerJob({
+      name: 'innovation.innovation-cycle',
+      schedule: everyInterval(this.checkIntervals.innovation),
+      handler: async () => {
+        try {
+          // Review active projects
+          const projects = Array.from(this.projects.values());
         
-        // Update project status
-        await this.updateProjectStatus(projects);
+          // Update project status
+          await this.updateProjectStatus(projects);
         
-        // Allocate resources
-        await this.allocateResources(projects);
+          // Allocate resources
+          await this.allocateResources(projects);
         
-        // Launch ready projects
-        await this.launchReadyProjects(projects);
-      } catch (error) {
-        await this.handleInnovationError('innovation_cycle', error);
+          // Launch ready projects
+          await this.launchReadyProjects(projects);
+        } catch (error) {
+          await this.handleInnovationError('innovation_cycle', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.innovation);
+    });
   }
 
   private startTestingAutomation() {
-    setInterval(async () => {
-      try {
-        // Get projects in testing
-        const testingProjects = this.getProjectsInTesting();
+    schedulerService.registerJob({
+      name: 'innovation.testing-automation',
+      schedule: everyInterval(this.checkIntervals.testing),
+      handler: async () => {
+        try {
+          // Get projects in testing
+          const testingProjects = this.getProjectsInTesting();
         
-        // Run automated tests
-        const results = await this.runAutomatedTests(testingProjects);
+          // Run automated tests
+          const results = await this.runAutomatedTests(testingProjects);
         
-        // Process results
-        await this.processTestResults(results);
-      } catch (error) {
-        await this.handleInnovationError('testing_automation', error);
+          // Process results
+          await this.processTestResults(results);
+        } catch (error) {
+          await this.handleInnovationError('testing_automation', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.testing);
+    });
   }
 
   private startMetricsTracking() {
-    setInterval(async () => {
-      try {
-        // Collect metrics
-        const metrics = await this.collectInnovationMetrics();
+    schedulerService.registerJob({
+      name: 'innovation.metrics-tracking',
+      schedule: everyInterval(this.checkIntervals.metrics),
+      handler: async () => {
+        try {
+          // Collect metrics
+          const metrics = await this.collectInnovationMetrics();
         
-        // Analyze performance
-        const analysis = await this.analyzeInnovationPerformance(metrics);
+          // Analyze performance
+          const analysis = await this.analyzeInnovationPerformance(metrics);
         
-        // Optimize process
-        await this.optimizeInnovationProcess(analysis);
-      } catch (error) {
-        await this.handleInnovationError('metrics_tracking', error);
+          // Optimize process
+          await this.optimizeInnovationProcess(analysis);
+        } catch (error) {
+          await this.handleInnovationError('metrics_tracking', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.metrics);
+    });
   }
 
   private async analyzeMarketTrends(): Promise<MarketTrend[]> {
@@ -2,6 +2,7 @@ import { analyticsService } from '../analytics';
 import { monitoringService } from '../monitor';
 import { format } from 'date-fns';
 import { OpenAI } from 'openai';
+import { everyInterval, schedulerService } from '../scheduler';
 
 interface LegalProtection {
   type: 'copyright' | 'trademark' | 'patent' | 'trade_secret';
@@ -88,65 +89,81 @@ class LegalProtectionService {
   }
 
   private async startTrademarkMonitoring() {
-    setInterval(async () => {
-      try {
-        // Monitor for trademark infringement
-        const violations = await this.checkTrademarkViolations();
-        if (violations.length > 0) {
-          await this.handleTrademarkViolations(violations);
+    schedulerService.registerJob({
+      name: 'legal.trademark-monitoring',
+      schedule: everyInterval(this.checkIntervals.trademark),
+      handler: async () => {
+        try {
+          // Monitor for trademark infringement
+          const violations = await this.checkTrademarkViolations();
+          if (violations.length > 0) {
+            await this.handleTrademarkViolations(violations);
+          }
+        } catch (error) {
+          await this.handleProtectionError('trademark', error);
+          throw error;
         }
-      } catch (error) {
-        console.error('Trademark monitoring error:', error);
-        await this.handleProtectionError('trademark', error);
       }
-    }, this.checkIntervals.trademark);
+    });
   }
 
   private async startCopyrightProtection() {
-    setInterval(async () => {
-      try {
-        // Monitor for copyright infringement
-        const violations = await this.checkCopyrightViolations();
-        if (violations.length > 0) {
-          await this.handleCopyrightViolations(violations);
+    schedulerService.registerJob({
+      name: 'legal.copyright-protection',
+      schedule: everyInterval(this.checkIntervals.copyright),
+      handler: async () => {
+        try {
+          // Monitor for copyright infringement
+          const violations = await this.checkCopyrightViolations();
+          if (violations.length > 0) {
+            await this.handleCopyrightViolations(violations);
+          }
+        } catch (error) {
+          await this.handleProtectionError('copyright', error);
+          throw error;
         }
-      } catch (error) {
-        console.error('Copyright protection error:', error);
-        await this.handleProtectionError('copyright', error);
       }
-    }, this.checkIntervals.copyright);
+    });
   }
 
   private async startSecurityAuditing() {
-    setInterval(async () => {
-      try {
-        // Perform security audit
-        const audit = await this.performSecurityAudit();
-        if (audit.findings.length > 0) {
-          await this.handleSecurityFindings(audit);
+    schedulerService.registerJob({
+      name: 'legal.security-auditing',
+      schedule: everyInterval(this.checkIntervals.security),
+      handler: async () => {
+        try {
+          // Perform security audit
+          const audit = await this.performSecurityAudit();
+          if (audit.findings.length > 0) {
+            await this.handleSecurityFindings(audit);
+          }
+        } catch (error) {
+          await this.handleProtectionError('security', error);
+          throw error;
         }
-      } catch (error) {
-        console.error('Security audit error:', error);
-        await this.handleProtectionError('security', error);
       }
-    }, this.checkIntervals.security);
+    });
   }
 
   private async startComplianceMonitoring() {
-    setInterval(async () => {
-      try {
-        // Check compliance status
-        const checks = await this.performComplianceChecks();
-        for (const check of checks) {
-          if (check.status !== 'compliant') {
-            await this.handleComplianceIssue(check);
+    schedulerService.registerJob({
+      name: 'legal.compliance-monitoring',
+      schedule: everyInterval(this.checkIntervals.compliance),
+      handler: async () => {
+        try {
+          // Check compliance status
+          const checks = await this.performComplianceChecks();
+          for (const check of checks) {
+            if (check.status !== 'compliant') {
+              await this.handleComplianceIssue(check);
+            }
           }
+        } catch (error) {
+          await this.handleProtectionError('compliance', error);
+          throw error;
         }
-      } catch (error) {
-        console.error('Compliance monitoring error:', error);
-        await this.handleProtectionError('compliance', error);
       }
-    }, this.checkIntervals.compliance);
+    });
   }
 
   private async initializeWatermarks() {
@@ -2,6 +2,7 @@ import { analyticsService } from '../analytics';
 import { aiAutomationService } from '../ai';
 import { marketExpansionService } from './index';
 import { OpenAI } from 'openai';
+import { everyInterval, schedulerService } from '../scheduler';
 
 interface MarketExpansionStrategy {
   id: string;
@@ -150,72 +151,92 @@ class MarketExpansionAutomation {
   }
 
   private startMarketMonitoring() {
-    setInterval(async () => {
-      try {
-        // Analyze market opportunities
-        const opportunities = await this.analyzeMarketOpportunities();
+    schedulerService.registerJob({
+      name: 'market.expansion.market-monitoring',
+      schedule: everyInterval(this.checkIntervals.market),
+      handler: async () => {
+        try {
+          // Analyze market opportunities
+          const opportunities = await this.analyzeMarketOpportunities();
         
-        // Evaluate expansion potential
-        const evaluatedOpportunities = await this.evaluateExpansionPotential(opportunities);
+          // Evaluate expansion potential
+          const evaluatedOpportunities = await this.evaluateExpansionPotential(opportunities);
         
-        // Initiate expansion strategies
-        await this.initiateExpansionStrategies(evaluatedOpportunities);
-      } catch (error) {
-        await this.handleExpansionError('market_monitoring', error);
+          // Initiate expansion strategies
+          await this.initiateExpansionStrategies(evaluatedOpportunities);
+        } catch (error) {
+          await this.handleExpansionError('market_monitoring', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.market);
+    });
   }
 
   private startExecutionMonitoring() {
-    setInterval(async () => {
-      try {
-        // Monitor active strategies
-        const activeStrategies = Array.from(this.strategies.values())
-          .filter(s => s.status === 'execution');
+    schedulerService.registerJob({
+      name: 'market.expansion.execution-monitoring',
+      schedule: everyInterval(this.checkIntervals.execution),
+      handler: async () => {
+        try {
+          // Monitor active strategies
+          const activeStrategies = Array.from(this.strategies.values())
+            .filter(s => s.status === 'execution');
         
-        // Update execution status
-        await this.updateExecutionStatus(activeStrategies);
+          // Update execution status
+          await this.updateExecutionStatus(activeStrategies);
         
-        // Handle issues and optimize
-        await this.optimizeExecution(activeStrategies);
-      } catch (error) {
-        await this.handleExpansionError('execution_monitoring', error);
+          // Handle issues and optimize
+          await this.optimizeExecution(activeStrategies);
+        } catch (error) {
+          await this.handleExpansionError('execution_monitoring', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.execution);
+    });
   }
 
   private startMetricsTracking() {
-    setInterval(async () => {
-      try {
-        // Collect expansion metrics
-        const metrics = await this.collectExpansionMetrics();
+    schedulerService.registerJob({
+      name: 'market.expansion.metrics-tracking',
+      schedule: everyInterval(this.checkIntervals.metrics),
+      handler: async () => {
+        try {
+          // Collect expansion metrics
+          const metrics = await this.collectExpansionMetrics();
         
-        // Analyze performance
-        const analysis = await this.analyzeExpansionPerformance(metrics);
+          // Analyze performance
+          const analysis = await this.analyzeExpansionPerformance(metrics);
         
-        // Optimize strategies
-        await this.optimizeStrategies(analysis);
-      } catch (error) {
-        await this.handleExpansionError('metrics_tracking', error);
+          // Optimize strategies
+          await this.optimizeStrategies(analysis);
+        } catch (error) {
+          await this.handleExpansionError('metrics_tracking', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.metrics);
+    });
   }
 
   private startRiskMonitoring() {
-    setInterval(async () => {
-      try {
-        // Monitor risks
-        const risks = await this.monitorExpansionRisks();
+    schedulerService.registerJob({
+      name: 'market.expansion.risk-monitoring',
+      schedule: everyInterval(this.checkIntervals.risks),
+      handler: async () => {
+        try {
+          // Monitor risks
+          const risks = await this.monitorExpansionRisks();
         
-        // Update risk assessments
-        await this.updateRiskAssessments(risks);
+          // Update risk assessments
+          await this.updateRiskAssessments(risks);
         
-        // Implement mitigations
-        await this.implementRiskMitigations(risks);
-      } catch (error) {
-        await this.handleExpansionError('risk_monitoring', error);
+          // Implement mitigations
+          await this.implementRiskMitigations(risks);
+        } catch (error) {
+          await this.handleExpansionError('risk_monitoring', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.risks);
+    });
   }
 
   private async analyzeMarketOpportunities() {
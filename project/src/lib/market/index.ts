@@ -3,6 +3,7 @@ import { aiAutomationService } from '../ai';
 import { growthAutomationService } from '../growth';
 import { recommendationService } from '../ai/recommendation';
 import { OpenAI } from 'openai';
+import { everyInterval, schedulerService } from '../scheduler';
 
 interface MarketOpportunity {
   id: string;
@@ -170,71 +171,91 @@ class MarketExpansionService {
   }
 
   private startMarketMonitoring() {
-    setInterval(async () => {
-      try {
-        // Identify market opportunities
-        const opportunities = await this.identifyMarketOpportunities();
+    schedulerService.registerJob({
+      name: 'market.market-monitoring',
+      schedule: everyInterval(this.checkIntervals.market),
+      handler: async () => {
+        try {
+          // Identify market opportunities
+          const opportunities = await this.identifyMarketOpportunities();
         
-        // Evaluate opportunities
-        const evaluatedOpportunities = await this.evaluateMarketOpportunities(opportunities);
+          // Evaluate opportunities
+          const evaluatedOpportunities = await this.evaluateMarketOpportunities(opportunities);
         
-        // Pursue viable opportunities
-        await this.pursueMarketOpportunities(evaluatedOpportunities);
-      } catch (error) {
-        await this.handleExpansionError('market_monitoring', error);
+          // Pursue viable opportunities
+          await this.pursueMarketOpportunities(evaluatedOpportunities);
+        } catch (error) {
+          await this.handleExpansionError('market_monitoring', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.market);
+    });
   }
 
   private startPartnershipAutomation() {
-    setInterval(async () => {
-      try {
-        // Identify potential partners
-        const partners = await this.identifyPotentialPartners();
+    schedulerService.registerJob({
+      name: 'market.partnership-automation',
+      schedule: everyInterval(this.checkIntervals.partnership),
+      handler: async () => {
+        try {
+          // Identify potential partners
+          const partners = await this.identifyPotentialPartners();
         
-        // Evaluate partnerships
-        const evaluatedPartnerships = await this.evaluatePartnerships(partners);
+          // Evaluate partnerships
+          const evaluatedPartnerships = await this.evaluatePartnerships(partners);
         
-        // Initiate partnership discussions
-        await this.initiatePartnerships(evaluatedPartnerships);
-      } catch (error) {
-        await this.handleExpansionError('partnership_automation', error);
+          // Initiate partnership discussions
+          await this.initiatePartnerships(evaluatedPartnerships);
+        } catch (error) {
+          await this.handleExpansionError('partnership_automation', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.partnership);
+    });
   }
 
   private startMetricsTracking() {
-    setInterval(async () => {
-      try {
-        // Track market metrics
-        const metrics = await this.trackMarketMetrics();
+    schedulerService.registerJob({
+      name: 'market.metrics-tracking',
+      schedule: everyInterval(this.checkIntervals.metrics),
+      handler: async () => {
+        try {
+          // Track market metrics
+          const metrics = await this.trackMarketMetrics();
         
-        // Analyze performance
-        const analysis = await this.analyzeMarketPerformance(metrics);
+          // Analyze performance
+          const analysis = await this.analyzeMarketPerformance(metrics);
         
-        // Optimize strategies
-        await this.optimizeExpansionStrategies(analysis);
-      } catch (error) {
-        await this.handleExpansionError('metrics_tracking', error);
+          // Optimize strategies
+          await this.optimizeExpansionStrategies(analysis);
+        } catch (error) {
+          await this.handleExpansionError('metrics_tracking', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.metrics);
+    });
   }
 
   private startComplianceMonitoring() {
-    setInterval(async () => {
-      try {
-        // Monitor compliance requirements
-        const requirements = await this.monitorComplianceRequirements();
+    schedulerService.registerJob({
+      name: 'market.compliance-monitoring',
+      schedule: everyInterval(this.checkIntervals.compliance),
+      handler: async () => {
+        try {
+          // Monitor compliance requirements
+          const requirements = await this.monitorComplianceRequirements();
         
-        // Update documentation
-        await this.updateComplianceDocumentation(requirements);
+          // Update documentation
+          await this.updateComplianceDocumentation(requirements);
         
-        // Implement changes
-        await this.implementComplianceChanges(requirements);
-      } catch (error) {
-        await this.handleExpansionError('compliance_monitoring', error);
+          // Implement changes
+          await this.implementComplianceChanges(requirements);
+        } catch (error) {
+          await this.handleExpansionError('compliance_monitoring', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.compliance);
+    });
   }
 
   private async identifyMarketOpportunities(): Promise<MarketOpportunity[]> {
@@ -0,0 +1,40 @@
+import { isIP } from 'net';
+
+// The URL's hostname, without the brackets around an IPv6 address
+export function hostOf(url: string): string {
+  return new URL(url).hostname.replace(/^\[|\]$/g, '');
+}
+
+// Loopback, private, carrier-grade NAT, link-local and unspecified addresses, which a request made on a customer's behalf must never reach
+export function isPrivateAddress(address: string): boolean {
+  const host = address.toLowerCase();
+
+  if (isIP(host) === 4) {
+    const [a, b] = host.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127
+      || (a === 100 && b >= 64 && b <= 127)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168);
+  }
+
+  if (isIP(host) === 6) {
+    // IPv4-mapped, either dotted or as URLs normalize it, e.g. ::ffff:7f00:1
+    const dotted = host.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (dotted) return isPrivateAddress(dotted[1]);
+    const hex = host.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (hex) {
+      const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+      return isPrivateAddress([high >> 8, high & 0xff, low >> 8, low & 0xff].join('.'));
+    }
+    return host === '::' || host === '::1' || /^f[cd]/.test(host) || /^fe[89ab]/.test(host);
+  }
+
+  return false;
+}
+
+// Judges the name as written, without resolving it; pair with a DNS check before connecting
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  return host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host);
+}
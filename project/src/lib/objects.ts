@@ -0,0 +1,6 @@
+// A shallow copy without the given keys, e.g. to strip secrets before a record leaves the server
+export function omit<T extends object, K extends keyof T>(value: T, ...keys: K[]): Omit<T, K> {
+  const copy: Partial<T> = { ...value };
+  for (const key of keys) delete copy[key];
+  return copy as Omit<T, K>;
+}
@@ -3,6 +3,7 @@ import { aiAutomationService } from '../ai';
 import { marketExpansionService } from '../market';
 import { growthAutomationService } from '../growth';
 import { OpenAI } from 'openai';
+import { everyInterval, schedulerService } from '../scheduler';
 
 interface ReplicationModel {
   id: string;
@@ -173,73 +174,93 @@ class BusinessReplicationService {
   }
 
   private startAnalysisLoop() {
-    setInterval(async () => {
-      try {
-        // Analyze current business model
-        const model = await this.analyzeBusinessModel();
+    schedulerService.registerJob({
+      name: 'replication.analysis-loop',
+      schedule: everyInterval(this.checkIntervals.analysis),
+      handler: async () => {
+        try {
+          // Analyze current business model
+          const model = await this.analyzeBusinessModel();
         
-        // Identify replication opportunities
-        const opportunities = await this.identifyOpportunities(model);
+          // Identify replication opportunities
+          const opportunities = await this.identifyOpportunities(model);
         
-        // Evaluate feasibility
-        await this.evaluateFeasibility(opportunities);
-      } catch (error) {
-        await this.handleReplicationError('analysis', error);
+          // Evaluate feasibility
+          await this.evaluateFeasibility(opportunities);
+        } catch (error) {
+          await this.handleReplicationError('analysis', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.analysis);
+    });
   }
 
   private startReplicationLoop() {
-    setInterval(async () => {
-      try {
-        // Get approved opportunities
-        const opportunities = await this.getApprovedOpportunities();
+    schedulerService.registerJob({
+      name: 'replication.replication-loop',
+      schedule: everyInterval(this.checkIntervals.replication),
+      handler: async () => {
+        try {
+          // Get approved opportunities
+          const opportunities = await this.getApprovedOpportunities();
         
-        // Initialize replication
-        for (const opportunity of opportunities) {
-          await this.initiateReplication(opportunity);
-        }
+          // Initialize replication
+          for (const opportunity of opportunities) {
+            await this.initiateReplication(opportunity);
+          }
         
-        // Track progress
-        await this.trackReplicationProgress();
-      } catch (error) {
-        await this.handleReplicationError('replication', error);
+          // Track progress
+          await this.trackReplicationProgress();
+        } catch (error) {
+          await this.handleReplicationError('replication', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.replication);
+    });
   }
 
   private startOptimizationLoop() {
-    setInterval(async () => {
-      try {
-        // Analyze performance
-        const performance = await this.analyzePerformance();
+    schedulerService.registerJob({
+      name: 'replication.optimization-loop',
+      schedule: everyInterval(this.checkIntervals.optimization),
+      handler: async () => {
+        try {
+          // Analyze performance
+          const performance = await this.analyzePerformance();
         
-        // Generate optimizations
-        const optimizations = await this.generateOptimizations(performance);
+          // Generate optimizations
+          const optimizations = await this.generateOptimizations(performance);
         
-        // Implement optimizations
-        await this.implementOptimizations(optimizations);
-      } catch (error) {
-        await this.handleReplicationError('optimization', error);
+          // Implement optimizations
+          await this.implementOptimizations(optimizations);
+        } catch (error) {
+          await this.handleReplicationError('optimization', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.optimization);
+    });
   }
 
   private startMonitoringLoop() {
-    setInterval(async () => {
-      try {
-        // Monitor active replications
-        const status = await this.monitorReplications();
+    schedulerService.registerJob({
+      name: 'replication.monitoring-loop',
+      schedule: everyInterval(this.checkIntervals.monitoring),
+      handler: async () => {
+        try {
+          // Monitor active replications
+          const status = await this.monitorReplications();
         
-        // Generate reports
-        await this.generateReports(status);
+          // Generate reports
+          await this.generateReports(status);
         
-        // Handle issues
-        await this.handleIssues(status);
-      } catch (error) {
-        await this.handleReplicationError('monitoring', error);
+          // Handle issues
+          await this.handleIssues(status);
+        } catch (error) {
+          await this.handleReplicationError('monitoring', error);
+          throw error;
+        }
       }
-    }, this.checkIntervals.monitoring);
+    });
   }
 
   private async analyzeBusinessModel(): Promise<BusinessModel> {
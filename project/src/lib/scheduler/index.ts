@@ -0,0 +1,222 @@
+import { randomUUID } from 'crypto';
+import cron, { type ScheduledTask } from 'node-cron';
+import { type JobDefinition, type JobRun, type JobSummary, type JobTrigger } from './types';
+
+export * from './types';
+
+const HISTORY_LIMIT = 50;
+
+const SECOND_MS = 1000;
+const MINUTE_MS = 60 * SECOND_MS;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+interface Job {
+  definition: JobDefinition;
+  task: ScheduledTask | null;
+  paused: boolean;
+  running: boolean;
+  runCount: number;
+  failureCount: number;
+  history: JobRun[];
+}
+
+// Cron expression for a fixed interval, so loops configured in milliseconds can keep their settings.
+// Steps restart at each hour/day boundary, so intervals that do not divide it evenly run a little early once per cycle.
+export function everyInterval(ms: number): string {
+  if (!(ms >= SECOND_MS)) throw new Error(`Interval must be at least one second, got ${ms}`);
+
+  if (ms >= DAY_MS) return '0 0 * * *';
+  if (ms >= HOUR_MS) {
+    const hours = Math.round(ms / HOUR_MS);
+    return hours === 1 ? '0 * * * *' : `0 */${hours} * * *`;
+  }
+  if (ms >= MINUTE_MS) {
+    const minutes = Math.round(ms / MINUTE_MS);
+    return minutes === 1 ? '* * * * *' : `*/${minutes} * * * *`;
+  }
+  return `*/${Math.round(ms / SECOND_MS)} * * * * *`;
+}
+
+// Jitter for a job run every `ms`: a tenth of the interval, at most five minutes, so the loops that
+// everyInterval puts on the same boundary spread out without drifting far from their schedule
+export function intervalJitter(ms: number): number {
+  return Math.min(Math.round(ms / 10), 5 * MINUTE_MS);
+}
+
+class SchedulerService {
+  private static instance: SchedulerService;
+  private jobs = new Map<string, Job>();
+  private started = false;
+
+  private constructor() {}
+
+  public static getInstance(): SchedulerService {
+    if (!SchedulerService.instance) {
+      SchedulerService.instance = new SchedulerService();
+    }
+    return SchedulerService.instance;
+  }
+
+  // Registering again under the same name replaces the definition but keeps history and pause state
+  public registerJob(definition: JobDefinition): void {
+    if (!cron.validate(definition.schedule)) {
+      throw new Error(`Invalid cron expression "${definition.schedule}" for job ${definition.name}`);
+    }
+
+    const existing = this.jobs.get(definition.name);
+    existing?.task?.stop();
+
+    const job: Job = existing ?? {
+      definition,
+      task: null,
+      paused: false,
+      running: false,
+      runCount: 0,
+      failureCount: 0,
+      history: []
+    };
+    job.definition = definition;
+    job.task = null;
+    this.jobs.set(definition.name, job);
+
+    if (this.started) this.schedule(job);
+  }
+
+  public unregisterJob(name: string): void {
+    const job = this.requireJob(name);
+    job.task?.stop();
+    this.jobs.delete(name);
+  }
+
+  // Nothing runs until the process that owns the jobs (the API server) starts the scheduler
+  public start(): void {
+    if (this.started) return;
+    this.started = true;
+    for (const job of this.jobs.values()) this.schedule(job);
+  }
+
+  public stop(): void {
+    this.started = false;
+    for (const job of this.jobs.values()) {
+      job.task?.stop();
+      job.task = null;
+    }
+  }
+
+  public isStarted(): boolean {
+    return this.started;
+  }
+
+  public pauseJob(name: string): JobSummary {
+    const job = this.requireJob(name);
+    job.paused = true;
+    job.task?.stop();
+    return this.summarize(job);
+  }
+
+  public resumeJob(name: string): JobSummary {
+    const job = this.requireJob(name);
+    job.paused = false;
+    job.task?.start();
+    return this.summarize(job);
+  }
+
+  // Runs straight away, skipping jitter; paused jobs can still be run by hand
+  public async triggerJob(name: string): Promise<JobRun> {
+    return await this.run(this.requireJob(name), 'manual');
+  }
+
+  public listJobs(): JobSummary[] {
+    return Array.from(this.jobs.values(), job => this.summarize(job))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  public getJob(name: string): JobSummary {
+    return this.summarize(this.requireJob(name));
+  }
+
+  // Most recent run first
+  public getJobHistory(name: string, limit = HISTORY_LIMIT): JobRun[] {
+    return this.requireJob(name).history.slice(-limit).reverse().map(run => ({ ...run }));
+  }
+
+  private schedule(job: Job): void {
+    job.task = cron.schedule(job.definition.schedule, () => {
+      void this.run(job, 'schedule');
+    }, { scheduled: !job.paused, name: job.definition.name });
+  }
+
+  private async run(job: Job, trigger: JobTrigger): Promise<JobRun> {
+    const run: JobRun = {
+      id: randomUUID(),
+      job: job.definition.name,
+      trigger,
+      status: 'running',
+      startedAt: new Date()
+    };
+
+    // A run that is still going means the previous tick overran, so this one is dropped rather than stacked
+    if (job.running) {
+      run.status = 'skipped';
+      run.finishedAt = run.startedAt;
+      run.durationMs = 0;
+      this.record(job, run);
+      return { ...run };
+    }
+
+    job.running = true;
+    this.record(job, run);
+
+    try {
+      const jitter = trigger === 'schedule' ? Math.floor(Math.random() * (job.definition.jitterMs ?? 0)) : 0;
+      if (jitter > 0) {
+        await new Promise(resolve => setTimeout(resolve, jitter));
+        run.startedAt = new Date();
+      }
+
+      await job.definition.handler();
+      run.status = 'succeeded';
+    } catch (error) {
+      run.status = 'failed';
+      run.error = error instanceof Error ? error.message : String(error);
+      job.failureCount += 1;
+      console.error(`Scheduled job ${job.definition.name} failed:`, error);
+    } finally {
+      job.running = false;
+      job.runCount += 1;
+      run.finishedAt = new Date();
+      run.durationMs = run.finishedAt.getTime() - run.startedAt.getTime();
+    }
+
+    return { ...run };
+  }
+
+  private record(job: Job, run: JobRun): void {
+    job.history.push(run);
+    if (job.history.length > HISTORY_LIMIT) job.history.shift();
+  }
+
+  private summarize(job: Job): JobSummary {
+    const lastRun = job.history[job.history.length - 1];
+    return {
+      name: job.definition.name,
+      schedule: job.definition.schedule,
+      description: job.definition.description,
+      jitterMs: job.definition.jitterMs ?? 0,
+      paused: job.paused,
+      running: job.running,
+      runCount: job.runCount,
+      failureCount: job.failureCount,
+      lastRun: lastRun ? { ...lastRun } : undefined
+    };
+  }
+
+  private requireJob(name: string): Job {
+    const job = this.jobs.get(name);
+    if (!job) throw new Error(`Job ${name} is not registered`);
+    return job;
+  }
+}
+
+export const schedulerService = SchedulerService.getInstance();
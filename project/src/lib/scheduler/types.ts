@@ -0,0 +1,34 @@
+export type JobTrigger = 'schedule' | 'manual';
+
+export type JobRunStatus = 'running' | 'succeeded' | 'failed' | 'skipped';
+
+export interface JobDefinition {
+  name: string;
+  schedule: string; // cron expression, optionally with a leading seconds field
+  handler: () => unknown | Promise<unknown>;
+  description?: string;
+  jitterMs?: number; // random delay before scheduled runs so jobs sharing a tick do not start together
+}
+
+export interface JobRun {
+  id: string;
+  job: string;
+  trigger: JobTrigger;
+  status: JobRunStatus;
+  startedAt: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+  error?: string;
+}
+
+export interface JobSummary {
+  name: string;
+  schedule: string;
+  description?: string;
+  jitterMs: number;
+  paused: boolean;
+  running: boolean;
+  runCount: number;
+  failureCount: number;
+  lastRun?: JobRun;
+}
@@ -1,6 +1,7 @@
 import { analyticsService } from '../analytics';
 import { OpenAI } from 'openai';
 import { format } from 'date-fns';
+import { schedulerService } from '../scheduler';
 
 interface SocialPost {
   platform: 'twitter' | 'linkedin' | 'facebook' | 'instagram';
@@ -57,60 +58,76 @@ class SocialAutomationService {
   }
 
   private async startContentGeneration() {
-    setInterval(async () => {
-      try {
-        // Generate content for each platform
-        for (const platform of ['twitter', 'linkedin', 'facebook', 'instagram']) {
-          const strategy = await this.getContentStrategy(platform);
-          const content = await this.generateContent(strategy);
-          await this.scheduleContent(platform, content);
+    schedulerService.registerJob({
+      name: 'social.content-generation',
+      schedule: '0 * * * *',
+      handler: async () => {
+        try {
+          // Generate content for each platform
+          for (const platform of ['twitter', 'linkedin', 'facebook', 'instagram']) {
+            const strategy = await this.getContentStrategy(platform);
+            const content = await this.generateContent(strategy);
+            await this.scheduleContent(platform, content);
+          }
+        } catch (error) {
+          await this.handleAutomationError('content_generation', error);
+          throw error;
         }
-      } catch (error) {
-        console.error('Content generation error:', error);
-        await this.handleAutomationError('content_generation', error);
       }
-    }, 3600000); // Every hour
+    });
   }
 
   private async startEngagementAutomation() {
-    setInterval(async () => {
-      try {
-        // Monitor and engage with relevant content
-        await this.monitorMentions();
-        await this.respondToComments();
-        await this.engageWithTrends();
-      } catch (error) {
-        console.error('Engagement automation error:', error);
-        await this.handleAutomationError('engagement', error);
+    schedulerService.registerJob({
+      name: 'social.engagement-automation',
+      schedule: '*/5 * * * *',
+      handler: async () => {
+        try {
+          // Monitor and engage with relevant content
+          await this.monitorMentions();
+          await this.respondToComments();
+          await this.engageWithTrends();
+        } catch (error) {
+          await this.handleAutomationError('engagement', error);
+          throw error;
+        }
       }
-    }, 300000); // Every 5 minutes
+    });
   }
 
   private async startAnalyticsTracking() {
-    setInterval(async () => {
-      try {
-        // Track performance metrics
-        const metrics = await this.collectSocialMetrics();
-        await this.analyzePerformance(metrics);
-        await this.optimizeStrategy(metrics);
-      } catch (error) {
-        console.error('Analytics tracking error:', error);
-        await this.handleAutomationError('analytics', error);
+    schedulerService.registerJob({
+      name: 'social.analytics-tracking',
+      schedule: '*/15 * * * *',
+      handler: async () => {
+        try {
+          // Track performance metrics
+          const metrics = await this.collectSocialMetrics();
+          await this.analyzePerformance(metrics);
+          await this.optimizeStrategy(metrics);
+        } catch (error) {
+          await this.handleAutomationError('analytics', error);
+          throw error;
+        }
       }
-    }, 900000); // Every 15 minutes
+    });
   }
 
   private async startStrategyOptimization() {
-    setInterval(async () => {
-      try {
-        // Optimize content strategy based on performance
-        const performance = await this.getPerformanceData();
-        await this.updateContentStrategies(performance);
-      } catch (error) {
-        console.error('Strategy optimization error:', error);
-        await this.handleAutomationError('strategy', error);
+    schedulerService.registerJob({
+      name: 'social.strategy-optimization',
+      schedule: '0 0 * * *',
+      handler: async () => {
+        try {
+          // Optimize content strategy based on performance
+          const performance = await this.getPerformanceData();
+          await this.updateContentStrategies(performance);
+        } catch (error) {
+          await this.handleAutomationError('strategy', error);
+          throw error;
+        }
       }
-    }, 86400000); // Daily
+    });
   }
 
   private async generateContent(strategy: ContentStrategy): Promise<string> {
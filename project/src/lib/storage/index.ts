@@ -0,0 +1,235 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface CollectionStore<T> {
+  get(id: string): Promise<T | undefined>;
+  list(): Promise<T[]>;
+  put(id: string, value: T): Promise<void>;
+  delete(id: string): Promise<boolean>;
+  clear(): Promise<void>;
+}
+
+export type StorageDriver = 'memory' | 'file';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+// Restore Date fields that JSON.stringify turned into ISO strings
+const reviveDates = (_key: string, value: unknown) => {
+  if (typeof value === 'string' && ISO_DATE_PATTERN.test(value)) {
+    return new Date(value);
+  }
+  return value;
+};
+
+export class InMemoryStore<T> implements CollectionStore<T> {
+  private records = new Map<string, T>();
+
+  public async get(id: string): Promise<T | undefined> {
+    const record = this.records.get(id);
+    return record === undefined ? undefined : structuredClone(record);
+  }
+
+  public async list(): Promise<T[]> {
+    return Array.from(this.records.values(), record => structuredClone(record));
+  }
+
+  public async put(id: string, value: T): Promise<void> {
+    this.records.set(id, structuredClone(value));
+  }
+
+  public async delete(id: string): Promise<boolean> {
+    return this.records.delete(id);
+  }
+
+  public async clear(): Promise<void> {
+    this.records.clear();
+  }
+}
+
+export class JsonFileStore<T> implements CollectionStore<T> {
+  private records: Map<string, T> | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  public async get(id: string): Promise<T | undefined> {
+    const records = await this.load();
+    const record = records.get(id);
+    return record === undefined ? undefined : structuredClone(record);
+  }
+
+  public async list(): Promise<T[]> {
+    const records = await this.load();
+    return Array.from(records.values(), record => structuredClone(record));
+  }
+
+  public async put(id: string, value: T): Promise<void> {
+    const records = await this.load();
+    records.set(id, structuredClone(value));
+    await this.persist();
+  }
+
+  public async delete(id: string): Promise<boolean> {
+    const records = await this.load();
+    const deleted = records.delete(id);
+    if (deleted) await this.persist();
+    return deleted;
+  }
+
+  public async clear(): Promise<void> {
+    const records = await this.load();
+    records.clear();
+    await this.persist();
+  }
+
+  private async load(): Promise<Map<string, T>> {
+    if (this.records) return this.records;
+
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      const data = JSON.parse(raw, reviveDates) as Record<string, T>;
+      this.records = new Map(Object.entries(data));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      this.records = new Map();
+    }
+
+    return this.records;
+  }
+
+  private persist(): Promise<void> {
+    // Serialize writes and swap the file in atomically so a crash never leaves half a file
+    const write = this.pendingWrite.then(async () => {
+      const snapshot = JSON.stringify(Object.fromEntries(this.records ?? new Map()), null, 2);
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, snapshot, 'utf8');
+      await fs.rename(tempPath, this.filePath);
+    });
+    // One failed write must not wedge every later one; the next write carries its changes too
+    this.pendingWrite = write.catch(() => undefined);
+    return write;
+  }
+}
+
+export function resolveStorageDriver(): StorageDriver {
+  if (process.env.STORAGE_DRIVER === 'memory' || process.env.STORAGE_DRIVER === 'file') {
+    return process.env.STORAGE_DRIVER;
+  }
+  return process.env.NODE_ENV === 'test' ? 'memory' : 'file';
+}
+
+export function createStore<T>(collection: string, driver: StorageDriver = resolveStorageDriver()): CollectionStore<T> {
+  if (driver === 'memory') {
+    return new InMemoryStore<T>();
+  }
+  const dataDir = process.env.DATA_DIR || path.resolve(process.cwd(), 'data');
+  return new JsonFileStore<T>(path.join(dataDir, `${collection}.json`));
+}
+
+// Append-only records split into named segments (typically one per day), so retention drops whole segments
+export interface SegmentedLog<T> {
+  append(segment: string, records: T[]): Promise<void>;
+  read(segment: string): Promise<T[]>;
+  segments(): Promise<string[]>;
+  dropSegment(segment: string): Promise<boolean>;
+}
+
+export class InMemoryLog<T> implements SegmentedLog<T> {
+  private segmentRecords = new Map<string, T[]>();
+
+  public async append(segment: string, records: T[]): Promise<void> {
+    const existing = this.segmentRecords.get(segment) ?? [];
+    this.segmentRecords.set(segment, [...existing, ...records.map(record => structuredClone(record))]);
+  }
+
+  public async read(segment: string): Promise<T[]> {
+    return (this.segmentRecords.get(segment) ?? []).map(record => structuredClone(record));
+  }
+
+  public async segments(): Promise<string[]> {
+    return Array.from(this.segmentRecords.keys()).sort();
+  }
+
+  public async dropSegment(segment: string): Promise<boolean> {
+    return this.segmentRecords.delete(segment);
+  }
+}
+
+// One newline-delimited JSON file per segment; appends never rewrite what is already on disk
+export class NdjsonLog<T> implements SegmentedLog<T> {
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private readonly directory: string) {}
+
+  public append(segment: string, records: T[]): Promise<void> {
+    if (records.length === 0) return this.pendingWrite;
+    const lines = records.map(record => JSON.stringify(record)).join('\n') + '\n';
+    const write = this.pendingWrite.then(async () => {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.appendFile(this.segmentPath(segment), lines, 'utf8');
+    });
+    // One failed append must not wedge every later one
+    this.pendingWrite = write.catch(() => undefined);
+    return write;
+  }
+
+  public async read(segment: string): Promise<T[]> {
+    await this.pendingWrite;
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.segmentPath(segment), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const records: T[] = [];
+    for (const line of raw.split('\n')) {
+      if (!line) continue;
+      // A crash mid-append can leave a partial last line; skip it rather than losing the segment
+      try {
+        records.push(JSON.parse(line, reviveDates) as T);
+      } catch {
+        continue;
+      }
+    }
+    return records;
+  }
+
+  public async segments(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.directory);
+      return files
+        .filter(file => file.endsWith('.ndjson'))
+        .map(file => file.slice(0, -'.ndjson'.length))
+        .sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  public async dropSegment(segment: string): Promise<boolean> {
+    await this.pendingWrite;
+    try {
+      await fs.unlink(this.segmentPath(segment));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  private segmentPath(segment: string): string {
+    return path.join(this.directory, `${segment}.ndjson`);
+  }
+}
+
+export function createLog<T>(collection: string, driver: StorageDriver = resolveStorageDriver()): SegmentedLog<T> {
+  if (driver === 'memory') {
+    return new InMemoryLog<T>();
+  }
+  const dataDir = process.env.DATA_DIR || path.resolve(process.cwd(), 'data');
+  return new NdjsonLog<T>(path.join(dataDir, collection));
+}
@@ -19,6 +19,7 @@ export const STRIPE_PLANS = {
     name: 'Starter',
     monthlyPrice: 49,
     yearlyPrice: 470,
+    trialDays: 14,
     features: [
       'Up to 1,000 API requests/month',
       'Basic AI Services',
@@ -32,6 +33,7 @@ export const STRIPE_PLANS = {
     name: 'Growth',
     monthlyPrice: 199,
     yearlyPrice: 1990,
+    trialDays: 14,
     features: [
       'Up to 10,000 API requests/month',
       'Advanced AI Services',
@@ -46,6 +48,7 @@ export const STRIPE_PLANS = {
     name: 'Enterprise',
     monthlyPrice: 999,
     yearlyPrice: 9990,
+    trialDays: 30,
     features: [
       'Unlimited API requests',
       'Full AI Suite',
@@ -98,6 +101,15 @@ export const getPlanPriceId = (plan: PlanTier, interval: BillingInterval) => {
   return interval === 'monthly' ? `${planConfig.id}_monthly` : `${planConfig.id}_yearly`;
 };
 
+// Helper function to get the plan a price ID belongs to
+export const getPlanForPriceId = (priceId: string): PlanTier | null => {
+  const plan = (Object.keys(STRIPE_PLANS) as PlanTier[]).find(tier => priceId.startsWith(STRIPE_PLANS[tier].id));
+  return plan ?? null;
+};
+
+// Helper function to get the free trial length for a plan; 0 means no trial
+export const getTrialDays = (plan: PlanTier): number => STRIPE_PLANS[plan].trialDays;
+
 // Helper function to format price
 export const formatPrice = (amount: number) => {
   return new Intl.NumberFormat('en-US', {
@@ -0,0 +1,171 @@
+import type { AnalyticsMetric } from './analytics';
+
+export const TIME_BUCKETS = ['minute', 'hour', 'day'] as const;
+export type TimeBucket = typeof TIME_BUCKETS[number];
+
+// rate is the bucket's sum per second
+export const AGGREGATIONS = ['sum', 'avg', 'p50', 'p95', 'p99', 'rate'] as const;
+export type Aggregation = typeof AGGREGATIONS[number];
+
+export const BUCKET_MS: Record<TimeBucket, number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+// Keeps a single series small enough to chart and to send over the wire
+export const MAX_BUCKETS = 5000;
+
+export interface SeriesQuery {
+  name: string;
+  // Matches both events and metrics when omitted
+  type?: 'event' | 'metric';
+  aggregation: Aggregation;
+  bucket: TimeBucket;
+  from: number;
+  to: number;
+  where?: Record<string, string | number | boolean>;
+  // Splits the series by this metadata key; each point carries the group in its metadata
+  groupBy?: string;
+}
+
+// The fields of a stored record that aggregation needs
+export interface SeriesSample {
+  timestamp: number;
+  value: number;
+  properties: Record<string, unknown>;
+}
+
+export class AggregationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AggregationError';
+  }
+}
+
+// Buckets are aligned to UTC
+export function bucketStart(timestamp: number, bucket: TimeBucket): number {
+  return Math.floor(timestamp / BUCKET_MS[bucket]) * BUCKET_MS[bucket];
+}
+
+// The finest bucket that keeps a chart of the range readable
+export function bucketFor(from: number, to: number): TimeBucket {
+  const span = to - from;
+  if (span <= 2 * BUCKET_MS.hour) return 'minute';
+  if (span <= 2 * BUCKET_MS.day) return 'hour';
+  return 'day';
+}
+
+export function assertBucketCount(query: Pick<SeriesQuery, 'bucket' | 'from' | 'to'>): void {
+  const buckets = (bucketStart(query.to, query.bucket) - bucketStart(query.from, query.bucket)) / BUCKET_MS[query.bucket] + 1;
+  if (buckets > MAX_BUCKETS) {
+    throw new AggregationError(`A ${query.bucket} series over this range has ${buckets} buckets; the limit is ${MAX_BUCKETS}`);
+  }
+}
+
+// Linear interpolation between closest ranks; values must be sorted ascending
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function reduce(values: number[], aggregation: Aggregation, bucket: TimeBucket): number {
+  const sum = values.reduce((total, value) => total + value, 0);
+  switch (aggregation) {
+    case 'sum': return sum;
+    case 'avg': return sum / values.length;
+    case 'rate': return sum / (BUCKET_MS[bucket] / 1000);
+    case 'p50': return percentile([...values].sort((a, b) => a - b), 50);
+    case 'p95': return percentile([...values].sort((a, b) => a - b), 95);
+    case 'p99': return percentile([...values].sort((a, b) => a - b), 99);
+  }
+}
+
+// Samples must already be filtered to the query; sum and rate report empty buckets as 0, the others skip them
+export function aggregateSeries(samples: SeriesSample[], query: SeriesQuery): AnalyticsMetric[] {
+  assertBucketCount(query);
+
+  const groups = new Map<string, { group: unknown; buckets: Map<number, number[]> }>();
+  for (const sample of samples) {
+    const group = query.groupBy ? sample.properties[query.groupBy] ?? null : null;
+    const key = JSON.stringify(group);
+    const entry = groups.get(key) ?? { group, buckets: new Map<number, number[]>() };
+    const start = bucketStart(sample.timestamp, query.bucket);
+    entry.buckets.set(start, [...(entry.buckets.get(start) ?? []), sample.value]);
+    groups.set(key, entry);
+  }
+
+  const fillEmpty = query.aggregation === 'sum' || query.aggregation === 'rate';
+  // An ungrouped counter with no samples is still a flat line, not a missing one
+  if (fillEmpty && !query.groupBy && groups.size === 0) {
+    groups.set('null', { group: null, buckets: new Map() });
+  }
+
+  const first = bucketStart(query.from, query.bucket);
+  const last = bucketStart(query.to, query.bucket);
+  const points: AnalyticsMetric[] = [];
+  for (const { group, buckets } of groups.values()) {
+    const metadata = query.groupBy ? { [query.groupBy]: group } : undefined;
+    for (let start = first; start <= last; start += BUCKET_MS[query.bucket]) {
+      const values = buckets.get(start);
+      if (!values && !fillEmpty) continue;
+      points.push({
+        timestamp: start,
+        value: values ? reduce(values, query.aggregation, query.bucket) : 0,
+        ...(metadata && { metadata }),
+      });
+    }
+  }
+  return points.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// Pairs two ungrouped series by bucket, e.g. errors over requests; buckets missing from either side are dropped
+export function combineSeries(
+  left: AnalyticsMetric[],
+  right: AnalyticsMetric[],
+  combine: (left: number, right: number) => number | null
+): AnalyticsMetric[] {
+  const rightByTimestamp = new Map(right.map(point => [point.timestamp, point.value]));
+  return left.flatMap(point => {
+    const other = rightByTimestamp.get(point.timestamp);
+    const value = other === undefined ? null : combine(point.value, other);
+    return value === null ? [] : [{ timestamp: point.timestamp, value }];
+  });
+}
+
+export function ratio(numerator: number, denominator: number): number | null {
+  return denominator === 0 ? null : numerator / denominator;
+}
+
+// Names the built-in reports read; report them with trackEvent/trackMetric or through the ingestion API
+export const STANDARD_METRICS = {
+  // Events, one per occurrence
+  apiRequest: 'api_request',
+  apiError: 'api_error',
+  sessionStarted: 'session_started',
+  purchaseCompleted: 'purchase_completed',
+  customerAcquired: 'customer_acquired',
+  // Metrics; amounts are in major currency units
+  apiLatency: 'api_latency', // milliseconds
+  revenue: 'revenue',
+  marketingSpend: 'marketing_spend',
+  customerLifetimeValue: 'customer_lifetime_value',
+  costOfGoodsSold: 'cost_of_goods_sold',
+  operatingExpense: 'operating_expense',
+  cashFlow: 'cash_flow',
+  userRetention: 'user_retention', // percent of the cohort still active
+  sessionDuration: 'session_duration', // seconds
+} as const;
+
+// The only events visitors may record through the public trackEvent procedure, so they can't write into the platform's standard metrics
+export const CLIENT_EVENTS = [
+  'durable_referral',
+  'onboarding_started',
+  'onboarding_step_completed',
+  'onboarding_completed',
+  'checkout_started',
+] as const;
+export type ClientEvent = typeof CLIENT_EVENTS[number];
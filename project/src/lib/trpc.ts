@@ -8,6 +8,11 @@ export function createTRPCClient() {
     links: [
       httpBatchLink({
         url: `${import.meta.env.VITE_APP_URL}/api/trpc`,
+        // Act within the organization picked in the UI; the server falls back to the user's first one
+        headers() {
+          const organizationId = localStorage.getItem('organizationId');
+          return organizationId ? { 'x-organization-id': organizationId } : {};
+        },
         // Include credentials for authenticated requests
         fetch(url, options) {
           return fetch(url, {
@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { format, differenceInCalendarDays } from 'date-fns';
+import { AlertCircle, Loader2, ShieldAlert } from 'lucide-react';
+import { trpc } from '../lib/trpc';
+import { formatPrice } from '../lib/stripe';
+import { DUNNING_STAGES, type DunningStage } from '../lib/entitlements';
+
+const STAGE_STYLES: Record<DunningStage, string> = {
+  grace: 'bg-yellow-500/20 text-yellow-400',
+  restricted: 'bg-orange-500/20 text-orange-400',
+  suspended: 'bg-red-500/20 text-red-400'
+};
+
+function formatDate(value?: string | Date | null) {
+  return value ? format(new Date(value), 'MMM dd, yyyy HH:mm') : '—';
+}
+
+// Platform admins only; the procedures reject everyone else
+function AdminDunningPage() {
+  const [status, setStatus] = useState<'open' | 'resolved'>('open');
+  const [stage, setStage] = useState<DunningStage | undefined>(undefined);
+
+  const { data: cases, isLoading, error } = trpc.dunning.listCases.useQuery({ status, stage });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-900 via-slate-800 to-slate-900 text-white p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex items-center gap-3 mb-8">
+          <ShieldAlert className="w-8 h-8 text-orange-400" />
+          <h1 className="text-3xl font-bold">Accounts in Dunning</h1>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-6">
+          {(['open', 'resolved'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setStatus(option)}
+              className={`px-4 py-2 rounded-lg capitalize transition-colors ${
+                status === option ? 'bg-blue-500 text-white' : 'bg-white/10 text-gray-400'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+          <span className="w-px bg-white/20 mx-2" />
+          {[undefined, ...DUNNING_STAGES].map(option => (
+            <button
+              key={option ?? 'all'}
+              onClick={() => setStage(option)}
+              className={`px-4 py-2 rounded-lg capitalize transition-colors ${
+                stage === option ? 'bg-blue-500 text-white' : 'bg-white/10 text-gray-400'
+              }`}
+            >
+              {option ?? 'All stages'}
+            </button>
+          ))}
+        </div>
+
+        {error ? (
+          <div className="bg-red-500/20 text-red-400 p-4 rounded-lg flex items-center gap-2">
+            <AlertCircle className="w-5 h-5" />
+            <span>{error.message}</span>
+          </div>
+        ) : isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-blue-400" />
+          </div>
+        ) : !cases?.length ? (
+          <p className="text-gray-400">No {status} dunning cases.</p>
+        ) : (
+          <div className="bg-white/10 backdrop-blur-lg rounded-2xl border border-white/20 overflow-x-auto">
+            <table className="w-full text-left">
+              <thead className="text-gray-400 text-sm">
+                <tr>
+                  <th className="p-4">Organization</th>
+                  <th className="p-4">Stage</th>
+                  <th className="p-4">Amount Due</th>
+                  <th className="p-4">Failed Attempts</th>
+                  <th className="p-4">Opened</th>
+                  <th className="p-4">Last Notice</th>
+                  <th className="p-4">{status === 'open' ? 'Days Overdue' : 'Resolution'}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {cases.map(dunningCase => (
+                  <tr key={dunningCase.id} className="border-t border-white/10">
+                    <td className="p-4">
+                      <div className="font-medium">{dunningCase.organizationName ?? dunningCase.organizationId}</div>
+                      {dunningCase.hostedInvoiceUrl ? (
+                        <a href={dunningCase.hostedInvoiceUrl} target="_blank" rel="noreferrer" className="text-sm text-blue-400 hover:underline">
+                          {dunningCase.invoiceNumber ?? dunningCase.invoiceId}
+                        </a>
+                      ) : (
+                        <span className="text-sm text-gray-400">{dunningCase.invoiceNumber ?? dunningCase.invoiceId}</span>
+                      )}
+                    </td>
+                    <td className="p-4">
+                      <span className={`px-2 py-1 rounded text-sm capitalize ${STAGE_STYLES[dunningCase.stage]}`}>
+                        {dunningCase.stage}
+                      </span>
+                    </td>
+                    <td className="p-4">{formatPrice(dunningCase.amountDue / 100)}</td>
+                    <td className="p-4">{dunningCase.failedAttempts}</td>
+                    <td className="p-4">{formatDate(dunningCase.openedAt)}</td>
+                    <td className="p-4">{formatDate(dunningCase.lastNotifiedAt)}</td>
+                    <td className="p-4 capitalize">
+                      {dunningCase.resolvedAt
+                        ? `${dunningCase.resolution} ${formatDate(dunningCase.resolvedAt)}`
+                        : differenceInCalendarDays(new Date(), new Date(dunningCase.openedAt))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default AdminDunningPage;
@@ -1,36 +1,99 @@
 import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { Line } from 'react-chartjs-2';
 import { format, subDays } from 'date-fns';
 import {
   Activity,
-  TrendingUp,
-  Users,
   DollarSign,
   Zap,
   AlertTriangle,
   CheckCircle,
-  Brain
+  Brain,
+  Lock,
+  Users
 } from 'lucide-react';
-import { analyticsService, type OptimizationSuggestion } from '../lib/analytics';
+import {
+  analyticsService,
+  type AnalyticsMetric,
+  type OptimizationSuggestion,
+  type PerformanceMetrics,
+  type SalesMetrics
+} from '../lib/analytics';
+import { FEATURE_LABELS, type Feature } from '../lib/entitlements';
+import { trpc } from '../lib/trpc';
+import { useEntitlements } from '../hooks/useEntitlements';
+import AnomalyPanel from '../components/AnomalyPanel';
+import DashboardBuilder from '../components/DashboardBuilder';
+import FunnelReport, { type ReportScope } from '../components/FunnelReport';
+import RetentionReport from '../components/RetentionReport';
+
+// Shown in place of a section the current plan does not include
+function UpgradePrompt({ feature, planName }: { feature: Feature; planName: string }) {
+  return (
+    <div className="flex flex-col items-center justify-center text-center gap-3 py-10">
+      <Lock className="w-8 h-8 text-gray-400" />
+      <p className="text-gray-300">
+        {FEATURE_LABELS[feature]} is available on the {planName} plan and above.
+      </p>
+      <Link
+        to="/billing"
+        className="px-4 py-2 rounded-lg bg-blue-500 hover:bg-blue-600 transition-colors"
+      >
+        Upgrade to {planName}
+      </Link>
+    </div>
+  );
+}
+
+function total(series: AnalyticsMetric[]): number {
+  return series.reduce((sum, point) => sum + point.value, 0);
+}
+
+// Headline figures for the selected range, or null where nothing has been reported yet
+function summarize(performance: PerformanceMetrics | null, sales: SalesMetrics | null) {
+  const requests = performance ? total(performance.requestVolume) : 0;
+  const errors = performance
+    ? performance.errorRates.reduce((sum, point) => {
+        const volume = performance.requestVolume.find(bucket => bucket.timestamp === point.timestamp)?.value ?? 0;
+        return sum + point.value * volume;
+      }, 0)
+    : 0;
+  const latency = performance?.apiLatency ?? [];
+
+  return {
+    requests: performance ? requests : null,
+    revenue: sales && sales.revenue.some(point => point.value !== 0) ? total(sales.revenue) : null,
+    latency: latency.length > 0 ? total(latency) / latency.length : null,
+    successRate: requests > 0 ? 1 - errors / requests : null,
+  };
+}
 
 function AnalyticsPage() {
   const [dateRange, setDateRange] = useState({
     start: subDays(new Date(), 30),
     end: new Date(),
   });
-  const [performanceMetrics, setPerformanceMetrics] = useState<any>(null);
-  const [salesMetrics, setSalesMetrics] = useState<any>(null);
+  const [performanceMetrics, setPerformanceMetrics] = useState<PerformanceMetrics | null>(null);
+  const [salesMetrics, setSalesMetrics] = useState<SalesMetrics | null>(null);
   const [suggestions, setSuggestions] = useState<OptimizationSuggestion[]>([]);
   const [loading, setLoading] = useState(true);
+  const { isLoading: entitlementsLoading, hasFeature, upgradePlanFor } = useEntitlements();
+  const showDetailed = hasFeature('detailed_analytics');
+  const showInsights = hasFeature('advanced_analytics');
+  const [reportScope, setReportScope] = useState<ReportScope>('organization');
+  const { data: me } = trpc.auth.me.useQuery();
 
   useEffect(() => {
+    if (entitlementsLoading) return;
+
     const fetchData = async () => {
       setLoading(true);
       try {
+        // Only fetch what the plan lets us show
         const [performance, sales, optimizations] = await Promise.all([
-          analyticsService.getPerformanceMetrics(dateRange.start, dateRange.end),
-          analyticsService.getSalesMetrics(dateRange.start, dateRange.end),
-          analyticsService.getOptimizationSuggestions(),
+          showDetailed ? analyticsService.getPerformanceMetrics(dateRange.start, dateRange.end) : null,
+          showDetailed ? analyticsService.getSalesMetrics(dateRange.start, dateRange.end) : null,
+          showInsights ? analyticsService.getOptimizationSuggestions() : [],
         ]);
 
         setPerformanceMetrics(performance);
@@ -44,9 +107,11 @@ function AnalyticsPage() {
     };
 
     fetchData();
-  }, [dateRange]);
+  }, [dateRange, entitlementsLoading, showDetailed, showInsights]);
+
+  const summary = summarize(performanceMetrics, salesMetrics);
 
-  if (loading) {
+  if (entitlementsLoading || loading) {
     return (
       <div className="min-h-screen bg-gradient-to-b from-slate-900 via-slate-800 to-slate-900 text-white flex items-center justify-center">
         <div className="flex items-center gap-2">
@@ -57,6 +122,16 @@ function AnalyticsPage() {
     );
   }
 
+  if (!hasFeature('basic_analytics')) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-slate-900 via-slate-800 to-slate-900 text-white flex items-center justify-center">
+        <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20 max-w-lg w-full">
+          <UpgradePrompt feature="basic_analytics" planName={upgradePlanFor('basic_analytics')} />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-slate-900 via-slate-800 to-slate-900 text-white p-8">
       <div className="max-w-7xl mx-auto">
@@ -84,14 +159,13 @@ function AnalyticsPage() {
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
             <div className="flex items-center gap-3 mb-4">
-              <Users className="w-6 h-6 text-blue-400" />
-              <span className="text-gray-400">Active Users</span>
+              <Activity className="w-6 h-6 text-blue-400" />
+              <span className="text-gray-400">API Requests</span>
             </div>
-            <div className="text-2xl font-bold">2,547</div>
-            <div className="text-sm text-green-400 mt-2 flex items-center gap-1">
-              <TrendingUp className="w-4 h-4" />
-              +15% vs last period
+            <div className="text-2xl font-bold">
+              {summary.requests === null ? '—' : summary.requests.toLocaleString()}
             </div>
+            <div className="text-sm text-gray-400 mt-2">In the selected period</div>
           </div>
 
           <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
@@ -99,11 +173,10 @@ function AnalyticsPage() {
               <DollarSign className="w-6 h-6 text-green-400" />
               <span className="text-gray-400">Revenue</span>
             </div>
-            <div className="text-2xl font-bold">$45,892</div>
-            <div className="text-sm text-green-400 mt-2 flex items-center gap-1">
-              <TrendingUp className="w-4 h-4" />
-              +23% vs last period
+            <div className="text-2xl font-bold">
+              {summary.revenue === null ? '—' : `$${summary.revenue.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
             </div>
+            <div className="text-sm text-gray-400 mt-2">In the selected period</div>
           </div>
 
           <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
@@ -111,11 +184,10 @@ function AnalyticsPage() {
               <Zap className="w-6 h-6 text-yellow-400" />
               <span className="text-gray-400">API Performance</span>
             </div>
-            <div className="text-2xl font-bold">245ms</div>
-            <div className="text-sm text-green-400 mt-2 flex items-center gap-1">
-              <TrendingUp className="w-4 h-4" />
-              -12% latency
+            <div className="text-2xl font-bold">
+              {summary.latency === null ? '—' : `${Math.round(summary.latency)}ms`}
             </div>
+            <div className="text-sm text-gray-400 mt-2">Average latency</div>
           </div>
 
           <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
@@ -123,87 +195,125 @@ function AnalyticsPage() {
               <CheckCircle className="w-6 h-6 text-purple-400" />
               <span className="text-gray-400">Success Rate</span>
             </div>
-            <div className="text-2xl font-bold">99.9%</div>
-            <div className="text-sm text-green-400 mt-2 flex items-center gap-1">
-              <TrendingUp className="w-4 h-4" />
-              +0.5% reliability
+            <div className="text-2xl font-bold">
+              {summary.successRate === null ? '—' : `${(summary.successRate * 100).toFixed(1)}%`}
             </div>
+            <div className="text-sm text-gray-400 mt-2">Requests without an error</div>
           </div>
         </div>
 
+        {/* Custom Dashboards */}
+        <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20 mb-8">
+          <h2 className="text-xl font-bold mb-6">Custom Dashboards</h2>
+          <DashboardBuilder />
+        </div>
+
         {/* Charts Grid */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
-          <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
-            <h2 className="text-xl font-bold mb-6">API Usage Trends</h2>
-            {performanceMetrics && (
-              <Line
-                data={{
-                  labels: performanceMetrics.requestVolume.map((m: any) => 
-                    format(new Date(m.timestamp), 'MMM dd')
-                  ),
-                  datasets: [{
-                    label: 'Requests',
-                    data: performanceMetrics.requestVolume.map((m: any) => m.value),
-                    borderColor: '#60A5FA',
-                    tension: 0.4,
-                    fill: true,
-                    backgroundColor: 'rgba(96, 165, 250, 0.1)',
-                  }],
-                }}
-                options={{
-                  responsive: true,
-                  scales: {
-                    y: {
-                      beginAtZero: true,
-                      grid: { color: 'rgba(255, 255, 255, 0.1)' },
-                      ticks: { color: 'rgba(255, 255, 255, 0.7)' },
+        {!showDetailed ? (
+          <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20 mb-8">
+            <UpgradePrompt feature="detailed_analytics" planName={upgradePlanFor('detailed_analytics')} />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+            <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+              <h2 className="text-xl font-bold mb-6">API Usage Trends</h2>
+              {performanceMetrics && (
+                <Line
+                  data={{
+                    labels: performanceMetrics.requestVolume.map((m) => 
+                      format(new Date(m.timestamp), 'MMM dd')
+                    ),
+                    datasets: [{
+                      label: 'Requests',
+                      data: performanceMetrics.requestVolume.map((m) => m.value),
+                      borderColor: '#60A5FA',
+                      tension: 0.4,
+                      fill: true,
+                      backgroundColor: 'rgba(96, 165, 250, 0.1)',
+                    }],
+                  }}
+                  options={{
+                    responsive: true,
+                    scales: {
+                      y: {
+                        beginAtZero: true,
+                        grid: { color: 'rgba(255, 255, 255, 0.1)' },
+                        ticks: { color: 'rgba(255, 255, 255, 0.7)' },
+                      },
+                      x: {
+                        grid: { color: 'rgba(255, 255, 255, 0.1)' },
+                        ticks: { color: 'rgba(255, 255, 255, 0.7)' },
+                      },
                     },
-                    x: {
-                      grid: { color: 'rgba(255, 255, 255, 0.1)' },
-                      ticks: { color: 'rgba(255, 255, 255, 0.7)' },
+                    plugins: { legend: { display: false } },
+                  }}
+                />
+              )}
+            </div>
+
+            <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+              <h2 className="text-xl font-bold mb-6">Revenue Growth</h2>
+              {salesMetrics && (
+                <Line
+                  data={{
+                    labels: salesMetrics.revenue.map((m) => 
+                      format(new Date(m.timestamp), 'MMM dd')
+                    ),
+                    datasets: [{
+                      label: 'Revenue',
+                      data: salesMetrics.revenue.map((m) => m.value),
+                      borderColor: '#34D399',
+                      tension: 0.4,
+                      fill: true,
+                      backgroundColor: 'rgba(52, 211, 153, 0.1)',
+                    }],
+                  }}
+                  options={{
+                    responsive: true,
+                    scales: {
+                      y: {
+                        beginAtZero: true,
+                        grid: { color: 'rgba(255, 255, 255, 0.1)' },
+                        ticks: { color: 'rgba(255, 255, 255, 0.7)' },
+                      },
+                      x: {
+                        grid: { color: 'rgba(255, 255, 255, 0.1)' },
+                        ticks: { color: 'rgba(255, 255, 255, 0.7)' },
+                      },
                     },
-                  },
-                  plugins: { legend: { display: false } },
-                }}
-              />
-            )}
+                    plugins: { legend: { display: false } },
+                  }}
+                />
+              )}
+            </div>
           </div>
+        )}
 
-          <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
-            <h2 className="text-xl font-bold mb-6">Revenue Growth</h2>
-            {salesMetrics && (
-              <Line
-                data={{
-                  labels: salesMetrics.revenue.map((m: any) => 
-                    format(new Date(m.timestamp), 'MMM dd')
-                  ),
-                  datasets: [{
-                    label: 'Revenue',
-                    data: salesMetrics.revenue.map((m: any) => m.value),
-                    borderColor: '#34D399',
-                    tension: 0.4,
-                    fill: true,
-                    backgroundColor: 'rgba(52, 211, 153, 0.1)',
-                  }],
-                }}
-                options={{
-                  responsive: true,
-                  scales: {
-                    y: {
-                      beginAtZero: true,
-                      grid: { color: 'rgba(255, 255, 255, 0.1)' },
-                      ticks: { color: 'rgba(255, 255, 255, 0.7)' },
-                    },
-                    x: {
-                      grid: { color: 'rgba(255, 255, 255, 0.1)' },
-                      ticks: { color: 'rgba(255, 255, 255, 0.7)' },
-                    },
-                  },
-                  plugins: { legend: { display: false } },
-                }}
-              />
+        {/* Funnels & Retention */}
+        <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20 mb-8">
+          <div className="flex items-center gap-3 mb-6">
+            <Users className="w-6 h-6 text-blue-400" />
+            <h2 className="text-xl font-bold">Funnels & Retention</h2>
+            {me?.isPlatformAdmin && (
+              <select
+                value={reportScope}
+                onChange={(e) => setReportScope(e.target.value as ReportScope)}
+                className="ml-auto bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-sm"
+              >
+                <option value="organization">This organization</option>
+                <option value="platform">Platform onboarding</option>
+              </select>
             )}
           </div>
+
+          {!showDetailed && reportScope === 'organization' ? (
+            <UpgradePrompt feature="detailed_analytics" planName={upgradePlanFor('detailed_analytics')} />
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <FunnelReport scope={reportScope} from={dateRange.start} to={dateRange.end} />
+              <RetentionReport scope={reportScope} />
+            </div>
+          )}
         </div>
 
         {/* AI Insights */}
@@ -213,30 +323,37 @@ function AnalyticsPage() {
             <h2 className="text-xl font-bold">AI-Driven Insights & Recommendations</h2>
           </div>
 
-          <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {suggestions.map((suggestion, index) => (
-              <div
-                key={index}
-                className="bg-white/5 rounded-xl p-6 border border-white/10"
-              >
-                <div className="flex items-center gap-2 mb-4">
-                  {suggestion.priority === 'high' ? (
-                    <AlertTriangle className="w-5 h-5 text-yellow-400" />
-                  ) : (
-                    <CheckCircle className="w-5 h-5 text-green-400" />
-                  )}
-                  <span className="font-semibold">
-                    {suggestion.type.replace('_', ' ').toUpperCase()}
-                  </span>
-                </div>
-                <p className="text-gray-300 mb-4">{suggestion.suggestion}</p>
-                <div className="text-sm">
-                  <p className="text-blue-400 mb-2">Expected Impact:</p>
-                  <p className="text-gray-400">{suggestion.impact}</p>
-                </div>
+          {!showInsights ? (
+            <UpgradePrompt feature="advanced_analytics" planName={upgradePlanFor('advanced_analytics')} />
+          ) : (
+            <>
+              <AnomalyPanel />
+              <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {suggestions.map((suggestion, index) => (
+                  <div
+                    key={index}
+                    className="bg-white/5 rounded-xl p-6 border border-white/10"
+                  >
+                    <div className="flex items-center gap-2 mb-4">
+                      {suggestion.priority === 'high' ? (
+                        <AlertTriangle className="w-5 h-5 text-yellow-400" />
+                      ) : (
+                        <CheckCircle className="w-5 h-5 text-green-400" />
+                      )}
+                      <span className="font-semibold">
+                        {suggestion.type.replace('_', ' ').toUpperCase()}
+                      </span>
+                    </div>
+                    <p className="text-gray-300 mb-4">{suggestion.suggestion}</p>
+                    <div className="text-sm">
+                      <p className="text-blue-400 mb-2">Expected Impact:</p>
+                      <p className="text-gray-400">{suggestion.impact}</p>
+                    </div>
+                  </div>
+                ))}
               </div>
-            ))}
-          </div>
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { trpc } from '../lib/trpc';
 import { STRIPE_PLANS, type BillingInterval, type PlanTier, getStripe, formatPrice } from '../lib/stripe';
+import PlanChangeDialog from '../components/PlanChangeDialog';
+import { useTrackEvent } from '../hooks/useTrackEvent';
 import {
   CreditCard,
   Check,
@@ -11,7 +13,8 @@ import {
   Clock,
   Shield,
   Zap,
-  CheckCircle
+  CheckCircle,
+  Tag
 } from 'lucide-react';
 
 function BillingPage() {
@@ -20,7 +23,27 @@ function BillingPage() {
   const [billingInterval, setBillingInterval] = useState<BillingInterval>('monthly');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [planChange, setPlanChange] = useState<{ plan: PlanTier; priceId: string } | null>(null);
+  // Campaign links carry their code as ?promo=CODE
+  const [searchParams] = useSearchParams();
+  const [promoInput, setPromoInput] = useState(searchParams.get('promo') ?? '');
+  const [promoCode, setPromoCode] = useState(searchParams.get('promo') ?? '');
 
+  const utils = trpc.useUtils();
+  const { data: subscription } = trpc.getSubscription.useQuery();
+  // Customers with a live subscription change plans in place instead of checking out again
+  const liveSubscription = subscription && ['active', 'trialing', 'past_due'].includes(subscription.status)
+    ? subscription
+    : null;
+
+  // Only organizations that never subscribed get a trial
+  const trialEligible = !subscription;
+  const promotion = trpc.checkPromoCode.useQuery(
+    { code: promoCode },
+    { enabled: Boolean(promoCode) && !liveSubscription, retry: false }
+  );
+
+  const trackEvent = useTrackEvent();
   const createSubscription = trpc.createSubscription.useMutation({
     onSuccess: async ({ sessionId }) => {
       try {
@@ -53,9 +76,11 @@ function BillingPage() {
     try {
       const planConfig = STRIPE_PLANS[plan];
       const priceId = `${planConfig.id}_${billingInterval}`;
+      trackEvent('checkout_started', { plan, billingInterval });
 
       await createSubscription.mutateAsync({
-        planId: priceId
+        planId: priceId,
+        promoCode: promotion.data?.code
       });
     } catch (err) {
       setError('Failed to initiate subscription. Please try again.');
@@ -63,6 +88,17 @@ function BillingPage() {
     }
   };
 
+  const describePromotion = (coupon: NonNullable<typeof promotion.data>) => {
+    const amount = coupon.percentOff ? `${coupon.percentOff}% off` : formatPrice((coupon.amountOff ?? 0) / 100) + ' off';
+    if (coupon.duration === 'repeating') return `${amount} for ${coupon.durationInMonths} months`;
+    return coupon.duration === 'once' ? `${amount} your first invoice` : `${amount} forever`;
+  };
+
+  const handlePlanChanged = () => {
+    setPlanChange(null);
+    utils.getSubscription.invalidate();
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-slate-900 via-slate-800 to-slate-900 text-white py-12">
       <div className="container mx-auto px-4">
@@ -96,6 +132,46 @@ function BillingPage() {
               Yearly (Save 20%)
             </button>
           </div>
+
+          {!liveSubscription && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                setPromoCode(promoInput.trim());
+              }}
+              className="flex items-center justify-center gap-2 mt-6"
+            >
+              <Tag className="w-5 h-5 text-gray-400" />
+              <input
+                value={promoInput}
+                onChange={(e) => setPromoInput(e.target.value)}
+                placeholder="Promo code"
+                className="bg-white/10 border border-white/20 rounded-lg px-3 py-2 uppercase"
+              />
+              <button type="submit" className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors">
+                Apply
+              </button>
+            </form>
+          )}
+          {promoCode && !liveSubscription && (
+            <p className={`mt-2 text-sm ${promotion.error ? 'text-red-400' : 'text-green-400'}`}>
+              {promotion.isLoading
+                ? 'Checking code...'
+                : promotion.error
+                  ? promotion.error.message
+                  : promotion.data && `${promotion.data.code}: ${describePromotion(promotion.data)}`}
+            </p>
+          )}
+
+          {liveSubscription?.scheduledChange && (
+            <div className="mt-6 inline-flex items-center gap-2 bg-blue-500/20 text-blue-300 px-4 py-2 rounded-lg">
+              <Clock className="w-5 h-5" />
+              <span>
+                Your plan changes to {STRIPE_PLANS[liveSubscription.scheduledChange.plan].name} on{' '}
+                {new Date(liveSubscription.scheduledChange.effectiveAt).toLocaleDateString()}
+              </span>
+            </div>
+          )}
         </div>
 
         <div className="grid md:grid-cols-3 gap-8 max-w-6xl mx-auto">
@@ -104,6 +180,8 @@ function BillingPage() {
             const price = billingInterval === 'monthly' 
               ? plan.monthlyPrice 
               : plan.yearlyPrice;
+            const priceId = `${plan.id}_${billingInterval}`;
+            const isCurrentPlan = liveSubscription?.priceId === priceId;
 
             return (
               <div
@@ -127,6 +205,9 @@ function BillingPage() {
                   <span className="text-4xl font-bold">${price}</span>
                   <span className="text-gray-400 ml-2">/{billingInterval === 'monthly' ? 'mo' : 'yr'}</span>
                 </div>
+                {trialEligible && plan.trialDays > 0 && (
+                  <p className="text-green-400 text-sm -mt-4 mb-6">{plan.trialDays}-day free trial</p>
+                )}
 
                 <ul className="space-y-3 mb-8">
                   {plan.features.map((feature, index) => (
@@ -137,27 +218,45 @@ function BillingPage() {
                   ))}
                 </ul>
 
-                <button
-                  onClick={() => handleSubscribe(planTier)}
-                  disabled={loading}
-                  className={`w-full py-3 px-6 rounded-lg font-medium flex items-center justify-center gap-2 transition-all ${
-                    loading
-                      ? 'bg-gray-600 cursor-not-allowed'
-                      : 'bg-blue-500 hover:bg-blue-600'
-                  }`}
-                >
-                  {loading ? (
-                    <>
-                      <Loader2 className="w-5 h-5 animate-spin" />
-                      Processing...
-                    </>
-                  ) : (
-                    <>
-                      <CreditCard className="w-5 h-5" />
-                      Subscribe Now
-                    </>
-                  )}
-                </button>
+                {isCurrentPlan ? (
+                  <button
+                    disabled
+                    className="w-full py-3 px-6 rounded-lg font-medium flex items-center justify-center gap-2 bg-white/10 text-gray-400 cursor-not-allowed"
+                  >
+                    <CheckCircle className="w-5 h-5" />
+                    Current Plan
+                  </button>
+                ) : liveSubscription ? (
+                  <button
+                    onClick={() => setPlanChange({ plan: planTier, priceId })}
+                    className="w-full py-3 px-6 rounded-lg font-medium flex items-center justify-center gap-2 transition-all bg-blue-500 hover:bg-blue-600"
+                  >
+                    <CreditCard className="w-5 h-5" />
+                    Change Plan
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => handleSubscribe(planTier)}
+                    disabled={loading}
+                    className={`w-full py-3 px-6 rounded-lg font-medium flex items-center justify-center gap-2 transition-all ${
+                      loading
+                        ? 'bg-gray-600 cursor-not-allowed'
+                        : 'bg-blue-500 hover:bg-blue-600'
+                    }`}
+                  >
+                    {loading ? (
+                      <>
+                        <Loader2 className="w-5 h-5 animate-spin" />
+                        Processing...
+                      </>
+                    ) : (
+                      <>
+                        <CreditCard className="w-5 h-5" />
+                        Subscribe Now
+                      </>
+                    )}
+                  </button>
+                )}
               </div>
             );
           })}
@@ -191,6 +290,16 @@ function BillingPage() {
           </div>
         </div>
 
+        {planChange && liveSubscription && (
+          <PlanChangeDialog
+            subscriptionId={liveSubscription.id}
+            plan={planChange.plan}
+            newPriceId={planChange.priceId}
+            onClose={() => setPlanChange(null)}
+            onChanged={handlePlanChanged}
+          />
+        )}
+
         {error && (
           <div className="fixed bottom-4 right-4 bg-red-500/20 text-red-400 p-4 rounded-lg flex items-center gap-2">
             <AlertCircle className="w-5 h-5" />
@@ -1,4 +1,5 @@
 import React from 'react';
+import { Link } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import {
   Line,
@@ -22,9 +23,20 @@ import {
   Clock,
   DollarSign,
   PieChart,
-  Zap
+  Zap,
+  Hourglass,
+  AlertTriangle
 } from 'lucide-react';
-import { format } from 'date-fns';
+import { differenceInCalendarDays, format } from 'date-fns';
+import ApiKeysPanel from '../components/ApiKeysPanel';
+import { useEntitlements } from '../hooks/useEntitlements';
+import { PLAN_NAMES, type DunningStage } from '../lib/entitlements';
+
+const DUNNING_MESSAGES: Record<DunningStage, string> = {
+  grace: 'Your last payment failed. Update your payment method to avoid losing access.',
+  restricted: 'Your account is restricted to the free tier until the overdue invoice is paid.',
+  suspended: 'API access is suspended until the overdue invoice is paid.'
+};
 
 // Register ChartJS components
 ChartJS.register(
@@ -77,6 +89,27 @@ const fetchUsageData = async () => {
   }
 };
 
+function TrialBanner({ plan, trialEndsAt }: { plan: string; trialEndsAt: Date }) {
+  const daysLeft = Math.max(differenceInCalendarDays(trialEndsAt, new Date()), 0);
+
+  return (
+    <div className={`rounded-2xl p-4 mb-8 flex items-center justify-between border ${
+      daysLeft <= 3 ? 'bg-orange-500/20 border-orange-400/40' : 'bg-blue-500/20 border-blue-400/40'
+    }`}>
+      <div className="flex items-center gap-3">
+        <Hourglass className="w-6 h-6 text-blue-300" />
+        <span>
+          {plan} trial: {daysLeft === 0 ? 'ends today' : `${daysLeft} day${daysLeft === 1 ? '' : 's'} left`}
+          <span className="text-gray-400"> (ends {format(trialEndsAt, 'MMM dd, yyyy')})</span>
+        </span>
+      </div>
+      <Link to="/billing" className="text-blue-300 hover:text-blue-200 font-medium">
+        Manage plan
+      </Link>
+    </div>
+  );
+}
+
 function DashboardPage() {
   const { data: usageData, isLoading, error } = useQuery({
     queryKey: ['usage'],
@@ -84,6 +117,7 @@ function DashboardPage() {
     refetchInterval: 30000, // Refresh every 30 seconds
     retry: 3 // Retry failed requests up to 3 times
   });
+  const { entitlements } = useEntitlements();
 
   if (error) {
     return (
@@ -140,6 +174,22 @@ function DashboardPage() {
       <div className="max-w-7xl mx-auto">
         <h1 className="text-3xl font-bold mb-8">Analytics Dashboard</h1>
 
+        {entitlements?.dunningStage && (
+          <div className="bg-red-500/20 border border-red-400/40 rounded-2xl p-4 mb-8 flex items-center justify-between">
+            <div className="flex items-center gap-3 text-red-300">
+              <AlertTriangle className="w-6 h-6" />
+              <span>{DUNNING_MESSAGES[entitlements.dunningStage]}</span>
+            </div>
+            <Link to="/billing" className="text-red-200 hover:text-white font-medium">
+              Pay now
+            </Link>
+          </div>
+        )}
+
+        {entitlements?.trialEndsAt && (
+          <TrialBanner plan={PLAN_NAMES[entitlements.plan]} trialEndsAt={new Date(entitlements.trialEndsAt)} />
+        )}
+
         {/* Key Metrics */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           {[
@@ -242,6 +292,8 @@ function DashboardPage() {
             />
           </div>
         </div>
+
+        <ApiKeysPanel />
       </div>
     </div>
   );
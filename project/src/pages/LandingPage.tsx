@@ -1,10 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Brain, Cloud, Cpu, Send, ShieldCheck } from 'lucide-react';
+import { useTrackEvent } from '../hooks/useTrackEvent';
 
 function LandingPage() {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
+  const trackEvent = useTrackEvent();
   const [formData, setFormData] = useState({
     name: '',
     email: '',
@@ -16,9 +18,7 @@ function LandingPage() {
     const referral = searchParams.get('ref');
     if (referral === 'durable') {
       // Track referral analytics
-      analyticsService.trackEvent('durable_referral', {
-        timestamp: Date.now()
-      });
+      trackEvent('durable_referral');
     }
 
     // Pre-fill form if data was passed from Durable
@@ -34,7 +34,7 @@ function LandingPage() {
         console.error('Failed to parse Durable data:', error);
       }
     }
-  }, [searchParams]);
+  }, [searchParams, trackEvent]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
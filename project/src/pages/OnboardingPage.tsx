@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Bot, Send, User, Loader2, CheckCircle2, AlertCircle } from 'lucide-react';
+import { useTrackEvent } from '../hooks/useTrackEvent';
 
 interface Message {
   type: 'user' | 'assistant';
@@ -89,6 +90,7 @@ function OnboardingPage() {
     deploymentTimeline: ''
   });
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const trackEvent = useTrackEvent();
 
   useEffect(() => {
     const storedInfo = localStorage.getItem('userInfo');
@@ -99,6 +101,7 @@ function OnboardingPage() {
 
   useEffect(() => {
     if (userInfo && messages.length === 0) {
+      trackEvent('onboarding_started');
       addMessage('assistant', `Hi ${userInfo.name}! 👋 ${onboardingSteps[0].question}`);
       if (onboardingSteps[0].description) {
         addMessage('assistant', onboardingSteps[0].description);
@@ -166,6 +169,7 @@ function OnboardingPage() {
       ]);
 
       setActivationStatus('success');
+      trackEvent('onboarding_completed', { usageVolume: onboardingData.usageVolume });
       addMessage('assistant', 
         "🎉 Excellent news! Your AI services are being activated right now. Here's what's happening:\n\n" +
         "1. Your account is being provisioned with your selected configurations\n" +
@@ -195,6 +199,8 @@ function OnboardingPage() {
     if (!userInput.trim()) return;
 
     addMessage('user', userInput);
+    // Steps are numbered from 1 in the onboarding funnel
+    trackEvent('onboarding_step_completed', { step: currentStep + 1 });
     
     // Store the response based on current step
     switch (currentStep) {
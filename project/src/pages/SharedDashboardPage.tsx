@@ -0,0 +1,54 @@
+import { useMemo } from 'react';
+import { useParams } from 'react-router-dom';
+import { AlertCircle, LayoutDashboard, Loader2 } from 'lucide-react';
+import { trpc } from '../lib/trpc';
+import type { AnalyticsMetric } from '../lib/analytics';
+import DashboardGrid from '../components/DashboardGrid';
+
+// Read-only view of a dashboard shared by link; works without signing in
+function SharedDashboardPage() {
+  const { token = '' } = useParams();
+  const { data, isLoading, error } = trpc.dashboards.shared.useQuery({ token }, {
+    enabled: Boolean(token),
+    refetchInterval: 60000, // Keep wall displays current
+    retry: false
+  });
+
+  const series = useMemo(() => {
+    const byWidget = new Map<string, AnalyticsMetric[]>();
+    data?.widgets.forEach((widget, index) => byWidget.set(widget.id, data.data[index]));
+    return byWidget;
+  }, [data]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-900 via-slate-800 to-slate-900 text-white p-8">
+      <div className="max-w-7xl mx-auto">
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 text-gray-400 py-20">
+            <Loader2 className="w-6 h-6 animate-spin" />
+            Loading dashboard...
+          </div>
+        ) : error || !data ? (
+          <div className="bg-red-500/20 text-red-400 p-4 rounded-lg flex items-center gap-2">
+            <AlertCircle className="w-6 h-6" />
+            <span>{error?.message ?? 'This dashboard link is invalid or is no longer shared'}</span>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center gap-3 mb-8">
+              <LayoutDashboard className="w-8 h-8 text-blue-400" />
+              <h1 className="text-3xl font-bold">{data.name}</h1>
+            </div>
+            {data.widgets.length === 0 ? (
+              <p className="text-gray-400">This dashboard has no widgets yet.</p>
+            ) : (
+              <DashboardGrid widgets={data.widgets} series={series} />
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default SharedDashboardPage;
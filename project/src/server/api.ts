@@ -1,41 +1,121 @@
-import { initTRPC } from '@trpc/server';
 import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
 import Stripe from 'stripe';
-import { STRIPE_PLANS } from '../lib/stripe';
+import { STRIPE_PLANS, getPlanForPriceId, getTrialDays } from '../lib/stripe';
 import { emailService } from './services/emailService';
 import { analyticsService } from './services/analyticsService';
+import { t, adminProcedure, requirePermission } from './trpc';
+import { anonymousIdFor } from './context';
+import { organizationService } from './services/organizationService';
+import { METERED_PRICE_IDS, PLAN_METERED_METRICS, calendarMonth, usageService } from './services/usageService';
+import { subscriptionService } from './services/subscriptionService';
+import { PLAN_CHANGE_TIMINGS, PlanChangeError, PlanChangeService } from './services/planChangeService';
+import { catalogRouter } from './routers/catalog';
+import { procurementRouter } from './routers/procurement';
+import { forecastingRouter } from './routers/forecasting';
+import { inventoryRouter } from './routers/inventory';
+import { returnsRouter } from './routers/returns';
+import { shippingRouter } from './routers/shipping';
+import { promotionsRouter } from './routers/promotions';
+import { schedulerRouter } from './routers/scheduler';
+import { authRouter } from './routers/auth';
+import { organizationsRouter } from './routers/organizations';
+import { apiKeysRouter } from './routers/apiKeys';
+import { webhooksRouter } from './routers/webhooks';
+import { entitlementsRouter } from './routers/entitlements';
+import { dunningRouter } from './routers/dunning';
+import { analyticsRouter } from './routers/analytics';
+import { clientEventSchema, growthRouter } from './routers/growth';
+import { dashboardsRouter } from './routers/dashboards';
+import { anomaliesRouter } from './routers/anomalies';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
   apiVersion: '2023-10-16',
 });
-
-const t = initTRPC.create();
+const planChanges = new PlanChangeService(stripe);
 
 // Validation schemas
 const createSubscriptionSchema = z.object({
   planId: z.string(),
-  customerId: z.string().optional(),
+  promoCode: z.string().trim().min(1).optional(),
 });
 
+// Codes are created by sales in the Stripe dashboard; only active, unexpired ones resolve
+async function findPromotionCode(code: string) {
+  const { data } = await stripe.promotionCodes.list({ code, active: true, limit: 1 });
+  const promotionCode = data[0];
+  if (!promotionCode || !promotionCode.coupon.valid) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Promotion code is invalid or has expired' });
+  }
+  return promotionCode;
+}
+
+// Subscriptions are addressed by id, so check the caller owns one before touching it
+async function requireOwnSubscription(subscriptionId: string, stripeCustomerId: string | null) {
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+  const owner = typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id;
+  if (!stripeCustomerId || owner !== stripeCustomerId) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Subscription not found' });
+  }
+  return subscription;
+}
+
 export const appRouter = t.router({
-  createSubscription: t.procedure
+  catalog: catalogRouter,
+  procurement: procurementRouter,
+  forecasting: forecastingRouter,
+  inventory: inventoryRouter,
+  returns: returnsRouter,
+  shipping: shippingRouter,
+  promotions: promotionsRouter,
+  scheduler: schedulerRouter,
+  auth: authRouter,
+  organizations: organizationsRouter,
+  apiKeys: apiKeysRouter,
+  webhooks: webhooksRouter,
+  entitlements: entitlementsRouter,
+  dunning: dunningRouter,
+  analytics: analyticsRouter,
+  growth: growthRouter,
+  dashboards: dashboardsRouter,
+  anomalies: anomaliesRouter,
+
+  createSubscription: requirePermission('billing:manage')
     .input(createSubscriptionSchema)
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
       try {
-        // Create or retrieve customer
-        let customerId = input.customerId;
+        // The Stripe customer is created on first checkout and shared by the whole organization
+        let customerId = ctx.stripeCustomerId;
         if (!customerId) {
           const customer = await stripe.customers.create({
+            email: ctx.user.email,
+            name: ctx.organization.name,
             metadata: {
+              organizationId: ctx.organization.id,
               planId: input.planId
             }
           });
+          await organizationService.setStripeCustomerId(ctx.organization.id, customer.id);
           customerId = customer.id;
         }
 
+        // Usage beyond the plan is billed through metered prices on the same subscription
+        const plan = getPlanForPriceId(input.planId);
+        const meteredItems = (plan ? PLAN_METERED_METRICS[plan] : []).map(metric => ({ price: METERED_PRICE_IDS[metric] }));
+
+        // Each organization gets one free trial
+        const previousSubscription = await subscriptionService.getForOrganization(ctx.organization.id);
+        const trialDays = plan && !previousSubscription ? getTrialDays(plan) : 0;
+
+        // A code from a campaign link is applied up front; otherwise customers can enter one at checkout
+        const discount = input.promoCode
+          ? { discounts: [{ promotion_code: (await findPromotionCode(input.promoCode)).id }] }
+          : { allow_promotion_codes: true };
+
         // Create checkout session
         const session = await stripe.checkout.sessions.create({
           customer: customerId,
+          client_reference_id: ctx.organization.id,
           mode: 'subscription',
           payment_method_types: ['card'],
           line_items: [
@@ -43,11 +123,14 @@ export const appRouter = t.router({
               price: input.planId,
               quantity: 1,
             },
+            ...meteredItems,
           ],
+          ...discount,
           subscription_data: {
-            trial_period_days: 14,
+            ...(trialDays > 0 ? { trial_period_days: trialDays } : {}),
             metadata: {
-              planId: input.planId
+              planId: input.planId,
+              organizationId: ctx.organization.id
             }
           },
           success_url: `${process.env.VITE_APP_URL}/dashboard?session_id={CHECKOUT_SESSION_ID}`,
@@ -61,45 +144,93 @@ export const appRouter = t.router({
 
         return { sessionId: session.url || session.id };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error('Stripe session creation error:', error);
         throw new Error('Failed to create subscription session');
       }
     }),
 
-  getSubscriptionStatus: t.procedure
+  checkPromoCode: requirePermission('billing:manage')
+    .input(z.object({ code: z.string().trim().min(1) }))
+    .query(async ({ input }) => {
+      try {
+        const { code, coupon } = await findPromotionCode(input.code);
+        return {
+          code,
+          name: coupon.name,
+          percentOff: coupon.percent_off,
+          amountOff: coupon.amount_off,
+          currency: coupon.currency,
+          duration: coupon.duration,
+          durationInMonths: coupon.duration_in_months
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error('Error checking promotion code:', error);
+        throw new Error('Failed to check promotion code');
+      }
+    }),
+
+  // Lets sales and support give a prospect more time without touching Stripe directly
+  extendTrial: adminProcedure
+    .input(z.object({
+      organizationId: z.string(),
+      days: z.number().int().min(1).max(90)
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        const subscription = await subscriptionService.getForOrganization(input.organizationId);
+        if (!subscription || subscription.status !== 'trialing' || !subscription.trialEnd) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: 'Organization is not on a trial' });
+        }
+
+        const from = Math.max(new Date(subscription.trialEnd).getTime(), Date.now());
+        const updated = await stripe.subscriptions.update(subscription.id, {
+          trial_end: Math.floor(from / 1000) + input.days * 24 * 60 * 60,
+          proration_behavior: 'none',
+        });
+
+        // Reflect the new end right away; whole seconds, like Stripe event times, so the webhook for this update still applies
+        return await subscriptionService.syncFromStripe(updated, new Date(Math.floor(Date.now() / 1000) * 1000));
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error('Error extending trial:', error);
+        throw new Error('Failed to extend trial');
+      }
+    }),
+
+  getSubscriptionStatus: requirePermission('billing:read')
     .input(z.object({ 
       sessionId: z.string(),
-      customerId: z.string().optional() 
     }))
-    .query(async ({ input }) => {
+    .query(async ({ input, ctx }) => {
       try {
         const session = await stripe.checkout.sessions.retrieve(input.sessionId);
-        
-        if (input.customerId) {
-          const subscriptions = await stripe.subscriptions.list({
-            customer: input.customerId,
-            limit: 1,
-          });
-
-          return {
-            status: session.status,
-            subscription: subscriptions.data[0] || null,
-          };
+        const owner = typeof session.customer === 'string' ? session.customer : session.customer?.id;
+        if (!ctx.stripeCustomerId || owner !== ctx.stripeCustomerId) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Checkout session not found' });
         }
 
-        return { status: session.status };
+        // Webhooks keep the mirror current, so only the checkout session itself needs Stripe
+        return {
+          status: session.status,
+          subscription: await subscriptionService.getForOrganization(ctx.organization.id),
+        };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error('Error retrieving subscription status:', error);
         throw new Error('Failed to get subscription status');
       }
     }),
 
-  getInvoices: t.procedure
-    .input(z.object({ customerId: z.string() }))
-    .query(async ({ input }) => {
+  getInvoices: requirePermission('billing:read')
+    .query(async ({ ctx }) => {
       try {
+        // No Stripe customer yet means nothing has ever been billed
+        if (!ctx.stripeCustomerId) return { invoices: [] };
+
         const invoices = await stripe.invoices.list({
-          customer: input.customerId,
+          customer: ctx.stripeCustomerId,
           limit: 24, // Last 24 invoices
         });
 
@@ -120,31 +251,34 @@ export const appRouter = t.router({
       }
     }),
 
-  getFinancialReport: t.procedure
+  getFinancialReport: requirePermission('billing:read')
     .input(z.object({ 
-      customerId: z.string(),
       startDate: z.string(),
       endDate: z.string(),
     }))
-    .query(async ({ input }) => {
+    .query(async ({ input, ctx }) => {
       try {
+        if (!ctx.stripeCustomerId) {
+          return { totalBilled: 0, totalPaid: 0, totalCredits: 0, invoices: [], charges: [], credits: [] };
+        }
+
         const [invoices, charges, credits] = await Promise.all([
           stripe.invoices.list({
-            customer: input.customerId,
+            customer: ctx.stripeCustomerId,
             created: {
               gte: new Date(input.startDate).getTime() / 1000,
               lte: new Date(input.endDate).getTime() / 1000,
             },
           }),
           stripe.charges.list({
-            customer: input.customerId,
+            customer: ctx.stripeCustomerId,
             created: {
               gte: new Date(input.startDate).getTime() / 1000,
               lte: new Date(input.endDate).getTime() / 1000,
             },
           }),
           stripe.creditNotes.list({
-            customer: input.customerId,
+            customer: ctx.stripeCustomerId,
             created: {
               gte: new Date(input.startDate).getTime() / 1000,
               lte: new Date(input.endDate).getTime() / 1000,
@@ -166,50 +300,100 @@ export const appRouter = t.router({
       }
     }),
 
-  cancelSubscription: t.procedure
+  getCurrentUsage: requirePermission('billing:read')
+    .query(async ({ ctx }) => {
+      try {
+        const subscription = await subscriptionService.getForOrganization(ctx.organization.id);
+        const period = subscription
+          ? { start: new Date(subscription.currentPeriodStart), end: new Date(subscription.currentPeriodEnd) }
+          : calendarMonth();
+
+        return {
+          periodStart: period.start,
+          periodEnd: period.end,
+          plan: ctx.organization.plan ?? null,
+          usage: await usageService.getUsageForPeriod(ctx.organization.id, period.start, period.end),
+        };
+      } catch (error) {
+        console.error('Error retrieving usage:', error);
+        throw new Error('Failed to retrieve usage');
+      }
+    }),
+
+  cancelSubscription: requirePermission('billing:manage')
     .input(z.object({ subscriptionId: z.string() }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
       try {
+        await requireOwnSubscription(input.subscriptionId, ctx.stripeCustomerId);
         const subscription = await stripe.subscriptions.update(input.subscriptionId, {
           cancel_at_period_end: true,
         });
 
         return { success: true, subscription };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error('Error canceling subscription:', error);
         throw new Error('Failed to cancel subscription');
       }
     }),
 
-  updateSubscription: t.procedure
+  previewPlanChange: requirePermission('billing:manage')
+    .input(z.object({
+      subscriptionId: z.string(),
+      newPriceId: z.string(),
+      timing: z.enum(PLAN_CHANGE_TIMINGS)
+    }))
+    .query(async ({ input, ctx }) => {
+      try {
+        const subscription = await requireOwnSubscription(input.subscriptionId, ctx.stripeCustomerId);
+        return await planChanges.preview(subscription, input.newPriceId, input.timing);
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        if (error instanceof PlanChangeError) throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+        console.error('Error previewing plan change:', error);
+        throw new Error('Failed to preview plan change');
+      }
+    }),
+
+  updateSubscription: requirePermission('billing:manage')
     .input(z.object({ 
       subscriptionId: z.string(),
-      newPriceId: z.string()
+      newPriceId: z.string(),
+      timing: z.enum(PLAN_CHANGE_TIMINGS).default('immediate'),
+      // From previewPlanChange, so the invoice matches the quote the user confirmed
+      prorationDate: z.number().int().positive().optional()
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
       try {
-        const subscription = await stripe.subscriptions.retrieve(input.subscriptionId);
-        
-        // Update the subscription with the new price
-        const updatedSubscription = await stripe.subscriptions.update(
-          input.subscriptionId,
-          {
-            items: [{
-              id: subscription.items.data[0].id,
-              price: input.newPriceId,
-            }],
-            proration_behavior: 'always_invoice',
-          }
+        const subscription = await requireOwnSubscription(input.subscriptionId, ctx.stripeCustomerId);
+        const updatedSubscription = await planChanges.apply(
+          subscription,
+          input.newPriceId,
+          input.timing,
+          input.prorationDate
         );
 
         return { success: true, subscription: updatedSubscription };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        if (error instanceof PlanChangeError) throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
         console.error('Error updating subscription:', error);
         throw new Error('Failed to update subscription');
       }
     }),
 
-  getAnalytics: t.procedure
+  getSubscription: requirePermission('billing:read')
+    .query(async ({ ctx }) => {
+      try {
+        return await subscriptionService.getForOrganization(ctx.organization.id);
+      } catch (error) {
+        console.error('Error retrieving subscription:', error);
+        throw new Error('Failed to retrieve subscription');
+      }
+    }),
+
+  // Platform-wide numbers, not any one organization's; organizations chart their own through analytics.series
+  getAnalytics: adminProcedure
     .input(z.object({
       startDate: z.string(),
       endDate: z.string(),
@@ -228,7 +412,7 @@ export const appRouter = t.router({
       }
     }),
 
-  getOptimizationSuggestions: t.procedure
+  getOptimizationSuggestions: adminProcedure
     .query(async () => {
       try {
         return await analyticsService.generateOptimizationSuggestions();
@@ -238,14 +422,14 @@ export const appRouter = t.router({
       }
     }),
 
+  // Public, so it only takes the events the landing, onboarding and billing pages send
   trackEvent: t.procedure
-    .input(z.object({
-      eventName: z.string(),
-      properties: z.record(z.any()).optional()
-    }))
-    .mutation(async ({ input }) => {
+    .input(clientEventSchema)
+    .mutation(async ({ input, ctx }) => {
       try {
-        await analyticsService.trackEvent(input.eventName, input.properties);
+        // One actor per browser from onboarding through sign-up to checkout, whatever id the client claims
+        const properties = { ...input.properties, distinctId: anonymousIdFor(ctx.req, ctx.res) };
+        await analyticsService.trackEvent(input.eventName, properties, ctx.user?.id);
         return { success: true };
       } catch (error) {
         console.error('Error tracking event:', error);
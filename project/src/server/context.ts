@@ -0,0 +1,125 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { authService } from './services/authService';
+import { organizationService } from './services/organizationService';
+import { apiKeyService } from './services/apiKeyService';
+
+export const SESSION_COOKIE = 'session';
+export const ORGANIZATION_HEADER = 'x-organization-id';
+export const API_KEY_HEADER = 'x-api-key';
+export const ANONYMOUS_ID_COOKIE = 'anonymous_id';
+
+const ANONYMOUS_ID_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+const ANONYMOUS_ID_PATTERN = /^anon_[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+// Ids issued while answering a request, so a batch of events in one request shares one
+const issuedAnonymousIds = new WeakMap<IncomingMessage, string>();
+
+interface ContextOptions {
+  req: IncomingMessage;
+  res: ServerResponse;
+}
+
+// Browsers send the session cookie; scripts and other servers may use a bearer token or API key instead
+export function readCredential(req: IncomingMessage): string | null {
+  const apiKey = req.headers[API_KEY_HEADER];
+  if (typeof apiKey === 'string' && apiKey) return apiKey;
+
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+
+  return readCookie(req, SESSION_COOKIE);
+}
+
+function readCookie(req: IncomingMessage, cookie: string): string | null {
+  for (const part of (req.headers.cookie ?? '').split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === cookie) return decodeURIComponent(value.join('=')) || null;
+  }
+  return null;
+}
+
+// The visitor's anonymous id, issued in an HttpOnly cookie on first use, so the client cannot pick whose actor it is
+export function anonymousIdFor(req: IncomingMessage, res: ServerResponse): string {
+  const existing = readCookie(req, ANONYMOUS_ID_COOKIE);
+  if (existing && ANONYMOUS_ID_PATTERN.test(existing)) return existing;
+  const issued = issuedAnonymousIds.get(req);
+  if (issued) return issued;
+
+  const id = `anon_${randomUUID()}`;
+  issuedAnonymousIds.set(req, id);
+  const secure = process.env.NODE_ENV === 'production' ? '; Secure' : '';
+  res.setHeader(
+    'Set-Cookie',
+    `${ANONYMOUS_ID_COOKIE}=${id}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${ANONYMOUS_ID_MAX_AGE_SECONDS}${secure}`
+  );
+  return id;
+}
+
+// The organization the client asked for, or the user's first one; never one they do not belong to
+export async function resolveOrganization(req: IncomingMessage, userId: string) {
+  const requested = req.headers[ORGANIZATION_HEADER];
+  const memberships = await organizationService.listForUser(userId);
+
+  if (typeof requested === 'string' && requested) {
+    return memberships.find(({ organization }) => organization.id === requested) ?? null;
+  }
+  return memberships[0] ?? null;
+}
+
+// An API key acts for the member who created it, within the key's organization and scopes
+export async function authenticateApiKey(key: string) {
+  const apiKey = await apiKeyService.authenticate(key);
+  if (!apiKey) return null;
+
+  const [user, organization, membership] = await Promise.all([
+    authService.getUser(apiKey.createdBy),
+    organizationService.getOrganization(apiKey.organizationId),
+    organizationService.getMembership(apiKey.organizationId, apiKey.createdBy)
+  ]);
+  // Keys stop working when their creator leaves the organization
+  if (!user || !organization || !membership) return null;
+
+  return { apiKey, user, organization, role: membership.role };
+}
+
+export async function createContext({ req, res }: ContextOptions) {
+  const credential = readCredential(req);
+
+  let keyAuth: Awaited<ReturnType<typeof authenticateApiKey>> = null;
+  let sessionAuth: Awaited<ReturnType<typeof authService.authenticate>> = null;
+  if (credential && apiKeyService.isApiKey(credential)) {
+    keyAuth = await authenticateApiKey(credential);
+  } else if (credential) {
+    sessionAuth = await authService.authenticate(credential);
+  }
+
+  const membership = keyAuth ?? (sessionAuth ? await resolveOrganization(req, sessionAuth.user.id) : null);
+
+  return {
+    req,
+    res,
+    sessionToken: sessionAuth ? credential : null,
+    apiKey: keyAuth?.apiKey ?? null,
+    user: keyAuth?.user ?? sessionAuth?.user ?? null,
+    organization: membership?.organization ?? null,
+    role: membership?.role ?? null,
+    // Billing belongs to the organization, so members share one subscription
+    stripeCustomerId: membership?.organization.stripeCustomerId ?? null
+  };
+}
+
+export type Context = Awaited<ReturnType<typeof createContext>>;
+
+export function setSessionCookie(res: ServerResponse, token: string, expiresAt: Date): void {
+  const secure = process.env.NODE_ENV === 'production' ? '; Secure' : '';
+  res.setHeader(
+    'Set-Cookie',
+    `${SESSION_COOKIE}=${encodeURIComponent(token)}; Path=/; HttpOnly; SameSite=Lax; Expires=${expiresAt.toUTCString()}${secure}`
+  );
+}
+
+export function clearSessionCookie(res: ServerResponse): void {
+  res.setHeader('Set-Cookie', `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0`);
+}
@@ -2,8 +2,30 @@ import express from 'express';
 import Stripe from 'stripe';
 import dotenv from 'dotenv';
 import { appRouter } from './api.js';
+import { createContext } from './context.js';
 import { createExpressMiddleware } from '@trpc/server/adapters/express';
-import { emailService } from './services/emailService.js';
+import { schedulerService } from '../lib/scheduler/index.js';
+import { planLimits } from './middleware/rateLimit.js';
+import { usageService } from './services/usageService.js';
+import { StripeUsageReporter } from './services/stripeUsageReporter.js';
+import { webhookService } from './services/webhookService.js';
+import { registerStripeWebhookHandlers } from './services/stripeWebhookHandlers.js';
+// Imported only for the jobs they register with the scheduler. The financial, growth, social, market,
+// brand, durable, innovation, legal, replication and ai modules are left out: they need openai, aws-sdk,
+// ioredis, @tensorflow/* or ml-regression, none of which package.json declares
+import './services/trialService.js';
+import '../lib/automation/ecommerce/index.js';
+import '../lib/compliance.js';
+import '../lib/azure/index.js';
+import '../lib/azure/billing.js';
+import '../lib/azure/marketplace.js';
+import '../lib/azure/services.js';
+import '../lib/deployment.js';
+import { analyticsService } from '../lib/analytics.js';
+import { LocalAnalyticsSink, LocalAnalyticsSource } from './services/analyticsEventService.js';
+import { requireMember } from './middleware/memberAuth.js';
+import { ingestEvents, ingestMetrics } from './routes/analyticsIngest.js';
+import { ingestCarrierTracking } from './routes/carrierTracking.js';
 
 dotenv.config();
 
@@ -12,66 +34,60 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
   apiVersion: '2023-10-16',
 });
 
-// Middleware
-app.use(express.json());
-
-// tRPC middleware
-app.use('/api/trpc', createExpressMiddleware({ router: appRouter }));
+usageService.useReporter(new StripeUsageReporter(stripe));
+registerStripeWebhookHandlers(stripe);
+// Server-side trackEvent calls and reports go straight to the event store instead of over HTTP
+analyticsService.useSink(new LocalAnalyticsSink());
+analyticsService.useSource(new LocalAnalyticsSource());
 
-// Stripe webhook handling
+// Stripe webhook handling; registered before express.json() because the signature covers the raw body
 app.post('/api/webhook', express.raw({ type: 'application/json' }), async (req, res) => {
   const sig = req.headers['stripe-signature'];
 
+  let event;
   try {
-    const event = stripe.webhooks.constructEvent(
+    event = stripe.webhooks.constructEvent(
       req.body,
       sig,
       process.env.STRIPE_WEBHOOK_SECRET
     );
+  } catch (err) {
+    console.error('Webhook Error:', err.message);
+    return res.status(400).send(`Webhook Error: ${err.message}`);
+  }
 
-    // Handle the event
-    switch (event.type) {
-      case 'invoice.created':
-        const invoice = event.data.object;
-        const customer = await stripe.customers.retrieve(invoice.customer);
-        await emailService.sendInvoiceEmail(customer.email, invoice);
-        break;
-
-      case 'invoice.payment_failed':
-        const failedInvoice = event.data.object;
-        const failedCustomer = await stripe.customers.retrieve(failedInvoice.customer);
-        await emailService.sendOverdueNotice(failedCustomer.email, failedInvoice);
-        break;
-
-      case 'invoice.upcoming':
-        const upcomingInvoice = event.data.object;
-        const upcomingCustomer = await stripe.customers.retrieve(upcomingInvoice.customer);
-        await emailService.sendPaymentReminder(upcomingCustomer.email, upcomingInvoice);
-        break;
-
-      case 'customer.subscription.updated':
-        const subscription = event.data.object;
-        // Handle subscription updates
-        console.log('Subscription updated:', subscription);
-        break;
-
-      case 'customer.subscription.deleted':
-        // Handle subscription cancellation
-        console.log('Subscription cancelled:', event.data.object);
-        break;
+  try {
+    const { duplicate, record } = await webhookService.receive(event);
 
-      default:
-        console.log(`Unhandled event type ${event.type}`);
+    // A failed handler gets a 500 so Stripe retries; handlers that already succeeded are skipped on retry
+    if (record.status === 'failed') {
+      return res.status(500).json({ received: true, error: record.lastError });
     }
-
-    res.json({ received: true });
+    res.json({ received: true, duplicate });
   } catch (err) {
-    console.error('Webhook Error:', err.message);
-    res.status(400).send(`Webhook Error: ${err.message}`);
+    console.error('Webhook processing error:', err);
+    res.status(500).json({ received: false });
   }
 });
 
+// Carriers push tracking events signed with CARRIER_WEBHOOK_SECRET; the signature covers the raw body
+app.post('/api/carriers/tracking', express.raw({ type: 'application/json' }), ingestCarrierTracking);
+
+// Analytics ingestion takes batches, so it parses with a larger limit than the default parser below
+const analyticsBody = express.json({ limit: '1mb' });
+app.post('/api/analytics/events', analyticsBody, ...planLimits, requireMember('analytics:write'), ingestEvents);
+app.post('/api/analytics/metrics', analyticsBody, ...planLimits, requireMember('analytics:write'), ingestMetrics);
+
+// Middleware
+app.use(express.json());
+
+// tRPC middleware
+app.use('/api/trpc', ...planLimits, createExpressMiddleware({ router: appRouter, createContext }));
+
 const PORT = process.env.PORT || 3000;
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
-});
\ No newline at end of file
+
+  // Background jobs only run in the server process, never on import
+  schedulerService.start();
+});
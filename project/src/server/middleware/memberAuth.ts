@@ -0,0 +1,63 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { authenticateApiKey, readCredential, resolveOrganization } from '../context';
+import { apiKeyService, type ApiKeyScope } from '../services/apiKeyService';
+import { authService, type PublicUser } from '../services/authService';
+import { hasPermission, type Organization, type Role } from '../services/organizationService';
+
+export interface MemberAuth {
+  user: PublicUser;
+  organization: Organization;
+  role: Role;
+  apiKeyId?: string;
+}
+
+export interface MemberRequest extends IncomingMessage {
+  memberAuth?: MemberAuth;
+}
+
+type NextFunction = (error?: unknown) => void;
+
+function sendError(res: ServerResponse, status: number, message: string): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify({ success: false, error: { message, status } }));
+}
+
+// The one Express auth middleware, for REST routes that both the browser (session cookie) and backends (API key) call;
+// tRPC gets the same result from createContext
+export function requireMember(permission: ApiKeyScope) {
+  return async (req: MemberRequest, res: ServerResponse, next: NextFunction) => {
+    try {
+      const credential = readCredential(req);
+      let auth: MemberAuth | null = null;
+
+      if (credential && apiKeyService.isApiKey(credential)) {
+        const keyAuth = await authenticateApiKey(credential);
+        if (keyAuth && !keyAuth.apiKey.scopes.includes(permission)) {
+          sendError(res, 403, `This API key is not scoped for ${permission}`);
+          return;
+        }
+        auth = keyAuth && { user: keyAuth.user, organization: keyAuth.organization, role: keyAuth.role, apiKeyId: keyAuth.apiKey.id };
+      } else if (credential) {
+        const session = await authService.authenticate(credential);
+        const membership = session ? await resolveOrganization(req, session.user.id) : null;
+        auth = session && membership ? { user: session.user, organization: membership.organization, role: membership.role } : null;
+      }
+
+      if (!auth) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        sendError(res, 401, 'Authentication required');
+        return;
+      }
+      if (!hasPermission(auth.role, permission)) {
+        sendError(res, 403, `Your role does not allow ${permission}`);
+        return;
+      }
+
+      req.memberAuth = auth;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,103 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import rateLimit from 'express-rate-limit';
+import { getPlanQuota } from '../../lib/entitlements';
+import { authenticateApiKey, readCredential, resolveOrganization } from '../context';
+import { apiKeyService } from '../services/apiKeyService';
+import { authService } from '../services/authService';
+import { entitlementService } from '../services/entitlementService';
+import type { Organization } from '../services/organizationService';
+import { quotaService } from '../services/quotaService';
+import { usageService } from '../services/usageService';
+
+export interface QuotaSubject {
+  organization: Organization;
+  apiKeyId?: string;
+}
+
+export interface RateLimitedRequest extends IncomingMessage {
+  ip?: string;
+  quotaSubject?: QuotaSubject | null;
+}
+
+type NextFunction = (error?: unknown) => void;
+
+function sendError(res: ServerResponse, status: number, message: string): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify({ success: false, error: { message, status } }));
+}
+
+// Work out which organization a request is billed to, so both limiters agree on it
+export async function identifyCaller(req: RateLimitedRequest, _res: ServerResponse, next: NextFunction) {
+  try {
+    const credential = readCredential(req);
+    if (credential && apiKeyService.isApiKey(credential)) {
+      const auth = await authenticateApiKey(credential);
+      req.quotaSubject = auth ? { organization: auth.organization, apiKeyId: auth.apiKey.id } : null;
+    } else if (credential) {
+      const session = await authService.authenticate(credential);
+      const membership = session ? await resolveOrganization(req, session.user.id) : null;
+      req.quotaSubject = membership ? { organization: membership.organization } : null;
+    } else {
+      req.quotaSubject = null;
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// API keys of suspended accounts are turned away; members can still sign in to pay
+export function rejectSuspended(req: RateLimitedRequest, res: ServerResponse, next: NextFunction) {
+  const subject = req.quotaSubject;
+  if (subject?.apiKeyId && entitlementService.isSuspended(subject.organization)) {
+    sendError(res, 402, 'Service suspended for non-payment, settle the overdue invoice to restore access');
+    return;
+  }
+  next();
+}
+
+// Per-second limit for the caller's plan, shared by everyone in the organization
+export const perSecondRateLimit = rateLimit({
+  windowMs: 1000,
+  limit: (req: RateLimitedRequest) => req.quotaSubject
+    ? entitlementService.getQuota(req.quotaSubject.organization).requestsPerSecond
+    : getPlanQuota('FREE').requestsPerSecond,
+  keyGenerator: (req: RateLimitedRequest) =>
+    req.quotaSubject ? `org:${req.quotaSubject.organization.id}` : `ip:${req.ip ?? req.socket.remoteAddress}`,
+  standardHeaders: 'draft-6',
+  legacyHeaders: false,
+  handler: (_req: RateLimitedRequest, res: ServerResponse) => {
+    sendError(res, 429, 'Too many requests, please slow down');
+  }
+});
+
+// Monthly request quota; only API key traffic counts, so the dashboard's own polling never uses it up
+export async function monthlyQuota(req: RateLimitedRequest, res: ServerResponse, next: NextFunction) {
+  try {
+    const subject = req.quotaSubject;
+    if (!subject?.apiKeyId) {
+      next();
+      return;
+    }
+
+    const quota = await quotaService.consume(subject.organization, subject.apiKeyId);
+    if (!quota.allowed && quota.limit !== null) {
+      const resetSeconds = Math.max(Math.ceil((quota.resetAt.getTime() - Date.now()) / 1000), 0);
+      res.setHeader('RateLimit-Limit', quota.limit.toString());
+      res.setHeader('RateLimit-Remaining', '0');
+      res.setHeader('RateLimit-Reset', resetSeconds.toString());
+      res.setHeader('Retry-After', resetSeconds.toString());
+      sendError(res, 429, 'Monthly API request quota exceeded, upgrade your plan to continue');
+      return;
+    }
+
+    await usageService.recordUsage(subject.organization.id, 'api_calls');
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Mount in front of any route the plan limits apply to
+export const planLimits = [identifyCaller, rejectSuspended, perSecondRateLimit, monthlyQuota];
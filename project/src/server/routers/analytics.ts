@@ -0,0 +1,167 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { t, requireFeature, requirePermission } from '../trpc';
+import { MAX_QUERY_LIMIT, analyticsEventService } from '../services/analyticsEventService';
+import { FunnelError, MAX_FUNNEL_STEPS, MAX_FUNNEL_WINDOW_HOURS, funnelService } from '../services/funnelService';
+import { MAX_RETENTION_WEEKS, cohortService } from '../services/cohortService';
+import { AGGREGATIONS, AggregationError, TIME_BUCKETS } from '../../lib/timeseries';
+
+const rangeSchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+}).refine(range => range.from <= range.to, { message: 'from must not be after to' });
+
+const whereSchema = z.record(z.union([z.string(), z.number(), z.boolean()]));
+
+const seriesSchema = rangeSchema.and(z.object({
+  name: z.string().min(1),
+  type: z.enum(['event', 'metric']).optional(),
+  aggregation: z.enum(AGGREGATIONS),
+  bucket: z.enum(TIME_BUCKETS),
+  where: whereSchema.optional(),
+  groupBy: z.string().min(1).optional(),
+}));
+
+const funnelStepSchema = z.object({
+  event: z.string().trim().min(1).max(200),
+  where: whereSchema.optional(),
+  label: z.string().trim().max(100).optional(),
+});
+
+// Shared with the growth router, which runs the same reports over the platform's own events
+export const funnelQuerySchema = rangeSchema.and(z.object({ funnelId: z.string() }));
+
+export const retentionQuerySchema = z.object({
+  signupEvent: z.string().trim().min(1),
+  activityEvents: z.array(z.string().trim().min(1)).min(1).max(20).optional(),
+  weeks: z.number().int().min(1).max(MAX_RETENTION_WEEKS).default(8),
+});
+
+// Querying stored events and metrics is basic analytics; funnels and retention are part of detailed analytics
+const readProcedure = requirePermission('analytics:read').use(requireFeature('basic_analytics'));
+const reportProcedure = requirePermission('analytics:read').use(requireFeature('detailed_analytics'));
+
+export const analyticsRouter = t.router({
+  events: readProcedure
+    .input(rangeSchema.and(z.object({
+      type: z.enum(['event', 'metric']).optional(),
+      names: z.array(z.string()).max(50).optional(),
+      where: whereSchema.optional(),
+      limit: z.number().int().min(1).max(MAX_QUERY_LIMIT).optional(),
+    })))
+    .query(async ({ input, ctx }) => {
+      try {
+        return await analyticsEventService.query({
+          ...input,
+          organizationId: ctx.organization.id,
+          from: input.from.getTime(),
+          to: input.to.getTime(),
+        });
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error('Error querying analytics events:', error);
+        throw new Error('Failed to query analytics events');
+      }
+    }),
+
+  names: readProcedure
+    .input(rangeSchema)
+    .query(async ({ input, ctx }) => {
+      try {
+        return await analyticsEventService.listNames(ctx.organization.id, input.from.getTime(), input.to.getTime());
+      } catch (error) {
+        console.error('Error listing analytics names:', error);
+        throw new Error('Failed to list analytics names');
+      }
+    }),
+
+  // Aggregated time series, one per query, in the order asked
+  series: readProcedure
+    .input(z.object({ queries: z.array(seriesSchema).min(1).max(20) }))
+    .query(async ({ input, ctx }) => {
+      try {
+        return await analyticsEventService.aggregate(ctx.organization.id, input.queries.map(query => ({
+          ...query,
+          from: query.from.getTime(),
+          to: query.to.getTime(),
+        })));
+      } catch (error) {
+        if (error instanceof AggregationError) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+        }
+        console.error('Error aggregating analytics series:', error);
+        throw new Error('Failed to aggregate analytics series');
+      }
+    }),
+
+  funnels: reportProcedure
+    .query(async ({ ctx }) => {
+      try {
+        return await funnelService.listFunnels(ctx.organization.id);
+      } catch (error) {
+        console.error('Error listing funnels:', error);
+        throw new Error('Failed to list funnels');
+      }
+    }),
+
+  createFunnel: requirePermission('analytics:write')
+    .use(requireFeature('detailed_analytics'))
+    .input(z.object({
+      name: z.string().trim().min(1).max(100),
+      steps: z.array(funnelStepSchema).min(2).max(MAX_FUNNEL_STEPS),
+      windowHours: z.number().int().min(1).max(MAX_FUNNEL_WINDOW_HOURS),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await funnelService.createFunnel(ctx.organization.id, input, ctx.user.id);
+      } catch (error) {
+        if (error instanceof FunnelError) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+        }
+        console.error('Error creating funnel:', error);
+        throw new Error('Failed to create funnel');
+      }
+    }),
+
+  deleteFunnel: requirePermission('analytics:write')
+    .input(z.object({ funnelId: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await funnelService.deleteFunnel(ctx.organization.id, input.funnelId);
+        return { success: true };
+      } catch (error) {
+        if (error instanceof FunnelError) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+        }
+        console.error('Error deleting funnel:', error);
+        throw new Error('Failed to delete funnel');
+      }
+    }),
+
+  funnel: reportProcedure
+    .input(funnelQuerySchema)
+    .query(async ({ input, ctx }) => {
+      try {
+        const funnel = await funnelService.getFunnel(ctx.organization.id, input.funnelId);
+        const result = await funnelService.computeFunnel(ctx.organization.id, funnel, input.from.getTime(), input.to.getTime());
+        return { funnel, result };
+      } catch (error) {
+        if (error instanceof FunnelError) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+        }
+        console.error('Error computing funnel:', error);
+        throw new Error('Failed to compute funnel');
+      }
+    }),
+
+  retention: reportProcedure
+    .input(retentionQuerySchema)
+    .query(async ({ input, ctx }) => {
+      try {
+        return await cohortService.computeRetention(ctx.organization.id, input);
+      } catch (error) {
+        console.error('Error computing retention:', error);
+        throw new Error('Failed to compute retention');
+      }
+    }),
+});
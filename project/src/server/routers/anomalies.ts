@@ -0,0 +1,94 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { t, requireFeature, requirePermission } from '../trpc';
+import { AnomalyError, anomalyService } from '../services/anomalyService';
+import { AGGREGATIONS, AggregationError } from '../../lib/timeseries';
+import { ANOMALY_SEVERITIES, DETECTOR_BUCKETS } from '../../lib/anomaly';
+
+// Anomaly detection is part of the AI-driven insights on advanced analytics
+const readProcedure = requirePermission('analytics:read').use(requireFeature('advanced_analytics'));
+const writeProcedure = requirePermission('analytics:write').use(requireFeature('advanced_analytics'));
+
+function rethrow(error: unknown, action: string): never {
+  if (error instanceof TRPCError) throw error;
+  if (error instanceof AnomalyError || error instanceof AggregationError) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+  }
+  console.error(`Error trying to ${action}:`, error);
+  throw new Error(`Failed to ${action}`);
+}
+
+export const anomaliesRouter = t.router({
+  list: readProcedure
+    .input(z.object({
+      severity: z.enum(ANOMALY_SEVERITIES).optional(),
+      limit: z.number().int().min(1).max(200).optional(),
+    }))
+    .query(async ({ input, ctx }) => {
+      try {
+        return await anomalyService.listAnomalies(ctx.organization.id, input);
+      } catch (error) {
+        rethrow(error, 'list anomalies');
+      }
+    }),
+
+  monitors: readProcedure
+    .query(async ({ ctx }) => {
+      try {
+        return await anomalyService.listMonitors(ctx.organization.id);
+      } catch (error) {
+        rethrow(error, 'list anomaly monitors');
+      }
+    }),
+
+  createMonitor: writeProcedure
+    .input(z.object({
+      metric: z.string().trim().min(1).max(200),
+      type: z.enum(['event', 'metric']).optional(),
+      aggregation: z.enum(AGGREGATIONS),
+      bucket: z.enum(DETECTOR_BUCKETS),
+      where: z.record(z.union([z.string(), z.number(), z.boolean()])).optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await anomalyService.createMonitor(ctx.organization.id, input, ctx.user.id);
+      } catch (error) {
+        rethrow(error, 'create anomaly monitor');
+      }
+    }),
+
+  deleteMonitor: writeProcedure
+    .input(z.object({ monitorId: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await anomalyService.deleteMonitor(ctx.organization.id, input.monitorId);
+        return { success: true };
+      } catch (error) {
+        rethrow(error, 'delete anomaly monitor');
+      }
+    }),
+
+  // Includes the webhook signing secret, so only for members who can change the settings
+  alertSettings: writeProcedure
+    .query(async ({ ctx }) => {
+      try {
+        return await anomalyService.getAlertSettings(ctx.organization.id);
+      } catch (error) {
+        rethrow(error, 'load alert settings');
+      }
+    }),
+
+  updateAlertSettings: writeProcedure
+    .input(z.object({
+      minSeverity: z.enum(ANOMALY_SEVERITIES),
+      emails: z.array(z.string().email()).max(20),
+      webhookUrl: z.string().url().startsWith('https://', 'Webhook URL must use https').nullable(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await anomalyService.updateAlertSettings(ctx.organization.id, input);
+      } catch (error) {
+        rethrow(error, 'update alert settings');
+      }
+    }),
+});
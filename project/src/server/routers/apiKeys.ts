@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { t, requirePermission } from '../trpc';
+import { hasPermission, type Role } from '../services/organizationService';
+import { API_KEY_SCOPES, ApiKeyError, apiKeyService, type ApiKeyScope } from '../services/apiKeyService';
+
+function rethrow(error: unknown, action: string): never {
+  if (error instanceof TRPCError) throw error;
+  if (error instanceof ApiKeyError) throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+  console.error(`Error trying to ${action}:`, error);
+  throw new Error(`Failed to ${action}`);
+}
+
+// Nobody can mint, rotate or revoke a key that does more than they can
+function assertCovers(role: Role, scopes: ApiKeyScope[]): void {
+  const denied = scopes.find(scope => !hasPermission(role, scope));
+  if (denied) throw new TRPCError({ code: 'FORBIDDEN', message: `Your role does not allow ${denied}` });
+}
+
+export const apiKeysRouter = t.router({
+  listKeys: requirePermission('api_keys:manage')
+    .query(async ({ ctx }) => {
+      try {
+        return await apiKeyService.listKeys(ctx.organization.id);
+      } catch (error) {
+        rethrow(error, 'list API keys');
+      }
+    }),
+
+  createKey: requirePermission('api_keys:manage')
+    .input(z.object({
+      name: z.string().min(1).max(100),
+      scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+      expiresInDays: z.number().int().min(1).max(365).optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        assertCovers(ctx.role, input.scopes);
+
+        return await apiKeyService.createKey(ctx.organization.id, {
+          name: input.name,
+          scopes: input.scopes,
+          expiresAt: input.expiresInDays ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000) : undefined,
+        }, ctx.user.id);
+      } catch (error) {
+        rethrow(error, 'create API key');
+      }
+    }),
+
+  rotateKey: requirePermission('api_keys:manage')
+    .input(z.object({
+      keyId: z.string(),
+      overlapHours: z.number().min(0).max(168).default(24),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        assertCovers(ctx.role, (await apiKeyService.getKey(ctx.organization.id, input.keyId)).scopes);
+        return await apiKeyService.rotateKey(ctx.organization.id, input.keyId, input.overlapHours * 60 * 60 * 1000);
+      } catch (error) {
+        rethrow(error, 'rotate API key');
+      }
+    }),
+
+  revokeKey: requirePermission('api_keys:manage')
+    .input(z.object({ keyId: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        assertCovers(ctx.role, (await apiKeyService.getKey(ctx.organization.id, input.keyId)).scopes);
+        return await apiKeyService.revokeKey(ctx.organization.id, input.keyId);
+      } catch (error) {
+        rethrow(error, 'revoke API key');
+      }
+    }),
+});
@@ -0,0 +1,119 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { t, sessionProcedure } from '../trpc';
+import { clearSessionCookie, setSessionCookie } from '../context';
+import { AuthError, authService } from '../services/authService';
+import { OrganizationError, organizationService } from '../services/organizationService';
+import { emailService } from '../services/emailService';
+
+// Validation schemas
+const credentialsSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1),
+});
+
+async function sendVerificationEmail(userId: string): Promise<void> {
+  const { user, token } = await authService.createEmailVerification(userId);
+  await emailService.sendVerificationEmail(user.email, {
+    verifyUrl: `${process.env.VITE_APP_URL}/verify-email?token=${encodeURIComponent(token)}`,
+  });
+}
+
+export const authRouter = t.router({
+  signup: t.procedure
+    .input(credentialsSchema.extend({
+      name: z.string().optional(),
+      organizationName: z.string().optional(),
+      invitationToken: z.string().optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        // Check the invitation up front so a bad link does not leave an account with no organization
+        if (input.invitationToken) {
+          const invitation = await organizationService.getInvitation(input.invitationToken);
+          if (invitation.email !== input.email.trim().toLowerCase()) {
+            throw new OrganizationError('Invitation was sent to a different email address');
+          }
+        }
+
+        const { user, token, expiresAt } = await authService.signup(input.email, input.password, input.name);
+
+        // Invited users join the inviting organization; everyone else starts their own
+        if (input.invitationToken) {
+          await organizationService.acceptInvitation(input.invitationToken, user);
+        } else {
+          await organizationService.createOrganization(input.organizationName || `${input.name || user.email}'s team`, user.id);
+        }
+
+        // The account works without a verified email, so a mail failure must not fail the signup; the user can ask again
+        try {
+          await sendVerificationEmail(user.id);
+        } catch (error) {
+          console.error('Error sending verification email:', error);
+        }
+
+        setSessionCookie(ctx.res, token, expiresAt);
+        return { user, token, expiresAt };
+      } catch (error) {
+        if (error instanceof AuthError || error instanceof OrganizationError) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+        }
+        console.error('Error signing up:', error);
+        throw new Error('Failed to sign up');
+      }
+    }),
+
+  login: t.procedure
+    .input(credentialsSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const { user, token, expiresAt } = await authService.login(input.email, input.password);
+        setSessionCookie(ctx.res, token, expiresAt);
+        return { user, token, expiresAt };
+      } catch (error) {
+        if (error instanceof AuthError) throw new TRPCError({ code: 'UNAUTHORIZED', message: error.message });
+        console.error('Error logging in:', error);
+        throw new Error('Failed to log in');
+      }
+    }),
+
+  logout: sessionProcedure
+    .mutation(async ({ ctx }) => {
+      try {
+        if (ctx.sessionToken) await authService.logout(ctx.sessionToken);
+        clearSessionCookie(ctx.res);
+        return { success: true };
+      } catch (error) {
+        console.error('Error logging out:', error);
+        throw new Error('Failed to log out');
+      }
+    }),
+
+  verifyEmail: t.procedure
+    .input(z.object({ token: z.string() }))
+    .mutation(async ({ input }) => {
+      try {
+        return await authService.verifyEmail(input.token);
+      } catch (error) {
+        if (error instanceof AuthError) throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+        console.error('Error verifying email:', error);
+        throw new Error('Failed to verify email');
+      }
+    }),
+
+  requestEmailVerification: sessionProcedure
+    .mutation(async ({ ctx }) => {
+      try {
+        await sendVerificationEmail(ctx.user.id);
+        return { success: true };
+      } catch (error) {
+        if (error instanceof AuthError) throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+        console.error('Error sending verification email:', error);
+        throw new Error('Failed to send verification email');
+      }
+    }),
+
+  // isPlatformAdmin only decides which admin views the UI offers; the admin procedures check it again
+  me: t.procedure
+    .query(({ ctx }) => ctx.user && { ...ctx.user, isPlatformAdmin: authService.isPlatformAdmin(ctx.user) }),
+});
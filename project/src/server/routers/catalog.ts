@@ -0,0 +1,166 @@
+import { z } from 'zod';
+import { t, adminProcedure } from '../trpc';
+import { productService } from '../../lib/automation/ecommerce/product';
+
+// Validation schemas
+const inventoryInfoSchema = z.object({
+  quantity: z.number().int().min(0),
+  reserved: z.number().int().min(0).default(0),
+  reorderPoint: z.number().int().min(0),
+  reorderQuantity: z.number().int().min(0),
+  leadTime: z.number().min(0),
+});
+
+const variantInputSchema = z.object({
+  name: z.string().min(1),
+  sku: z.string().min(1),
+  price: z.number().nonnegative(),
+  attributes: z.record(z.string()).default({}),
+  inventory: inventoryInfoSchema,
+});
+
+const productInputSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().default(''),
+  price: z.number().nonnegative(),
+  cost: z.number().nonnegative().optional(),
+  weight: z.number().positive().optional(),
+  category: z.string().min(1),
+  subcategory: z.string().optional(),
+  variants: z.array(variantInputSchema).optional(),
+  inventory: inventoryInfoSchema.optional(),
+  images: z.array(z.string()).optional(),
+  tags: z.array(z.string()).optional(),
+});
+
+const productSearchSchema = z.object({
+  text: z.string().optional(),
+  category: z.string().optional(),
+  subcategory: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  minPrice: z.number().optional(),
+  maxPrice: z.number().optional(),
+  sku: z.string().optional(),
+  limit: z.number().int().positive().max(500).optional(),
+  offset: z.number().int().min(0).optional(),
+});
+
+// Anyone may browse the catalog; it is shared by the whole platform, so only operators change it
+export const catalogRouter = t.router({
+  getProduct: t.procedure
+    .input(z.object({ productId: z.string() }))
+    .query(async ({ input }) => {
+      try {
+        return await productService.getProduct(input.productId);
+      } catch (error) {
+        console.error('Error retrieving product:', error);
+        throw new Error('Failed to retrieve product');
+      }
+    }),
+
+  getProductBySku: t.procedure
+    .input(z.object({ sku: z.string() }))
+    .query(async ({ input }) => {
+      try {
+        return await productService.getProductBySku(input.sku);
+      } catch (error) {
+        console.error('Error retrieving product by SKU:', error);
+        throw new Error('Failed to retrieve product by SKU');
+      }
+    }),
+
+  searchProducts: t.procedure
+    .input(productSearchSchema)
+    .query(async ({ input }) => {
+      try {
+        return await productService.searchProducts(input);
+      } catch (error) {
+        console.error('Error searching products:', error);
+        throw new Error('Failed to search products');
+      }
+    }),
+
+  createProduct: adminProcedure
+    .input(productInputSchema.refine(
+      product => Boolean(product.inventory || product.variants?.length),
+      { message: 'A product without variants needs its own inventory', path: ['inventory'] }
+    ))
+    .mutation(async ({ input }) => {
+      try {
+        return await productService.createProduct(input);
+      } catch (error) {
+        console.error('Error creating product:', error);
+        throw new Error('Failed to create product');
+      }
+    }),
+
+  updateProduct: adminProcedure
+    .input(z.object({
+      productId: z.string(),
+      changes: productInputSchema.omit({ variants: true }).partial(),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        return await productService.updateProduct(input.productId, input.changes);
+      } catch (error) {
+        console.error('Error updating product:', error);
+        throw new Error('Failed to update product');
+      }
+    }),
+
+  deleteProduct: adminProcedure
+    .input(z.object({ productId: z.string() }))
+    .mutation(async ({ input }) => {
+      try {
+        await productService.deleteProduct(input.productId);
+        return { success: true };
+      } catch (error) {
+        console.error('Error deleting product:', error);
+        throw new Error('Failed to delete product');
+      }
+    }),
+
+  addVariant: adminProcedure
+    .input(z.object({
+      productId: z.string(),
+      variant: variantInputSchema,
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        return await productService.addVariant(input.productId, input.variant);
+      } catch (error) {
+        console.error('Error adding variant:', error);
+        throw new Error('Failed to add variant');
+      }
+    }),
+
+  updateVariant: adminProcedure
+    .input(z.object({
+      productId: z.string(),
+      variantId: z.string(),
+      changes: variantInputSchema.partial(),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        return await productService.updateVariant(input.productId, input.variantId, input.changes);
+      } catch (error) {
+        console.error('Error updating variant:', error);
+        throw new Error('Failed to update variant');
+      }
+    }),
+
+  removeVariant: adminProcedure
+    .input(z.object({
+      productId: z.string(),
+      variantId: z.string(),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        await productService.removeVariant(input.productId, input.variantId);
+        return { success: true };
+      } catch (error) {
+        console.error('Error removing variant:', error);
+        throw new Error('Failed to remove variant');
+      }
+    }),
+});
@@ -0,0 +1,151 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { t, rejectApiKeys, requireFeature, requirePermission } from '../trpc';
+import { DashboardError, dashboardService } from '../services/dashboardService';
+import { AGGREGATIONS, AggregationError } from '../../lib/timeseries';
+import {
+  CHART_TYPES,
+  DASHBOARD_RANGES,
+  GRID_COLUMNS,
+  MAX_WIDGETS,
+  MAX_WIDGET_HEIGHT
+} from '../../lib/dashboards';
+
+const widgetSchema = z.object({
+  id: z.string().min(1).max(100),
+  title: z.string().trim().min(1).max(100),
+  metric: z.string().trim().min(1).max(200),
+  type: z.enum(['event', 'metric']).optional(),
+  aggregation: z.enum(AGGREGATIONS),
+  range: z.enum(DASHBOARD_RANGES),
+  chart: z.enum(CHART_TYPES),
+  groupBy: z.string().trim().min(1).max(100).optional(),
+  width: z.number().int().min(1).max(GRID_COLUMNS),
+  height: z.number().int().min(1).max(MAX_WIDGET_HEIGHT),
+});
+
+const dashboardSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  widgets: z.array(widgetSchema).max(MAX_WIDGETS),
+});
+
+const dashboardIdSchema = z.object({ dashboardId: z.string() });
+
+// Custom dashboards come with the analytics page, so they need the same plan
+const readProcedure = requirePermission('analytics:read').use(requireFeature('basic_analytics'));
+const writeProcedure = requirePermission('analytics:write').use(requireFeature('basic_analytics'));
+// A share link opens the data to anyone holding it, so only a signed-in member may hand one out
+const shareProcedure = writeProcedure.use(rejectApiKeys);
+
+function rethrow(error: unknown, action: string): never {
+  if (error instanceof TRPCError) throw error;
+  if (error instanceof DashboardError || error instanceof AggregationError) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+  }
+  console.error(`Error trying to ${action}:`, error);
+  throw new Error(`Failed to ${action}`);
+}
+
+export const dashboardsRouter = t.router({
+  list: readProcedure
+    .query(async ({ ctx }) => {
+      try {
+        return await dashboardService.listDashboards(ctx.organization.id);
+      } catch (error) {
+        rethrow(error, 'list dashboards');
+      }
+    }),
+
+  get: readProcedure
+    .input(dashboardIdSchema)
+    .query(async ({ input, ctx }) => {
+      try {
+        return await dashboardService.getDashboard(ctx.organization.id, input.dashboardId);
+      } catch (error) {
+        rethrow(error, 'load dashboard');
+      }
+    }),
+
+  // Series for every widget, aligned with the dashboard's widgets
+  data: readProcedure
+    .input(dashboardIdSchema)
+    .query(async ({ input, ctx }) => {
+      try {
+        const dashboard = await dashboardService.getDashboard(ctx.organization.id, input.dashboardId);
+        return await dashboardService.loadWidgetData(dashboard);
+      } catch (error) {
+        rethrow(error, 'load dashboard data');
+      }
+    }),
+
+  create: writeProcedure
+    .input(dashboardSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await dashboardService.createDashboard(ctx.organization.id, input, ctx.user.id);
+      } catch (error) {
+        rethrow(error, 'create dashboard');
+      }
+    }),
+
+  update: writeProcedure
+    .input(dashboardIdSchema.merge(dashboardSchema))
+    .mutation(async ({ input: { dashboardId, ...input }, ctx }) => {
+      try {
+        return await dashboardService.updateDashboard(ctx.organization.id, dashboardId, input);
+      } catch (error) {
+        rethrow(error, 'update dashboard');
+      }
+    }),
+
+  delete: writeProcedure
+    .input(dashboardIdSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await dashboardService.deleteDashboard(ctx.organization.id, input.dashboardId);
+        return { success: true };
+      } catch (error) {
+        rethrow(error, 'delete dashboard');
+      }
+    }),
+
+  // The token is only returned here; the link can't be shown again, only replaced
+  share: shareProcedure
+    .input(dashboardIdSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await dashboardService.shareDashboard(ctx.organization.id, input.dashboardId);
+      } catch (error) {
+        rethrow(error, 'share dashboard');
+      }
+    }),
+
+  unshare: shareProcedure
+    .input(dashboardIdSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await dashboardService.unshareDashboard(ctx.organization.id, input.dashboardId);
+      } catch (error) {
+        rethrow(error, 'stop sharing dashboard');
+      }
+    }),
+
+  // Public: anyone with the link sees the widgets and their data, nothing else about the organization
+  shared: t.procedure
+    .input(z.object({ token: z.string().min(1) }))
+    .query(async ({ input }) => {
+      try {
+        const dashboard = await dashboardService.getSharedDashboard(input.token);
+        return {
+          name: dashboard.name,
+          widgets: dashboard.widgets,
+          data: await dashboardService.loadWidgetData(dashboard),
+        };
+      } catch (error) {
+        if (error instanceof DashboardError) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: error.message });
+        }
+        rethrow(error, 'load shared dashboard');
+      }
+    }),
+});
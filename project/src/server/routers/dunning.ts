@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { t, adminProcedure } from '../trpc';
+import { DUNNING_STAGES } from '../../lib/entitlements';
+import { dunningService } from '../services/dunningService';
+import { organizationService } from '../services/organizationService';
+
+export const dunningRouter = t.router({
+  listCases: adminProcedure
+    .input(z.object({
+      status: z.enum(['open', 'resolved']).default('open'),
+      stage: z.enum(DUNNING_STAGES).optional(),
+    }))
+    .query(async ({ input }) => {
+      try {
+        const cases = await dunningService.listCases(input);
+        return await Promise.all(cases.map(async dunningCase => ({
+          ...dunningCase,
+          organizationName: (await organizationService.getOrganization(dunningCase.organizationId))?.name ?? null,
+        })));
+      } catch (error) {
+        console.error('Error listing dunning cases:', error);
+        throw new Error('Failed to list dunning cases');
+      }
+    }),
+
+  getSchedule: adminProcedure
+    .query(() => dunningService.getSchedule()),
+});
@@ -0,0 +1,15 @@
+import { t, organizationProcedure } from '../trpc';
+import { entitlementService } from '../services/entitlementService';
+
+export const entitlementsRouter = t.router({
+  // Any member may see what their organization's plan includes, so the UI can gate features
+  current: organizationProcedure
+    .query(async ({ ctx }) => {
+      try {
+        return await entitlementService.getEntitlements(ctx.organization);
+      } catch (error) {
+        console.error('Error fetching entitlements:', error);
+        throw new Error('Failed to fetch entitlements');
+      }
+    }),
+});
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { t, adminProcedure } from '../trpc';
+import { demandForecastService } from '../../lib/automation/ecommerce/demand';
+
+export const forecastingRouter = t.router({
+  listForecasts: adminProcedure
+    .query(async () => {
+      try {
+        return await demandForecastService.forecastAll();
+      } catch (error) {
+        console.error('Error listing demand forecasts:', error);
+        throw new Error('Failed to list demand forecasts');
+      }
+    }),
+
+  getForecastVsActual: adminProcedure
+    .input(z.object({
+      productId: z.string(),
+      variantId: z.string().optional(),
+      horizonDays: z.number().int().min(1).max(90).default(14),
+    }))
+    .query(async ({ input }) => {
+      try {
+        return await demandForecastService.getForecastVsActual(input.productId, input.variantId, input.horizonDays);
+      } catch (error) {
+        console.error('Error comparing forecast to actual demand:', error);
+        throw new Error('Failed to compare forecast to actual demand');
+      }
+    }),
+
+  recomputeReorderPoints: adminProcedure
+    .mutation(async () => {
+      try {
+        return await demandForecastService.recomputeReorderPoints();
+      } catch (error) {
+        console.error('Error recomputing reorder points:', error);
+        throw new Error('Failed to recompute reorder points');
+      }
+    }),
+});
@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { t, adminProcedure } from '../trpc';
+import { FunnelError, funnelService } from '../services/funnelService';
+import { cohortService } from '../services/cohortService';
+import { funnelQuerySchema, retentionQuerySchema } from './analytics';
+import { CLIENT_EVENTS } from '../../lib/timeseries';
+
+export const MAX_CLIENT_EVENT_PROPERTIES = 20;
+
+// What the public trackEvent procedure accepts: a few flat labels, since anyone can send it. The actor is set by the server.
+export const clientEventSchema = z.object({
+  eventName: z.enum(CLIENT_EVENTS),
+  properties: z.record(z.string().max(50), z.union([z.string().max(200), z.number(), z.boolean()]))
+    .refine(properties => Object.keys(properties).length <= MAX_CLIENT_EVENT_PROPERTIES, {
+      message: `At most ${MAX_CLIENT_EVENT_PROPERTIES} properties`
+    })
+    .optional(),
+});
+
+// The analytics reports over the platform's own events (onboarding, checkout), which belong to no organization
+export const growthRouter = t.router({
+  funnels: adminProcedure
+    .query(() => funnelService.listFunnels(null)),
+
+  funnel: adminProcedure
+    .input(funnelQuerySchema)
+    .query(async ({ input }) => {
+      try {
+        const funnel = await funnelService.getFunnel(null, input.funnelId);
+        const result = await funnelService.computeFunnel(null, funnel, input.from.getTime(), input.to.getTime());
+        return { funnel, result };
+      } catch (error) {
+        if (error instanceof FunnelError) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+        }
+        console.error('Error computing platform funnel:', error);
+        throw new Error('Failed to compute funnel');
+      }
+    }),
+
+  retention: adminProcedure
+    .input(retentionQuerySchema)
+    .query(async ({ input }) => {
+      try {
+        return await cohortService.computeRetention(null, input);
+      } catch (error) {
+        console.error('Error computing platform retention:', error);
+        throw new Error('Failed to compute retention');
+      }
+    }),
+});
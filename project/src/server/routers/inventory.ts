@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { t, adminProcedure } from '../trpc';
+import { inventoryService } from '../../lib/automation/ecommerce/inventory';
+
+export const inventoryRouter = t.router({
+  listStockLevels: adminProcedure
+    .query(async () => {
+      try {
+        return await inventoryService.listStockLevels();
+      } catch (error) {
+        console.error('Error listing stock levels:', error);
+        throw new Error('Failed to list stock levels');
+      }
+    }),
+
+  getStockBySku: adminProcedure
+    .input(z.object({ sku: z.string() }))
+    .query(async ({ input }) => {
+      try {
+        return await inventoryService.getStockBySku(input.sku);
+      } catch (error) {
+        console.error('Error retrieving stock by SKU:', error);
+        throw new Error('Failed to retrieve stock by SKU');
+      }
+    }),
+
+  getLowStockAlerts: adminProcedure
+    .query(async () => {
+      try {
+        return await inventoryService.getLowStockAlerts();
+      } catch (error) {
+        console.error('Error retrieving low-stock alerts:', error);
+        throw new Error('Failed to retrieve low-stock alerts');
+      }
+    }),
+
+  setStockLevel: adminProcedure
+    .input(z.object({
+      productId: z.string(),
+      variantId: z.string().optional(),
+      quantity: z.number().int().min(0),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        await inventoryService.updateInventoryLevel(input.productId, input.quantity, input.variantId);
+        return { success: true };
+      } catch (error) {
+        console.error('Error setting stock level:', error);
+        throw new Error('Failed to set stock level');
+      }
+    }),
+});
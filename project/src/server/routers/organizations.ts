@@ -0,0 +1,173 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { t, protectedProcedure, sessionProcedure, organizationProcedure, requirePermission } from '../trpc';
+import { emailService } from '../services/emailService';
+import {
+  OrganizationError,
+  ROLE_PERMISSIONS,
+  canAssignRole,
+  organizationService,
+  type Role
+} from '../services/organizationService';
+
+// Validation schemas
+const roleSchema = z.enum(['owner', 'admin', 'billing', 'developer', 'viewer']);
+const assignableRoleSchema = z.enum(['admin', 'billing', 'developer', 'viewer']);
+
+function rethrow(error: unknown, action: string): never {
+  if (error instanceof TRPCError) throw error;
+  if (error instanceof OrganizationError) throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+  console.error(`Error trying to ${action}:`, error);
+  throw new Error(`Failed to ${action}`);
+}
+
+function assertCanAssign(assigner: Role, role: Role): void {
+  if (!canAssignRole(assigner, role)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `The ${assigner} role cannot grant the ${role} role` });
+  }
+}
+
+export const organizationsRouter = t.router({
+  listOrganizations: protectedProcedure
+    .query(async ({ ctx }) => {
+      try {
+        return await organizationService.listForUser(ctx.user.id);
+      } catch (error) {
+        rethrow(error, 'list organizations');
+      }
+    }),
+
+  createOrganization: sessionProcedure
+    .input(z.object({ name: z.string().min(1) }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await organizationService.createOrganization(input.name, ctx.user.id);
+      } catch (error) {
+        rethrow(error, 'create organization');
+      }
+    }),
+
+  // The organization requests are acting in, with what the caller may do there
+  current: organizationProcedure
+    .query(({ ctx }) => ({
+      organization: ctx.organization,
+      role: ctx.role,
+      permissions: ROLE_PERMISSIONS[ctx.role],
+    })),
+
+  listMembers: organizationProcedure
+    .query(async ({ ctx }) => {
+      try {
+        return await organizationService.listMembers(ctx.organization.id);
+      } catch (error) {
+        rethrow(error, 'list members');
+      }
+    }),
+
+  inviteMember: requirePermission('members:manage')
+    .input(z.object({
+      email: z.string().email(),
+      role: assignableRoleSchema,
+    }))
+    .mutation(async ({ input, ctx }) => {
+      assertCanAssign(ctx.role, input.role);
+      try {
+        const { invitation, token } = await organizationService.inviteMember(
+          ctx.organization.id,
+          input.email,
+          input.role,
+          ctx.user.id
+        );
+
+        await emailService.sendInvitationEmail(invitation.email, {
+          organizationName: ctx.organization.name,
+          inviterName: ctx.user.name || ctx.user.email,
+          role: invitation.role,
+          acceptUrl: `${process.env.VITE_APP_URL}/invitations/accept?token=${encodeURIComponent(token)}`,
+        });
+
+        return invitation;
+      } catch (error) {
+        rethrow(error, 'invite member');
+      }
+    }),
+
+  listInvitations: requirePermission('members:manage')
+    .query(async ({ ctx }) => {
+      try {
+        return await organizationService.listInvitations(ctx.organization.id);
+      } catch (error) {
+        rethrow(error, 'list invitations');
+      }
+    }),
+
+  revokeInvitation: requirePermission('members:manage')
+    .input(z.object({ invitationId: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await organizationService.revokeInvitation(ctx.organization.id, input.invitationId);
+      } catch (error) {
+        rethrow(error, 'revoke invitation');
+      }
+    }),
+
+  getInvitation: t.procedure
+    .input(z.object({ token: z.string() }))
+    .query(async ({ input }) => {
+      try {
+        const { organizationName, email, role, expiresAt } = await organizationService.getInvitation(input.token);
+        return { organizationName, email, role, expiresAt };
+      } catch (error) {
+        rethrow(error, 'fetch invitation');
+      }
+    }),
+
+  acceptInvitation: sessionProcedure
+    .input(z.object({ token: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await organizationService.acceptInvitation(input.token, ctx.user);
+      } catch (error) {
+        rethrow(error, 'accept invitation');
+      }
+    }),
+
+  updateMemberRole: requirePermission('members:manage')
+    .input(z.object({
+      userId: z.string(),
+      role: roleSchema,
+    }))
+    .mutation(async ({ input, ctx }) => {
+      assertCanAssign(ctx.role, input.role);
+      try {
+        return await organizationService.updateMemberRole(ctx.organization.id, input.userId, input.role);
+      } catch (error) {
+        rethrow(error, 'update member role');
+      }
+    }),
+
+  removeMember: requirePermission('members:manage')
+    .input(z.object({ userId: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await organizationService.removeMember(ctx.organization.id, input.userId);
+        return { success: true };
+      } catch (error) {
+        rethrow(error, 'remove member');
+      }
+    }),
+
+  leaveOrganization: organizationProcedure
+    .use(({ ctx, next }) => {
+      if (ctx.apiKey) throw new TRPCError({ code: 'FORBIDDEN', message: 'This action is not available to API keys' });
+      return next();
+    })
+    .mutation(async ({ ctx }) => {
+      try {
+        await organizationService.removeMember(ctx.organization.id, ctx.user.id);
+        return { success: true };
+      } catch (error) {
+        rethrow(error, 'leave organization');
+      }
+    }),
+});
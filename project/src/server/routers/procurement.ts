@@ -0,0 +1,110 @@
+import { z } from 'zod';
+import { t, adminProcedure } from '../trpc';
+import { procurementService } from '../../lib/automation/ecommerce/procurement';
+
+// Validation schemas
+const supplierProductSchema = z.object({
+  productId: z.string(),
+  variantId: z.string().optional(),
+  unitCost: z.number().nonnegative(),
+  supplierSku: z.string().optional(),
+  minimumOrderQuantity: z.number().int().positive().optional(),
+});
+
+const supplierInputSchema = z.object({
+  name: z.string().min(1),
+  email: z.string().email().optional(),
+  leadTime: z.number().min(0),
+  minimumOrderQuantity: z.number().int().min(1).default(1),
+  products: z.array(supplierProductSchema).default([]),
+});
+
+const purchaseOrderStatusSchema = z.enum(['draft', 'submitted', 'partially_received', 'received', 'cancelled']);
+
+export const procurementRouter = t.router({
+  listSuppliers: adminProcedure
+    .query(async () => {
+      try {
+        return await procurementService.listSuppliers();
+      } catch (error) {
+        console.error('Error listing suppliers:', error);
+        throw new Error('Failed to list suppliers');
+      }
+    }),
+
+  createSupplier: adminProcedure
+    .input(supplierInputSchema)
+    .mutation(async ({ input }) => {
+      try {
+        return await procurementService.createSupplier(input);
+      } catch (error) {
+        console.error('Error creating supplier:', error);
+        throw new Error('Failed to create supplier');
+      }
+    }),
+
+  updateSupplier: adminProcedure
+    .input(z.object({
+      supplierId: z.string(),
+      changes: supplierInputSchema.partial().extend({ active: z.boolean().optional() }),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        return await procurementService.updateSupplier(input.supplierId, input.changes);
+      } catch (error) {
+        console.error('Error updating supplier:', error);
+        throw new Error('Failed to update supplier');
+      }
+    }),
+
+  listPurchaseOrders: adminProcedure
+    .input(z.object({ status: purchaseOrderStatusSchema.optional() }))
+    .query(async ({ input }) => {
+      try {
+        return await procurementService.listPurchaseOrders(input.status);
+      } catch (error) {
+        console.error('Error listing purchase orders:', error);
+        throw new Error('Failed to list purchase orders');
+      }
+    }),
+
+  submitPurchaseOrder: adminProcedure
+    .input(z.object({ purchaseOrderId: z.string() }))
+    .mutation(async ({ input }) => {
+      try {
+        return await procurementService.submitPurchaseOrder(input.purchaseOrderId);
+      } catch (error) {
+        console.error('Error submitting purchase order:', error);
+        throw new Error('Failed to submit purchase order');
+      }
+    }),
+
+  receivePurchaseOrder: adminProcedure
+    .input(z.object({
+      purchaseOrderId: z.string(),
+      received: z.array(z.object({
+        productId: z.string(),
+        variantId: z.string().optional(),
+        quantity: z.number().int().positive(),
+      })).min(1),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        return await procurementService.receivePurchaseOrder(input.purchaseOrderId, input.received);
+      } catch (error) {
+        console.error('Error receiving purchase order:', error);
+        throw new Error('Failed to receive purchase order');
+      }
+    }),
+
+  cancelPurchaseOrder: adminProcedure
+    .input(z.object({ purchaseOrderId: z.string() }))
+    .mutation(async ({ input }) => {
+      try {
+        return await procurementService.cancelPurchaseOrder(input.purchaseOrderId);
+      } catch (error) {
+        console.error('Error cancelling purchase order:', error);
+        throw new Error('Failed to cancel purchase order');
+      }
+    }),
+});
@@ -0,0 +1,113 @@
+import { z } from 'zod';
+import { t, adminProcedure, protectedProcedure } from '../trpc';
+import { promotionService } from '../../lib/automation/ecommerce/promotions';
+
+// Validation schemas
+const promotionInputSchema = z.object({
+  name: z.string().min(1),
+  code: z.string().min(3).optional(),
+  type: z.enum(['percentage', 'fixed']),
+  value: z.number().positive(),
+  target: z.object({
+    products: z.array(z.string()).optional(),
+    categories: z.array(z.string()).optional(),
+    customerSegments: z.array(z.string()).optional(),
+  }).default({}),
+  stacking: z.enum(['stackable', 'exclusive']).default('stackable'),
+  priority: z.number().int().default(0),
+  minimumSubtotal: z.number().positive().optional(),
+  usageLimit: z.number().int().positive().optional(),
+  perCustomerLimit: z.number().int().positive().optional(),
+  startsAt: z.coerce.date().default(() => new Date()),
+  endsAt: z.coerce.date().optional(),
+  source: z.enum(['manual', 'automation']).default('manual'),
+});
+
+const orderItemSchema = z.object({
+  productId: z.string(),
+  variantId: z.string().optional(),
+  quantity: z.number().int().positive(),
+  price: z.number().nonnegative(),
+  discount: z.number().nonnegative().optional(),
+});
+
+export const promotionsRouter = t.router({
+  listPromotions: adminProcedure
+    .input(z.object({ activeOnly: z.boolean().default(false) }))
+    .query(async ({ input }) => {
+      try {
+        return await promotionService.listPromotions(input.activeOnly);
+      } catch (error) {
+        console.error('Error listing promotions:', error);
+        throw new Error('Failed to list promotions');
+      }
+    }),
+
+  createPromotion: adminProcedure
+    .input(promotionInputSchema)
+    .mutation(async ({ input }) => {
+      try {
+        return await promotionService.createPromotion(input);
+      } catch (error) {
+        console.error('Error creating promotion:', error);
+        throw new Error('Failed to create promotion');
+      }
+    }),
+
+  updatePromotion: adminProcedure
+    .input(z.object({
+      promotionId: z.string(),
+      changes: promotionInputSchema.partial().extend({ active: z.boolean().optional() }),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        return await promotionService.updatePromotion(input.promotionId, input.changes);
+      } catch (error) {
+        console.error('Error updating promotion:', error);
+        throw new Error('Failed to update promotion');
+      }
+    }),
+
+  deactivatePromotion: adminProcedure
+    .input(z.object({ promotionId: z.string() }))
+    .mutation(async ({ input }) => {
+      try {
+        return await promotionService.deactivatePromotion(input.promotionId);
+      } catch (error) {
+        console.error('Error deactivating promotion:', error);
+        throw new Error('Failed to deactivate promotion');
+      }
+    }),
+
+  setCustomerSegments: adminProcedure
+    .input(z.object({
+      customerId: z.string(),
+      segments: z.array(z.string().min(1)),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        return await promotionService.setCustomerSegments(input.customerId, input.segments);
+      } catch (error) {
+        console.error('Error setting customer segments:', error);
+        throw new Error('Failed to set customer segments');
+      }
+    }),
+
+  // Lets a cart show discounts before the order is placed; the shopper is whoever is signed in
+  previewPricing: protectedProcedure
+    .input(z.object({
+      items: z.array(orderItemSchema).min(1),
+      codes: z.array(z.string()).optional(),
+    }))
+    .query(async ({ input, ctx }) => {
+      try {
+        return await promotionService.priceOrder(input.items, {
+          customerId: ctx.user.id,
+          codes: input.codes,
+        });
+      } catch (error) {
+        console.error('Error pricing order:', error);
+        throw new Error('Failed to price order');
+      }
+    }),
+});
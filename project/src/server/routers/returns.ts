@@ -0,0 +1,106 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { t, adminProcedure, protectedProcedure } from '../trpc';
+import { returnService } from '../../lib/automation/ecommerce/returns';
+import { orderService } from '../../lib/automation/ecommerce/order';
+
+// Validation schemas
+const returnReasonSchema = z.enum([
+  'damaged',
+  'defective',
+  'wrong_item',
+  'not_as_described',
+  'no_longer_needed',
+  'other',
+]);
+
+const returnIdSchema = z.object({ returnId: z.string() });
+
+export const returnsRouter = t.router({
+  listReturns: adminProcedure
+    .input(z.object({ orderId: z.string().optional() }))
+    .query(async ({ input }) => {
+      try {
+        return await returnService.listReturns(input.orderId);
+      } catch (error) {
+        console.error('Error listing returns:', error);
+        throw new Error('Failed to list returns');
+      }
+    }),
+
+  // Shoppers can only return their own orders; everything after the request is handled by operators
+  requestReturn: protectedProcedure
+    .input(z.object({
+      orderId: z.string(),
+      items: z.array(z.object({
+        productId: z.string(),
+        variantId: z.string().optional(),
+        quantity: z.number().int().positive(),
+        reason: returnReasonSchema,
+      })).min(1),
+      notes: z.string().optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const order = await orderService.getOrder(input.orderId);
+        if (order?.customerId !== ctx.user.id) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: `Order ${input.orderId} not found` });
+        }
+        return await returnService.requestReturn(input.orderId, input.items, input.notes);
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error('Error requesting return:', error);
+        throw new Error('Failed to request return');
+      }
+    }),
+
+  approveReturn: adminProcedure
+    .input(returnIdSchema)
+    .mutation(async ({ input }) => {
+      try {
+        return await returnService.approveReturn(input.returnId);
+      } catch (error) {
+        console.error('Error approving return:', error);
+        throw new Error('Failed to approve return');
+      }
+    }),
+
+  rejectReturn: adminProcedure
+    .input(returnIdSchema.extend({ reason: z.string().min(1) }))
+    .mutation(async ({ input }) => {
+      try {
+        return await returnService.rejectReturn(input.returnId, input.reason);
+      } catch (error) {
+        console.error('Error rejecting return:', error);
+        throw new Error('Failed to reject return');
+      }
+    }),
+
+  receiveReturn: adminProcedure
+    .input(returnIdSchema.extend({
+      dispositions: z.array(z.object({
+        productId: z.string(),
+        variantId: z.string().optional(),
+        disposition: z.enum(['restock', 'scrap']),
+      })).default([]),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        return await returnService.receiveReturn(input.returnId, input.dispositions);
+      } catch (error) {
+        console.error('Error receiving return:', error);
+        throw new Error('Failed to receive return');
+      }
+    }),
+
+  refundReturn: adminProcedure
+    .input(returnIdSchema)
+    .mutation(async ({ input }) => {
+      try {
+        return await returnService.refundReturn(input.returnId);
+      } catch (error) {
+        console.error('Error refunding return:', error);
+        throw new Error('Failed to refund return');
+      }
+    }),
+});
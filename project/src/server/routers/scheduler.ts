@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import { t, adminProcedure } from '../trpc';
+import { schedulerService } from '../../lib/scheduler';
+
+const jobNameSchema = z.object({ name: z.string() });
+
+// The jobs run the whole platform, so only its operators may see or steer them
+export const schedulerRouter = t.router({
+  listJobs: adminProcedure
+    .query(async () => {
+      try {
+        return schedulerService.listJobs();
+      } catch (error) {
+        console.error('Error listing scheduled jobs:', error);
+        throw new Error('Failed to list scheduled jobs');
+      }
+    }),
+
+  getJobHistory: adminProcedure
+    .input(z.object({
+      name: z.string(),
+      limit: z.number().int().min(1).max(50).default(20),
+    }))
+    .query(async ({ input }) => {
+      try {
+        return schedulerService.getJobHistory(input.name, input.limit);
+      } catch (error) {
+        console.error('Error fetching job history:', error);
+        throw new Error('Failed to fetch job history');
+      }
+    }),
+
+  triggerJob: adminProcedure
+    .input(jobNameSchema)
+    .mutation(async ({ input }) => {
+      try {
+        return await schedulerService.triggerJob(input.name);
+      } catch (error) {
+        console.error('Error triggering job:', error);
+        throw new Error('Failed to trigger job');
+      }
+    }),
+
+  pauseJob: adminProcedure
+    .input(jobNameSchema)
+    .mutation(async ({ input }) => {
+      try {
+        return schedulerService.pauseJob(input.name);
+      } catch (error) {
+        console.error('Error pausing job:', error);
+        throw new Error('Failed to pause job');
+      }
+    }),
+
+  resumeJob: adminProcedure
+    .input(jobNameSchema)
+    .mutation(async ({ input }) => {
+      try {
+        return schedulerService.resumeJob(input.name);
+      } catch (error) {
+        console.error('Error resuming job:', error);
+        throw new Error('Failed to resume job');
+      }
+    }),
+});
@@ -0,0 +1,68 @@
+import { z } from 'zod';
+import { t, adminProcedure } from '../trpc';
+import { fulfillmentService } from '../../lib/automation/ecommerce/fulfillment';
+import { trackingEventSchema } from '../routes/carrierTracking';
+
+// Validation schemas
+const addressSchema = z.object({
+  street: z.string(),
+  city: z.string(),
+  state: z.string(),
+  country: z.string().length(2),
+  postalCode: z.string(),
+});
+
+// Rate estimates are public; anything tied to an order, or that spends money, is for operators
+export const shippingRouter = t.router({
+  quoteRates: t.procedure
+    .input(z.object({
+      address: addressSchema,
+      weight: z.number().positive(),
+    }))
+    .query(async ({ input }) => {
+      try {
+        return await fulfillmentService.quoteRates(input.address, { weight: input.weight });
+      } catch (error) {
+        console.error('Error quoting shipping rates:', error);
+        throw new Error('Failed to quote shipping rates');
+      }
+    }),
+
+  quoteOrder: adminProcedure
+    .input(z.object({ orderId: z.string() }))
+    .query(async ({ input }) => {
+      try {
+        return await fulfillmentService.quoteOrder(input.orderId);
+      } catch (error) {
+        console.error('Error quoting order shipping:', error);
+        throw new Error('Failed to quote order shipping');
+      }
+    }),
+
+  buyLabel: adminProcedure
+    .input(z.object({
+      orderId: z.string(),
+      carrier: z.string(),
+      service: z.string(),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        return await fulfillmentService.buyLabel(input.orderId, input.carrier, input.service);
+      } catch (error) {
+        console.error('Error buying shipping label:', error);
+        throw new Error('Failed to buy shipping label');
+      }
+    }),
+
+  // Operators replaying a missed event; carriers push to the signed /api/carriers/tracking route
+  ingestTrackingEvent: adminProcedure
+    .input(trackingEventSchema)
+    .mutation(async ({ input }) => {
+      try {
+        return await fulfillmentService.ingestTrackingEvent(input);
+      } catch (error) {
+        console.error('Error ingesting tracking event:', error);
+        throw new Error('Failed to ingest tracking event');
+      }
+    }),
+});
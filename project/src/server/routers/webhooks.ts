@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { t, adminProcedure } from '../trpc';
+import { webhookService } from '../services/webhookService';
+
+const statusSchema = z.enum(['pending', 'processed', 'failed', 'ignored']);
+
+export const webhooksRouter = t.router({
+  listEvents: adminProcedure
+    .input(z.object({
+      status: statusSchema.optional(),
+      type: z.string().optional(),
+      limit: z.number().int().min(1).max(200).default(50),
+    }))
+    .query(async ({ input }) => {
+      try {
+        return await webhookService.listEvents(input);
+      } catch (error) {
+        console.error('Error listing webhook events:', error);
+        throw new Error('Failed to list webhook events');
+      }
+    }),
+
+  listHandlers: adminProcedure
+    .query(() => webhookService.listHandlers()),
+
+  replayEvent: adminProcedure
+    .input(z.object({
+      eventId: z.string(),
+      force: z.boolean().default(false),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        if (!await webhookService.getEvent(input.eventId)) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Webhook event not found' });
+        }
+        return await webhookService.replay(input.eventId, { force: input.force });
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error('Error replaying webhook event:', error);
+        throw new Error('Failed to replay webhook event');
+      }
+    }),
+
+  replayFailed: adminProcedure
+    .mutation(async () => {
+      try {
+        const results = await webhookService.replayFailed();
+        return {
+          replayed: results.length,
+          failed: results.filter(record => record.status === 'failed').length,
+        };
+      } catch (error) {
+        console.error('Error replaying failed webhook events:', error);
+        throw new Error('Failed to replay webhook events');
+      }
+    }),
+});
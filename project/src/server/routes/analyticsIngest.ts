@@ -0,0 +1,89 @@
+import type { ServerResponse } from 'http';
+import { z } from 'zod';
+import type { MemberAuth, MemberRequest } from '../middleware/memberAuth';
+import { analyticsEventService, type IngestSource } from '../services/analyticsEventService';
+
+// Records per request, across all names in a metrics batch
+export const MAX_BATCH_SIZE = 1000;
+
+const nameSchema = z.string().trim().min(1).max(200);
+
+const eventSchema = z.object({
+  event: nameSchema,
+  properties: z.record(z.unknown()).optional(),
+  timestamp: z.number().int().positive().optional(),
+});
+
+// A batch from analyticsService, or a single event from older clients
+const eventsBodySchema = z.union([
+  z.object({ events: z.array(eventSchema).min(1).max(MAX_BATCH_SIZE) }),
+  eventSchema.transform(event => ({ events: [event] })),
+]);
+
+const metricsBodySchema = z.record(
+  nameSchema,
+  z.array(z.object({
+    timestamp: z.number().int().positive(),
+    value: z.number().finite(),
+    metadata: z.record(z.unknown()).optional(),
+  }))
+).refine(
+  metrics => Object.values(metrics).reduce((total, values) => total + values.length, 0) <= MAX_BATCH_SIZE,
+  { message: `At most ${MAX_BATCH_SIZE} metrics per request` }
+);
+
+export interface IngestRequest extends MemberRequest {
+  body?: unknown;
+}
+
+type NextFunction = (error?: unknown) => void;
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
+
+function sendInvalid(res: ServerResponse, error: z.ZodError): void {
+  const issue = error.issues[0];
+  const message = `Invalid analytics batch: ${issue.path.length ? `${issue.path.join('.')}: ` : ''}${issue.message}`;
+  sendJson(res, 400, { success: false, error: { message, status: 400 } });
+}
+
+function sourceOf(auth: MemberAuth): IngestSource {
+  return { organizationId: auth.organization.id, userId: auth.user.id, apiKeyId: auth.apiKeyId };
+}
+
+// POST /api/analytics/events; mount behind requireMember('analytics:write')
+export async function ingestEvents(req: IngestRequest, res: ServerResponse, next: NextFunction) {
+  try {
+    const parsed = eventsBodySchema.safeParse(req.body);
+    if (!parsed.success) {
+      sendInvalid(res, parsed.error);
+      return;
+    }
+
+    const now = Date.now();
+    const events = parsed.data.events.map(event => ({ ...event, timestamp: event.timestamp ?? now }));
+    const result = await analyticsEventService.ingest({ events }, sourceOf(req.memberAuth!), now);
+    sendJson(res, 202, { success: true, ...result });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// POST /api/analytics/metrics; the body is analyticsService's buffer, keyed by metric name
+export async function ingestMetrics(req: IngestRequest, res: ServerResponse, next: NextFunction) {
+  try {
+    const parsed = metricsBodySchema.safeParse(req.body);
+    if (!parsed.success) {
+      sendInvalid(res, parsed.error);
+      return;
+    }
+
+    const result = await analyticsEventService.ingest({ metrics: parsed.data }, sourceOf(req.memberAuth!));
+    sendJson(res, 202, { success: true, ...result });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,81 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { fulfillmentService } from '../../lib/automation/ecommerce/fulfillment';
+
+// How old a signed push may be before it is treated as a replay
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export const trackingEventSchema = z.object({
+  trackingNumber: z.string(),
+  status: z.enum(['label_created', 'in_transit', 'out_for_delivery', 'delivered', 'exception']),
+  timestamp: z.coerce.date(),
+  location: z.string().optional(),
+  description: z.string().optional(),
+});
+
+export interface CarrierRequest extends IncomingMessage {
+  body?: Buffer;
+}
+
+type NextFunction = (error?: unknown) => void;
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
+
+// `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">`, the scheme carriers are given with their secret
+export function signCarrierPayload(body: string, secret: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+function verifySignature(body: Buffer, header: string | undefined, secret: string, now: number): boolean {
+  const parts = new Map((header ?? '').split(',').map(part => part.split('=', 2) as [string, string]));
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !signature) return false;
+  if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = Buffer.from(signCarrierPayload(body.toString('utf8'), secret, timestamp).split('v1=')[1], 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// POST /api/carriers/tracking; mount behind express.raw() because the signature covers the raw body
+export async function ingestCarrierTracking(req: CarrierRequest, res: ServerResponse, next: NextFunction) {
+  try {
+    const secret = process.env.CARRIER_WEBHOOK_SECRET;
+    if (!secret) {
+      sendJson(res, 503, { success: false, error: { message: 'Carrier pushes are not configured', status: 503 } });
+      return;
+    }
+
+    const body = req.body ?? Buffer.alloc(0);
+    const header = req.headers['x-carrier-signature'];
+    if (!verifySignature(body, Array.isArray(header) ? header[0] : header, secret, Date.now())) {
+      sendJson(res, 401, { success: false, error: { message: 'Invalid carrier signature', status: 401 } });
+      return;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body.toString('utf8'));
+    } catch {
+      payload = undefined;
+    }
+    const parsed = trackingEventSchema.safeParse(payload);
+    if (!parsed.success) {
+      sendJson(res, 400, { success: false, error: { message: 'Invalid tracking event', status: 400 } });
+      return;
+    }
+
+    // Unknown tracking numbers are acknowledged so the carrier does not keep retrying them
+    const order = await fulfillmentService.ingestTrackingEvent(parsed.data);
+    sendJson(res, 202, { success: true, matched: order !== null });
+  } catch (error) {
+    next(error);
+  }
+}
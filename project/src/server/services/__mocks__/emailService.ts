@@ -0,0 +1,14 @@
+import { vi } from 'vitest';
+
+// Stands in for the SMTP-backed emailService wherever a test calls vi.mock('../server/services/emailService')
+export const emailService = {
+  sendInvoiceEmail: vi.fn(),
+  sendPaymentReminder: vi.fn(),
+  sendDunningNotice: vi.fn(),
+  sendRefundNotice: vi.fn(),
+  sendInvitationEmail: vi.fn(),
+  sendVerificationEmail: vi.fn(),
+  sendQuotaWarningEmail: vi.fn(),
+  sendAnomalyAlert: vi.fn(),
+  sendTrialEndingEmail: vi.fn(),
+};
@@ -0,0 +1,227 @@
+import { randomUUID } from 'crypto';
+import { createLog, type SegmentedLog } from '../../lib/storage';
+import { schedulerService } from '../../lib/scheduler';
+import { aggregateSeries, assertBucketCount, type SeriesQuery } from '../../lib/timeseries';
+import type { AnalyticsMetric, AnalyticsSink, AnalyticsSource, TrackedEvent } from '../../lib/analytics';
+
+export type AnalyticsRecordType = 'event' | 'metric';
+
+export interface AnalyticsRecord {
+  id: string;
+  type: AnalyticsRecordType;
+  // null for events the platform itself tracks outside any organization
+  organizationId: string | null;
+  name: string;
+  // Events count as 1
+  value: number;
+  timestamp: number;
+  properties: Record<string, unknown>;
+  userId?: string;
+  apiKeyId?: string;
+  receivedAt: number;
+}
+
+export interface IngestSource {
+  organizationId: string | null;
+  userId?: string;
+  apiKeyId?: string;
+}
+
+export interface IngestResult {
+  accepted: number;
+  // Timestamps outside the retention window or too far in the future
+  rejected: number;
+}
+
+export interface AnalyticsQuery {
+  organizationId: string | null;
+  type?: AnalyticsRecordType;
+  names?: string[];
+  from: number;
+  to: number;
+  // Exact matches on properties, e.g. { plan: 'GROWTH' }
+  where?: Record<string, string | number | boolean>;
+  limit?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Clients with a skewed clock may report slightly ahead of us
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+export const DEFAULT_QUERY_LIMIT = 1000;
+export const MAX_QUERY_LIMIT = 10_000;
+
+function segmentOf(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+// Who did it: the event's distinctId (the visitor id trackEvent assigns, or one of the customer's own users), else the signed-in member
+export function actorOf(record: AnalyticsRecord): string | null {
+  const distinctId = record.properties.distinctId;
+  if (typeof distinctId === 'string' && distinctId) return distinctId;
+  return record.userId ?? null;
+}
+
+function matches(record: AnalyticsRecord, filter: Omit<AnalyticsQuery, 'organizationId' | 'limit'>): boolean {
+  if (record.timestamp < filter.from || record.timestamp > filter.to) return false;
+  if (filter.type && record.type !== filter.type) return false;
+  if (filter.names && !filter.names.includes(record.name)) return false;
+  if (filter.where && !Object.entries(filter.where).every(([key, value]) => record.properties[key] === value)) return false;
+  return true;
+}
+
+class AnalyticsEventService {
+  private static instance: AnalyticsEventService;
+  private log: SegmentedLog<AnalyticsRecord>;
+
+  private constructor() {
+    this.log = createLog<AnalyticsRecord>('analytics');
+
+    schedulerService.registerJob({
+      name: 'analytics.retention',
+      schedule: '30 3 * * *',
+      jitterMs: 5 * 60 * 1000,
+      description: 'Drop analytics segments older than the retention window',
+      handler: async () => {
+        await this.enforceRetention();
+      }
+    });
+  }
+
+  public static getInstance(): AnalyticsEventService {
+    if (!AnalyticsEventService.instance) {
+      AnalyticsEventService.instance = new AnalyticsEventService();
+    }
+    return AnalyticsEventService.instance;
+  }
+
+  public useLog(log: SegmentedLog<AnalyticsRecord>): void {
+    this.log = log;
+  }
+
+  public getRetentionDays(): number {
+    return Number(process.env.ANALYTICS_RETENTION_DAYS) || 90;
+  }
+
+  public async ingest(
+    batch: { events?: TrackedEvent[]; metrics?: Record<string, AnalyticsMetric[]> },
+    source: IngestSource,
+    now = Date.now()
+  ): Promise<IngestResult> {
+    const oldest = now - this.getRetentionDays() * DAY_MS;
+    const newest = now + MAX_CLOCK_SKEW_MS;
+    const base = { organizationId: source.organizationId, userId: source.userId, apiKeyId: source.apiKeyId, receivedAt: now };
+
+    const records: AnalyticsRecord[] = [
+      ...(batch.events ?? []).map(event => ({
+        ...base,
+        id: randomUUID(),
+        type: 'event' as const,
+        name: event.event,
+        value: 1,
+        timestamp: event.timestamp,
+        properties: event.properties ?? {}
+      })),
+      ...Object.entries(batch.metrics ?? {}).flatMap(([name, values]) => values.map(metric => ({
+        ...base,
+        id: randomUUID(),
+        type: 'metric' as const,
+        name,
+        value: metric.value,
+        timestamp: metric.timestamp,
+        properties: metric.metadata ?? {}
+      })))
+    ];
+
+    const accepted = records.filter(record => record.timestamp >= oldest && record.timestamp <= newest);
+    const bySegment = new Map<string, AnalyticsRecord[]>();
+    for (const record of accepted) {
+      const segment = segmentOf(record.timestamp);
+      bySegment.set(segment, [...(bySegment.get(segment) ?? []), record]);
+    }
+    for (const [segment, segmentRecords] of bySegment) {
+      await this.log.append(segment, segmentRecords);
+    }
+
+    return { accepted: accepted.length, rejected: records.length - accepted.length };
+  }
+
+  // Oldest first
+  public async query(query: AnalyticsQuery): Promise<AnalyticsRecord[]> {
+    const limit = Math.min(query.limit ?? DEFAULT_QUERY_LIMIT, MAX_QUERY_LIMIT);
+    return (await this.scan(query)).sort((a, b) => a.timestamp - b.timestamp).slice(0, limit);
+  }
+
+  // What an organization has recorded in the range, so dashboards can offer it
+  public async listNames(organizationId: string | null, from: number, to: number): Promise<{ type: AnalyticsRecordType; name: string; count: number }[]> {
+    const counts = new Map<string, { type: AnalyticsRecordType; name: string; count: number }>();
+    for (const record of await this.scan({ organizationId, from, to })) {
+      const key = `${record.type}:${record.name}`;
+      const entry = counts.get(key) ?? { type: record.type, name: record.name, count: 0 };
+      entry.count++;
+      counts.set(key, entry);
+    }
+    return Array.from(counts.values()).sort((a, b) => b.count - a.count);
+  }
+
+  // Every match, unordered; reads only the day segments the range touches
+  public async scan(query: Omit<AnalyticsQuery, 'limit'>): Promise<AnalyticsRecord[]> {
+    const first = segmentOf(query.from);
+    const last = segmentOf(query.to);
+    const segments = (await this.log.segments()).filter(segment => segment >= first && segment <= last);
+
+    const found: AnalyticsRecord[] = [];
+    for (const segment of segments) {
+      for (const record of await this.log.read(segment)) {
+        if (record.organizationId === query.organizationId && matches(record, query)) found.push(record);
+      }
+    }
+    return found;
+  }
+
+  // Several series for one organization from a single pass over the store, in query order
+  public async aggregate(organizationId: string | null, queries: SeriesQuery[]): Promise<AnalyticsMetric[][]> {
+    if (queries.length === 0) return [];
+    queries.forEach(assertBucketCount);
+
+    const records = await this.scan({
+      organizationId,
+      from: Math.min(...queries.map(query => query.from)),
+      to: Math.max(...queries.map(query => query.to)),
+      names: Array.from(new Set(queries.map(query => query.name)))
+    });
+    return queries.map(query => aggregateSeries(
+      records.filter(record => record.name === query.name && matches(record, query)),
+      query
+    ));
+  }
+
+  // Returns the number of day segments dropped
+  public async enforceRetention(now = Date.now()): Promise<number> {
+    const cutoff = segmentOf(now - this.getRetentionDays() * DAY_MS);
+    let dropped = 0;
+    for (const segment of await this.log.segments()) {
+      if (segment < cutoff && await this.log.dropSegment(segment)) dropped++;
+    }
+    return dropped;
+  }
+}
+
+export const analyticsEventService = AnalyticsEventService.getInstance();
+
+// Lets server-side code keep calling analyticsService.trackEvent; there is no organization to attribute it to
+export class LocalAnalyticsSink implements AnalyticsSink {
+  public async sendEvents(events: TrackedEvent[]): Promise<void> {
+    await analyticsEventService.ingest({ events }, { organizationId: null });
+  }
+
+  public async sendMetrics(metrics: Record<string, AnalyticsMetric[]>): Promise<void> {
+    await analyticsEventService.ingest({ metrics }, { organizationId: null });
+  }
+}
+
+// Server-side reads of the platform's own metrics, the counterpart of LocalAnalyticsSink
+export class LocalAnalyticsSource implements AnalyticsSource {
+  public async series(queries: SeriesQuery[]): Promise<AnalyticsMetric[][]> {
+    return analyticsEventService.aggregate(null, queries);
+  }
+}
@@ -1,5 +1,7 @@
 import { format, subDays } from 'date-fns';
-import type { OptimizationSuggestion } from '../../lib/analytics';
+import type { AnalyticsMetric, OptimizationSuggestion } from '../../lib/analytics';
+import { STANDARD_METRICS, bucketFor, combineSeries, ratio, type SeriesQuery } from '../../lib/timeseries';
+import { analyticsEventService } from './analyticsEventService';
 
 interface AutomationRule {
   metricName: string;
@@ -136,24 +138,54 @@ class AnalyticsService {
     return AnalyticsService.instance;
   }
 
+  // The platform's own metrics; rates and margins are percentages
   public async getMetrics(startDate: Date, endDate: Date, metricNames: string[]) {
     try {
-      // Existing implementation...
-      const metrics: any = {
-        requestVolume: this.generateMockTimeSeriesData(startDate, endDate, 100, 1000),
-        apiLatency: this.generateMockTimeSeriesData(startDate, endDate, 100, 500),
-        errorRates: this.generateMockTimeSeriesData(startDate, endDate, 0, 5),
-        revenue: this.generateMockTimeSeriesData(startDate, endDate, 1000, 5000),
-        conversionRates: this.generateMockTimeSeriesData(startDate, endDate, 1, 10),
-        userRetention: this.generateMockTimeSeriesData(startDate, endDate, 60, 90),
-        customerLifetimeValue: this.generateMockTimeSeriesData(startDate, endDate, 500, 2000),
-        profitMargin: this.generateMockTimeSeriesData(startDate, endDate, 15, 35),
-        operationalCosts: this.generateMockTimeSeriesData(startDate, endDate, 500, 2000),
+      const from = startDate.getTime();
+      const to = endDate.getTime();
+      const bucket = bucketFor(from, to);
+      const series: Omit<SeriesQuery, 'from' | 'to' | 'bucket'>[] = [
+        { name: STANDARD_METRICS.apiRequest, type: 'event', aggregation: 'sum' },
+        { name: STANDARD_METRICS.apiError, type: 'event', aggregation: 'sum' },
+        { name: STANDARD_METRICS.apiLatency, type: 'metric', aggregation: 'avg' },
+        { name: STANDARD_METRICS.revenue, type: 'metric', aggregation: 'sum' },
+        { name: STANDARD_METRICS.purchaseCompleted, type: 'event', aggregation: 'sum' },
+        { name: STANDARD_METRICS.sessionStarted, type: 'event', aggregation: 'sum' },
+        { name: STANDARD_METRICS.userRetention, type: 'metric', aggregation: 'avg' },
+        { name: STANDARD_METRICS.customerLifetimeValue, type: 'metric', aggregation: 'avg' },
+        { name: STANDARD_METRICS.costOfGoodsSold, type: 'metric', aggregation: 'sum' },
+        { name: STANDARD_METRICS.operatingExpense, type: 'metric', aggregation: 'sum' },
+      ];
+      const [
+        requestVolume, errors, apiLatency, revenue, purchases, sessions,
+        userRetention, customerLifetimeValue, costOfGoods, operationalCosts
+      ] = await analyticsEventService.aggregate(null, series.map(query => ({ ...query, from, to, bucket })));
+
+      const percentage = (numerator: number, denominator: number) => {
+        const value = ratio(numerator, denominator);
+        return value === null ? null : value * 100;
+      };
+      const netProfit = combineSeries(
+        combineSeries(revenue, costOfGoods, (income, cost) => income - cost),
+        operationalCosts,
+        (profit, expenses) => profit - expenses
+      );
+
+      const metrics: Record<string, AnalyticsMetric[]> = {
+        requestVolume,
+        apiLatency,
+        errorRates: combineSeries(errors, requestVolume, percentage),
+        revenue,
+        conversionRates: combineSeries(purchases, sessions, percentage),
+        userRetention,
+        customerLifetimeValue,
+        profitMargin: combineSeries(netProfit, revenue, percentage),
+        operationalCosts,
       };
 
-      // Check automation rules
+      // Check automation rules; a metric nobody reports cannot trigger one
       for (const [name, rule] of this.automationRules.entries()) {
-        if (metrics[rule.metricName]) {
+        if (metrics[rule.metricName]?.length) {
           try {
             const metricValue = this.calculateAverage(metrics[rule.metricName]);
             const shouldOptimize = this.evaluateRule(rule, metricValue);
@@ -192,10 +224,14 @@ class AnalyticsService {
 
   public async getUserBehaviorMetrics(startDate: Date, endDate: Date) {
     try {
-      return {
-        userRetention: this.generateMockTimeSeriesData(startDate, endDate, 60, 90),
-        sessionDuration: this.generateMockTimeSeriesData(startDate, endDate, 120, 300)
-      };
+      const from = startDate.getTime();
+      const to = endDate.getTime();
+      const bucket = bucketFor(from, to);
+      const [userRetention, sessionDuration] = await analyticsEventService.aggregate(null, [
+        { name: STANDARD_METRICS.userRetention, type: 'metric', aggregation: 'avg', from, to, bucket },
+        { name: STANDARD_METRICS.sessionDuration, type: 'metric', aggregation: 'avg', from, to, bucket }
+      ]);
+      return { userRetention, sessionDuration };
     } catch (error) {
       console.error('Error getting user behavior metrics:', error instanceof Error ? error.message : 'Unknown error');
       return {
@@ -231,7 +267,7 @@ class AnalyticsService {
 
       // Analyze conversion rates
       const avgConversion = this.calculateAverage(metrics.conversionRates);
-      if (avgConversion < 5) {
+      if (metrics.conversionRates.length > 0 && avgConversion < 5) {
         suggestions.push({
           type: 'sales',
           priority: 'high',
@@ -245,7 +281,7 @@ class AnalyticsService {
 
       // Analyze user retention
       const retentionRate = this.calculateAverage(metrics.userRetention);
-      if (retentionRate < 70) {
+      if (metrics.userRetention.length > 0 && retentionRate < 70) {
         suggestions.push({
           type: 'user_experience',
           priority: 'medium',
@@ -259,7 +295,7 @@ class AnalyticsService {
 
       // Analyze profit margins
       const profitMargin = this.calculateAverage(metrics.profitMargin);
-      if (profitMargin < 20) {
+      if (metrics.profitMargin.length > 0 && profitMargin < 20) {
         suggestions.push({
           type: 'profitability',
           priority: 'high',
@@ -329,23 +365,13 @@ class AnalyticsService {
     }
   }
 
-  private generateMockTimeSeriesData(startDate: Date, endDate: Date, min: number, max: number) {
+  // Platform events, such as visitors moving through onboarding; they belong to no organization
+  public async trackEvent(eventName: string, properties?: Record<string, any>, userId?: string) {
     try {
-      const days = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-      return Array.from({ length: Math.max(1, days) }, (_, i) => ({
-        timestamp: subDays(endDate, Math.min(days - i - 1, days - 1)).getTime(),
-        value: Math.floor(Math.random() * (max - min + 1)) + min
-      }));
-    } catch (error) {
-      console.error('Error generating mock data:', error instanceof Error ? error.message : 'Unknown error');
-      return [{ timestamp: Date.now(), value: 0 }];
-    }
-  }
-
-  public async trackEvent(eventName: string, properties?: Record<string, any>) {
-    try {
-      // In a real implementation, this would send to an analytics service
-      console.log('Tracking event:', eventName, properties);
+      await analyticsEventService.ingest(
+        { events: [{ event: eventName, properties, timestamp: Date.now() }] },
+        { organizationId: null, userId }
+      );
     } catch (error) {
       console.error('Error tracking event:', error instanceof Error ? error.message : 'Unknown error');
     }
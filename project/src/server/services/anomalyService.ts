@@ -0,0 +1,404 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { lookup } from 'dns/promises';
+import { request as httpsRequest } from 'https';
+import { isIP, type LookupFunction } from 'net';
+import { createStore, type CollectionStore } from '../../lib/storage';
+import { omit } from '../../lib/objects';
+import { hostOf, isPrivateAddress, isPrivateHost } from '../../lib/network';
+import { schedulerService } from '../../lib/scheduler';
+import { BUCKET_MS, bucketStart, type Aggregation } from '../../lib/timeseries';
+import {
+  ANOMALY_SEVERITIES,
+  createDetectorState,
+  explain,
+  observe,
+  type AnomalySeverity,
+  type DetectorBucket,
+  type DetectorState
+} from '../../lib/anomaly';
+import { analyticsEventService } from './analyticsEventService';
+import { emailService } from './emailService';
+import { organizationService } from './organizationService';
+
+export interface AnomalyMonitor {
+  id: string;
+  organizationId: string;
+  metric: string;
+  type?: 'event' | 'metric';
+  aggregation: Aggregation;
+  bucket: DetectorBucket;
+  where?: Record<string, string | number | boolean>;
+  state: DetectorState;
+  // End of the last complete bucket fed to the detector
+  evaluatedUntil: number;
+  createdBy: string;
+  createdAt: Date;
+}
+
+export type PublicAnomalyMonitor = Omit<AnomalyMonitor, 'state'>;
+
+export type AnomalyMonitorInput = Pick<AnomalyMonitor, 'metric' | 'type' | 'aggregation' | 'bucket' | 'where'>;
+
+export interface Anomaly {
+  // One per monitor and bucket, so re-running detection can't raise it twice
+  id: string;
+  organizationId: string;
+  monitorId: string;
+  metric: string;
+  severity: AnomalySeverity;
+  direction: 'spike' | 'drop';
+  // Start of the bucket that was unusual
+  timestamp: number;
+  value: number;
+  expected: number;
+  zScore: number;
+  explanation: string;
+  detectedAt: Date;
+  // Channels that delivered the alert; empty when it was below the organization's alert severity
+  notified: string[];
+}
+
+export interface AlertSettings {
+  organizationId: string;
+  // Alerts below this severity are recorded but not sent
+  minSeverity: AnomalySeverity;
+  // Members with billing access are emailed when empty
+  emails: string[];
+  webhookUrl: string | null;
+  // Signs webhook bodies; sent as X-Anomaly-Signature
+  webhookSecret: string | null;
+}
+
+export type AlertSettingsInput = Pick<AlertSettings, 'minSeverity' | 'emails' | 'webhookUrl'>;
+
+export interface AnomalyChannel {
+  name: string;
+  // Resolves to false without sending when the channel isn't set up for the organization
+  send(anomaly: Anomaly, settings: AlertSettings): Promise<boolean>;
+}
+
+// Resolves a hostname to the addresses a request to it could reach
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+export interface WebhookRequest {
+  headers: Record<string, string>;
+  body: string;
+  // Resolves the host for the connection itself
+  lookup: LookupFunction;
+  timeoutMs: number;
+}
+
+// Sends the POST and returns the response status
+export type WebhookTransport = (url: string, request: WebhookRequest) => Promise<number>;
+
+export class AnomalyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnomalyError';
+  }
+}
+
+export const MAX_MONITORS = 20;
+
+// How much history a new monitor learns from before it starts alerting
+const TRAINING_MS: Record<DetectorBucket, number> = {
+  hour: 28 * BUCKET_MS.day,
+  day: 90 * BUCKET_MS.day,
+};
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+export function signPayload(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+async function resolveHost(hostname: string): Promise<string[]> {
+  return (await lookup(hostname, { all: true })).map(entry => entry.address);
+}
+
+// Checked when the socket connects, so a name cannot resolve to a public address for a check and a private one for the request
+export function publicOnlyLookup(resolve: HostResolver): LookupFunction {
+  return (hostname, options, callback) => {
+    resolve(hostname).then(addresses => {
+      if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+        callback(new AnomalyError(`Webhook host ${hostname} is not publicly reachable`), '');
+      } else if (options.all) {
+        callback(null, addresses.map(address => ({ address, family: isIP(address) })));
+      } else {
+        callback(null, addresses[0], isIP(addresses[0]));
+      }
+    }, error => callback(error, ''));
+  };
+}
+
+// Node's own https rather than fetch, which cannot be given a lookup; redirects are not followed
+function postWebhook(url: string, request: WebhookRequest): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const outgoing = httpsRequest(url, {
+      method: 'POST',
+      headers: { ...request.headers, 'Content-Length': Buffer.byteLength(request.body) },
+      lookup: request.lookup,
+      signal: AbortSignal.timeout(request.timeoutMs)
+    }, response => {
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+    outgoing.on('error', reject);
+    outgoing.end(request.body);
+  });
+}
+
+export class EmailAnomalyChannel implements AnomalyChannel {
+  public readonly name = 'email';
+
+  public async send(anomaly: Anomaly, settings: AlertSettings): Promise<boolean> {
+    const organization = await organizationService.getOrganization(anomaly.organizationId);
+    const recipients = settings.emails.length > 0
+      ? settings.emails
+      : await organizationService.getBillingContacts(anomaly.organizationId);
+    await Promise.all(recipients.map(to => emailService.sendAnomalyAlert(to, {
+      organizationName: organization?.name ?? 'Your organization',
+      metric: anomaly.metric,
+      severity: anomaly.severity,
+      explanation: anomaly.explanation,
+      timestamp: anomaly.timestamp
+    })));
+    return recipients.length > 0;
+  }
+}
+
+export class WebhookAnomalyChannel implements AnomalyChannel {
+  public readonly name = 'webhook';
+
+  constructor(
+    private readonly resolve: HostResolver = resolveHost,
+    private readonly transport: WebhookTransport = postWebhook
+  ) {}
+
+  public async send(anomaly: Anomaly, settings: AlertSettings): Promise<boolean> {
+    if (!settings.webhookUrl) return false;
+
+    // The URL is the customer's, so it must not lead into our own network, directly, through DNS or by redirect
+    const hostname = hostOf(settings.webhookUrl);
+    if (isPrivateHost(hostname)) {
+      throw new AnomalyError(`Webhook host ${hostname} is not publicly reachable`);
+    }
+
+    const body = JSON.stringify({ type: 'anomaly.detected', anomaly });
+    const status = await this.transport(settings.webhookUrl, {
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.webhookSecret ? { 'X-Anomaly-Signature': signPayload(body, settings.webhookSecret) } : {})
+      },
+      body,
+      lookup: publicOnlyLookup(this.resolve),
+      timeoutMs: WEBHOOK_TIMEOUT_MS
+    });
+    if (status < 200 || status >= 300) throw new Error(`Webhook responded with ${status}`);
+    return true;
+  }
+}
+
+function toPublicMonitor(monitor: AnomalyMonitor): PublicAnomalyMonitor {
+  return omit(monitor, 'state');
+}
+
+class AnomalyService {
+  private static instance: AnomalyService;
+  private monitors: CollectionStore<AnomalyMonitor>;
+  private anomalies: CollectionStore<Anomaly>;
+  private settings: CollectionStore<AlertSettings>;
+  private channels: AnomalyChannel[] = [new EmailAnomalyChannel(), new WebhookAnomalyChannel()];
+
+  private constructor() {
+    this.monitors = createStore<AnomalyMonitor>('anomaly_monitors');
+    this.anomalies = createStore<Anomaly>('anomalies');
+    this.settings = createStore<AlertSettings>('anomaly_alert_settings');
+
+    // A few minutes past the hour, so late reports for the hour that just ended are in
+    schedulerService.registerJob({
+      name: 'analytics.anomaly-detection',
+      schedule: '5 * * * *',
+      jitterMs: 60 * 1000,
+      description: 'Check monitored metrics for anomalies and send alerts',
+      handler: async () => {
+        await this.detect();
+      }
+    });
+  }
+
+  public static getInstance(): AnomalyService {
+    if (!AnomalyService.instance) {
+      AnomalyService.instance = new AnomalyService();
+    }
+    return AnomalyService.instance;
+  }
+
+  public useStores(
+    monitors: CollectionStore<AnomalyMonitor>,
+    anomalies: CollectionStore<Anomaly>,
+    settings: CollectionStore<AlertSettings>
+  ): void {
+    this.monitors = monitors;
+    this.anomalies = anomalies;
+    this.settings = settings;
+  }
+
+  public useChannels(channels: AnomalyChannel[]): void {
+    this.channels = channels;
+  }
+
+  public async listMonitors(organizationId: string): Promise<PublicAnomalyMonitor[]> {
+    return (await this.monitors.list())
+      .filter(monitor => monitor.organizationId === organizationId)
+      .sort((a, b) => a.metric.localeCompare(b.metric))
+      .map(toPublicMonitor);
+  }
+
+  // Learns the series' usual pattern from recent history, so alerts can start with the next bucket
+  public async createMonitor(
+    organizationId: string,
+    input: AnomalyMonitorInput,
+    createdBy: string,
+    now = Date.now()
+  ): Promise<PublicAnomalyMonitor> {
+    const existing = await this.listMonitors(organizationId);
+    if (existing.length >= MAX_MONITORS) throw new AnomalyError(`An organization can have at most ${MAX_MONITORS} monitors`);
+    if (existing.some(monitor => monitor.metric === input.metric && monitor.aggregation === input.aggregation && monitor.bucket === input.bucket)) {
+      throw new AnomalyError(`${input.metric} is already monitored this way`);
+    }
+
+    const monitor: AnomalyMonitor = {
+      id: randomUUID(),
+      organizationId,
+      ...input,
+      state: createDetectorState(),
+      evaluatedUntil: bucketStart(now - TRAINING_MS[input.bucket], input.bucket),
+      createdBy,
+      createdAt: new Date(now)
+    };
+    await this.advance(monitor, now, false);
+    await this.monitors.put(monitor.id, monitor);
+    return toPublicMonitor(monitor);
+  }
+
+  public async deleteMonitor(organizationId: string, id: string): Promise<void> {
+    const monitor = await this.monitors.get(id);
+    if (!monitor || monitor.organizationId !== organizationId) throw new AnomalyError('Monitor not found');
+    await this.monitors.delete(id);
+  }
+
+  // Newest first
+  public async listAnomalies(organizationId: string, filter: { severity?: AnomalySeverity; limit?: number } = {}): Promise<Anomaly[]> {
+    const minimum = filter.severity ? ANOMALY_SEVERITIES.indexOf(filter.severity) : 0;
+    return (await this.anomalies.list())
+      .filter(anomaly => anomaly.organizationId === organizationId && ANOMALY_SEVERITIES.indexOf(anomaly.severity) >= minimum)
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, filter.limit ?? 50);
+  }
+
+  public async getAlertSettings(organizationId: string): Promise<AlertSettings> {
+    return await this.settings.get(organizationId)
+      ?? { organizationId, minSeverity: 'medium', emails: [], webhookUrl: null, webhookSecret: null };
+  }
+
+  // The signing secret is created with the first webhook URL and kept while one is set
+  public async updateAlertSettings(organizationId: string, input: AlertSettingsInput): Promise<AlertSettings> {
+    // Names are only resolved when sending, as their addresses can change
+    if (input.webhookUrl && isPrivateHost(hostOf(input.webhookUrl))) {
+      throw new AnomalyError('Webhook URL must point to a public host');
+    }
+    const current = await this.getAlertSettings(organizationId);
+    const settings: AlertSettings = {
+      organizationId,
+      minSeverity: input.minSeverity,
+      emails: Array.from(new Set(input.emails.map(email => email.trim().toLowerCase()).filter(Boolean))),
+      webhookUrl: input.webhookUrl,
+      webhookSecret: input.webhookUrl ? current.webhookSecret ?? randomBytes(24).toString('base64url') : null
+    };
+    await this.settings.put(organizationId, settings);
+    return settings;
+  }
+
+  // Feeds every monitor the buckets completed since its last run and alerts on what stands out
+  public async detect(now = Date.now()): Promise<Anomaly[]> {
+    const found: Anomaly[] = [];
+    for (const monitor of await this.monitors.list()) {
+      try {
+        const anomalies = await this.advance(monitor, now, true);
+        // Stored before the monitor moves past them, so a run that fails in between is repeated rather than losing them
+        const fresh: Anomaly[] = [];
+        for (const anomaly of anomalies) {
+          // A repeated run already stored and alerted on it
+          if (await this.anomalies.get(anomaly.id)) continue;
+          await this.anomalies.put(anomaly.id, anomaly);
+          await this.notify(anomaly);
+          await this.anomalies.put(anomaly.id, anomaly);
+          fresh.push(anomaly);
+        }
+        await this.monitors.put(monitor.id, monitor);
+        found.push(...fresh);
+      } catch (error) {
+        console.error(`Anomaly detection failed for monitor ${monitor.id}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    return found;
+  }
+
+  // Without alerting, the buckets only train the detector
+  private async advance(monitor: AnomalyMonitor, now: number, alerting: boolean): Promise<Anomaly[]> {
+    const until = bucketStart(now, monitor.bucket);
+    // A monitor that missed runs picks up where it left off, but no further back than its training window
+    const from = Math.max(monitor.evaluatedUntil, bucketStart(now - TRAINING_MS[monitor.bucket], monitor.bucket));
+    if (from >= until) return [];
+
+    const [series] = await analyticsEventService.aggregate(monitor.organizationId, [{
+      name: monitor.metric,
+      type: monitor.type,
+      aggregation: monitor.aggregation,
+      bucket: monitor.bucket,
+      where: monitor.where,
+      from,
+      to: until - 1
+    }]);
+
+    const anomalies: Anomaly[] = [];
+    for (const point of series) {
+      const score = observe(monitor.state, point.timestamp, point.value, monitor.bucket);
+      if (!score || !alerting) continue;
+      anomalies.push({
+        id: `${monitor.id}:${point.timestamp}`,
+        organizationId: monitor.organizationId,
+        monitorId: monitor.id,
+        metric: monitor.metric,
+        severity: score.severity,
+        direction: score.direction,
+        timestamp: point.timestamp,
+        value: score.value,
+        expected: score.expected,
+        zScore: score.zScore,
+        explanation: explain(monitor.metric, monitor.aggregation, monitor.bucket, score),
+        detectedAt: new Date(now),
+        notified: []
+      });
+    }
+    monitor.evaluatedUntil = until;
+    return anomalies;
+  }
+
+  private async notify(anomaly: Anomaly): Promise<void> {
+    const settings = await this.getAlertSettings(anomaly.organizationId);
+    if (ANOMALY_SEVERITIES.indexOf(anomaly.severity) < ANOMALY_SEVERITIES.indexOf(settings.minSeverity)) return;
+
+    // One failing channel must not keep the alert from the others
+    for (const channel of this.channels) {
+      try {
+        if (await channel.send(anomaly, settings)) anomaly.notified.push(channel.name);
+      } catch (error) {
+        console.error(`Failed to send anomaly alert via ${channel.name}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+}
+
+export const anomalyService = AnomalyService.getInstance();
@@ -0,0 +1,202 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { createStore, type CollectionStore } from '../../lib/storage';
+import { omit } from '../../lib/objects';
+import { type Permission } from './organizationService';
+
+export const API_KEY_PREFIX = 'tcai_';
+
+const DEFAULT_ROTATION_OVERLAP_MS = 24 * 60 * 60 * 1000; // 1 day
+const LAST_USED_RESOLUTION_MS = 60 * 1000; // 1 minute
+
+// Keys never get to manage people, billing or other keys; those stay behind a signed-in session
+export const API_KEY_SCOPES = [
+  'analytics:read',
+  'analytics:write',
+  'automation:read',
+  'automation:manage',
+  'billing:read'
+] as const satisfies readonly Permission[];
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export interface ApiKey {
+  id: string;
+  organizationId: string;
+  name: string;
+  lookupId: string; // public part of the key, used to find the record without scanning hashes
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  createdBy: string;
+  createdAt: Date;
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  replacedBy?: string;
+}
+
+export type PublicApiKey = Omit<ApiKey, 'keyHash'> & { prefix: string };
+
+export interface ApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: Date;
+}
+
+// Failures the caller may show to the user as-is
+export class ApiKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiKeyError';
+  }
+}
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function toPublicApiKey(apiKey: ApiKey): PublicApiKey {
+  return { ...omit(apiKey, 'keyHash'), prefix: `${API_KEY_PREFIX}${apiKey.lookupId}` };
+}
+
+// tcai_<lookupId>_<secret>
+function parseKey(key: string): { lookupId: string; secret: string } | null {
+  if (!key.startsWith(API_KEY_PREFIX)) return null;
+  const [lookupId, secret] = key.slice(API_KEY_PREFIX.length).split('_');
+  return lookupId && secret ? { lookupId, secret } : null;
+}
+
+class ApiKeyService {
+  private static instance: ApiKeyService;
+  private keys: CollectionStore<ApiKey>;
+
+  private constructor() {
+    this.keys = createStore<ApiKey>('api_keys');
+  }
+
+  public static getInstance(): ApiKeyService {
+    if (!ApiKeyService.instance) {
+      ApiKeyService.instance = new ApiKeyService();
+    }
+    return ApiKeyService.instance;
+  }
+
+  public useStore(store: CollectionStore<ApiKey>): void {
+    this.keys = store;
+  }
+
+  // The full key is only ever returned here and from rotateKey; only its hash is stored
+  public async createKey(organizationId: string, input: ApiKeyInput, createdBy: string): Promise<{ apiKey: PublicApiKey; key: string }> {
+    if (!input.name.trim()) throw new ApiKeyError('API key name is required');
+    if (input.scopes.length === 0) throw new ApiKeyError('API key needs at least one scope');
+    const invalid = input.scopes.find(scope => !(API_KEY_SCOPES as readonly string[]).includes(scope));
+    if (invalid) throw new ApiKeyError(`Scope ${invalid} cannot be granted to an API key`);
+    if (input.expiresAt && new Date(input.expiresAt) <= new Date()) {
+      throw new ApiKeyError('Expiry must be in the future');
+    }
+
+    const lookupId = randomBytes(6).toString('hex');
+    const secret = randomBytes(24).toString('base64url').replace(/_/g, '-');
+    const apiKey: ApiKey = {
+      id: randomUUID(),
+      organizationId,
+      name: input.name.trim(),
+      lookupId,
+      keyHash: hashSecret(secret),
+      scopes: [...new Set(input.scopes)],
+      createdBy,
+      createdAt: new Date(),
+      expiresAt: input.expiresAt
+    };
+    await this.keys.put(apiKey.id, apiKey);
+
+    return { apiKey: toPublicApiKey(apiKey), key: `${API_KEY_PREFIX}${lookupId}_${secret}` };
+  }
+
+  public async listKeys(organizationId: string): Promise<PublicApiKey[]> {
+    return (await this.keys.list())
+      .filter(apiKey => apiKey.organizationId === organizationId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .map(toPublicApiKey);
+  }
+
+  public async getKey(organizationId: string, keyId: string): Promise<PublicApiKey> {
+    return toPublicApiKey(await this.requireKey(organizationId, keyId));
+  }
+
+  public async revokeKey(organizationId: string, keyId: string): Promise<PublicApiKey> {
+    const apiKey = await this.requireKey(organizationId, keyId);
+    if (!apiKey.revokedAt) {
+      apiKey.revokedAt = new Date();
+      await this.keys.put(apiKey.id, apiKey);
+    }
+    return toPublicApiKey(apiKey);
+  }
+
+  // Issue a replacement with the same scopes and creator, so it acts with the same role; the old key keeps
+  // working for `overlapMs` so deployments can switch over
+  public async rotateKey(
+    organizationId: string,
+    keyId: string,
+    overlapMs = DEFAULT_ROTATION_OVERLAP_MS
+  ): Promise<{ apiKey: PublicApiKey; key: string }> {
+    const previous = await this.requireKey(organizationId, keyId);
+    if (!this.isUsable(previous, new Date())) throw new ApiKeyError('Only active keys can be rotated');
+
+    const lifetime = previous.expiresAt
+      ? new Date(previous.expiresAt).getTime() - new Date(previous.createdAt).getTime()
+      : null;
+    const replacement = await this.createKey(organizationId, {
+      name: previous.name,
+      scopes: previous.scopes,
+      expiresAt: lifetime ? new Date(Date.now() + lifetime) : undefined
+    }, previous.createdBy);
+
+    const cutoff = new Date(Date.now() + overlapMs);
+    previous.expiresAt = previous.expiresAt && new Date(previous.expiresAt) < cutoff ? previous.expiresAt : cutoff;
+    previous.replacedBy = replacement.apiKey.id;
+    await this.keys.put(previous.id, previous);
+
+    return replacement;
+  }
+
+  // The key record for a presented key, or null if it is unknown, revoked or expired
+  public async authenticate(key: string): Promise<PublicApiKey | null> {
+    const parsed = parseKey(key);
+    if (!parsed) return null;
+
+    const apiKey = (await this.keys.list()).find(candidate => candidate.lookupId === parsed.lookupId);
+    if (!apiKey) return null;
+
+    const expected = Buffer.from(apiKey.keyHash, 'hex');
+    const actual = Buffer.from(hashSecret(parsed.secret), 'hex');
+    if (!timingSafeEqual(actual, expected)) return null;
+
+    const now = new Date();
+    if (!this.isUsable(apiKey, now)) return null;
+
+    // Busy integrations would otherwise write on every request
+    if (!apiKey.lastUsedAt || now.getTime() - new Date(apiKey.lastUsedAt).getTime() >= LAST_USED_RESOLUTION_MS) {
+      apiKey.lastUsedAt = now;
+      await this.keys.put(apiKey.id, apiKey);
+    }
+
+    return toPublicApiKey(apiKey);
+  }
+
+  public isApiKey(credential: string): boolean {
+    return credential.startsWith(API_KEY_PREFIX);
+  }
+
+  private isUsable(apiKey: ApiKey, at: Date): boolean {
+    if (apiKey.revokedAt) return false;
+    return !apiKey.expiresAt || new Date(apiKey.expiresAt) > at;
+  }
+
+  private async requireKey(organizationId: string, keyId: string): Promise<ApiKey> {
+    const apiKey = await this.keys.get(keyId);
+    if (!apiKey || apiKey.organizationId !== organizationId) throw new ApiKeyError('API key not found');
+    return apiKey;
+  }
+}
+
+export const apiKeyService = ApiKeyService.getInstance();
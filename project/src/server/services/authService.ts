@@ -0,0 +1,243 @@
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { createStore, type CollectionStore } from '../../lib/storage';
+import { omit } from '../../lib/objects';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const MIN_PASSWORD_LENGTH = 8;
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+export interface User {
+  id: string;
+  email: string;
+  name?: string;
+  passwordHash: string;
+  createdAt: Date;
+  emailVerifiedAt?: Date;
+  // Only the hash of the emailed token is kept, like session tokens
+  emailVerification?: { tokenHash: string; expiresAt: Date };
+}
+
+export type PublicUser = Omit<User, 'passwordHash' | 'emailVerification'>;
+
+// Keyed by a hash of the token, so the store alone is not enough to hijack a session
+export interface Session {
+  id: string;
+  userId: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface AuthResult {
+  user: PublicUser;
+  token: string;
+  expiresAt: Date;
+}
+
+// Failures the caller may show to the user as-is
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function toPublicUser(user: User): PublicUser {
+  return omit(user, 'passwordHash', 'emailVerification');
+}
+
+class AuthService {
+  private static instance: AuthService;
+  private users: CollectionStore<User>;
+  private sessions: CollectionStore<Session>;
+  private signupLock: Promise<unknown> = Promise.resolve();
+  private userLock: Promise<unknown> = Promise.resolve();
+  private dummyHash?: Promise<string>;
+
+  private constructor() {
+    this.users = createStore<User>('users');
+    this.sessions = createStore<Session>('sessions');
+  }
+
+  public static getInstance(): AuthService {
+    if (!AuthService.instance) {
+      AuthService.instance = new AuthService();
+    }
+    return AuthService.instance;
+  }
+
+  public useStores(users: CollectionStore<User>, sessions: CollectionStore<Session>): void {
+    this.users = users;
+    this.sessions = sessions;
+  }
+
+  public async signup(email: string, password: string, name?: string): Promise<AuthResult> {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      throw new AuthError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+
+    const user = await this.withSignupLock(async () => {
+      const normalized = normalizeEmail(email);
+      if (await this.findByEmail(normalized)) {
+        throw new AuthError('An account with this email already exists');
+      }
+
+      const created: User = {
+        id: randomUUID(),
+        email: normalized,
+        name,
+        passwordHash: await this.hashPassword(password),
+        createdAt: new Date()
+      };
+      await this.users.put(created.id, created);
+      return created;
+    });
+
+    return await this.startSession(user);
+  }
+
+  public async login(email: string, password: string): Promise<AuthResult> {
+    const user = await this.findByEmail(normalizeEmail(email));
+    // Same message and the same scrypt work either way, so neither the answer nor its timing reveals which emails have accounts
+    this.dummyHash ??= this.hashPassword(randomBytes(16).toString('hex'));
+    const valid = await this.verifyPassword(password, user?.passwordHash ?? await this.dummyHash);
+    if (!user || !valid) {
+      throw new AuthError('Invalid email or password');
+    }
+    return await this.startSession(user);
+  }
+
+  public async logout(token: string): Promise<void> {
+    await this.sessions.delete(hashToken(token));
+  }
+
+  // The user behind a session token, or null if the token is unknown or expired
+  public async authenticate(token: string): Promise<{ user: PublicUser; session: Session } | null> {
+    const session = await this.sessions.get(hashToken(token));
+    if (!session) return null;
+
+    if (new Date(session.expiresAt) <= new Date()) {
+      await this.sessions.delete(session.id);
+      return null;
+    }
+
+    const user = await this.users.get(session.userId);
+    if (!user) {
+      await this.sessions.delete(session.id);
+      return null;
+    }
+
+    return { user: toPublicUser(user), session };
+  }
+
+  public async getUser(userId: string): Promise<PublicUser | null> {
+    const user = await this.users.get(userId);
+    return user ? toPublicUser(user) : null;
+  }
+
+  public async getUserByEmail(email: string): Promise<PublicUser | null> {
+    const user = await this.findByEmail(normalizeEmail(email));
+    return user ? toPublicUser(user) : null;
+  }
+
+  // The raw token only leaves here once, to be put in the verification email; a new one replaces any pending
+  public async createEmailVerification(userId: string): Promise<{ user: PublicUser; token: string }> {
+    const token = randomBytes(32).toString('base64url');
+    const user = await this.withUserLock(async () => {
+      const existing = await this.users.get(userId);
+      if (!existing) throw new AuthError('User not found');
+      if (existing.emailVerifiedAt) throw new AuthError('This email address is already verified');
+
+      const updated: User = {
+        ...existing,
+        emailVerification: { tokenHash: hashToken(token), expiresAt: new Date(Date.now() + EMAIL_VERIFICATION_TTL_MS) }
+      };
+      await this.users.put(updated.id, updated);
+      return updated;
+    });
+    return { user: toPublicUser(user), token };
+  }
+
+  public async verifyEmail(token: string): Promise<PublicUser> {
+    const tokenHash = hashToken(token);
+    const user = await this.withUserLock(async () => {
+      const pending = (await this.users.list()).find(candidate => candidate.emailVerification?.tokenHash === tokenHash);
+      if (!pending?.emailVerification || new Date(pending.emailVerification.expiresAt) <= new Date()) {
+        throw new AuthError('This verification link is invalid or has expired');
+      }
+
+      const verified: User = { ...omit(pending, 'emailVerification'), emailVerifiedAt: new Date() };
+      await this.users.put(verified.id, verified);
+      return verified;
+    });
+    return toPublicUser(user);
+  }
+
+  // Platform operators, as opposed to organization owners; configured by email, and only once the user has proven they own it
+  public isPlatformAdmin(user: PublicUser): boolean {
+    if (!user.emailVerifiedAt) return false;
+    const admins = (process.env.PLATFORM_ADMIN_EMAILS || '').split(',').map(normalizeEmail).filter(Boolean);
+    return admins.includes(user.email);
+  }
+
+  private async startSession(user: User): Promise<AuthResult> {
+    const token = randomBytes(32).toString('base64url');
+    const now = new Date();
+    const session: Session = {
+      id: hashToken(token),
+      userId: user.id,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + SESSION_TTL_MS)
+    };
+    await this.sessions.put(session.id, session);
+
+    return { user: toPublicUser(user), token, expiresAt: session.expiresAt };
+  }
+
+  private async findByEmail(email: string): Promise<User | undefined> {
+    return (await this.users.list()).find(user => user.email === email);
+  }
+
+  // Stored as scrypt$<salt>$<key>, both hex
+  private async hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16);
+    const key = await scryptAsync(password, salt, KEY_LENGTH);
+    return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+  }
+
+  private async verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [scheme, salt, key] = stored.split('$');
+    if (scheme !== 'scrypt' || !salt || !key) return false;
+
+    const expected = Buffer.from(key, 'hex');
+    const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+    return timingSafeEqual(actual, expected);
+  }
+
+  // Checking for an existing email and creating the account must not interleave
+  private withSignupLock<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.signupLock.then(task, task);
+    this.signupLock = run.catch(() => undefined);
+    return run;
+  }
+
+  // Updates read and save the whole user, so they must not interleave
+  private withUserLock<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.userLock.then(task, task);
+    this.userLock = run.catch(() => undefined);
+    return run;
+  }
+}
+
+export const authService = AuthService.getInstance();
@@ -0,0 +1,93 @@
+import { actorOf, analyticsEventService } from './analyticsEventService';
+
+export interface RetentionQuery {
+  // The event that places an actor in the cohort for its week, e.g. signup_completed
+  signupEvent: string;
+  // What counts as being active; any event when omitted
+  activityEvents?: string[];
+  // How many signup weeks to show, ending with the current one
+  weeks: number;
+}
+
+export interface RetentionCohort {
+  // Monday of the signup week, as YYYY-MM-DD (UTC)
+  week: string;
+  size: number;
+  // retained[n] actors were active n weeks after signing up; index 0 is the signup week itself
+  retained: number[];
+}
+
+export interface RetentionTable {
+  signupEvent: string;
+  cohorts: RetentionCohort[];
+}
+
+export const MAX_RETENTION_WEEKS = 12;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+// Weeks start on Monday, UTC
+function weekStart(timestamp: number): number {
+  const day = Math.floor(timestamp / DAY_MS) * DAY_MS;
+  return day - ((new Date(day).getUTCDay() + 6) % 7) * DAY_MS;
+}
+
+class CohortService {
+  private static instance: CohortService;
+
+  private constructor() {}
+
+  public static getInstance(): CohortService {
+    if (!CohortService.instance) {
+      CohortService.instance = new CohortService();
+    }
+    return CohortService.instance;
+  }
+
+  // Signup week × active week, for actors whose first signup event falls in the table's range
+  public async computeRetention(organizationId: string | null, query: RetentionQuery, now = Date.now()): Promise<RetentionTable> {
+    const weeks = Math.min(Math.max(1, query.weeks), MAX_RETENTION_WEEKS);
+    const lastWeek = weekStart(now);
+    const firstWeek = lastWeek - (weeks - 1) * WEEK_MS;
+
+    const records = await analyticsEventService.scan({
+      organizationId,
+      type: 'event',
+      names: query.activityEvents ? [query.signupEvent, ...query.activityEvents] : undefined,
+      from: firstWeek,
+      to: now
+    });
+    records.sort((a, b) => a.timestamp - b.timestamp);
+
+    const signedUp = new Map<string, number>();
+    const activeWeeks = new Map<string, Set<number>>();
+    for (const record of records) {
+      const actor = actorOf(record);
+      if (!actor) continue;
+      if (record.name === query.signupEvent && !signedUp.has(actor)) {
+        signedUp.set(actor, weekStart(record.timestamp));
+      }
+      if (!query.activityEvents || query.activityEvents.includes(record.name)) {
+        activeWeeks.set(actor, (activeWeeks.get(actor) ?? new Set()).add(weekStart(record.timestamp)));
+      }
+    }
+
+    const cohorts: RetentionCohort[] = [];
+    for (let week = firstWeek; week <= lastWeek; week += WEEK_MS) {
+      const members = Array.from(signedUp).filter(([, signupWeek]) => signupWeek === week).map(([actor]) => actor);
+      const elapsed = Math.round((lastWeek - week) / WEEK_MS);
+      cohorts.push({
+        week: new Date(week).toISOString().slice(0, 10),
+        size: members.length,
+        retained: Array.from({ length: elapsed + 1 }, (_, offset) => offset === 0
+          ? members.length
+          : members.filter(actor => activeWeeks.get(actor)?.has(week + offset * WEEK_MS)).length
+        )
+      });
+    }
+
+    return { signupEvent: query.signupEvent, cohorts };
+  }
+}
+
+export const cohortService = CohortService.getInstance();
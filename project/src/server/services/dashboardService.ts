@@ -0,0 +1,161 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { createStore, type CollectionStore } from '../../lib/storage';
+import { omit } from '../../lib/objects';
+import { bucketFor } from '../../lib/timeseries';
+import type { AnalyticsMetric } from '../../lib/analytics';
+import {
+  DASHBOARD_RANGE_MS,
+  GRID_COLUMNS,
+  MAX_WIDGETS,
+  MAX_WIDGET_HEIGHT,
+  type DashboardWidget
+} from '../../lib/dashboards';
+import { analyticsEventService } from './analyticsEventService';
+
+export interface Dashboard {
+  id: string;
+  organizationId: string;
+  name: string;
+  widgets: DashboardWidget[];
+  // Set while the read-only link is live; only the hash is kept, like invitation tokens
+  shareTokenHash?: string;
+  sharedAt?: Date;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type PublicDashboard = Omit<Dashboard, 'shareTokenHash'> & { shared: boolean };
+
+export type DashboardInput = Pick<Dashboard, 'name' | 'widgets'>;
+
+export class DashboardError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DashboardError';
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function toPublicDashboard(dashboard: Dashboard): PublicDashboard {
+  return { ...omit(dashboard, 'shareTokenHash'), shared: Boolean(dashboard.shareTokenHash) };
+}
+
+function validate(input: DashboardInput): DashboardInput {
+  const name = input.name.trim();
+  if (!name) throw new DashboardError('Dashboard name is required');
+  if (input.widgets.length > MAX_WIDGETS) throw new DashboardError(`A dashboard can have at most ${MAX_WIDGETS} widgets`);
+  for (const widget of input.widgets) {
+    if (widget.width < 1 || widget.width > GRID_COLUMNS || widget.height < 1 || widget.height > MAX_WIDGET_HEIGHT) {
+      throw new DashboardError(`Widget "${widget.title}" does not fit the grid`);
+    }
+    if (widget.chart === 'doughnut' && !widget.groupBy) {
+      throw new DashboardError(`Doughnut widget "${widget.title}" needs a property to group by`);
+    }
+  }
+  return { name, widgets: input.widgets };
+}
+
+class DashboardService {
+  private static instance: DashboardService;
+  private dashboards: CollectionStore<Dashboard>;
+
+  private constructor() {
+    this.dashboards = createStore<Dashboard>('dashboards');
+  }
+
+  public static getInstance(): DashboardService {
+    if (!DashboardService.instance) {
+      DashboardService.instance = new DashboardService();
+    }
+    return DashboardService.instance;
+  }
+
+  public useStore(store: CollectionStore<Dashboard>): void {
+    this.dashboards = store;
+  }
+
+  public async listDashboards(organizationId: string): Promise<PublicDashboard[]> {
+    return (await this.dashboards.list())
+      .filter(dashboard => dashboard.organizationId === organizationId)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(toPublicDashboard);
+  }
+
+  public async getDashboard(organizationId: string, id: string): Promise<PublicDashboard> {
+    return toPublicDashboard(await this.requireDashboard(organizationId, id));
+  }
+
+  public async createDashboard(organizationId: string, input: DashboardInput, createdBy: string): Promise<PublicDashboard> {
+    const now = new Date();
+    const dashboard: Dashboard = {
+      id: randomUUID(),
+      organizationId,
+      ...validate(input),
+      createdBy,
+      createdAt: now,
+      updatedAt: now
+    };
+    await this.dashboards.put(dashboard.id, dashboard);
+    return toPublicDashboard(dashboard);
+  }
+
+  public async updateDashboard(organizationId: string, id: string, input: DashboardInput): Promise<PublicDashboard> {
+    const dashboard = await this.requireDashboard(organizationId, id);
+    const updated: Dashboard = { ...dashboard, ...validate(input), updatedAt: new Date() };
+    await this.dashboards.put(id, updated);
+    return toPublicDashboard(updated);
+  }
+
+  public async deleteDashboard(organizationId: string, id: string): Promise<void> {
+    await this.requireDashboard(organizationId, id);
+    await this.dashboards.delete(id);
+  }
+
+  // A new link replaces the previous one, so sharing again also revokes a leaked link
+  public async shareDashboard(organizationId: string, id: string): Promise<{ token: string }> {
+    const dashboard = await this.requireDashboard(organizationId, id);
+    const token = randomBytes(32).toString('base64url');
+    await this.dashboards.put(id, { ...dashboard, shareTokenHash: hashToken(token), sharedAt: new Date() });
+    return { token };
+  }
+
+  public async unshareDashboard(organizationId: string, id: string): Promise<PublicDashboard> {
+    const dashboard = omit(await this.requireDashboard(organizationId, id), 'shareTokenHash', 'sharedAt');
+    await this.dashboards.put(id, dashboard);
+    return toPublicDashboard(dashboard);
+  }
+
+  public async getSharedDashboard(token: string): Promise<Dashboard> {
+    const dashboard = (await this.dashboards.list()).find(d => d.shareTokenHash === hashToken(token));
+    if (!dashboard) throw new DashboardError('This dashboard link is invalid or is no longer shared');
+    return dashboard;
+  }
+
+  // One series per widget, in widget order, over each widget's range ending now
+  public async loadWidgetData(dashboard: Pick<Dashboard, 'organizationId' | 'widgets'>, now = Date.now()): Promise<AnalyticsMetric[][]> {
+    return analyticsEventService.aggregate(dashboard.organizationId, dashboard.widgets.map(widget => {
+      const from = now - DASHBOARD_RANGE_MS[widget.range];
+      return {
+        name: widget.metric,
+        type: widget.type,
+        aggregation: widget.aggregation,
+        bucket: bucketFor(from, now),
+        from,
+        to: now,
+        groupBy: widget.groupBy
+      };
+    }));
+  }
+
+  private async requireDashboard(organizationId: string, id: string): Promise<Dashboard> {
+    const dashboard = await this.dashboards.get(id);
+    if (!dashboard || dashboard.organizationId !== organizationId) throw new DashboardError('Dashboard not found');
+    return dashboard;
+  }
+}
+
+export const dashboardService = DashboardService.getInstance();
@@ -0,0 +1,300 @@
+import type Stripe from 'stripe';
+import { createStore, type CollectionStore } from '../../lib/storage';
+import { schedulerService } from '../../lib/scheduler';
+import type { DunningStage } from '../../lib/entitlements';
+import { emailService } from './emailService';
+import { organizationService } from './organizationService';
+import { subscriptionService } from './subscriptionService';
+
+export type DunningTemplate = 'payment_failed' | 'reminder' | 'restricted' | 'final_notice' | 'suspended' | 'restored';
+
+export interface DunningStep {
+  // Days after the first failed payment
+  afterDays: number;
+  stage: DunningStage;
+  template: DunningTemplate;
+}
+
+// Stripe's own retries run alongside this; paying at any step restores the account
+export const DEFAULT_DUNNING_SCHEDULE: DunningStep[] = [
+  { afterDays: 0, stage: 'grace', template: 'payment_failed' },
+  { afterDays: 3, stage: 'grace', template: 'reminder' },
+  { afterDays: 7, stage: 'restricted', template: 'restricted' },
+  { afterDays: 12, stage: 'restricted', template: 'final_notice' },
+  { afterDays: 14, stage: 'suspended', template: 'suspended' }
+];
+
+export interface DunningNotice {
+  organizationName: string;
+  invoiceNumber: string | null;
+  amountDue: number;
+  hostedInvoiceUrl: string | null;
+  // When the account moves to its next stage, if nothing is paid
+  nextEscalationAt?: Date;
+}
+
+export interface DunningInvoice {
+  id: string;
+  number: string | null;
+  amountDue: number;
+  hostedInvoiceUrl: string | null;
+}
+
+export interface DunningCase {
+  id: string;
+  organizationId: string;
+  subscriptionId: string | null;
+  // The latest unpaid invoice, which notices point the customer to
+  invoiceId: string;
+  invoiceNumber: string | null;
+  // Owed across every unpaid invoice
+  amountDue: number;
+  currency: string;
+  hostedInvoiceUrl: string | null;
+  // Every failed invoice not paid yet, oldest first; the case resolves once none are left
+  unpaidInvoices: DunningInvoice[];
+  stage: DunningStage;
+  // Stripe's attempt_count on the latest failure
+  failedAttempts: number;
+  // How many schedule steps have been applied
+  stepsApplied: number;
+  openedAt: Date;
+  lastNotifiedAt?: Date;
+  resolvedAt?: Date;
+  resolution?: 'paid' | 'canceled';
+  updatedAt: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function idOf(value: string | { id: string }): string {
+  return typeof value === 'string' ? value : value.id;
+}
+
+function outstanding(unpaidInvoices: DunningInvoice[]): Pick<DunningCase, 'invoiceId' | 'invoiceNumber' | 'amountDue' | 'hostedInvoiceUrl' | 'unpaidInvoices'> {
+  const latest = unpaidInvoices[unpaidInvoices.length - 1];
+  return {
+    invoiceId: latest.id,
+    invoiceNumber: latest.number,
+    amountDue: unpaidInvoices.reduce((sum, unpaid) => sum + unpaid.amountDue, 0),
+    hostedInvoiceUrl: latest.hostedInvoiceUrl,
+    unpaidInvoices
+  };
+}
+
+class DunningService {
+  private static instance: DunningService;
+  private cases: CollectionStore<DunningCase>;
+  private schedule: DunningStep[] = DEFAULT_DUNNING_SCHEDULE;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  private constructor() {
+    this.cases = createStore<DunningCase>('dunning_cases');
+
+    schedulerService.registerJob({
+      name: 'billing.dunning',
+      schedule: '0 * * * *',
+      jitterMs: 5 * 60 * 1000,
+      description: 'Escalate accounts with unpaid invoices',
+      handler: async () => {
+        await this.processCases();
+      }
+    });
+  }
+
+  public static getInstance(): DunningService {
+    if (!DunningService.instance) {
+      DunningService.instance = new DunningService();
+    }
+    return DunningService.instance;
+  }
+
+  public useStore(store: CollectionStore<DunningCase>): void {
+    this.cases = store;
+  }
+
+  // Steps must be in order; the first one is applied as soon as a payment fails
+  public useSchedule(steps: DunningStep[]): void {
+    if (steps.length === 0) throw new Error('Dunning schedule needs at least one step');
+    this.schedule = [...steps].sort((a, b) => a.afterDays - b.afterDays);
+  }
+
+  public getSchedule(): DunningStep[] {
+    return this.schedule;
+  }
+
+  // Opens a case for the organization, or refreshes the open one; safe to repeat for the same event
+  public async recordPaymentFailure(invoice: Stripe.Invoice, at: Date): Promise<DunningCase | null> {
+    const organizationId = await this.organizationFor(invoice);
+    if (!organizationId) return null;
+
+    const dunningCase = await this.withLock(async () => {
+      const existing = await this.getOpenCase(organizationId);
+      const failed: DunningInvoice = {
+        id: invoice.id,
+        number: invoice.number ?? null,
+        amountDue: invoice.amount_due ?? 0,
+        hostedInvoiceUrl: invoice.hosted_invoice_url ?? null
+      };
+      const record: DunningCase = {
+        id: existing?.id ?? `dun_${organizationId}_${invoice.id}`,
+        organizationId,
+        subscriptionId: invoice.subscription ? idOf(invoice.subscription) : existing?.subscriptionId ?? null,
+        ...outstanding([...(existing?.unpaidInvoices ?? []).filter(unpaid => unpaid.id !== invoice.id), failed]),
+        currency: invoice.currency ?? 'usd',
+        stage: existing?.stage ?? this.schedule[0].stage,
+        failedAttempts: Math.max(invoice.attempt_count ?? 1, existing?.failedAttempts ?? 0),
+        stepsApplied: existing?.stepsApplied ?? 0,
+        openedAt: existing?.openedAt ?? at,
+        lastNotifiedAt: existing?.lastNotifiedAt,
+        updatedAt: new Date()
+      };
+      await this.cases.put(record.id, record);
+      return record;
+    });
+
+    return await this.advance(dunningCase, at);
+  }
+
+  // Closes the organization's open case and lifts any restriction
+  public async resolve(organizationId: string, resolution: 'paid' | 'canceled', at = new Date()): Promise<DunningCase | null> {
+    return this.close(organizationId, resolution, at);
+  }
+
+  // Settles one failed invoice; the account stays in dunning while any other is unpaid
+  public async resolveInvoice(invoice: Stripe.Invoice, at: Date): Promise<DunningCase | null> {
+    const organizationId = await this.organizationFor(invoice);
+    return organizationId ? await this.close(organizationId, 'paid', at, invoice.id) : null;
+  }
+
+  // Applies whichever step is now due for every open case; returns how many cases escalated
+  public async processCases(now = new Date()): Promise<number> {
+    let escalated = 0;
+    for (const dunningCase of await this.listCases({ status: 'open' })) {
+      const before = dunningCase.stepsApplied;
+      try {
+        const after = await this.advance(dunningCase, now);
+        if (after && after.stepsApplied > before) escalated++;
+      } catch (error) {
+        console.error(`Error advancing dunning case ${dunningCase.id}:`, error);
+      }
+    }
+    return escalated;
+  }
+
+  public async listCases(filter: { status?: 'open' | 'resolved'; stage?: DunningStage } = {}): Promise<DunningCase[]> {
+    return (await this.cases.list())
+      .filter(dunningCase => !filter.status || (filter.status === 'open') === !dunningCase.resolvedAt)
+      .filter(dunningCase => !filter.stage || dunningCase.stage === filter.stage)
+      .sort((a, b) => new Date(a.openedAt).getTime() - new Date(b.openedAt).getTime());
+  }
+
+  public async getOpenCase(organizationId: string): Promise<DunningCase | null> {
+    return (await this.listCases({ status: 'open' }))
+      .find(dunningCase => dunningCase.organizationId === organizationId) ?? null;
+  }
+
+  private async close(
+    organizationId: string,
+    resolution: 'paid' | 'canceled',
+    at: Date,
+    paidInvoiceId?: string
+  ): Promise<DunningCase | null> {
+    const settled = await this.withLock(async () => {
+      const open = await this.getOpenCase(organizationId);
+      if (!open) return null;
+
+      const unpaid = open.unpaidInvoices.filter(unpaidInvoice => unpaidInvoice.id !== paidInvoiceId);
+      if (paidInvoiceId && unpaid.length > 0) {
+        if (unpaid.length < open.unpaidInvoices.length) {
+          Object.assign(open, outstanding(unpaid));
+          open.updatedAt = new Date();
+          await this.cases.put(open.id, open);
+        }
+        return { dunningCase: open, closed: false };
+      }
+
+      open.unpaidInvoices = unpaid;
+      open.resolvedAt = at;
+      open.resolution = resolution;
+      open.updatedAt = new Date();
+      await this.cases.put(open.id, open);
+      await organizationService.setDunningStage(organizationId, null);
+      return { dunningCase: open, closed: true };
+    });
+    if (!settled?.closed) return settled?.dunningCase ?? null;
+    const resolved = settled.dunningCase;
+
+    // Only worth telling customers whose service was actually cut back
+    if (resolution === 'paid' && resolved.stage !== 'grace') {
+      await this.notify(resolved, 'restored');
+    }
+    return resolved;
+  }
+
+  // Jumps straight to the latest due step, so a case that was not processed for a while sends one email, not several
+  private async advance(dunningCase: DunningCase, now: Date): Promise<DunningCase | null> {
+    const updated = await this.withLock(async () => {
+      const current = await this.cases.get(dunningCase.id);
+      if (!current || current.resolvedAt) return null;
+
+      const elapsed = now.getTime() - new Date(current.openedAt).getTime();
+      const due = this.schedule.filter(step => step.afterDays * DAY_MS <= elapsed).length;
+      if (due <= current.stepsApplied) return null;
+
+      current.stage = this.schedule[due - 1].stage;
+      current.stepsApplied = due;
+      current.lastNotifiedAt = now;
+      current.updatedAt = new Date();
+      await this.cases.put(current.id, current);
+      // Under the same lock as the case, so a payment settling it meanwhile cannot be undone by a stale stage
+      await organizationService.setDunningStage(current.organizationId, current.stage);
+      return current;
+    });
+    if (!updated) return await this.cases.get(dunningCase.id) ?? null;
+
+    await this.notify(updated, this.schedule[updated.stepsApplied - 1].template);
+    return updated;
+  }
+
+  // A failed email must never stop the account from escalating
+  private async notify(dunningCase: DunningCase, template: DunningTemplate): Promise<void> {
+    try {
+      const organization = await organizationService.getOrganization(dunningCase.organizationId);
+      if (!organization) return;
+
+      const next = this.schedule.slice(dunningCase.stepsApplied).find(step => step.stage !== dunningCase.stage);
+      const notice: DunningNotice = {
+        organizationName: organization.name,
+        invoiceNumber: dunningCase.invoiceNumber,
+        amountDue: dunningCase.amountDue,
+        hostedInvoiceUrl: dunningCase.hostedInvoiceUrl,
+        nextEscalationAt: next && template !== 'restored'
+          ? new Date(new Date(dunningCase.openedAt).getTime() + next.afterDays * DAY_MS)
+          : undefined
+      };
+
+      const recipients = await organizationService.getBillingContacts(organization.id);
+      await Promise.all(recipients.map(to => emailService.sendDunningNotice(to, template, notice)));
+    } catch (error) {
+      console.error(`Error sending dunning notice for ${dunningCase.id}:`, error);
+    }
+  }
+
+  private async organizationFor(invoice: Stripe.Invoice): Promise<string | null> {
+    if (invoice.subscription) {
+      const subscription = await subscriptionService.getSubscription(idOf(invoice.subscription));
+      if (subscription) return subscription.organizationId;
+    }
+    if (!invoice.customer) return null;
+    return (await organizationService.getByStripeCustomerId(idOf(invoice.customer)))?.id ?? null;
+  }
+
+  private withLock<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.lock.then(task, task);
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+}
+
+export const dunningService = DunningService.getInstance();
@@ -1,5 +1,6 @@
 import nodemailer from 'nodemailer';
 import { format } from 'date-fns';
+import type { DunningNotice, DunningTemplate } from './dunningService';
 
 const transporter = nodemailer.createTransport({
   host: process.env.SMTP_HOST,
@@ -46,17 +47,144 @@ export const emailService = {
     });
   },
 
-  async sendOverdueNotice(to: string, invoice: any) {
+  // Escalating templates for the dunning workflow; each step tells the customer what happens next and when
+  async sendDunningNotice(to: string, template: DunningTemplate, notice: DunningNotice) {
+    const amount = `$${(notice.amountDue / 100).toFixed(2)}`;
+    const invoice = notice.invoiceNumber ? `invoice #${notice.invoiceNumber}` : 'your latest invoice';
+    const nextDate = notice.nextEscalationAt ? format(notice.nextEscalationAt, 'MMMM dd, yyyy') : null;
+
+    const templates: Record<DunningTemplate, { subject: string; heading: string; body: string }> = {
+      payment_failed: {
+        subject: `Payment failed for ${invoice}`,
+        heading: 'Payment Failed',
+        body: `We couldn't collect ${amount} for ${invoice}. We'll retry automatically, but please check your payment method.`
+      },
+      reminder: {
+        subject: `Reminder: ${invoice} is still unpaid`,
+        heading: 'Payment Still Outstanding',
+        body: `The payment of ${amount} for ${invoice} is still outstanding.${nextDate ? ` Paid features will be restricted on ${nextDate}.` : ''}`
+      },
+      restricted: {
+        subject: `${notice.organizationName}'s account has been restricted`,
+        heading: 'Account Restricted',
+        body: `Because ${invoice} for ${amount} is unpaid, ${notice.organizationName} has been moved to the free tier.${nextDate ? ` Service will be suspended on ${nextDate}.` : ''}`
+      },
+      final_notice: {
+        subject: `Final notice: service suspension${nextDate ? ` on ${nextDate}` : ''}`,
+        heading: 'Final Notice',
+        body: `The payment of ${amount} for ${invoice} is still outstanding. Unless it is paid, API access for ${notice.organizationName} will be suspended${nextDate ? ` on ${nextDate}` : ''}.`
+      },
+      suspended: {
+        subject: `${notice.organizationName}'s service has been suspended`,
+        heading: 'Service Suspended',
+        body: `API access for ${notice.organizationName} is suspended until ${invoice} for ${amount} is paid. Your data is kept and access returns as soon as payment is received.`
+      },
+      restored: {
+        subject: `${notice.organizationName}'s service has been restored`,
+        heading: 'Service Restored',
+        body: `Thank you, ${invoice} has been paid and full access to your plan is back.`
+      }
+    };
+    const { subject, heading, body } = templates[template];
+
     await transporter.sendMail({
       from: process.env.SMTP_FROM,
       to,
-      subject: `Overdue Payment Notice: Invoice #${invoice.number}`,
+      subject,
       html: `
-        <h2>Overdue Payment Notice</h2>
-        <p>Invoice #${invoice.number} is now overdue.</p>
-        <p>Amount Due: $${(invoice.amount_due / 100).toFixed(2)}</p>
-        <p>Please make your payment as soon as possible to avoid service interruption.</p>
-        <p>Pay now: ${invoice.hosted_invoice_url}</p>
+        <h2>${heading}</h2>
+        <p>${body}</p>
+        ${template === 'restored' ? '' : `<p>Pay now: ${notice.hostedInvoiceUrl ?? `${process.env.VITE_APP_URL}/billing`}</p>`}
+      `,
+    });
+  },
+
+  async sendRefundNotice(to: string, charge: any) {
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM,
+      to,
+      subject: 'Your Titan Cloud AI refund has been processed',
+      html: `
+        <h2>Refund Processed</h2>
+        <p>We have refunded $${(charge.amount_refunded / 100).toFixed(2)} to your original payment method.</p>
+        <p>Refunds usually appear on your statement within 5-10 business days.</p>
+        <p>View your receipt: ${charge.receipt_url}</p>
+      `,
+    });
+  },
+
+  async sendInvitationEmail(to: string, invitation: { organizationName: string; inviterName: string; role: string; acceptUrl: string }) {
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM,
+      to,
+      subject: `${invitation.inviterName} invited you to ${invitation.organizationName} on Titan Cloud AI`,
+      html: `
+        <h2>You're invited to ${invitation.organizationName}</h2>
+        <p>${invitation.inviterName} has invited you to join as ${invitation.role}.</p>
+        <p>Accept the invitation: ${invitation.acceptUrl}</p>
+        <p>This invitation expires in 7 days.</p>
+      `,
+    });
+  },
+
+  async sendVerificationEmail(to: string, verification: { verifyUrl: string }) {
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM,
+      to,
+      subject: 'Verify your Titan Cloud AI email address',
+      html: `
+        <h2>Verify Your Email</h2>
+        <p>Confirm that ${to} is your email address: ${verification.verifyUrl}</p>
+        <p>This link expires in 24 hours. If you did not create an account, you can ignore this email.</p>
+      `,
+    });
+  },
+
+  async sendQuotaWarningEmail(to: string, usage: { organizationName: string; percent: number; used: number; limit: number; resetAt: Date }) {
+    const formattedResetDate = format(usage.resetAt, 'MMMM dd, yyyy');
+    const exhausted = usage.percent >= 100;
+
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM,
+      to,
+      subject: exhausted
+        ? `${usage.organizationName} has used its monthly API quota`
+        : `${usage.organizationName} has used ${usage.percent}% of its monthly API quota`,
+      html: `
+        <h2>${exhausted ? 'API Quota Reached' : 'API Quota Warning'}</h2>
+        <p>${usage.organizationName} has made ${usage.used.toLocaleString('en-US')} of ${usage.limit.toLocaleString('en-US')} API requests this month.</p>
+        <p>${exhausted ? 'Further API requests will be rejected until' : 'Usage resets on'} ${formattedResetDate}.</p>
+        <p>Upgrade your plan: ${process.env.VITE_APP_URL}/billing</p>
+      `,
+    });
+  },
+
+  async sendAnomalyAlert(to: string, alert: { organizationName: string; metric: string; severity: string; explanation: string; timestamp: number }) {
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM,
+      to,
+      subject: `[${alert.severity}] Unusual ${alert.metric} for ${alert.organizationName}`,
+      html: `
+        <h2>Anomaly Detected</h2>
+        <p>${alert.explanation}.</p>
+        <p>Period starting ${format(alert.timestamp, 'MMMM dd, yyyy HH:mm')}.</p>
+        <p>Review it: ${process.env.VITE_APP_URL}/analytics</p>
+      `,
+    });
+  },
+
+  async sendTrialEndingEmail(to: string, trial: { organizationName: string; planName: string; trialEnd: Date }) {
+    const formattedTrialEnd = format(trial.trialEnd, 'MMMM dd, yyyy');
+
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM,
+      to,
+      subject: `Your ${trial.planName} trial ends on ${formattedTrialEnd}`,
+      html: `
+        <h2>Your Trial Is Ending Soon</h2>
+        <p>The ${trial.planName} trial for ${trial.organizationName} ends on ${formattedTrialEnd}.</p>
+        <p>Your subscription starts automatically after that, using the payment method on file.</p>
+        <p>Review your plan: ${process.env.VITE_APP_URL}/billing</p>
       `,
     });
   },
@@ -0,0 +1,73 @@
+import {
+  PLAN_FEATURES,
+  getPlanQuota,
+  type DunningStage,
+  type EffectivePlan,
+  type Feature,
+  type PlanQuota
+} from '../../lib/entitlements';
+import type { Organization } from './organizationService';
+import { subscriptionService } from './subscriptionService';
+
+export interface Entitlements {
+  plan: EffectivePlan;
+  subscriptionStatus: string | null;
+  trialEndsAt: Date | null;
+  dunningStage: DunningStage | null;
+  features: Feature[];
+  limits: {
+    monthlyApiRequests: number | null;
+    requestsPerSecond: number;
+  };
+}
+
+class EntitlementService {
+  private static instance: EntitlementService;
+
+  private constructor() {}
+
+  public static getInstance(): EntitlementService {
+    if (!EntitlementService.instance) {
+      EntitlementService.instance = new EntitlementService();
+    }
+    return EntitlementService.instance;
+  }
+
+  // The plan comes from the organization, which the subscription mirror keeps current; unpaid accounts past grace get the free tier
+  public getPlan(organization: Organization): EffectivePlan {
+    if (organization.dunningStage === 'restricted' || organization.dunningStage === 'suspended') return 'FREE';
+    return organization.plan ?? 'FREE';
+  }
+
+  public getQuota(organization: Organization): PlanQuota {
+    return getPlanQuota(this.getPlan(organization));
+  }
+
+  public isSuspended(organization: Organization): boolean {
+    return organization.dunningStage === 'suspended';
+  }
+
+  public async getEntitlements(organization: Organization): Promise<Entitlements> {
+    const plan = this.getPlan(organization);
+    const subscription = await subscriptionService.getForOrganization(organization.id);
+    const quota = this.getQuota(organization);
+
+    return {
+      plan,
+      subscriptionStatus: subscription?.status ?? null,
+      trialEndsAt: subscription?.status === 'trialing' && subscription.trialEnd ? new Date(subscription.trialEnd) : null,
+      dunningStage: organization.dunningStage ?? null,
+      features: PLAN_FEATURES[plan],
+      limits: {
+        monthlyApiRequests: quota.monthlyRequests,
+        requestsPerSecond: quota.requestsPerSecond
+      }
+    };
+  }
+
+  public hasFeature(organization: Organization, feature: Feature): boolean {
+    return PLAN_FEATURES[this.getPlan(organization)].includes(feature);
+  }
+}
+
+export const entitlementService = EntitlementService.getInstance();
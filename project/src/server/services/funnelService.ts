@@ -0,0 +1,206 @@
+import { randomUUID } from 'crypto';
+import { createStore, type CollectionStore } from '../../lib/storage';
+import { percentile } from '../../lib/timeseries';
+import { actorOf, analyticsEventService, type AnalyticsRecord } from './analyticsEventService';
+
+export interface FunnelStep {
+  event: string;
+  // Only events whose properties match count, e.g. { step: 2 }
+  where?: Record<string, string | number | boolean>;
+  label?: string;
+}
+
+export interface FunnelDefinition {
+  id: string;
+  // null for the platform's own funnels
+  organizationId: string | null;
+  name: string;
+  steps: FunnelStep[];
+  // How long after entering the funnel an actor has to reach each later step
+  windowHours: number;
+  createdBy: string | null;
+  createdAt: Date;
+}
+
+export type FunnelInput = Pick<FunnelDefinition, 'name' | 'steps' | 'windowHours'>;
+
+export interface FunnelStepResult {
+  event: string;
+  label: string;
+  count: number;
+  conversionFromStart: number;
+  conversionFromPrevious: number;
+  // Median time taken to get here from the previous step
+  medianMsFromPrevious: number | null;
+}
+
+export interface FunnelResult {
+  entered: number;
+  completed: number;
+  steps: FunnelStepResult[];
+}
+
+export const MAX_FUNNEL_STEPS = 10;
+export const MAX_FUNNEL_WINDOW_HOURS = 90 * 24;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Tracked by the landing, onboarding and billing pages through the public trackEvent procedure
+export const ONBOARDING_FUNNEL: FunnelDefinition = {
+  id: 'onboarding',
+  organizationId: null,
+  name: 'Onboarding',
+  steps: [
+    { event: 'onboarding_started', label: 'Started onboarding' },
+    ...[1, 2, 3, 4, 5].map(step => ({
+      event: 'onboarding_step_completed',
+      where: { step },
+      label: `Answered question ${step}`
+    })),
+    { event: 'onboarding_completed', label: 'Activated services' },
+    { event: 'checkout_started', label: 'Started checkout' }
+  ],
+  windowHours: 7 * 24,
+  createdBy: null,
+  createdAt: new Date(0)
+};
+
+const BUILT_IN_FUNNELS = [ONBOARDING_FUNNEL];
+
+export class FunnelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FunnelError';
+  }
+}
+
+function labelOf(step: FunnelStep): string {
+  return step.label || step.event;
+}
+
+function matchesStep(record: AnalyticsRecord, step: FunnelStep): boolean {
+  return record.name === step.event
+    && Object.entries(step.where ?? {}).every(([key, value]) => record.properties[key] === value);
+}
+
+class FunnelService {
+  private static instance: FunnelService;
+  private funnels: CollectionStore<FunnelDefinition>;
+
+  private constructor() {
+    this.funnels = createStore<FunnelDefinition>('funnels');
+  }
+
+  public static getInstance(): FunnelService {
+    if (!FunnelService.instance) {
+      FunnelService.instance = new FunnelService();
+    }
+    return FunnelService.instance;
+  }
+
+  public useStore(store: CollectionStore<FunnelDefinition>): void {
+    this.funnels = store;
+  }
+
+  public async listFunnels(organizationId: string | null): Promise<FunnelDefinition[]> {
+    const saved = (await this.funnels.list()).filter(funnel => funnel.organizationId === organizationId);
+    const builtIn = BUILT_IN_FUNNELS.filter(funnel => funnel.organizationId === organizationId);
+    return [...builtIn, ...saved.sort((a, b) => a.name.localeCompare(b.name))];
+  }
+
+  public async getFunnel(organizationId: string | null, id: string): Promise<FunnelDefinition> {
+    const funnel = BUILT_IN_FUNNELS.find(builtIn => builtIn.id === id) ?? await this.funnels.get(id);
+    if (!funnel || funnel.organizationId !== organizationId) throw new FunnelError('Funnel not found');
+    return funnel;
+  }
+
+  public async createFunnel(organizationId: string | null, input: FunnelInput, createdBy: string): Promise<FunnelDefinition> {
+    const name = input.name.trim();
+    if (!name) throw new FunnelError('Funnel name is required');
+    if (input.steps.length < 2 || input.steps.length > MAX_FUNNEL_STEPS) {
+      throw new FunnelError(`A funnel needs between 2 and ${MAX_FUNNEL_STEPS} steps`);
+    }
+    if (input.windowHours <= 0 || input.windowHours > MAX_FUNNEL_WINDOW_HOURS) {
+      throw new FunnelError(`The conversion window must be between 1 and ${MAX_FUNNEL_WINDOW_HOURS} hours`);
+    }
+
+    const funnel: FunnelDefinition = {
+      id: randomUUID(),
+      organizationId,
+      name,
+      steps: input.steps,
+      windowHours: input.windowHours,
+      createdBy,
+      createdAt: new Date()
+    };
+    await this.funnels.put(funnel.id, funnel);
+    return funnel;
+  }
+
+  public async deleteFunnel(organizationId: string | null, id: string): Promise<void> {
+    if (BUILT_IN_FUNNELS.some(funnel => funnel.id === id)) throw new FunnelError('Built-in funnels cannot be deleted');
+    await this.getFunnel(organizationId, id);
+    await this.funnels.delete(id);
+  }
+
+  // Actors enter on their first step-one event in [from, to], then must reach each step in order within the window
+  public async computeFunnel(
+    organizationId: string | null,
+    funnel: Pick<FunnelDefinition, 'steps' | 'windowHours'>,
+    from: number,
+    to: number
+  ): Promise<FunnelResult> {
+    const windowMs = funnel.windowHours * HOUR_MS;
+    const records = await analyticsEventService.scan({
+      organizationId,
+      type: 'event',
+      names: Array.from(new Set(funnel.steps.map(step => step.event))),
+      from,
+      to: to + windowMs
+    });
+
+    const byActor = new Map<string, AnalyticsRecord[]>();
+    for (const record of records) {
+      const actor = actorOf(record);
+      if (actor) byActor.set(actor, [...(byActor.get(actor) ?? []), record]);
+    }
+
+    const counts = funnel.steps.map(() => 0);
+    const durations: number[][] = funnel.steps.map(() => []);
+    for (const events of byActor.values()) {
+      events.sort((a, b) => a.timestamp - b.timestamp);
+      let index = events.findIndex(event => event.timestamp <= to && matchesStep(event, funnel.steps[0]));
+      if (index === -1) continue;
+
+      const deadline = events[index].timestamp + windowMs;
+      counts[0]++;
+      for (let step = 1; step < funnel.steps.length; step++) {
+        const next = events.findIndex((event, position) =>
+          position > index && event.timestamp <= deadline && matchesStep(event, funnel.steps[step])
+        );
+        if (next === -1) break;
+        counts[step]++;
+        durations[step].push(events[next].timestamp - events[index].timestamp);
+        index = next;
+      }
+    }
+
+    return {
+      entered: counts[0],
+      completed: counts[counts.length - 1],
+      steps: funnel.steps.map((step, position) => ({
+        event: step.event,
+        label: labelOf(step),
+        count: counts[position],
+        conversionFromStart: counts[0] ? counts[position] / counts[0] : 0,
+        conversionFromPrevious: position === 0
+          ? (counts[0] ? 1 : 0)
+          : counts[position - 1] ? counts[position] / counts[position - 1] : 0,
+        medianMsFromPrevious: durations[position].length
+          ? percentile([...durations[position]].sort((a, b) => a - b), 50)
+          : null
+      }))
+    };
+  }
+}
+
+export const funnelService = FunnelService.getInstance();
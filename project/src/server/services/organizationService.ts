@@ -0,0 +1,359 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { createStore, type CollectionStore } from '../../lib/storage';
+import { omit } from '../../lib/objects';
+import type { PlanTier } from '../../lib/stripe';
+import type { DunningStage } from '../../lib/entitlements';
+import { authService, type PublicUser } from './authService';
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+export type Role = 'owner' | 'admin' | 'billing' | 'developer' | 'viewer';
+
+export type Permission =
+  | 'organization:manage'
+  | 'members:manage'
+  | 'billing:manage'
+  | 'billing:read'
+  | 'automation:manage'
+  | 'automation:read'
+  | 'analytics:read'
+  | 'analytics:write'
+  | 'api_keys:manage';
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  owner: [
+    'organization:manage',
+    'members:manage',
+    'billing:manage',
+    'billing:read',
+    'automation:manage',
+    'automation:read',
+    'analytics:read',
+    'analytics:write',
+    'api_keys:manage'
+  ],
+  admin: [
+    'members:manage',
+    'billing:read',
+    'automation:manage',
+    'automation:read',
+    'analytics:read',
+    'analytics:write',
+    'api_keys:manage'
+  ],
+  billing: ['billing:manage', 'billing:read', 'analytics:read'],
+  developer: ['automation:read', 'analytics:read', 'analytics:write', 'api_keys:manage'],
+  viewer: ['analytics:read']
+};
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// A member may only hand out roles whose permissions they hold themselves, so an admin cannot mint billing managers
+export function canAssignRole(assigner: Role, role: Role): boolean {
+  return ROLE_PERMISSIONS[role].every(permission => hasPermission(assigner, permission));
+}
+
+export interface Organization {
+  id: string;
+  name: string;
+  ownerId: string;
+  stripeCustomerId?: string;
+  // Tier of the active subscription, kept in step by the Stripe webhook
+  plan?: PlanTier;
+  // Set while an invoice is unpaid, kept in step by the dunning workflow
+  dunningStage?: DunningStage;
+  createdAt: Date;
+}
+
+export interface Membership {
+  id: string;
+  organizationId: string;
+  userId: string;
+  role: Role;
+  createdAt: Date;
+}
+
+export interface Invitation {
+  id: string;
+  organizationId: string;
+  email: string;
+  role: Role;
+  tokenHash: string;
+  invitedBy: string;
+  createdAt: Date;
+  expiresAt: Date;
+  acceptedAt?: Date;
+  acceptedBy?: string;
+  revokedAt?: Date;
+}
+
+export type PublicInvitation = Omit<Invitation, 'tokenHash'>;
+
+// Failures the caller may show to the user as-is
+export class OrganizationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OrganizationError';
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function toPublicInvitation(invitation: Invitation): PublicInvitation {
+  return omit(invitation, 'tokenHash');
+}
+
+class OrganizationService {
+  private static instance: OrganizationService;
+  private organizations: CollectionStore<Organization>;
+  private memberships: CollectionStore<Membership>;
+  private invitations: CollectionStore<Invitation>;
+
+  private constructor() {
+    this.organizations = createStore<Organization>('organizations');
+    this.memberships = createStore<Membership>('memberships');
+    this.invitations = createStore<Invitation>('invitations');
+  }
+
+  public static getInstance(): OrganizationService {
+    if (!OrganizationService.instance) {
+      OrganizationService.instance = new OrganizationService();
+    }
+    return OrganizationService.instance;
+  }
+
+  public useStores(
+    organizations: CollectionStore<Organization>,
+    memberships: CollectionStore<Membership>,
+    invitations: CollectionStore<Invitation>
+  ): void {
+    this.organizations = organizations;
+    this.memberships = memberships;
+    this.invitations = invitations;
+  }
+
+  public async createOrganization(name: string, ownerId: string): Promise<Organization> {
+    const organization: Organization = {
+      id: randomUUID(),
+      name: name.trim(),
+      ownerId,
+      createdAt: new Date()
+    };
+    if (!organization.name) throw new OrganizationError('Organization name is required');
+
+    await this.organizations.put(organization.id, organization);
+    await this.addMember(organization.id, ownerId, 'owner');
+    return organization;
+  }
+
+  public async getOrganization(organizationId: string): Promise<Organization | null> {
+    return (await this.organizations.get(organizationId)) ?? null;
+  }
+
+  // Oldest membership first, which makes it the default when the client has not picked one
+  public async listForUser(userId: string): Promise<{ organization: Organization; role: Role }[]> {
+    const memberships = (await this.memberships.list())
+      .filter(membership => membership.userId === userId)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+    const result: { organization: Organization; role: Role }[] = [];
+    for (const membership of memberships) {
+      const organization = await this.organizations.get(membership.organizationId);
+      if (organization) result.push({ organization, role: membership.role });
+    }
+    return result;
+  }
+
+  public async getMembership(organizationId: string, userId: string): Promise<Membership | null> {
+    return (await this.memberships.list())
+      .find(membership => membership.organizationId === organizationId && membership.userId === userId) ?? null;
+  }
+
+  public async listMembers(organizationId: string): Promise<(Membership & { user: PublicUser | null })[]> {
+    const members = (await this.memberships.list()).filter(membership => membership.organizationId === organizationId);
+    return await Promise.all(members.map(async membership => ({
+      ...membership,
+      user: await authService.getUser(membership.userId)
+    })));
+  }
+
+  // Addresses of the members who can act on billing emails
+  public async getBillingContacts(organizationId: string): Promise<string[]> {
+    const members = await this.listMembers(organizationId);
+    return members
+      .filter(member => member.user && hasPermission(member.role, 'billing:manage'))
+      .map(member => member.user!.email);
+  }
+
+  // The raw token only leaves here once, to be put in the invitation email
+  public async inviteMember(
+    organizationId: string,
+    email: string,
+    role: Role,
+    invitedBy: string
+  ): Promise<{ invitation: PublicInvitation; token: string }> {
+    await this.requireOrganization(organizationId);
+    if (role === 'owner') throw new OrganizationError('Organizations have a single owner');
+
+    const normalized = email.trim().toLowerCase();
+    const existing = await authService.getUserByEmail(normalized);
+    if (existing && await this.getMembership(organizationId, existing.id)) {
+      throw new OrganizationError(`${normalized} is already a member`);
+    }
+
+    // A fresh invitation replaces any that is still pending for the same address
+    for (const pending of await this.listInvitations(organizationId)) {
+      if (pending.email === normalized) await this.revokeInvitation(organizationId, pending.id);
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    const now = new Date();
+    const invitation: Invitation = {
+      id: randomUUID(),
+      organizationId,
+      email: normalized,
+      role,
+      tokenHash: hashToken(token),
+      invitedBy,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + INVITATION_TTL_MS)
+    };
+    await this.invitations.put(invitation.id, invitation);
+
+    return { invitation: toPublicInvitation(invitation), token };
+  }
+
+  // Pending invitations only
+  public async listInvitations(organizationId: string): Promise<PublicInvitation[]> {
+    const now = new Date();
+    return (await this.invitations.list())
+      .filter(invitation => invitation.organizationId === organizationId
+        && !invitation.acceptedAt
+        && !invitation.revokedAt
+        && new Date(invitation.expiresAt) > now)
+      .map(toPublicInvitation);
+  }
+
+  public async revokeInvitation(organizationId: string, invitationId: string): Promise<PublicInvitation> {
+    const invitation = await this.invitations.get(invitationId);
+    if (!invitation || invitation.organizationId !== organizationId) {
+      throw new OrganizationError('Invitation not found');
+    }
+    if (invitation.acceptedAt) throw new OrganizationError('Invitation has already been accepted');
+
+    invitation.revokedAt = new Date();
+    await this.invitations.put(invitation.id, invitation);
+    return toPublicInvitation(invitation);
+  }
+
+  // What the invitation page shows before the user signs in or up
+  public async getInvitation(token: string): Promise<PublicInvitation & { organizationName: string }> {
+    const invitation = await this.requireOpenInvitation(token);
+    const organization = await this.requireOrganization(invitation.organizationId);
+    return { ...toPublicInvitation(invitation), organizationName: organization.name };
+  }
+
+  public async acceptInvitation(token: string, user: PublicUser): Promise<Membership> {
+    const invitation = await this.requireOpenInvitation(token);
+    // Invitations are personal; forwarding the link must not let someone else in
+    if (invitation.email !== user.email) {
+      throw new OrganizationError('Invitation was sent to a different email address');
+    }
+
+    const membership = await this.getMembership(invitation.organizationId, user.id)
+      ?? await this.addMember(invitation.organizationId, user.id, invitation.role);
+
+    invitation.acceptedAt = new Date();
+    invitation.acceptedBy = user.id;
+    await this.invitations.put(invitation.id, invitation);
+
+    return membership;
+  }
+
+  public async updateMemberRole(organizationId: string, userId: string, role: Role): Promise<Membership> {
+    const membership = await this.requireMembership(organizationId, userId);
+    if (membership.role === 'owner') throw new OrganizationError('The owner\'s role cannot be changed');
+    if (role === 'owner') throw new OrganizationError('Organizations have a single owner');
+
+    membership.role = role;
+    await this.memberships.put(membership.id, membership);
+    return membership;
+  }
+
+  public async removeMember(organizationId: string, userId: string): Promise<void> {
+    const membership = await this.requireMembership(organizationId, userId);
+    if (membership.role === 'owner') throw new OrganizationError('The owner cannot be removed');
+    await this.memberships.delete(membership.id);
+  }
+
+  public async setStripeCustomerId(organizationId: string, stripeCustomerId: string): Promise<Organization> {
+    const organization = await this.requireOrganization(organizationId);
+    organization.stripeCustomerId = stripeCustomerId;
+    await this.organizations.put(organization.id, organization);
+    return organization;
+  }
+
+  public async getByStripeCustomerId(stripeCustomerId: string): Promise<Organization | null> {
+    return (await this.organizations.list()).find(organization => organization.stripeCustomerId === stripeCustomerId) ?? null;
+  }
+
+  public async setPlan(organizationId: string, plan: PlanTier | null): Promise<Organization> {
+    const organization = await this.requireOrganization(organizationId);
+    if (plan) {
+      organization.plan = plan;
+    } else {
+      delete organization.plan;
+    }
+    await this.organizations.put(organization.id, organization);
+    return organization;
+  }
+
+  public async setDunningStage(organizationId: string, stage: DunningStage | null): Promise<Organization> {
+    const organization = await this.requireOrganization(organizationId);
+    if (stage) {
+      organization.dunningStage = stage;
+    } else {
+      delete organization.dunningStage;
+    }
+    await this.organizations.put(organization.id, organization);
+    return organization;
+  }
+
+  private async addMember(organizationId: string, userId: string, role: Role): Promise<Membership> {
+    const membership: Membership = {
+      id: randomUUID(),
+      organizationId,
+      userId,
+      role,
+      createdAt: new Date()
+    };
+    await this.memberships.put(membership.id, membership);
+    return membership;
+  }
+
+  private async requireOpenInvitation(token: string): Promise<Invitation> {
+    const invitation = (await this.invitations.list()).find(i => i.tokenHash === hashToken(token));
+    if (!invitation || invitation.revokedAt || invitation.acceptedAt || new Date(invitation.expiresAt) <= new Date()) {
+      throw new OrganizationError('Invitation is invalid or has expired');
+    }
+    return invitation;
+  }
+
+  private async requireOrganization(organizationId: string): Promise<Organization> {
+    const organization = await this.organizations.get(organizationId);
+    if (!organization) throw new OrganizationError('Organization not found');
+    return organization;
+  }
+
+  private async requireMembership(organizationId: string, userId: string): Promise<Membership> {
+    const membership = await this.getMembership(organizationId, userId);
+    if (!membership) throw new OrganizationError('Member not found');
+    return membership;
+  }
+}
+
+export const organizationService = OrganizationService.getInstance();
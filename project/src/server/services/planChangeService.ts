@@ -0,0 +1,208 @@
+import type Stripe from 'stripe';
+import { getPlanForPriceId, type PlanTier } from '../../lib/stripe';
+import { subscriptionService } from './subscriptionService';
+import { METERED_PRICE_IDS, PLAN_METERED_METRICS } from './usageService';
+
+export const PLAN_CHANGE_TIMINGS = ['immediate', 'period_end'] as const;
+export type PlanChangeTiming = typeof PLAN_CHANGE_TIMINGS[number];
+
+// How long a preview's proration date can be confirmed; older quotes have to be previewed again
+export const QUOTE_VALIDITY_SECONDS = 10 * 60;
+
+// Amounts are in the smallest currency unit, as Stripe reports them
+export interface PlanChangePreview {
+  timing: PlanChangeTiming;
+  plan: PlanTier;
+  currentPriceId: string | null;
+  newPriceId: string;
+  currency: string;
+  // Credit for unused time on the current price plus the charge for the rest of the period on the new one
+  prorationAmount: number;
+  amountDueNow: number;
+  nextInvoiceTotal: number;
+  nextInvoiceDate: Date;
+  effectiveDate: Date;
+  // Unix seconds; applying the change with it reproduces this quote exactly
+  prorationDate: number;
+}
+
+export class PlanChangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlanChangeError';
+  }
+}
+
+interface PhaseItem {
+  price: string;
+  quantity?: number;
+}
+
+function idOf(value: string | { id: string }): string {
+  return typeof value === 'string' ? value : value.id;
+}
+
+function toDate(seconds: number): Date {
+  return new Date(seconds * 1000);
+}
+
+// Previews and applies plan changes; immediate changes are invoiced straight away, period-end changes go through a subscription schedule
+export class PlanChangeService {
+  constructor(private readonly stripe: Stripe) {}
+
+  public async preview(
+    subscription: Stripe.Subscription,
+    newPriceId: string,
+    timing: PlanChangeTiming
+  ): Promise<PlanChangePreview> {
+    const plan = this.validate(subscription, newPriceId);
+    const prorationDate = Math.floor(Date.now() / 1000);
+    const immediate = timing === 'immediate';
+
+    const upcoming = await this.stripe.invoices.retrieveUpcoming({
+      customer: idOf(subscription.customer),
+      subscription: subscription.id,
+      subscription_items: this.changedItems(subscription, newPriceId, plan),
+      subscription_proration_behavior: immediate ? 'create_prorations' : 'none',
+      ...(immediate ? { subscription_proration_date: prorationDate } : {})
+    });
+
+    // The preview folds prorations into the renewal invoice; on confirm they are invoiced on their own
+    const prorationAmount = upcoming.lines.data
+      .filter(line => line.proration)
+      .reduce((sum, line) => sum + line.amount, 0);
+
+    return {
+      timing,
+      plan,
+      currentPriceId: this.planItem(subscription).price.id,
+      newPriceId,
+      currency: upcoming.currency,
+      prorationAmount,
+      amountDueNow: Math.max(prorationAmount, 0),
+      nextInvoiceTotal: upcoming.total - prorationAmount,
+      nextInvoiceDate: toDate(subscription.current_period_end),
+      effectiveDate: immediate ? toDate(prorationDate) : toDate(subscription.current_period_end),
+      prorationDate
+    };
+  }
+
+  public async apply(
+    subscription: Stripe.Subscription,
+    newPriceId: string,
+    timing: PlanChangeTiming,
+    prorationDate?: number,
+    now = Date.now()
+  ): Promise<Stripe.Subscription> {
+    const plan = this.validate(subscription, newPriceId);
+    // The date comes back from the client, so only one a recent preview could have issued is honoured
+    const nowSeconds = Math.floor(now / 1000);
+    if (prorationDate && (prorationDate > nowSeconds || prorationDate < nowSeconds - QUOTE_VALIDITY_SECONDS)) {
+      throw new PlanChangeError('The quote has expired; preview the plan change again');
+    }
+
+    if (timing === 'period_end') {
+      await this.schedule(subscription, newPriceId, plan);
+      await subscriptionService.setScheduledChange(subscription.id, {
+        priceId: newPriceId,
+        plan,
+        effectiveAt: toDate(subscription.current_period_end)
+      });
+      return subscription;
+    }
+
+    // A pending period-end change would otherwise override this one at renewal
+    if (subscription.schedule) {
+      await this.stripe.subscriptionSchedules.release(idOf(subscription.schedule));
+    }
+
+    const updated = await this.stripe.subscriptions.update(subscription.id, {
+      items: this.changedItems(subscription, newPriceId, plan),
+      proration_behavior: 'always_invoice',
+      ...(prorationDate ? { proration_date: prorationDate } : {}),
+      metadata: { planId: newPriceId }
+    });
+    await subscriptionService.setScheduledChange(subscription.id, null);
+    return updated;
+  }
+
+  private async schedule(subscription: Stripe.Subscription, newPriceId: string, plan: PlanTier): Promise<void> {
+    const scheduleId = subscription.schedule
+      ? idOf(subscription.schedule)
+      : (await this.stripe.subscriptionSchedules.create({ from_subscription: subscription.id })).id;
+
+    const currentItems: PhaseItem[] = subscription.items.data.map(item => this.phaseItem(item.price, item.quantity));
+    const nextItems = currentItems
+      .filter(item => !this.isUnbilledMeteredPrice(item.price, plan))
+      .map(item => item.price === this.planItem(subscription).price.id ? { ...item, price: newPriceId } : item);
+    for (const price of this.missingMeteredPrices(subscription, plan)) nextItems.push({ price });
+
+    await this.stripe.subscriptionSchedules.update(scheduleId, {
+      end_behavior: 'release',
+      phases: [
+        {
+          items: currentItems,
+          start_date: subscription.current_period_start,
+          end_date: subscription.current_period_end,
+          ...(subscription.trial_end && subscription.status === 'trialing' ? { trial_end: subscription.trial_end } : {}),
+          proration_behavior: 'none'
+        },
+        {
+          items: nextItems,
+          iterations: 1,
+          metadata: { ...subscription.metadata, planId: newPriceId },
+          proration_behavior: 'none'
+        }
+      ]
+    });
+  }
+
+  private validate(subscription: Stripe.Subscription, newPriceId: string): PlanTier {
+    const plan = getPlanForPriceId(newPriceId);
+    if (!plan) throw new PlanChangeError('Unknown plan price');
+    if (this.planItem(subscription).price.id === newPriceId) {
+      throw new PlanChangeError('Subscription is already on this plan');
+    }
+    return plan;
+  }
+
+  // Metered items sit alongside the flat plan price, so find the plan by price rather than position
+  private planItem(subscription: Stripe.Subscription): Stripe.SubscriptionItem {
+    const item = subscription.items.data.find(candidate => getPlanForPriceId(candidate.price.id));
+    if (!item) throw new PlanChangeError('Subscription has no plan price');
+    return item;
+  }
+
+  private changedItems(subscription: Stripe.Subscription, newPriceId: string, plan: PlanTier) {
+    return [
+      { id: this.planItem(subscription).id, price: newPriceId },
+      ...this.missingMeteredPrices(subscription, plan).map(price => ({ price })),
+      ...subscription.items.data
+        .filter((item: Stripe.SubscriptionItem) => this.isUnbilledMeteredPrice(item.price.id, plan))
+        .map((item: Stripe.SubscriptionItem) => ({ id: item.id, deleted: true }))
+    ];
+  }
+
+  // Metered prices the new plan bills that the subscription does not carry yet
+  private missingMeteredPrices(subscription: Stripe.Subscription, plan: PlanTier): string[] {
+    const current = subscription.items.data.map(item => item.price.id);
+    return this.meteredPrices(plan).filter(price => !current.includes(price));
+  }
+
+  // Metered prices the new plan does not bill, which a change has to drop, e.g. storage after leaving Enterprise
+  private isUnbilledMeteredPrice(price: string, plan: PlanTier): boolean {
+    const metered: string[] = Object.values(METERED_PRICE_IDS);
+    return metered.includes(price) && !this.meteredPrices(plan).includes(price);
+  }
+
+  private meteredPrices(plan: PlanTier): string[] {
+    return PLAN_METERED_METRICS[plan].map(metric => METERED_PRICE_IDS[metric]);
+  }
+
+  // Metered prices take no quantity
+  private phaseItem(price: Stripe.Price, quantity?: number): PhaseItem {
+    return price.recurring?.usage_type === 'metered' || quantity === undefined
+      ? { price: price.id }
+      : { price: price.id, quantity };
+  }
+}
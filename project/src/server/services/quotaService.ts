@@ -0,0 +1,133 @@
+import { createStore, type CollectionStore } from '../../lib/storage';
+import { emailService } from './emailService';
+import { entitlementService } from './entitlementService';
+import { organizationService, type Organization } from './organizationService';
+
+// Percentages of the monthly quota at which billing contacts are emailed, once per period each
+export const QUOTA_WARNING_THRESHOLDS = [80, 100] as const;
+
+export interface UsageCounter {
+  id: string;
+  organizationId: string;
+  // Calendar month in UTC, e.g. 2024-03
+  period: string;
+  requests: number;
+  byApiKey: Record<string, number>;
+  warnedThresholds: number[];
+  updatedAt: Date;
+}
+
+export interface QuotaCheck {
+  allowed: boolean;
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  resetAt: Date;
+}
+
+function periodOf(at: Date): string {
+  return at.toISOString().slice(0, 7);
+}
+
+function periodEnd(at: Date): Date {
+  return new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth() + 1, 1));
+}
+
+class QuotaService {
+  private static instance: QuotaService;
+  private counters: CollectionStore<UsageCounter>;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  private constructor() {
+    this.counters = createStore<UsageCounter>('usage_counters');
+  }
+
+  public static getInstance(): QuotaService {
+    if (!QuotaService.instance) {
+      QuotaService.instance = new QuotaService();
+    }
+    return QuotaService.instance;
+  }
+
+  public useStore(store: CollectionStore<UsageCounter>): void {
+    this.counters = store;
+  }
+
+  // Count one request against the organization's monthly quota; requests over the quota are refused and not counted
+  public async consume(organization: Organization, apiKeyId?: string): Promise<QuotaCheck> {
+    const now = new Date();
+    const limit = entitlementService.getQuota(organization).monthlyRequests;
+    const resetAt = periodEnd(now);
+
+    const { allowed, used, crossed } = await this.withLock(async () => {
+      const counter = await this.getUsage(organization.id, now);
+      if (limit !== null && counter.requests >= limit) {
+        return { allowed: false, used: counter.requests, crossed: [] as number[] };
+      }
+
+      counter.requests += 1;
+      if (apiKeyId) counter.byApiKey[apiKeyId] = (counter.byApiKey[apiKeyId] ?? 0) + 1;
+      const crossed = limit === null
+        ? []
+        : QUOTA_WARNING_THRESHOLDS.filter(threshold =>
+          !counter.warnedThresholds.includes(threshold) && counter.requests * 100 >= limit * threshold
+        );
+      counter.warnedThresholds.push(...crossed);
+      counter.updatedAt = now;
+      await this.counters.put(counter.id, counter);
+
+      return { allowed: true, used: counter.requests, crossed };
+    });
+
+    if (crossed.length > 0 && limit !== null) {
+      await this.sendWarning(organization, Math.max(...crossed), used, limit, resetAt);
+    }
+
+    return {
+      allowed,
+      limit,
+      used,
+      remaining: limit === null ? null : Math.max(limit - used, 0),
+      resetAt
+    };
+  }
+
+  public async getUsage(organizationId: string, at = new Date()): Promise<UsageCounter> {
+    const period = periodOf(at);
+    const id = `${organizationId}:${period}`;
+    return await this.counters.get(id) ?? {
+      id,
+      organizationId,
+      period,
+      requests: 0,
+      byApiKey: {},
+      warnedThresholds: [],
+      updatedAt: at
+    };
+  }
+
+  // A failed email must never fail the request that triggered it
+  private async sendWarning(organization: Organization, percent: number, used: number, limit: number, resetAt: Date): Promise<void> {
+    try {
+      const recipients = await organizationService.getBillingContacts(organization.id);
+
+      await Promise.all(recipients.map(to => emailService.sendQuotaWarningEmail(to, {
+        organizationName: organization.name,
+        percent,
+        used,
+        limit,
+        resetAt
+      })));
+    } catch (error) {
+      console.error('Error sending quota warning:', error);
+    }
+  }
+
+  private withLock<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.lock.then(task, task);
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+}
+
+export const quotaService = QuotaService.getInstance();
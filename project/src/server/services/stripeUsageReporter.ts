@@ -0,0 +1,31 @@
+import type Stripe from 'stripe';
+import { METERED_PRICE_IDS, type UsageMetric, type UsageReporter } from './usageService';
+
+const BILLABLE_STATUSES = ['active', 'trialing', 'past_due'];
+
+// Reports usage as increments on the metered price item of the customer's subscription
+export class StripeUsageReporter implements UsageReporter {
+  constructor(private readonly stripe: Stripe) {}
+
+  public async findSubscriptionItem(stripeCustomerId: string, metric: UsageMetric): Promise<string | null> {
+    const subscriptions = await this.stripe.subscriptions.list({ customer: stripeCustomerId, status: 'all', limit: 10 });
+    for (const subscription of subscriptions.data) {
+      if (!BILLABLE_STATUSES.includes(subscription.status)) continue;
+      const item = subscription.items.data.find(candidate => candidate.price.id === METERED_PRICE_IDS[metric]);
+      if (item) return item.id;
+    }
+    return null;
+  }
+
+  public async reportUsage(subscriptionItemId: string, quantity: number, timestamp: Date, idempotencyKey: string): Promise<void> {
+    await this.stripe.subscriptionItems.createUsageRecord(
+      subscriptionItemId,
+      {
+        quantity,
+        timestamp: Math.floor(timestamp.getTime() / 1000),
+        action: 'increment'
+      },
+      { idempotencyKey }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import type Stripe from 'stripe';
+import { dunningService } from './dunningService';
+import { emailService } from './emailService';
+import { organizationService } from './organizationService';
+import { subscriptionService } from './subscriptionService';
+import { webhookService, type WebhookEvent } from './webhookService';
+
+function eventTime(event: WebhookEvent): Date {
+  return new Date(event.created * 1000);
+}
+
+async function customerEmail(stripe: Stripe, customer: string | { id: string }): Promise<string | null> {
+  const retrieved = await stripe.customers.retrieve(typeof customer === 'string' ? customer : customer.id);
+  return 'deleted' in retrieved && retrieved.deleted ? null : retrieved.email ?? null;
+}
+
+// Everything the Stripe webhook reacts to; handlers may run more than once for an event, so each must be safe to repeat
+export function registerStripeWebhookHandlers(stripe: Stripe): void {
+  webhookService.registerHandler('subscriptions.sync', 'customer.subscription.*', async (event) => {
+    await subscriptionService.syncFromStripe(event.data.object as Stripe.Subscription, eventTime(event));
+  });
+
+  webhookService.registerHandler('subscriptions.checkout-completed', 'checkout.session.completed', async (event) => {
+    const session = event.data.object as Stripe.Checkout.Session;
+    if (session.mode !== 'subscription' || !session.subscription) return;
+
+    // Normally linked when checkout starts; covers customers created outside our checkout flow
+    const organization = session.client_reference_id
+      ? await organizationService.getOrganization(session.client_reference_id)
+      : null;
+    if (organization && !organization.stripeCustomerId && session.customer) {
+      await organizationService.setStripeCustomerId(
+        organization.id,
+        typeof session.customer === 'string' ? session.customer : session.customer.id
+      );
+    }
+
+    const subscription = await stripe.subscriptions.retrieve(
+      typeof session.subscription === 'string' ? session.subscription : session.subscription.id
+    );
+    await subscriptionService.syncFromStripe(subscription, eventTime(event));
+  });
+
+  webhookService.registerHandler('subscriptions.invoice-status', 'invoice.*', async (event) => {
+    if (event.type === 'invoice.paid' || event.type === 'invoice.payment_failed') {
+      await subscriptionService.recordInvoice(event.data.object as Stripe.Invoice, eventTime(event));
+    }
+  });
+
+  webhookService.registerHandler('emails.invoice-created', 'invoice.created', async (event) => {
+    const invoice = event.data.object as Stripe.Invoice;
+    const email = await customerEmail(stripe, invoice.customer);
+    if (email) await emailService.sendInvoiceEmail(email, invoice);
+  });
+
+  // Dunning sends its own escalating emails, so failed payments have no separate notice
+  webhookService.registerHandler('dunning.payment-failed', 'invoice.payment_failed', async (event) => {
+    await dunningService.recordPaymentFailure(event.data.object as Stripe.Invoice, eventTime(event));
+  });
+
+  webhookService.registerHandler('dunning.invoice-paid', 'invoice.paid', async (event) => {
+    await dunningService.resolveInvoice(event.data.object as Stripe.Invoice, eventTime(event));
+  });
+
+  webhookService.registerHandler('dunning.subscription-deleted', 'customer.subscription.deleted', async (event) => {
+    const subscription = await subscriptionService.getSubscription((event.data.object as Stripe.Subscription).id);
+    if (subscription) await dunningService.resolve(subscription.organizationId, 'canceled', eventTime(event));
+  });
+
+  webhookService.registerHandler('emails.invoice-upcoming', 'invoice.upcoming', async (event) => {
+    const invoice = event.data.object as Stripe.Invoice;
+    const email = await customerEmail(stripe, invoice.customer);
+    if (email) await emailService.sendPaymentReminder(email, invoice);
+  });
+
+  webhookService.registerHandler('emails.charge-refunded', 'charge.refunded', async (event) => {
+    const charge = event.data.object as Stripe.Charge;
+    const email = charge.billing_details?.email
+      ?? charge.receipt_email
+      ?? (charge.customer ? await customerEmail(stripe, charge.customer) : null);
+    if (email) await emailService.sendRefundNotice(email, charge);
+  });
+}
@@ -0,0 +1,168 @@
+import type Stripe from 'stripe';
+import { createStore, type CollectionStore } from '../../lib/storage';
+import { getPlanForPriceId, type PlanTier } from '../../lib/stripe';
+import { organizationService } from './organizationService';
+
+// Stripe statuses under which the customer keeps their plan
+const LIVE_STATUSES = ['active', 'trialing', 'past_due'];
+
+// A plan change booked to take effect when the current period ends
+export interface ScheduledPlanChange {
+  priceId: string;
+  plan: PlanTier;
+  effectiveAt: Date;
+}
+
+// Local copy of a Stripe subscription, kept current by webhooks so requests never wait on Stripe
+export interface SubscriptionRecord {
+  id: string;
+  organizationId: string;
+  stripeCustomerId: string;
+  status: string;
+  plan: PlanTier | null;
+  priceId: string | null;
+  currentPeriodStart: Date;
+  currentPeriodEnd: Date;
+  cancelAtPeriodEnd: boolean;
+  trialEnd?: Date;
+  // The trial end the reminder email went out for; an extended trial gets a fresh reminder
+  trialReminderSentFor?: Date;
+  canceledAt?: Date;
+  latestInvoiceStatus?: string;
+  lastPaidAt?: Date;
+  scheduledChange?: ScheduledPlanChange;
+  // Creation time of the newest Stripe event applied, so late or replayed events cannot roll the mirror back
+  lastEventAt: Date;
+  updatedAt: Date;
+}
+
+function toDate(seconds?: number | null): Date | undefined {
+  return seconds ? new Date(seconds * 1000) : undefined;
+}
+
+function idOf(value: string | { id: string }): string {
+  return typeof value === 'string' ? value : value.id;
+}
+
+class SubscriptionService {
+  private static instance: SubscriptionService;
+  private subscriptions: CollectionStore<SubscriptionRecord>;
+
+  private constructor() {
+    this.subscriptions = createStore<SubscriptionRecord>('subscriptions');
+  }
+
+  public static getInstance(): SubscriptionService {
+    if (!SubscriptionService.instance) {
+      SubscriptionService.instance = new SubscriptionService();
+    }
+    return SubscriptionService.instance;
+  }
+
+  public useStore(store: CollectionStore<SubscriptionRecord>): void {
+    this.subscriptions = store;
+  }
+
+  // Apply a Stripe subscription object as of `eventAt`; returns null when the organization is unknown
+  public async syncFromStripe(subscription: Stripe.Subscription, eventAt: Date): Promise<SubscriptionRecord | null> {
+    const stripeCustomerId = idOf(subscription.customer);
+    const organization = await organizationService.getByStripeCustomerId(stripeCustomerId)
+      ?? (subscription.metadata?.organizationId
+        ? await organizationService.getOrganization(subscription.metadata.organizationId)
+        : null);
+    if (!organization) return null;
+
+    const existing = await this.subscriptions.get(subscription.id);
+    if (existing && new Date(existing.lastEventAt) > eventAt) return existing;
+
+    // The items are what Stripe bills; metadata only covers subscriptions whose plan price isn't one we know
+    const priceIds = (subscription.items?.data ?? []).map(item => item.price.id);
+    const priceId = priceIds.find(id => getPlanForPriceId(id)) ?? subscription.metadata?.planId ?? null;
+
+    const currentPeriodStart = toDate(subscription.current_period_start) ?? new Date();
+    // Once the period a change was booked for has rolled over, the change is the subscription itself
+    const scheduledChange = existing?.scheduledChange && new Date(existing.scheduledChange.effectiveAt) > currentPeriodStart
+      ? existing.scheduledChange
+      : undefined;
+
+    const record: SubscriptionRecord = {
+      ...existing,
+      id: subscription.id,
+      organizationId: organization.id,
+      stripeCustomerId,
+      status: subscription.status,
+      plan: priceId ? getPlanForPriceId(priceId) : null,
+      priceId,
+      currentPeriodStart,
+      currentPeriodEnd: toDate(subscription.current_period_end) ?? new Date(),
+      cancelAtPeriodEnd: Boolean(subscription.cancel_at_period_end),
+      trialEnd: toDate(subscription.trial_end),
+      canceledAt: toDate(subscription.canceled_at),
+      scheduledChange,
+      lastEventAt: eventAt,
+      updatedAt: new Date()
+    };
+    await this.subscriptions.put(record.id, record);
+    await this.refreshPlan(organization.id);
+    return record;
+  }
+
+  public async recordInvoice(invoice: Stripe.Invoice, eventAt: Date): Promise<SubscriptionRecord | null> {
+    if (!invoice.subscription) return null;
+    const record = await this.subscriptions.get(idOf(invoice.subscription));
+    if (!record) return null;
+
+    record.latestInvoiceStatus = invoice.status ?? undefined;
+    if (invoice.status === 'paid') {
+      const paidAt = toDate(invoice.status_transitions?.paid_at) ?? eventAt;
+      if (!record.lastPaidAt || new Date(record.lastPaidAt) < paidAt) record.lastPaidAt = paidAt;
+    }
+    record.updatedAt = new Date();
+    await this.subscriptions.put(record.id, record);
+    return record;
+  }
+
+  public async setScheduledChange(subscriptionId: string, change: ScheduledPlanChange | null): Promise<SubscriptionRecord | null> {
+    const record = await this.subscriptions.get(subscriptionId);
+    if (!record) return null;
+
+    record.scheduledChange = change ?? undefined;
+    record.updatedAt = new Date();
+    await this.subscriptions.put(record.id, record);
+    return record;
+  }
+
+  public async markTrialReminderSent(subscriptionId: string, trialEnd: Date): Promise<void> {
+    const record = await this.subscriptions.get(subscriptionId);
+    if (!record) return;
+
+    record.trialReminderSentFor = trialEnd;
+    record.updatedAt = new Date();
+    await this.subscriptions.put(record.id, record);
+  }
+
+  public async listByStatus(status: string): Promise<SubscriptionRecord[]> {
+    return (await this.subscriptions.list()).filter(subscription => subscription.status === status);
+  }
+
+  public async getSubscription(subscriptionId: string): Promise<SubscriptionRecord | null> {
+    return await this.subscriptions.get(subscriptionId) ?? null;
+  }
+
+  // The organization's live subscription, or its most recent one if none is live
+  public async getForOrganization(organizationId: string): Promise<SubscriptionRecord | null> {
+    const subscriptions = (await this.subscriptions.list())
+      .filter(subscription => subscription.organizationId === organizationId)
+      .sort((a, b) => new Date(b.currentPeriodStart).getTime() - new Date(a.currentPeriodStart).getTime());
+    return subscriptions.find(subscription => LIVE_STATUSES.includes(subscription.status)) ?? subscriptions[0] ?? null;
+  }
+
+  // Quotas read the plan off the organization, so keep it in step with the mirror
+  private async refreshPlan(organizationId: string): Promise<void> {
+    const subscription = await this.getForOrganization(organizationId);
+    const live = subscription && LIVE_STATUSES.includes(subscription.status);
+    await organizationService.setPlan(organizationId, live ? subscription.plan : null);
+  }
+}
+
+export const subscriptionService = SubscriptionService.getInstance();
@@ -0,0 +1,69 @@
+import { schedulerService } from '../../lib/scheduler';
+import { STRIPE_PLANS } from '../../lib/stripe';
+import { emailService } from './emailService';
+import { organizationService } from './organizationService';
+import { subscriptionService } from './subscriptionService';
+
+// How long before a trial ends its billing contacts are reminded
+export const TRIAL_REMINDER_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+class TrialService {
+  private static instance: TrialService;
+
+  private constructor() {
+    schedulerService.registerJob({
+      name: 'billing.trial-reminders',
+      schedule: '0 * * * *',
+      jitterMs: 5 * 60 * 1000,
+      description: 'Remind customers before their free trial ends',
+      handler: async () => {
+        await this.sendReminders();
+      }
+    });
+  }
+
+  public static getInstance(): TrialService {
+    if (!TrialService.instance) {
+      TrialService.instance = new TrialService();
+    }
+    return TrialService.instance;
+  }
+
+  // Emails each trial once as it comes within TRIAL_REMINDER_DAYS of ending; returns how many were reminded
+  public async sendReminders(now = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() + TRIAL_REMINDER_DAYS * DAY_MS);
+    let reminded = 0;
+
+    for (const subscription of await subscriptionService.listByStatus('trialing')) {
+      if (!subscription.trialEnd || !subscription.plan) continue;
+      const trialEnd = new Date(subscription.trialEnd);
+      if (trialEnd <= now || trialEnd > cutoff) continue;
+      if (subscription.trialReminderSentFor && new Date(subscription.trialReminderSentFor).getTime() === trialEnd.getTime()) {
+        continue;
+      }
+
+      // One organization's mail failure must not hold up the rest
+      try {
+        const organization = await organizationService.getOrganization(subscription.organizationId);
+        if (!organization) continue;
+
+        const recipients = await organizationService.getBillingContacts(organization.id);
+        await Promise.all(recipients.map(to => emailService.sendTrialEndingEmail(to, {
+          organizationName: organization.name,
+          planName: STRIPE_PLANS[subscription.plan!].name,
+          trialEnd
+        })));
+        await subscriptionService.markTrialReminderSent(subscription.id, trialEnd);
+        reminded++;
+      } catch (error) {
+        console.error(`Error sending trial reminder for ${subscription.id}:`, error);
+      }
+    }
+
+    return reminded;
+  }
+}
+
+export const trialService = TrialService.getInstance();
@@ -0,0 +1,264 @@
+import { createStore, type CollectionStore } from '../../lib/storage';
+import type { PlanTier } from '../../lib/stripe';
+import { schedulerService } from '../../lib/scheduler';
+import { organizationService } from './organizationService';
+
+// Billable metrics, matching the usage dimensions of the marketplace offers
+export type UsageMetric = 'api_calls' | 'storage';
+
+export const USAGE_METRICS: readonly UsageMetric[] = ['api_calls', 'storage'];
+
+// Stripe metered prices each metric is billed against
+export const METERED_PRICE_IDS: Record<UsageMetric, string> = {
+  api_calls: process.env.STRIPE_API_CALLS_PRICE_ID || 'price_api_calls',
+  storage: process.env.STRIPE_STORAGE_PRICE_ID || 'price_storage'
+};
+
+// Metered prices added to a plan's checkout alongside its flat price
+export const PLAN_METERED_METRICS: Record<PlanTier, UsageMetric[]> = {
+  STARTER: ['api_calls'],
+  GROWTH: ['api_calls'],
+  ENTERPRISE: ['api_calls', 'storage']
+};
+
+const BUCKET_MS = 60 * 60 * 1000;
+// Idempotency keys only need to outlive client retries
+const EVENT_KEY_RETENTION_MS = 35 * 24 * 60 * 60 * 1000;
+// Reported usage is kept long enough to show and dispute the last few invoices
+const BUCKET_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+// Usage of one metric by one organization within an hour
+export interface UsageBucket {
+  id: string;
+  organizationId: string;
+  metric: UsageMetric;
+  bucketStart: Date;
+  quantity: number;
+  reportedQuantity: number;
+  lastEventAt: Date;
+  // Written before calling Stripe so a crash mid-report retries with the same idempotency key
+  pendingReport?: { idempotencyKey: string; quantity: number };
+  lastReportedAt?: Date;
+}
+
+export interface UsageEventKey {
+  id: string;
+  bucketId: string;
+  recordedAt: Date;
+}
+
+export interface RecordUsageOptions {
+  // Callers that may retry pass the same key so the event is only billed once
+  idempotencyKey?: string;
+  occurredAt?: Date;
+}
+
+export interface MetricUsage {
+  metric: UsageMetric;
+  quantity: number;
+  reportedQuantity: number;
+}
+
+export interface UsageReportResult {
+  reported: number;
+  skipped: number;
+  failed: number;
+}
+
+// Whatever bills the usage; Stripe in production
+export interface UsageReporter {
+  // The subscription item billed for this metric, or null when the customer is not on a metered price
+  findSubscriptionItem(stripeCustomerId: string, metric: UsageMetric): Promise<string | null>;
+  reportUsage(subscriptionItemId: string, quantity: number, timestamp: Date, idempotencyKey: string): Promise<void>;
+}
+
+// Subscriptions without a Stripe billing period fall back to the calendar month
+export function calendarMonth(at = new Date()): { start: Date; end: Date } {
+  return {
+    start: new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth() + 1, 1))
+  };
+}
+
+class UsageService {
+  private static instance: UsageService;
+  private buckets: CollectionStore<UsageBucket>;
+  private eventKeys: CollectionStore<UsageEventKey>;
+  private reporter: UsageReporter | null = null;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  private constructor() {
+    this.buckets = createStore<UsageBucket>('usage_buckets');
+    this.eventKeys = createStore<UsageEventKey>('usage_event_keys');
+
+    schedulerService.registerJob({
+      name: 'billing.report-usage',
+      schedule: '*/15 * * * *',
+      jitterMs: 60 * 1000,
+      description: 'Report metered usage to Stripe',
+      handler: async () => {
+        // Failed buckets are retried next run, but the run itself must show up as failed
+        const { failed } = await this.reportUsage();
+        if (failed > 0) throw new Error(`Failed to report usage for ${failed} bucket(s)`);
+      }
+    });
+  }
+
+  public static getInstance(): UsageService {
+    if (!UsageService.instance) {
+      UsageService.instance = new UsageService();
+    }
+    return UsageService.instance;
+  }
+
+  public useStores(buckets: CollectionStore<UsageBucket>, eventKeys: CollectionStore<UsageEventKey>): void {
+    this.buckets = buckets;
+    this.eventKeys = eventKeys;
+  }
+
+  public useReporter(reporter: UsageReporter | null): void {
+    this.reporter = reporter;
+  }
+
+  // Returns false when an event with the same idempotency key was already recorded
+  public async recordUsage(
+    organizationId: string,
+    metric: UsageMetric,
+    quantity = 1,
+    options: RecordUsageOptions = {}
+  ): Promise<boolean> {
+    if (!Number.isFinite(quantity) || quantity <= 0) throw new Error('Usage quantity must be positive');
+    const occurredAt = options.occurredAt ?? new Date();
+    const bucketStart = new Date(Math.floor(occurredAt.getTime() / BUCKET_MS) * BUCKET_MS);
+    const id = `${organizationId}:${metric}:${bucketStart.toISOString()}`;
+
+    return this.withLock(async () => {
+      if (options.idempotencyKey) {
+        const keyId = `${organizationId}:${options.idempotencyKey}`;
+        if (await this.eventKeys.get(keyId)) return false;
+        await this.eventKeys.put(keyId, { id: keyId, bucketId: id, recordedAt: new Date() });
+      }
+
+      const bucket = await this.buckets.get(id) ?? {
+        id,
+        organizationId,
+        metric,
+        bucketStart,
+        quantity: 0,
+        reportedQuantity: 0,
+        lastEventAt: occurredAt
+      };
+      bucket.quantity += quantity;
+      if (occurredAt > new Date(bucket.lastEventAt)) bucket.lastEventAt = occurredAt;
+      await this.buckets.put(id, bucket);
+      return true;
+    });
+  }
+
+  // Totals for every metric with usage in [start, end)
+  public async getUsageForPeriod(organizationId: string, start: Date, end: Date): Promise<MetricUsage[]> {
+    const totals = new Map<UsageMetric, MetricUsage>();
+    for (const bucket of await this.buckets.list()) {
+      const bucketStart = new Date(bucket.bucketStart);
+      if (bucket.organizationId !== organizationId || bucketStart < start || bucketStart >= end) continue;
+
+      const total = totals.get(bucket.metric) ?? { metric: bucket.metric, quantity: 0, reportedQuantity: 0 };
+      total.quantity += bucket.quantity;
+      total.reportedQuantity += bucket.reportedQuantity;
+      totals.set(bucket.metric, total);
+    }
+    return USAGE_METRICS.map(metric => totals.get(metric) ?? { metric, quantity: 0, reportedQuantity: 0 });
+  }
+
+  // Send everything recorded since the last report; safe to run repeatedly and to retry after a crash
+  public async reportUsage(): Promise<UsageReportResult> {
+    const result: UsageReportResult = { reported: 0, skipped: 0, failed: 0 };
+    if (!this.reporter) return result;
+
+    const pending = (await this.buckets.list())
+      .filter(bucket => bucket.pendingReport || bucket.quantity > bucket.reportedQuantity)
+      .sort((a, b) => new Date(a.bucketStart).getTime() - new Date(b.bucketStart).getTime());
+    const items = new Map<string, string | null>();
+
+    for (const bucket of pending) {
+      try {
+        const organization = await organizationService.getOrganization(bucket.organizationId);
+        if (!organization?.stripeCustomerId) {
+          result.skipped++;
+          continue;
+        }
+
+        const itemKey = `${organization.id}:${bucket.metric}`;
+        if (!items.has(itemKey)) {
+          items.set(itemKey, await this.reporter.findSubscriptionItem(organization.stripeCustomerId, bucket.metric));
+        }
+        const subscriptionItemId = items.get(itemKey);
+        if (!subscriptionItemId) {
+          result.skipped++;
+          continue;
+        }
+
+        const report = await this.withLock(async () => {
+          const current = await this.buckets.get(bucket.id);
+          if (!current) return null;
+          if (!current.pendingReport) {
+            const quantity = current.quantity - current.reportedQuantity;
+            if (quantity <= 0) return null;
+            current.pendingReport = {
+              idempotencyKey: `usage-${current.id}-${current.reportedQuantity}-${current.quantity}`,
+              quantity
+            };
+            await this.buckets.put(current.id, current);
+          }
+          return { report: current.pendingReport, timestamp: new Date(current.lastEventAt) };
+        });
+        if (!report) continue;
+
+        await this.reporter.reportUsage(subscriptionItemId, report.report.quantity, report.timestamp, report.report.idempotencyKey);
+
+        await this.withLock(async () => {
+          const current = await this.buckets.get(bucket.id);
+          if (!current?.pendingReport) return;
+          current.reportedQuantity += current.pendingReport.quantity;
+          delete current.pendingReport;
+          current.lastReportedAt = new Date();
+          await this.buckets.put(current.id, current);
+        });
+        result.reported++;
+      } catch (error) {
+        console.error(`Error reporting usage for ${bucket.id}:`, error);
+        result.failed++;
+      }
+    }
+
+    await this.pruneEventKeys();
+    await this.pruneReportedBuckets();
+    return result;
+  }
+
+  private async pruneEventKeys(): Promise<void> {
+    const cutoff = Date.now() - EVENT_KEY_RETENTION_MS;
+    for (const key of await this.eventKeys.list()) {
+      if (new Date(key.recordedAt).getTime() < cutoff) await this.eventKeys.delete(key.id);
+    }
+  }
+
+  // Buckets with anything left to bill are kept however old they are
+  private async pruneReportedBuckets(): Promise<void> {
+    const cutoff = Date.now() - BUCKET_RETENTION_MS;
+    await this.withLock(async () => {
+      for (const bucket of await this.buckets.list()) {
+        const reported = !bucket.pendingReport && bucket.reportedQuantity >= bucket.quantity;
+        if (reported && new Date(bucket.bucketStart).getTime() < cutoff) await this.buckets.delete(bucket.id);
+      }
+    });
+  }
+
+  private withLock<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.lock.then(task, task);
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+}
+
+export const usageService = UsageService.getInstance();
@@ -0,0 +1,168 @@
+import { createStore, type CollectionStore } from '../../lib/storage';
+
+// The parts of a Stripe event the log relies on; handlers narrow `data.object` by the event type they listen for
+export interface WebhookEvent {
+  id: string;
+  type: string;
+  created: number;
+  data: { object: unknown };
+}
+
+export type WebhookEventStatus = 'pending' | 'processed' | 'failed' | 'ignored';
+
+export interface WebhookEventRecord {
+  id: string;
+  type: string;
+  payload: WebhookEvent;
+  status: WebhookEventStatus;
+  attempts: number;
+  // Handlers that already succeeded for this event are not run again on retry
+  completedHandlers: string[];
+  receivedAt: Date;
+  processedAt?: Date;
+  lastError?: string;
+}
+
+export type WebhookHandler = (event: WebhookEvent) => Promise<void>;
+
+interface RegisteredHandler {
+  name: string;
+  pattern: string;
+  handler: WebhookHandler;
+}
+
+export interface WebhookEventFilter {
+  status?: WebhookEventStatus;
+  type?: string;
+  limit?: number;
+}
+
+// `customer.subscription.*` matches every subscription event
+function matches(pattern: string, type: string): boolean {
+  return pattern.endsWith('.*') ? type.startsWith(pattern.slice(0, -1)) : pattern === type;
+}
+
+class WebhookService {
+  private static instance: WebhookService;
+  private events: CollectionStore<WebhookEventRecord>;
+  private handlers: RegisteredHandler[] = [];
+  private inFlight = new Map<string, Promise<WebhookEventRecord>>();
+
+  private constructor() {
+    this.events = createStore<WebhookEventRecord>('webhook_events');
+  }
+
+  public static getInstance(): WebhookService {
+    if (!WebhookService.instance) {
+      WebhookService.instance = new WebhookService();
+    }
+    return WebhookService.instance;
+  }
+
+  public useStore(store: CollectionStore<WebhookEventRecord>): void {
+    this.events = store;
+  }
+
+  // Handler names must be unique; registering a name again replaces it
+  public registerHandler(name: string, pattern: string, handler: WebhookHandler): void {
+    this.handlers = this.handlers.filter(registered => registered.name !== name);
+    this.handlers.push({ name, pattern, handler });
+  }
+
+  public unregisterHandler(name: string): void {
+    this.handlers = this.handlers.filter(registered => registered.name !== name);
+  }
+
+  public listHandlers(): { name: string; pattern: string }[] {
+    return this.handlers.map(({ name, pattern }) => ({ name, pattern }));
+  }
+
+  // Log the event and run its handlers; deliveries of an event that already went through are acknowledged without side effects
+  public async receive(event: WebhookEvent): Promise<{ duplicate: boolean; record: WebhookEventRecord }> {
+    const running = this.inFlight.get(event.id);
+    if (running) return { duplicate: true, record: await running };
+
+    const existing = await this.events.get(event.id);
+    if (existing && (existing.status === 'processed' || existing.status === 'ignored')) {
+      return { duplicate: true, record: existing };
+    }
+
+    const record: WebhookEventRecord = existing ?? {
+      id: event.id,
+      type: event.type,
+      payload: event,
+      status: 'pending',
+      attempts: 0,
+      completedHandlers: [],
+      receivedAt: new Date()
+    };
+    if (!existing) await this.events.put(record.id, record);
+
+    return { duplicate: false, record: await this.run(record, false) };
+  }
+
+  // Run a logged event again; `force` also reruns handlers that already succeeded
+  public async replay(eventId: string, options: { force?: boolean } = {}): Promise<WebhookEventRecord> {
+    const record = await this.events.get(eventId);
+    if (!record) throw new Error(`Webhook event ${eventId} not found`);
+
+    const running = this.inFlight.get(eventId);
+    if (running) await running;
+    return this.run(record, options.force ?? false);
+  }
+
+  public async replayFailed(): Promise<WebhookEventRecord[]> {
+    const failed = await this.listEvents({ status: 'failed' });
+    const results: WebhookEventRecord[] = [];
+    // Oldest first, so the mirror sees events in the order Stripe sent them
+    for (const record of failed.reverse()) {
+      results.push(await this.replay(record.id));
+    }
+    return results;
+  }
+
+  public async getEvent(eventId: string): Promise<WebhookEventRecord | null> {
+    return await this.events.get(eventId) ?? null;
+  }
+
+  // Newest first
+  public async listEvents(filter: WebhookEventFilter = {}): Promise<WebhookEventRecord[]> {
+    const events = (await this.events.list())
+      .filter(record => !filter.status || record.status === filter.status)
+      .filter(record => !filter.type || matches(filter.type, record.type))
+      .sort((a, b) => b.payload.created - a.payload.created);
+    return filter.limit ? events.slice(0, filter.limit) : events;
+  }
+
+  private run(record: WebhookEventRecord, force: boolean): Promise<WebhookEventRecord> {
+    const run = this.process(record, force).finally(() => this.inFlight.delete(record.id));
+    this.inFlight.set(record.id, run);
+    return run;
+  }
+
+  private async process(record: WebhookEventRecord, force: boolean): Promise<WebhookEventRecord> {
+    const handlers = this.handlers.filter(registered => matches(registered.pattern, record.type));
+    if (force) record.completedHandlers = [];
+
+    record.attempts += 1;
+    record.lastError = undefined;
+
+    for (const { name, handler } of handlers) {
+      if (record.completedHandlers.includes(name)) continue;
+      try {
+        await handler(record.payload);
+        record.completedHandlers.push(name);
+      } catch (error) {
+        console.error(`Webhook handler ${name} failed for ${record.type} ${record.id}:`, error);
+        record.lastError = `${name}: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+
+    record.status = record.lastError ? 'failed' : handlers.length === 0 ? 'ignored' : 'processed';
+    record.processedAt = new Date();
+    await this.events.put(record.id, record);
+    return record;
+  }
+}
+
+export const webhookService = WebhookService.getInstance();
@@ -0,0 +1,72 @@
+import { initTRPC, TRPCError } from '@trpc/server';
+import type { Context } from './context';
+import { authService } from './services/authService';
+import { hasPermission, type Permission } from './services/organizationService';
+import { entitlementService } from './services/entitlementService';
+import { FEATURE_LABELS, PLAN_NAMES, minimumPlanFor, planHasFeature, type Feature } from '../lib/entitlements';
+
+export const t = initTRPC.context<Context>().create();
+
+// Narrows the context so procedures can rely on a signed-in user
+export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.user) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'You must be signed in' });
+  }
+  return next({ ctx: { ...ctx, user: ctx.user } });
+});
+
+// Chain onto a procedure that a browser session must perform itself, never an API key
+export const rejectApiKeys = t.middleware(({ ctx, next }) => {
+  if (ctx.apiKey) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'This action is not available to API keys' });
+  }
+  return next();
+});
+
+// For account-level actions
+export const sessionProcedure = protectedProcedure.use(rejectApiKeys);
+
+// Platform operators only, and never through an API key
+export const adminProcedure = sessionProcedure.use(({ ctx, next }) => {
+  if (!authService.isPlatformAdmin(ctx.user)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'This action is restricted to platform administrators' });
+  }
+  return next();
+});
+
+// Signed in and acting within an organization the user belongs to
+export const organizationProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (!ctx.organization || !ctx.role) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'You are not a member of this organization' });
+  }
+  return next({ ctx: { ...ctx, organization: ctx.organization, role: ctx.role } });
+});
+
+export function requirePermission(permission: Permission) {
+  return organizationProcedure.use(({ ctx, next }) => {
+    if (!hasPermission(ctx.role, permission)) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: `Your role does not allow ${permission}` });
+    }
+    // A key never exceeds its creator's role, and is further limited to its own scopes
+    if (ctx.apiKey && !(ctx.apiKey.scopes as string[]).includes(permission)) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: `This API key is not scoped for ${permission}` });
+    }
+    return next();
+  });
+}
+
+// Chain after an organization procedure to restrict it to plans that include the feature
+export function requireFeature(feature: Feature) {
+  return t.middleware(({ ctx, next }) => {
+    if (ctx.organization && entitlementService.hasFeature(ctx.organization, feature)) return next();
+
+    // The subscribed plan includes it, so only an overdue invoice is holding it back
+    const overdue = Boolean(ctx.organization && planHasFeature(ctx.organization.plan ?? 'FREE', feature));
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: overdue
+        ? `${FEATURE_LABELS[feature]} is unavailable until the overdue invoice is paid`
+        : `${FEATURE_LABELS[feature]} requires the ${PLAN_NAMES[minimumPlanFor(feature)]} plan or higher`
+    });
+  });
+}
@@ -0,0 +1,106 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { organizationService, type Organization } from '../server/services/organizationService';
+import {
+  LocalAnalyticsSource,
+  analyticsEventService,
+  type AnalyticsRecord
+} from '../server/services/analyticsEventService';
+import { analyticsRouter } from '../server/routers/analytics';
+import { analyticsService } from '../lib/analytics';
+import { aggregateSeries, percentile, STANDARD_METRICS, type SeriesQuery } from '../lib/timeseries';
+import { InMemoryLog } from '../lib/storage';
+import { contextFor, resetAccounts, sessionHeaders, signUpOwner } from './helpers';
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.UTC(2024, 5, 1);
+
+function sample(hour: number, value: number, properties: Record<string, unknown> = {}) {
+  return { timestamp: START + hour * HOUR_MS + 60_000, value, properties };
+}
+
+describe('Time-series aggregation', () => {
+  const query: SeriesQuery = { name: 'api_latency', aggregation: 'sum', bucket: 'hour', from: START, to: START + 3 * HOUR_MS - 1 };
+
+  test('buckets samples and reduces them with each aggregation', () => {
+    const samples = [sample(0, 100), sample(0, 200), sample(0, 300), sample(0, 400), sample(2, 50)];
+
+    expect(aggregateSeries(samples, query)).toEqual([
+      { timestamp: START, value: 1000 },
+      { timestamp: START + HOUR_MS, value: 0 },
+      { timestamp: START + 2 * HOUR_MS, value: 50 }
+    ]);
+    // Averages and percentiles skip buckets with nothing in them
+    expect(aggregateSeries(samples, { ...query, aggregation: 'avg' }).map(point => point.value)).toEqual([250, 50]);
+    expect(aggregateSeries(samples, { ...query, aggregation: 'p50' })[0].value).toBe(250);
+    expect(aggregateSeries(samples, { ...query, aggregation: 'p95' })[0].value).toBeCloseTo(385);
+    expect(aggregateSeries(samples, { ...query, aggregation: 'rate' })[2].value).toBeCloseTo(50 / 3600);
+    expect(percentile([1, 2, 3, 4, 5, 6, 7, 8, 9, 10], 99)).toBeCloseTo(9.91);
+  });
+
+  test('splits a series by a metadata key', () => {
+    const samples = [sample(0, 1, { region: 'eu' }), sample(0, 1, { region: 'us' }), sample(1, 1, { region: 'eu' }), sample(2, 1)];
+
+    const grouped = aggregateSeries(samples, { ...query, groupBy: 'region' });
+    expect(grouped.filter(point => point.metadata?.region === 'eu').map(point => point.value)).toEqual([1, 1, 0]);
+    expect(grouped.filter(point => point.metadata?.region === 'us').map(point => point.value)).toEqual([1, 0, 0]);
+    expect(grouped.filter(point => point.metadata?.region === null).map(point => point.value)).toEqual([0, 0, 1]);
+  });
+});
+
+describe('Metric reports', () => {
+  let organization: Organization;
+  let token: string;
+
+  beforeEach(async () => {
+    resetAccounts();
+    analyticsEventService.useLog(new InMemoryLog<AnalyticsRecord>());
+
+    ({ token, organization } = await signUpOwner());
+  });
+
+  test('the series API aggregates the caller organization\'s metrics and refuses oversized ranges', async () => {
+    const now = Date.now();
+    await analyticsEventService.ingest({
+      metrics: { api_latency: [{ timestamp: now - 1000, value: 120 }, { timestamp: now - 500, value: 80 }] }
+    }, { organizationId: organization.id }, now);
+    await analyticsEventService.ingest({
+      metrics: { api_latency: [{ timestamp: now - 1000, value: 5000 }] }
+    }, { organizationId: null }, now);
+
+    const from = new Date(now - HOUR_MS);
+    const to = new Date(now);
+    const free = analyticsRouter.createCaller(await contextFor(sessionHeaders(token)));
+    await expect(free.series({ queries: [{ name: 'api_latency', aggregation: 'avg', bucket: 'day', from, to }] }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN', message: 'Basic Analytics requires the Starter plan or higher' });
+
+    await organizationService.setPlan(organization.id, 'STARTER');
+    const caller = analyticsRouter.createCaller(await contextFor(sessionHeaders(token)));
+
+    const [latency] = await caller.series({ queries: [{ name: 'api_latency', aggregation: 'avg', bucket: 'day', from, to }] });
+    expect(latency.map(point => point.value)).toEqual([100]);
+
+    await expect(caller.series({
+      queries: [{ name: 'api_latency', aggregation: 'sum', bucket: 'minute', from: new Date(now - 30 * 24 * HOUR_MS), to }]
+    })).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  test('performance metrics are derived from reported requests, errors and latency', async () => {
+    analyticsService.useSource(new LocalAnalyticsSource());
+    const day = Date.UTC(2024, 5, 3);
+    const at = (offset: number) => day + offset * HOUR_MS;
+
+    await analyticsEventService.ingest({
+      events: [
+        ...[1, 2, 3, 4].map(hour => ({ event: STANDARD_METRICS.apiRequest, timestamp: at(hour) })),
+        { event: STANDARD_METRICS.apiError, timestamp: at(2) }
+      ],
+      metrics: { [STANDARD_METRICS.apiLatency]: [{ timestamp: at(1), value: 90 }, { timestamp: at(3), value: 110 }] }
+    }, { organizationId: null }, at(5));
+
+    const metrics = await analyticsService.getPerformanceMetrics(new Date(day), new Date(at(23)), 'day');
+    expect(metrics.requestVolume).toEqual([{ timestamp: day, value: 4 }]);
+    expect(metrics.errorRates).toEqual([{ timestamp: day, value: 0.25 }]);
+    expect(metrics.successRates).toEqual([{ timestamp: day, value: 0.75 }]);
+    expect(metrics.apiLatency).toEqual([{ timestamp: day, value: 100 }]);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, appendFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { ServerResponse } from 'http';
+import { organizationService, type Organization } from '../server/services/organizationService';
+import { apiKeyService, type ApiKey } from '../server/services/apiKeyService';
+import { analyticsEventService, type AnalyticsRecord } from '../server/services/analyticsEventService';
+import { requireMember } from '../server/middleware/memberAuth';
+import { ingestEvents, ingestMetrics, type IngestRequest } from '../server/routes/analyticsIngest';
+import { analyticsRouter } from '../server/routers/analytics';
+import { analyticsService, type AnalyticsSink } from '../lib/analytics';
+import { InMemoryLog, InMemoryStore, NdjsonLog } from '../lib/storage';
+import { contextFor, resetAccounts, sessionHeaders, signUpOwner } from './helpers';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Analytics ingestion', () => {
+  let organization: Organization;
+  let token: string;
+
+  // Runs the route the way index.js mounts it
+  async function post(handler: typeof ingestEvents, body: unknown, credential = `session=${token}`) {
+    const headers = credential.startsWith('session=') ? { cookie: credential } : { 'x-api-key': credential };
+    const req = { headers, body } as unknown as IngestRequest;
+    const res = { statusCode: 200, setHeader: vi.fn(), end: vi.fn() };
+    const next = vi.fn();
+
+    await requireMember('analytics:write')(req, res as unknown as ServerResponse, () => next());
+    if (next.mock.calls.length) await handler(req, res as unknown as ServerResponse, next);
+    const payload = res.end.mock.calls[0]?.[0];
+    return { status: res.statusCode, body: payload ? JSON.parse(payload) : undefined };
+  }
+
+  async function caller() {
+    return analyticsRouter.createCaller(await contextFor(sessionHeaders(token)));
+  }
+
+  beforeEach(async () => {
+    resetAccounts();
+    apiKeyService.useStore(new InMemoryStore<ApiKey>());
+    analyticsEventService.useLog(new InMemoryLog<AnalyticsRecord>());
+
+    ({ token, organization } = await signUpOwner());
+  });
+
+  test('accepts event batches and single events, and rejects malformed or expired ones', async () => {
+    const now = Date.now();
+    const batch = await post(ingestEvents, {
+      events: [
+        { event: 'signup_started', properties: { plan: 'GROWTH' }, timestamp: now - 1000 },
+        { event: 'signup_completed', properties: { plan: 'GROWTH' } },
+        { event: 'ancient', timestamp: now - 365 * DAY_MS }
+      ]
+    });
+    expect(batch).toEqual({ status: 202, body: { success: true, accepted: 2, rejected: 1 } });
+
+    expect((await post(ingestEvents, { event: 'page_view', timestamp: now })).status).toBe(202);
+
+    const invalid = await post(ingestEvents, { events: [{ event: '' }] });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error.message).toContain('events.0.event');
+
+    expect((await post(ingestEvents, { event: 'page_view' }, 'session=nope')).status).toBe(401);
+
+    const stored = await analyticsEventService.query({ organizationId: organization.id, from: now - DAY_MS, to: now + DAY_MS });
+    expect(stored.map(record => record.name).sort()).toEqual(['page_view', 'signup_completed', 'signup_started']);
+    expect(stored.find(record => record.name === 'signup_started')).toMatchObject({
+      type: 'event',
+      value: 1,
+      properties: { plan: 'GROWTH' }
+    });
+  });
+
+  test('API keys need the analytics:write scope', async () => {
+    const { key: readOnly } = await apiKeyService.createKey(organization.id, { name: 'Reader', scopes: ['analytics:read'] }, organization.ownerId);
+    const { key: writer } = await apiKeyService.createKey(organization.id, { name: 'Writer', scopes: ['analytics:write'] }, organization.ownerId);
+
+    expect((await post(ingestMetrics, { latency: [{ timestamp: Date.now(), value: 120 }] }, readOnly)).status).toBe(403);
+    const accepted = await post(ingestMetrics, { latency: [{ timestamp: Date.now(), value: 120 }] }, writer);
+    expect(accepted.body).toMatchObject({ accepted: 1 });
+
+    const [record] = await analyticsEventService.query({ organizationId: organization.id, from: 0, to: Date.now() + DAY_MS });
+    expect(record).toMatchObject({ type: 'metric', name: 'latency', value: 120 });
+    expect(record.apiKeyId).toBeDefined();
+  });
+
+  test('the query API only returns the caller organization\'s data', async () => {
+    const now = Date.now();
+    await post(ingestMetrics, {
+      latency: [{ timestamp: now - 2000, value: 100, metadata: { region: 'eu' } }, { timestamp: now - 1000, value: 300, metadata: { region: 'us' } }],
+      errors: [{ timestamp: now, value: 1 }]
+    });
+    await analyticsEventService.ingest({ events: [{ event: 'other_org', timestamp: now }] }, { organizationId: 'org_other' });
+
+    const from = new Date(now - DAY_MS);
+    const to = new Date(now + DAY_MS);
+    await expect((await caller()).events({ from, to })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect((await caller()).names({ from, to })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await organizationService.setPlan(organization.id, 'STARTER');
+    const api = await caller();
+
+    const eu = await api.events({ from, to, names: ['latency'], where: { region: 'eu' } });
+    expect(eu.map(record => record.value)).toEqual([100]);
+    expect(await api.names({ from, to })).toEqual([
+      { type: 'metric', name: 'latency', count: 2 },
+      { type: 'metric', name: 'errors', count: 1 }
+    ]);
+  });
+});
+
+describe('NDJSON event log', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'analytics-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test('appends to day segments, survives a torn write and drops segments past retention', async () => {
+    const log = new NdjsonLog<AnalyticsRecord>(directory);
+    analyticsEventService.useLog(log);
+    const now = Date.UTC(2024, 5, 30, 12);
+
+    await analyticsEventService.ingest({ events: [{ event: 'old', timestamp: now - 89 * DAY_MS }] }, { organizationId: 'org_1' }, now);
+    await analyticsEventService.ingest({ events: [{ event: 'new', timestamp: now }] }, { organizationId: 'org_1' }, now);
+    await appendFile(path.join(directory, '2024-06-30.ndjson'), '{"id":"torn');
+
+    expect(await log.segments()).toEqual(['2024-04-02', '2024-06-30']);
+    expect((await log.read('2024-06-30')).map(record => record.name)).toEqual(['new']);
+
+    expect(await analyticsEventService.enforceRetention(now + 2 * DAY_MS)).toBe(1);
+    expect(await log.segments()).toEqual(['2024-06-30']);
+  });
+});
+
+describe('Client event batching', () => {
+  test('sends events in batches and keeps them when the sink fails', async () => {
+    const sink: AnalyticsSink = { sendEvents: vi.fn(), sendMetrics: vi.fn() };
+    analyticsService.useSink(sink);
+
+    vi.mocked(sink.sendEvents).mockRejectedValueOnce(new Error('offline'));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    for (let i = 0; i < 100; i++) await analyticsService.trackEvent('clicked', { i });
+    expect(sink.sendEvents).toHaveBeenCalledTimes(1);
+
+    await analyticsService.flush();
+    expect(sink.sendEvents).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(sink.sendEvents).mock.calls[1][0]).toHaveLength(100);
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import type { LookupAddress } from 'dns';
+import { organizationService, type Organization } from '../server/services/organizationService';
+import { analyticsEventService, type AnalyticsRecord } from '../server/services/analyticsEventService';
+import {
+  EmailAnomalyChannel,
+  WebhookAnomalyChannel,
+  anomalyService,
+  publicOnlyLookup,
+  signPayload,
+  type AlertSettings,
+  type Anomaly,
+  type AnomalyMonitor,
+  type WebhookTransport
+} from '../server/services/anomalyService';
+import { emailService } from '../server/services/emailService';
+import { anomaliesRouter } from '../server/routers/anomalies';
+import { createDetectorState, explain, observe } from '../lib/anomaly';
+import { InMemoryLog, InMemoryStore } from '../lib/storage';
+import { contextFor, resetAccounts, sessionHeaders, signUpOwner } from './helpers';
+
+vi.mock('../server/services/emailService');
+
+const HOUR_MS = 60 * 60 * 1000;
+const WEEK_HOURS = 7 * 24;
+
+// Busy during weekday office hours and quiet otherwise, with a little deterministic noise
+function traffic(timestamp: number, index: number): number {
+  const date = new Date(timestamp);
+  const weekday = date.getUTCDay() >= 1 && date.getUTCDay() <= 5;
+  const officeHours = date.getUTCHours() >= 9 && date.getUTCHours() < 17;
+  return (weekday && officeHours ? 100 : 10) * (1 + 0.02 * ((index % 5) - 2));
+}
+
+describe('Anomaly detection', () => {
+  test('judges each hour against the same hour in earlier weeks', () => {
+    // A Monday
+    const start = Date.UTC(2024, 5, 3);
+    const at = (hour: number) => start + hour * HOUR_MS;
+    const state = createDetectorState();
+    for (let hour = 0; hour < 4 * WEEK_HOURS; hour++) observe(state, at(hour), traffic(at(hour), hour), 'hour');
+
+    const week = 4 * WEEK_HOURS;
+    // Monday's ramp-up from the quiet weekend is expected
+    for (let hour = week; hour < week + 24 + 10; hour++) {
+      expect(observe(state, at(hour), traffic(at(hour), hour), 'hour')).toBeNull();
+    }
+
+    // Tuesday 10:00 at four times the usual load, Wednesday 10:00 at night-time load
+    const spike = observe(state, at(week + 24 + 10), 400, 'hour');
+    expect(spike).toMatchObject({ severity: 'high', direction: 'spike', baseline: 'seasonal', slot: 'Tuesday 10:00 UTC' });
+    expect(spike!.expected).toBeCloseTo(100, -1);
+    expect(observe(state, at(week + 48 + 10), 10, 'hour')).toMatchObject({ severity: 'high', direction: 'drop' });
+
+    // A quiet Saturday morning is expected, but weekday traffic on a Saturday is not
+    for (let hour = week + 5 * 24; hour < week + 5 * 24 + 10; hour++) {
+      expect(observe(state, at(hour), traffic(at(hour), hour), 'hour')).toBeNull();
+    }
+    expect(observe(state, at(week + 5 * 24 + 10), 100, 'hour')).toMatchObject({ direction: 'spike' });
+
+    expect(explain('api_request', 'sum', 'hour', spike!))
+      .toMatch(/^api_request \(hourly sum\) was 400, \d+\.\dσ above the usual 1\d\d for Tuesday 10:00 UTC$/);
+  });
+});
+
+describe('Anomaly alerts', () => {
+  let organization: Organization;
+  let token: string;
+  let monitors: InMemoryStore<AnomalyMonitor>;
+  const transport = vi.fn<WebhookTransport>();
+  // Stands in for DNS; hooks.example.com is public, internal.acme.com points into a private network
+  const resolveHost = vi.fn(async (hostname: string) => [hostname === 'internal.acme.com' ? '10.0.0.5' : '93.184.215.14']);
+
+  // Four weeks of ordinary hourly latency up to the current hour
+  async function ingestHistory(currentHour: number, now: number) {
+    const history = Array.from({ length: 4 * WEEK_HOURS }, (_, index) => {
+      const timestamp = currentHour - (4 * WEEK_HOURS - index) * HOUR_MS;
+      return { timestamp, value: traffic(timestamp, index) };
+    });
+    await analyticsEventService.ingest({ metrics: { api_latency: history } }, { organizationId: organization.id }, now);
+  }
+
+  async function caller() {
+    return anomaliesRouter.createCaller(await contextFor(sessionHeaders(token)));
+  }
+
+  beforeEach(async () => {
+    vi.mocked(emailService.sendAnomalyAlert).mockClear();
+    transport.mockReset().mockResolvedValue(200);
+    resetAccounts();
+    analyticsEventService.useLog(new InMemoryLog<AnalyticsRecord>());
+    monitors = new InMemoryStore<AnomalyMonitor>();
+    anomalyService.useStores(
+      monitors,
+      new InMemoryStore<Anomaly>(),
+      new InMemoryStore<AlertSettings>()
+    );
+    anomalyService.useChannels([new EmailAnomalyChannel(), new WebhookAnomalyChannel(resolveHost, transport)]);
+
+    ({ token, organization } = await signUpOwner());
+    await organizationService.setPlan(organization.id, 'ENTERPRISE');
+  });
+
+  test('a new monitor learns from history and alerts by email and signed webhook on the next unusual hour', async () => {
+    const now = Date.now();
+    const currentHour = Math.floor(now / HOUR_MS) * HOUR_MS;
+    await ingestHistory(currentHour, now);
+
+    const anomalies = await caller();
+    const monitor = await anomalies.createMonitor({ metric: 'api_latency', aggregation: 'avg', bucket: 'hour' });
+    expect(monitor).not.toHaveProperty('state');
+    await expect(anomalies.createMonitor({ metric: 'api_latency', aggregation: 'avg', bucket: 'hour' }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    const settings = await anomalies.updateAlertSettings({
+      minSeverity: 'medium',
+      emails: ['Ops@Acme.com'],
+      webhookUrl: 'https://hooks.example.com/anomalies'
+    });
+    expect(settings.webhookSecret).toBeTruthy();
+
+    await analyticsEventService.ingest({
+      metrics: { api_latency: [{ timestamp: currentHour + 60_000, value: 5000 }] }
+    }, { organizationId: organization.id }, now);
+    const found = await anomalyService.detect(currentHour + HOUR_MS + 5 * 60_000);
+    expect(found).toHaveLength(1);
+    expect(found[0]).toMatchObject({ severity: 'high', direction: 'spike', value: 5000, notified: ['email', 'webhook'] });
+
+    expect(emailService.sendAnomalyAlert).toHaveBeenCalledWith('ops@acme.com', expect.objectContaining({
+      organizationName: 'Acme',
+      metric: 'api_latency',
+      explanation: found[0].explanation
+    }));
+    const [url, request] = transport.mock.calls[0];
+    expect(url).toBe('https://hooks.example.com/anomalies');
+    expect(request).toMatchObject({ lookup: expect.any(Function), timeoutMs: expect.any(Number) });
+    expect(request.headers['X-Anomaly-Signature']).toBe(signPayload(request.body, settings.webhookSecret!));
+    expect(JSON.parse(request.body)).toMatchObject({ type: 'anomaly.detected', anomaly: { id: found[0].id } });
+
+    // The hour has been judged; running again neither re-raises nor re-sends it
+    expect(await anomalyService.detect(currentHour + HOUR_MS + 10 * 60_000)).toEqual([]);
+    expect(await anomalies.list({})).toMatchObject([{ id: found[0].id }]);
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  test('a run that fails before saving the monitor is repeated without alerting twice', async () => {
+    const now = Date.now();
+    const currentHour = Math.floor(now / HOUR_MS) * HOUR_MS;
+    await ingestHistory(currentHour, now);
+    const anomalies = await caller();
+    await anomalies.createMonitor({ metric: 'api_latency', aggregation: 'avg', bucket: 'hour' });
+    await anomalies.updateAlertSettings({ minSeverity: 'medium', emails: ['ops@acme.com'], webhookUrl: null });
+    await analyticsEventService.ingest({
+      metrics: { api_latency: [{ timestamp: currentHour + 60_000, value: 5000 }] }
+    }, { organizationId: organization.id }, now);
+
+    vi.spyOn(monitors, 'put').mockRejectedValueOnce(new Error('disk full'));
+    expect(await anomalyService.detect(currentHour + HOUR_MS + 5 * 60_000)).toEqual([]);
+    expect(await anomalies.list({})).toMatchObject([{ severity: 'high', notified: ['email'] }]);
+
+    expect(await anomalyService.detect(currentHour + HOUR_MS + 10 * 60_000)).toEqual([]);
+    expect(emailService.sendAnomalyAlert).toHaveBeenCalledTimes(1);
+    expect((await monitors.list())[0].evaluatedUntil).toBe(currentHour + HOUR_MS);
+  });
+
+  test('monitors need the advanced analytics plan', async () => {
+    await organizationService.setPlan(organization.id, 'GROWTH');
+    await expect((await caller()).createMonitor({ metric: 'api_latency', aggregation: 'avg', bucket: 'hour' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  test('webhooks never go to private or loopback hosts', async () => {
+    const anomalies = await caller();
+    for (const webhookUrl of ['https://localhost/hooks', 'https://127.0.0.1/hooks', 'https://[::1]/hooks', 'https://[::ffff:10.0.0.1]/hooks', 'https://169.254.169.254/latest']) {
+      await expect(anomalies.updateAlertSettings({ minSeverity: 'low', emails: [], webhookUrl }))
+        .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    }
+
+    // Allowed when saved, but it resolves into a private network by the time the alert goes out; the connection's own lookup refuses it
+    const settings = await anomalies.updateAlertSettings({ minSeverity: 'low', emails: [], webhookUrl: 'https://internal.acme.com/hooks' });
+    const webhook = new WebhookAnomalyChannel(resolveHost);
+    const anomaly = { id: 'monitor:0', organizationId: organization.id } as Anomaly;
+    await expect(webhook.send(anomaly, settings)).rejects.toThrow('not publicly reachable');
+    expect(resolveHost).toHaveBeenCalledTimes(1);
+    expect(resolveHost).toHaveBeenCalledWith('internal.acme.com');
+  });
+
+  test('the webhook connection only accepts the public addresses it resolves itself', async () => {
+    const lookup = (resolve: (hostname: string) => Promise<string[]>, hostname: string) => new Promise<LookupAddress[]>((done, fail) => {
+      publicOnlyLookup(resolve)(hostname, { all: true }, (error, addresses) => error ? fail(error) : done(addresses as LookupAddress[]));
+    });
+
+    await expect(lookup(resolveHost, 'hooks.example.com')).resolves.toEqual([{ address: '93.184.215.14', family: 4 }]);
+    // A name that rebinds between resolutions is judged on the answer the socket gets
+    const rebinding = vi.fn<(hostname: string) => Promise<string[]>>()
+      .mockResolvedValueOnce(['93.184.215.14'])
+      .mockResolvedValueOnce(['93.184.215.14', '127.0.0.1']);
+    await expect(lookup(rebinding, 'rebind.example.com')).resolves.toHaveLength(1);
+    await expect(lookup(rebinding, 'rebind.example.com')).rejects.toThrow('not publicly reachable');
+    await expect(lookup(async () => [], 'empty.example.com')).rejects.toThrow('not publicly reachable');
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import type { ServerResponse } from 'http';
+import { authService, type PublicUser } from '../server/services/authService';
+import { organizationService, type Organization } from '../server/services/organizationService';
+import { apiKeyService, type ApiKey } from '../server/services/apiKeyService';
+import { requireMember, type MemberRequest } from '../server/middleware/memberAuth';
+import { apiKeysRouter } from '../server/routers/apiKeys';
+import { authRouter } from '../server/routers/auth';
+import { t, requirePermission } from '../server/trpc';
+import { InMemoryStore } from '../lib/storage';
+import { PASSWORD, contextFor, resetAccounts, signUpOwner } from './helpers';
+
+vi.mock('../server/services/emailService');
+
+// Stands in for the organization-scoped routers
+const automationRouter = t.router({
+  read: requirePermission('automation:read').query(() => 'ok'),
+  run: requirePermission('automation:manage').mutation(() => 'ok')
+});
+
+describe('API keys', () => {
+  let keyStore: InMemoryStore<ApiKey>;
+  let owner: PublicUser;
+  let organization: Organization;
+
+  beforeEach(async () => {
+    resetAccounts();
+    keyStore = new InMemoryStore<ApiKey>();
+    apiKeyService.useStore(keyStore);
+
+    ({ user: owner, organization } = await signUpOwner());
+  });
+
+  test('stores only a hash and authenticates the issued key', async () => {
+    const { apiKey, key } = await apiKeyService.createKey(
+      organization.id,
+      { name: 'Reporting', scopes: ['analytics:read'] },
+      owner.id
+    );
+
+    expect(key.startsWith(apiKey.prefix)).toBe(true);
+    const stored = await keyStore.get(apiKey.id);
+    expect(JSON.stringify(stored)).not.toContain(key.split('_')[2]);
+    expect((await apiKeyService.listKeys(organization.id))[0]).not.toHaveProperty('keyHash');
+
+    const authenticated = await apiKeyService.authenticate(key);
+    expect(authenticated?.id).toBe(apiKey.id);
+    expect(authenticated?.lastUsedAt).toBeInstanceOf(Date);
+
+    expect(await apiKeyService.authenticate(`${apiKey.prefix}_wrong-secret`)).toBeNull();
+  });
+
+  test('rejects revoked and expired keys', async () => {
+    const revoked = await apiKeyService.createKey(organization.id, { name: 'Old', scopes: ['analytics:read'] }, owner.id);
+    await apiKeyService.revokeKey(organization.id, revoked.apiKey.id);
+    expect(await apiKeyService.authenticate(revoked.key)).toBeNull();
+
+    vi.useFakeTimers();
+    try {
+      const expiring = await apiKeyService.createKey(organization.id, {
+        name: 'Short lived',
+        scopes: ['analytics:read'],
+        expiresAt: new Date(Date.now() + 60_000)
+      }, owner.id);
+      expect(await apiKeyService.authenticate(expiring.key)).not.toBeNull();
+
+      vi.advanceTimersByTime(61_000);
+      expect(await apiKeyService.authenticate(expiring.key)).toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  test('rotation keeps the old key working until the overlap ends', async () => {
+    vi.useFakeTimers();
+    try {
+      const original = await apiKeyService.createKey(organization.id, { name: 'Worker', scopes: ['automation:read'] }, owner.id);
+      const rotated = await apiKeyService.rotateKey(organization.id, original.apiKey.id, 60 * 60 * 1000);
+
+      expect(rotated.apiKey).toMatchObject({ scopes: ['automation:read'], createdBy: owner.id });
+      expect(await apiKeyService.authenticate(original.key)).not.toBeNull();
+      expect(await apiKeyService.authenticate(rotated.key)).not.toBeNull();
+
+      vi.advanceTimersByTime(60 * 60 * 1000 + 1);
+      expect(await apiKeyService.authenticate(original.key)).toBeNull();
+      expect(await apiKeyService.authenticate(rotated.key)).not.toBeNull();
+
+      const keys = await apiKeyService.listKeys(organization.id);
+      expect(keys.find(k => k.id === original.apiKey.id)?.replacedBy).toBe(rotated.apiKey.id);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  test('tRPC requests authenticate by key and are limited to its scopes', async () => {
+    const { key } = await apiKeyService.createKey(organization.id, { name: 'Ops', scopes: ['automation:read'] }, owner.id);
+
+    const ctx = await contextFor({ authorization: `Bearer ${key}` });
+    expect(ctx.organization?.id).toBe(organization.id);
+    expect(ctx.apiKey?.name).toBe('Ops');
+
+    const automation = automationRouter.createCaller(ctx);
+    await expect(automation.read()).resolves.toBe('ok');
+    // The owner may run automation, but this key was not granted automation:manage
+    await expect(automation.run()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    // Account-level actions need a real session
+    const auth = authRouter.createCaller(await contextFor({ 'x-api-key': key }));
+    await expect(auth.logout()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    // A key dies with its creator's membership
+    const member = await authService.signup('dev@acme.com', PASSWORD);
+    const invited = await organizationService.inviteMember(organization.id, 'dev@acme.com', 'developer', owner.id);
+    await organizationService.acceptInvitation(invited.token, member.user);
+    const devKey = await apiKeyService.createKey(organization.id, { name: 'Dev', scopes: ['analytics:read'] }, member.user.id);
+    await organizationService.removeMember(organization.id, member.user.id);
+    expect((await contextFor({ 'x-api-key': devKey.key })).user).toBeNull();
+  });
+
+  test('only lets members rotate or revoke keys their own role covers', async () => {
+    const member = await authService.signup('dev@acme.com', PASSWORD);
+    const invited = await organizationService.inviteMember(organization.id, 'dev@acme.com', 'developer', owner.id);
+    await organizationService.acceptInvitation(invited.token, member.user);
+    const { apiKey } = await apiKeyService.createKey(organization.id, { name: 'Ops', scopes: ['automation:manage'] }, owner.id);
+
+    const developer = apiKeysRouter.createCaller(await contextFor({
+      cookie: `session=${member.token}`,
+      'x-organization-id': organization.id
+    }));
+    await expect(developer.rotateKey({ keyId: apiKey.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(developer.revokeKey({ keyId: apiKey.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    const untouched = await apiKeyService.getKey(organization.id, apiKey.id);
+    expect(untouched.revokedAt).toBeUndefined();
+    expect(untouched.replacedBy).toBeUndefined();
+
+    const own = await developer.createKey({ name: 'Dev', scopes: ['analytics:read'] });
+    await expect(developer.rotateKey({ keyId: own.apiKey.id })).resolves.toMatchObject({ apiKey: { createdBy: member.user.id } });
+  });
+
+  test('Express middleware answers 401 and 403 and attaches the key', async () => {
+    const { key, apiKey } = await apiKeyService.createKey(organization.id, { name: 'Ingest', scopes: ['analytics:write'] }, owner.id);
+
+    async function run(scope: Parameters<typeof requireMember>[0], headers: Record<string, string>) {
+      const req = { headers } as unknown as MemberRequest;
+      const res = { statusCode: 200, setHeader: vi.fn(), end: vi.fn() };
+      const next = vi.fn();
+      await requireMember(scope)(req, res as unknown as ServerResponse, next);
+      return { req, res, next };
+    }
+
+    const missing = await run('analytics:write', {});
+    expect(missing.res.statusCode).toBe(401);
+    expect(missing.res.setHeader).toHaveBeenCalledWith('WWW-Authenticate', 'Bearer');
+    expect(missing.next).not.toHaveBeenCalled();
+
+    const wrongScope = await run('analytics:read', { 'x-api-key': key });
+    expect(wrongScope.res.statusCode).toBe(403);
+    expect(wrongScope.next).not.toHaveBeenCalled();
+
+    const ok = await run('analytics:write', { authorization: `Bearer ${key}` });
+    expect(ok.next).toHaveBeenCalledWith();
+    expect(ok.req.memberAuth).toMatchObject({ organization: { id: organization.id }, apiKeyId: apiKey.id });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { authService, type User } from '../server/services/authService';
+import { organizationService } from '../server/services/organizationService';
+import { createContext } from '../server/context';
+import { authRouter } from '../server/routers/auth';
+import { InMemoryStore } from '../lib/storage';
+import { contextFor, resetAccounts } from './helpers';
+
+vi.mock('../server/services/emailService');
+
+function request(headers: Record<string, string> = {}): IncomingMessage {
+  return { headers } as unknown as IncomingMessage;
+}
+
+function response(): ServerResponse & { setHeader: ReturnType<typeof vi.fn> } {
+  return { setHeader: vi.fn() } as unknown as ServerResponse & { setHeader: ReturnType<typeof vi.fn> };
+}
+
+describe('Authentication', () => {
+  let users: InMemoryStore<User>;
+
+  beforeEach(() => {
+    ({ users } = resetAccounts());
+  });
+
+  test('stores a salted password hash and logs in with the right password only', async () => {
+    const { user } = await authService.signup('Ada@Example.com ', 'correct horse', 'Ada');
+    expect(user.email).toBe('ada@example.com');
+    expect(user).not.toHaveProperty('passwordHash');
+
+    const stored = await users.get(user.id);
+    expect(stored?.passwordHash).toMatch(/^scrypt\$[0-9a-f]+\$[0-9a-f]+$/);
+    expect(stored?.passwordHash).not.toContain('correct horse');
+
+    await expect(authService.signup('ada@example.com', 'another password')).rejects.toThrow('already exists');
+    await expect(authService.signup('bob@example.com', 'short')).rejects.toThrow('at least 8 characters');
+    await expect(authService.login('ada@example.com', 'wrong password')).rejects.toThrow('Invalid email or password');
+    await expect(authService.login('nobody@example.com', 'correct horse')).rejects.toThrow('Invalid email or password');
+
+    const { token } = await authService.login('ADA@example.com', 'correct horse');
+    expect((await authService.authenticate(token))?.user.id).toBe(user.id);
+  });
+
+  test('checks a password even when the email has no account', async () => {
+    await authService.signup('ada@example.com', 'correct horse');
+    const verify = vi.spyOn(authService as unknown as { verifyPassword: () => Promise<boolean> }, 'verifyPassword');
+    try {
+      await expect(authService.login('nobody@example.com', 'correct horse')).rejects.toThrow('Invalid email or password');
+      await expect(authService.login('ada@example.com', 'wrong password')).rejects.toThrow('Invalid email or password');
+      expect(verify).toHaveBeenCalledTimes(2);
+    } finally {
+      verify.mockRestore();
+    }
+  });
+
+  test('ends sessions on logout and expiry', async () => {
+    const { token } = await authService.signup('ada@example.com', 'correct horse');
+    await authService.logout(token);
+    expect(await authService.authenticate(token)).toBeNull();
+
+    vi.useFakeTimers();
+    try {
+      const { token: second } = await authService.login('ada@example.com', 'correct horse');
+      vi.advanceTimersByTime(31 * 24 * 60 * 60 * 1000);
+      expect(await authService.authenticate(second)).toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  test('builds the tRPC context from the session cookie or bearer token', async () => {
+    const { user, token } = await authService.signup('ada@example.com', 'correct horse');
+    const organization = await organizationService.createOrganization('Acme', user.id);
+    await organizationService.setStripeCustomerId(organization.id, 'cus_123');
+
+    const fromCookie = await contextFor({ cookie: `theme=dark; session=${token}` });
+    expect(fromCookie.user?.id).toBe(user.id);
+    expect(fromCookie.organization?.id).toBe(organization.id);
+    expect(fromCookie.stripeCustomerId).toBe('cus_123');
+
+    const fromBearer = await contextFor({ authorization: `Bearer ${token}` });
+    expect(fromBearer.user?.id).toBe(user.id);
+
+    const anonymous = await contextFor({ cookie: 'session=forged' });
+    expect(anonymous.user).toBeNull();
+    expect(anonymous.stripeCustomerId).toBeNull();
+  });
+
+  test('signup sets the session cookie and protected procedures require it', async () => {
+    const res = response();
+    const anonymous = authRouter.createCaller(await createContext({ req: request(), res }));
+
+    await expect(anonymous.logout()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+
+    const { token } = await anonymous.signup({ email: 'ada@example.com', password: 'correct horse' });
+    expect(res.setHeader).toHaveBeenCalledWith('Set-Cookie', expect.stringContaining(`session=${token}; Path=/; HttpOnly`));
+    await expect(anonymous.login({ email: 'ada@example.com', password: 'nope' })).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+
+    const signedIn = authRouter.createCaller(await createContext({ req: request({ cookie: `session=${token}` }), res }));
+    expect((await signedIn.me())?.email).toBe('ada@example.com');
+    await signedIn.logout();
+    expect(await authService.authenticate(token)).toBeNull();
+    expect(res.setHeader).toHaveBeenLastCalledWith('Set-Cookie', expect.stringContaining('Max-Age=0'));
+  });
+});
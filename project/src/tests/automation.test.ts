@@ -139,8 +139,10 @@ describe('Business Automation System', () => {
       const mockInventory = {
         'product-1': {
           quantity: 50,
+          reserved: 0,
           reorderPoint: 100,
-          reorderQuantity: 200
+          reorderQuantity: 200,
+          leadTime: 7
         }
       };
 
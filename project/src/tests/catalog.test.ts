@@ -0,0 +1,184 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { productService } from '../lib/automation/ecommerce/product';
+import { createInMemoryProductRepository } from '../lib/automation/ecommerce/catalog';
+import { analyticsService } from '../lib/analytics';
+import { JsonFileStore } from '../lib/storage';
+import { authService } from '../server/services/authService';
+import { catalogRouter } from '../server/routers/catalog';
+import { PASSWORD, contextFor, resetAccounts, sessionHeaders, signUpPlatformAdmin } from './helpers';
+
+// Mock analytics service
+vi.mock('../lib/analytics', () => ({
+  analyticsService: {
+    trackEvent: vi.fn()
+  }
+}));
+
+const inventory = {
+  quantity: 100,
+  reserved: 0,
+  reorderPoint: 20,
+  reorderQuantity: 50,
+  leadTime: 7
+};
+
+describe('Product Catalog', () => {
+  beforeEach(() => {
+    productService.useRepository(createInMemoryProductRepository());
+  });
+
+  test('should create products and list them', async () => {
+    const product = await productService.createProduct({
+      name: 'Trail Jacket',
+      description: 'Waterproof shell',
+      price: 180,
+      category: 'outerwear',
+      inventory,
+      tags: ['waterproof']
+    });
+
+    expect(product.id).toBeDefined();
+    expect(product.metrics.views).toBe(0);
+    expect(await productService.getAllProducts()).toHaveLength(1);
+    expect(analyticsService.trackEvent).toHaveBeenCalledWith('product_created', expect.any(Object));
+  });
+
+  test('should take stock from variants or require it on the product', async () => {
+    const product = await productService.createProduct({
+      name: 'Trail Jacket',
+      description: '',
+      price: 180,
+      category: 'outerwear',
+      variants: [{ name: 'Medium', sku: 'TJ-M', price: 180, attributes: { size: 'M' }, inventory }]
+    });
+    expect(product.inventory).toMatchObject({ quantity: 100, reorderPoint: 20 });
+
+    await expect(productService.createProduct({ name: 'Wool Socks', description: '', price: 18, category: 'accessories' }))
+      .rejects.toThrow('A product without variants needs its own inventory');
+  });
+
+  test('should search by text, category, price and SKU', async () => {
+    await productService.createProduct({
+      name: 'Trail Jacket',
+      description: 'Waterproof shell',
+      price: 180,
+      category: 'outerwear',
+      variants: [{ name: 'Medium', sku: 'TJ-M', price: 180, attributes: { size: 'M' }, inventory }]
+    });
+    await productService.createProduct({
+      name: 'Wool Socks',
+      description: 'Merino blend',
+      price: 18,
+      category: 'accessories',
+      inventory
+    });
+
+    expect(await productService.searchProducts({ text: 'merino' })).toHaveLength(1);
+    expect(await productService.searchProducts({ category: 'outerwear' })).toHaveLength(1);
+    expect(await productService.searchProducts({ maxPrice: 50 })).toHaveLength(1);
+    expect((await productService.searchProducts({ sku: 'TJ-M' }))[0].name).toBe('Trail Jacket');
+  });
+
+  test('should manage variants and reject duplicate SKUs', async () => {
+    const product = await productService.createProduct({
+      name: 'Trail Jacket',
+      description: '',
+      price: 180,
+      category: 'outerwear',
+      inventory
+    });
+
+    const variant = await productService.addVariant(product.id, {
+      name: 'Large',
+      sku: 'TJ-L',
+      price: 185,
+      attributes: { size: 'L' },
+      inventory
+    });
+
+    await expect(productService.addVariant(product.id, { ...variant, name: 'Copy' }))
+      .rejects.toThrow('SKU TJ-L is already in use');
+
+    const updated = await productService.updateVariant(product.id, variant.id, { price: 190 });
+    expect(updated.price).toBe(190);
+
+    await productService.removeVariant(product.id, variant.id);
+    expect((await productService.getProduct(product.id))?.variants).toHaveLength(0);
+  });
+
+  test('should update and delete products', async () => {
+    const product = await productService.createProduct({
+      name: 'Trail Jacket',
+      description: '',
+      price: 180,
+      category: 'outerwear',
+      inventory
+    });
+
+    await productService.updateProductPrice(product.id, 160);
+    expect((await productService.getProduct(product.id))?.price).toBe(160);
+
+    await productService.deleteProduct(product.id);
+    expect(await productService.getProduct(product.id)).toBeNull();
+    await expect(productService.deleteProduct(product.id)).rejects.toThrow('Product not found');
+  });
+
+  test('should only let platform administrators change the catalog through tRPC', async () => {
+    resetAccounts();
+    const caller = async (token?: string) => catalogRouter.createCaller(await contextFor(token ? sessionHeaders(token) : {}));
+    const input = { name: 'Trail Jacket', description: '', price: 180, category: 'outerwear', inventory };
+
+    await expect((await caller()).createProduct(input)).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    const shopper = await authService.signup('shopper@example.com', PASSWORD);
+    await expect((await caller(shopper.token)).createProduct(input)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    const admin = await signUpPlatformAdmin();
+    try {
+      const product = await (await caller(admin.token)).createProduct(input);
+      expect(await (await caller()).getProduct({ productId: product.id })).toMatchObject({ name: 'Trail Jacket' });
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  test('should not lose a stock change made while the price or metrics change', async () => {
+    const product = await productService.createProduct({
+      name: 'Trail Jacket',
+      description: '',
+      price: 180,
+      category: 'outerwear',
+      inventory
+    });
+
+    await Promise.all([
+      productService.updateProductPrice(product.id, 160),
+      productService.updateInventory(product.id, { ...inventory, reserved: 5 }),
+      productService.updateProductMetrics(product.id, { views: 7 })
+    ]);
+
+    const stored = (await productService.getProduct(product.id))!;
+    expect(stored.price).toBe(160);
+    expect(stored.inventory.reserved).toBe(5);
+    expect(stored.metrics.views).toBe(7);
+  });
+
+  test('should keep saving to a file store after a failed write', async () => {
+    const directory = await fs.mkdtemp(path.join(tmpdir(), 'catalog-'));
+    try {
+      const filePath = path.join(directory, 'products.json');
+      const store = new JsonFileStore<{ name: string }>(filePath);
+      vi.spyOn(fs, 'writeFile').mockRejectedValueOnce(new Error('Disk full'));
+
+      await expect(store.put('a', { name: 'Trail Jacket' })).rejects.toThrow('Disk full');
+      await store.put('b', { name: 'Rain Hat' });
+
+      expect(Object.keys(JSON.parse(await fs.readFile(filePath, 'utf8')))).toEqual(['a', 'b']);
+    } finally {
+      vi.restoreAllMocks();
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { organizationService, type Organization } from '../server/services/organizationService';
+import { analyticsEventService, type AnalyticsRecord } from '../server/services/analyticsEventService';
+import { dashboardService, type Dashboard } from '../server/services/dashboardService';
+import { apiKeyService, type ApiKey } from '../server/services/apiKeyService';
+import { dashboardsRouter } from '../server/routers/dashboards';
+import type { DashboardWidget } from '../lib/dashboards';
+import { InMemoryLog, InMemoryStore } from '../lib/storage';
+import { contextFor, resetAccounts, sessionHeaders, signUpOwner } from './helpers';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function widget(overrides: Partial<DashboardWidget> = {}): DashboardWidget {
+  return {
+    id: crypto.randomUUID(),
+    title: 'Checkouts',
+    metric: 'checkout_started',
+    aggregation: 'sum',
+    range: '7d',
+    chart: 'line',
+    width: 2,
+    height: 1,
+    ...overrides
+  };
+}
+
+describe('Custom dashboards', () => {
+  let organization: Organization;
+  let token: string;
+  let ownerId: string;
+
+  async function caller(sessionToken?: string) {
+    return dashboardsRouter.createCaller(await contextFor(sessionToken ? sessionHeaders(sessionToken) : {}));
+  }
+
+  beforeEach(async () => {
+    resetAccounts();
+    analyticsEventService.useLog(new InMemoryLog<AnalyticsRecord>());
+    dashboardService.useStore(new InMemoryStore<Dashboard>());
+    apiKeyService.useStore(new InMemoryStore<ApiKey>());
+
+    const owner = await signUpOwner();
+    ({ token, organization } = owner);
+    ownerId = owner.user.id;
+    await organizationService.setPlan(organization.id, 'STARTER');
+  });
+
+  test('saves dashboards per organization and loads each widget\'s series', async () => {
+    const now = Date.now();
+    await analyticsEventService.ingest({
+      events: [
+        { event: 'checkout_started', timestamp: now - HOUR_MS, properties: { plan: 'GROWTH' } },
+        { event: 'checkout_started', timestamp: now - 2 * HOUR_MS, properties: { plan: 'STARTER' } },
+        { event: 'checkout_started', timestamp: now - 3 * HOUR_MS, properties: { plan: 'GROWTH' } }
+      ]
+    }, { organizationId: organization.id }, now);
+
+    const owner = await caller(token);
+    await expect(owner.create({ name: 'Sales', widgets: [widget({ chart: 'doughnut' })] }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+
+    const dashboard = await owner.create({
+      name: 'Sales',
+      widgets: [widget(), widget({ title: 'By plan', chart: 'doughnut', groupBy: 'plan', range: '24h' })]
+    });
+    expect(dashboard).toMatchObject({ name: 'Sales', shared: false });
+
+    const [total, byPlan] = await owner.data({ dashboardId: dashboard.id });
+    expect(total.reduce((sum, point) => sum + point.value, 0)).toBe(3);
+    expect(byPlan.filter(point => point.metadata?.plan === 'GROWTH').reduce((sum, point) => sum + point.value, 0)).toBe(2);
+
+    // Another organization's members can't see it
+    const other = await signUpOwner('other@globex.com', 'Globex');
+    await organizationService.setPlan(other.organization.id, 'STARTER');
+    expect(await (await caller(other.token)).list()).toEqual([]);
+    await expect((await caller(other.token)).get({ dashboardId: dashboard.id })).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+
+    await organizationService.setPlan(organization.id, null);
+    await expect((await caller(token)).list()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  test('a share link shows the dashboard without signing in until it is replaced or revoked', async () => {
+    const owner = await caller(token);
+    const dashboard = await owner.create({ name: 'Wallboard', widgets: [widget()] });
+    const anonymous = await caller();
+
+    const first = await owner.share({ dashboardId: dashboard.id });
+    const shared = await anonymous.shared({ token: first.token });
+    expect(shared).toMatchObject({ name: 'Wallboard', widgets: dashboard.widgets });
+    expect(shared.data).toHaveLength(1);
+    expect(shared).not.toHaveProperty('organizationId');
+    expect((await owner.get({ dashboardId: dashboard.id })).shared).toBe(true);
+
+    const second = await owner.share({ dashboardId: dashboard.id });
+    await expect(anonymous.shared({ token: first.token })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    await expect(anonymous.shared({ token: second.token })).resolves.toMatchObject({ name: 'Wallboard' });
+
+    await owner.unshare({ dashboardId: dashboard.id });
+    await expect(anonymous.shared({ token: second.token })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  test('share links can only be handed out by a signed-in member, not an API key', async () => {
+    const dashboard = await (await caller(token)).create({ name: 'Wallboard', widgets: [widget()] });
+    const { key } = await apiKeyService.createKey(organization.id, { name: 'Sync', scopes: ['analytics:write'] }, ownerId);
+    const withKey = dashboardsRouter.createCaller(await contextFor({ authorization: `Bearer ${key}` }));
+
+    await expect(withKey.update({ dashboardId: dashboard.id, name: 'Wallboard', widgets: [] })).resolves.toBeTruthy();
+    await expect(withKey.share({ dashboardId: dashboard.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(withKey.unshare({ dashboardId: dashboard.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+});
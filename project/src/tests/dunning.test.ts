@@ -0,0 +1,189 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import type Stripe from 'stripe';
+import type { ServerResponse } from 'http';
+import { organizationService, type Organization } from '../server/services/organizationService';
+import { subscriptionService, type SubscriptionRecord } from '../server/services/subscriptionService';
+import {
+  DEFAULT_DUNNING_SCHEDULE,
+  dunningService,
+  type DunningCase
+} from '../server/services/dunningService';
+import { entitlementService } from '../server/services/entitlementService';
+import { emailService } from '../server/services/emailService';
+import { rejectSuspended, type RateLimitedRequest } from '../server/middleware/rateLimit';
+import { dunningRouter } from '../server/routers/dunning';
+import { InMemoryStore } from '../lib/storage';
+import { contextFor, resetAccounts, sessionHeaders, signUpOwner, signUpPlatformAdmin } from './helpers';
+
+vi.mock('../server/services/emailService');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const OPENED = new Date('2024-03-01T00:00:00Z');
+
+const invoice = {
+  id: 'in_1',
+  number: '0042',
+  customer: 'cus_1',
+  subscription: 'sub_1',
+  amount_due: 19_900,
+  currency: 'usd',
+  hosted_invoice_url: 'https://pay.stripe.com/in_1',
+  attempt_count: 1
+} as unknown as Stripe.Invoice;
+
+function daysLater(days: number): Date {
+  return new Date(OPENED.getTime() + days * DAY_MS);
+}
+
+describe('Dunning', () => {
+  let organization: Organization;
+  let ownerToken: string;
+
+  const templatesSent = () => vi.mocked(emailService.sendDunningNotice).mock.calls.map(([, template]) => template);
+  const current = async () => (await organizationService.getOrganization(organization.id))!;
+
+  beforeEach(async () => {
+    vi.mocked(emailService.sendDunningNotice).mockClear();
+    resetAccounts();
+    subscriptionService.useStore(new InMemoryStore<SubscriptionRecord>());
+    dunningService.useStore(new InMemoryStore<DunningCase>());
+
+    ({ token: ownerToken, organization } = await signUpOwner());
+    await organizationService.setStripeCustomerId(organization.id, 'cus_1');
+    await subscriptionService.syncFromStripe({
+      id: 'sub_1',
+      customer: 'cus_1',
+      status: 'past_due',
+      metadata: { planId: 'price_growth_monthly' },
+      items: { data: [] },
+      current_period_start: OPENED.getTime() / 1000,
+      current_period_end: daysLater(30).getTime() / 1000
+    } as unknown as Stripe.Subscription, OPENED);
+  });
+
+  afterEach(() => {
+    dunningService.useSchedule(DEFAULT_DUNNING_SCHEDULE);
+  });
+
+  test('escalates through grace, restricted and suspended on schedule', async () => {
+    await dunningService.recordPaymentFailure(invoice, OPENED);
+    // Stripe redelivering the same failure must not send another email
+    await dunningService.recordPaymentFailure(invoice, OPENED);
+
+    expect((await current()).dunningStage).toBe('grace');
+    expect(entitlementService.getPlan(await current())).toBe('GROWTH');
+    expect(emailService.sendDunningNotice).toHaveBeenCalledWith('owner@acme.com', 'payment_failed', expect.objectContaining({
+      invoiceNumber: '0042',
+      amountDue: 19_900,
+      nextEscalationAt: daysLater(7)
+    }));
+
+    expect(await dunningService.processCases(daysLater(1))).toBe(0);
+    expect(await dunningService.processCases(daysLater(3))).toBe(1);
+    expect(await dunningService.processCases(daysLater(7))).toBe(1);
+
+    const restricted = await current();
+    expect(restricted.dunningStage).toBe('restricted');
+    expect(await entitlementService.getEntitlements(restricted)).toMatchObject({
+      plan: 'FREE',
+      dunningStage: 'restricted',
+      limits: { monthlyApiRequests: 100 }
+    });
+
+    // Overdue processing skips straight to the latest step
+    await dunningService.processCases(daysLater(20));
+    expect((await current()).dunningStage).toBe('suspended');
+    expect(templatesSent()).toEqual(['payment_failed', 'reminder', 'restricted', 'suspended']);
+  });
+
+  test('payment restores the account and suspended API keys are turned away until then', async () => {
+    dunningService.useSchedule([
+      { afterDays: 0, stage: 'grace', template: 'payment_failed' },
+      { afterDays: 1, stage: 'suspended', template: 'suspended' }
+    ]);
+    await dunningService.recordPaymentFailure(invoice, OPENED);
+    await dunningService.processCases(daysLater(1));
+
+    const res = { statusCode: 200, setHeader: vi.fn(), end: vi.fn() };
+    const next = vi.fn();
+    const request = async (apiKeyId?: string) => {
+      const req = { headers: {}, quotaSubject: { organization: await current(), apiKeyId } } as unknown as RateLimitedRequest;
+      rejectSuspended(req, res as unknown as ServerResponse, next);
+    };
+
+    await request('key_1');
+    expect(res.statusCode).toBe(402);
+    expect(next).not.toHaveBeenCalled();
+    // Members can still sign in to pay
+    await request();
+    expect(next).toHaveBeenCalledTimes(1);
+
+    await dunningService.resolveInvoice({ ...invoice, status: 'paid' }, daysLater(2));
+    expect((await current()).dunningStage).toBeUndefined();
+    expect(entitlementService.getPlan(await current())).toBe('GROWTH');
+    expect(templatesSent()).toEqual(['payment_failed', 'suspended', 'restored']);
+    expect(await dunningService.listCases({ status: 'resolved' })).toMatchObject([{ resolution: 'paid' }]);
+  });
+
+  test('a payment settling the case while it escalates leaves the account restored', async () => {
+    await dunningService.recordPaymentFailure(invoice, OPENED);
+
+    // Hold the escalation's stage update until the payment has been handled
+    const setDunningStage = organizationService.setDunningStage.bind(organizationService);
+    let escalating!: () => void;
+    const escalated = new Promise<void>(resolve => { escalating = resolve; });
+    vi.spyOn(organizationService, 'setDunningStage').mockImplementationOnce(async (organizationId, stage) => {
+      escalating();
+      await new Promise(resolve => setTimeout(resolve, 10));
+      return setDunningStage(organizationId, stage);
+    });
+
+    const processing = dunningService.processCases(daysLater(7));
+    await escalated;
+    await dunningService.resolveInvoice({ ...invoice, status: 'paid' }, daysLater(7));
+    await processing;
+
+    expect((await current()).dunningStage).toBeUndefined();
+    expect(await dunningService.listCases({ status: 'resolved' })).toMatchObject([{ resolution: 'paid', stage: 'restricted' }]);
+  });
+
+  test('stays in dunning until every failed invoice is paid', async () => {
+    const second = { ...invoice, id: 'in_2', number: '0043', amount_due: 5_000, hosted_invoice_url: 'https://pay.stripe.com/in_2' };
+    await dunningService.recordPaymentFailure(invoice, OPENED);
+    await dunningService.recordPaymentFailure(second, daysLater(1));
+    expect(await dunningService.getOpenCase(organization.id)).toMatchObject({ invoiceId: 'in_2', amountDue: 24_900 });
+
+    // Paying an invoice that never failed changes nothing
+    await dunningService.resolveInvoice({ ...invoice, id: 'in_3', status: 'paid' }, daysLater(2));
+    expect((await current()).dunningStage).toBe('grace');
+
+    await dunningService.resolveInvoice({ ...second, status: 'paid' }, daysLater(2));
+    expect((await current()).dunningStage).toBe('grace');
+    expect(await dunningService.getOpenCase(organization.id)).toMatchObject({
+      invoiceId: 'in_1',
+      invoiceNumber: '0042',
+      amountDue: 19_900,
+      hostedInvoiceUrl: 'https://pay.stripe.com/in_1'
+    });
+
+    await dunningService.resolveInvoice({ ...invoice, status: 'paid' }, daysLater(3));
+    expect((await current()).dunningStage).toBeUndefined();
+    expect(await dunningService.listCases({ status: 'resolved' })).toMatchObject([{ resolution: 'paid', unpaidInvoices: [] }]);
+  });
+
+  test('only platform administrators can list accounts in dunning', async () => {
+    await dunningService.recordPaymentFailure(invoice, OPENED);
+    const admin = await signUpPlatformAdmin();
+
+    try {
+      const callerFor = async (token: string) => dunningRouter.createCaller(await contextFor(sessionHeaders(token)));
+
+      await expect((await callerFor(ownerToken)).listCases({})).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      expect(await (await callerFor(admin.token)).listCases({ stage: 'grace' })).toMatchObject([
+        { organizationName: 'Acme', stage: 'grace', invoiceId: 'in_1' }
+      ]);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+});
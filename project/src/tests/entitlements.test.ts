@@ -0,0 +1,98 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import type Stripe from 'stripe';
+import { organizationService, type Organization } from '../server/services/organizationService';
+import { subscriptionService, type SubscriptionRecord } from '../server/services/subscriptionService';
+import { t, organizationProcedure, requireFeature } from '../server/trpc';
+import { entitlementsRouter } from '../server/routers/entitlements';
+import { PLAN_FEATURES, minimumPlanFor, planHasFeature } from '../lib/entitlements';
+import { InMemoryStore } from '../lib/storage';
+import { contextFor, resetAccounts, sessionHeaders, signUpOwner } from './helpers';
+
+const gatedRouter = t.router({
+  detailedReport: organizationProcedure
+    .use(requireFeature('detailed_analytics'))
+    .query(() => 'report'),
+});
+
+describe('Entitlements', () => {
+  let organization: Organization;
+  let token: string;
+
+  async function callers() {
+    const ctx = await contextFor(sessionHeaders(token));
+    return { gated: gatedRouter.createCaller(ctx), entitlements: entitlementsRouter.createCaller(ctx) };
+  }
+
+  beforeEach(async () => {
+    resetAccounts();
+    subscriptionService.useStore(new InMemoryStore<SubscriptionRecord>());
+
+    ({ token, organization } = await signUpOwner());
+  });
+
+  test('higher tiers include every feature of the tiers below', () => {
+    expect(PLAN_FEATURES.FREE).toEqual([]);
+    for (const feature of PLAN_FEATURES.STARTER) expect(planHasFeature('GROWTH', feature)).toBe(true);
+    for (const feature of PLAN_FEATURES.GROWTH) expect(planHasFeature('ENTERPRISE', feature)).toBe(true);
+
+    expect(minimumPlanFor('basic_analytics')).toBe('STARTER');
+    expect(minimumPlanFor('detailed_analytics')).toBe('GROWTH');
+    expect(minimumPlanFor('advanced_analytics')).toBe('ENTERPRISE');
+  });
+
+  test('reports the plan, features and limits of the current organization', async () => {
+    expect(await (await callers()).entitlements.current()).toMatchObject({
+      plan: 'FREE',
+      subscriptionStatus: null,
+      features: [],
+      limits: { monthlyApiRequests: 100, requestsPerSecond: 2 }
+    });
+
+    await organizationService.setStripeCustomerId(organization.id, 'cus_1');
+    await subscriptionService.syncFromStripe({
+      id: 'sub_1',
+      customer: 'cus_1',
+      status: 'trialing',
+      metadata: { planId: 'price_growth_monthly' },
+      items: { data: [] },
+      current_period_start: 1_700_000_000,
+      current_period_end: 1_702_592_000
+    } as unknown as Stripe.Subscription, new Date());
+
+    const current = await (await callers()).entitlements.current();
+    expect(current).toMatchObject({
+      plan: 'GROWTH',
+      subscriptionStatus: 'trialing',
+      limits: { monthlyApiRequests: 10_000, requestsPerSecond: 50 }
+    });
+    expect(current.features).toContain('detailed_analytics');
+    expect(current.features).not.toContain('advanced_analytics');
+  });
+
+  test('middleware rejects procedures the plan does not include', async () => {
+    await organizationService.setPlan(organization.id, 'STARTER');
+    await expect((await callers()).gated.detailedReport()).rejects.toMatchObject({
+      code: 'FORBIDDEN',
+      message: 'Detailed Analytics requires the Growth plan or higher'
+    });
+
+    await organizationService.setPlan(organization.id, 'GROWTH');
+    await expect((await callers()).gated.detailedReport()).resolves.toBe('report');
+  });
+
+  test('blames an overdue invoice only when the subscribed plan includes the feature', async () => {
+    // Grace keeps the plan's features, so a missing one is down to the tier
+    await organizationService.setPlan(organization.id, 'STARTER');
+    await organizationService.setDunningStage(organization.id, 'grace');
+    await expect((await callers()).gated.detailedReport()).rejects.toMatchObject({
+      message: 'Detailed Analytics requires the Growth plan or higher'
+    });
+
+    await organizationService.setPlan(organization.id, 'GROWTH');
+    await organizationService.setDunningStage(organization.id, 'restricted');
+    await expect((await callers()).gated.detailedReport()).rejects.toMatchObject({
+      code: 'FORBIDDEN',
+      message: 'Detailed Analytics is unavailable until the overdue invoice is paid'
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { demandForecastService } from '../lib/automation/ecommerce/demand';
+import { holtWinters, movingAverage, forecastSeries, normalQuantile } from '../lib/automation/ecommerce/forecasting';
+import { inventoryService } from '../lib/automation/ecommerce/inventory';
+import { orderService } from '../lib/automation/ecommerce/order';
+import { productService } from '../lib/automation/ecommerce/product';
+import { createInMemoryProductRepository } from '../lib/automation/ecommerce/catalog';
+import { InMemoryStore } from '../lib/storage';
+import { type Order, type Product } from '../lib/automation/ecommerce/types';
+
+// Mock analytics service
+vi.mock('../lib/analytics', () => ({
+  analyticsService: {
+    trackEvent: vi.fn()
+  }
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One order per day for the last `daily.length` complete days, oldest first
+async function recordSales(store: InMemoryStore<Order>, product: Product, daily: number[]) {
+  const today = Math.floor(Date.now() / DAY_MS) * DAY_MS;
+  for (const [i, quantity] of daily.entries()) {
+    if (quantity === 0) continue;
+    const id = `order-${i}`;
+    await store.put(id, {
+      id,
+      customerId: 'customer-1',
+      items: [{ productId: product.id, quantity, price: product.price }],
+      status: 'delivered',
+      payment: { method: 'card', status: 'completed', amount: product.price * quantity, currency: 'USD' },
+      shipping: {
+        method: 'standard',
+        carrier: 'local',
+        address: { street: '1 Main St', city: 'Austin', state: 'TX', country: 'US', postalCode: '78701' },
+        cost: 0
+      },
+      metrics: { processingTime: 0, issuesReported: [] },
+      timestamps: { created: new Date(today - (daily.length - i) * DAY_MS + 12 * 60 * 60 * 1000) }
+    });
+  }
+}
+
+describe('Demand Forecasting', () => {
+  let store: InMemoryStore<Order>;
+  let product: Product;
+
+  beforeEach(async () => {
+    productService.useRepository(createInMemoryProductRepository());
+    store = new InMemoryStore<Order>();
+    orderService.useStore(store);
+    product = await productService.createProduct({
+      name: 'Trail Jacket',
+      description: '',
+      price: 100,
+      category: 'outerwear',
+      inventory: { quantity: 20, reserved: 0, reorderPoint: 5, reorderQuantity: 300, leadTime: 7 }
+    });
+  });
+
+  test('should pick up weekly seasonality with Holt-Winters', () => {
+    const week = [2, 2, 2, 2, 2, 10, 10];
+    const series = Array.from({ length: 8 }, () => week).flat();
+
+    const result = holtWinters(series, 7, { alpha: 0.3, beta: 0.05, gamma: 0.2 }, 7)!;
+    expect(result.horizon[0]).toBeCloseTo(2, 0);
+    expect(result.horizon[5]).toBeCloseTo(10, 0);
+
+    // A flat average misses the pattern, so the seasonal model is preferred
+    const settings = demandForecastService.getSettings();
+    expect(movingAverage(series, 7, 7).horizon[5]).toBeCloseTo(30 / 7);
+    expect(forecastSeries(series, settings, 7).method).toBe('holt_winters');
+  });
+
+  test('should fall back to a moving average on short histories', () => {
+    const settings = demandForecastService.getSettings();
+    expect(holtWinters([3, 4, 5], 7, settings.smoothing, 7)).toBeNull();
+    expect(forecastSeries([3, 4, 5], settings, 3).method).toBe('moving_average');
+    expect(normalQuantile(0.95)).toBeCloseTo(1.645, 2);
+  });
+
+  test('should recompute reorder levels from sell-through and lead time', async () => {
+    await recordSales(store, product, new Array(28).fill(5));
+
+    const [forecast] = await demandForecastService.recomputeReorderPoints();
+    expect(forecast.dailyDemand).toBeCloseTo(5);
+    expect(forecast.safetyStock).toBeCloseTo(0);
+
+    // Steady demand needs no buffer: 5/day over a 7 day lead time, 30 days per reorder
+    const { inventory } = (await productService.getProduct(product.id))!;
+    expect(inventory).toMatchObject({ quantity: 20, reorderPoint: 35, reorderQuantity: 150 });
+  });
+
+  test('should hold more safety stock when demand is noisy', async () => {
+    await recordSales(store, product, Array.from({ length: 28 }, (_, i) => i % 2 === 0 ? 1 : 9));
+
+    const forecast = (await demandForecastService.forecastProduct(product.id))!;
+    expect(forecast.safetyStock).toBeGreaterThan(0);
+    expect(forecast.reorderPoint).toBeGreaterThan(Math.ceil(forecast.dailyDemand * 7));
+  });
+
+  test('should prioritise reorders by forecast days of stock', async () => {
+    await recordSales(store, product, new Array(28).fill(5));
+    await demandForecastService.recomputeReorderPoints();
+
+    const inventory = await inventoryService.checkInventoryLevels();
+    const [urgent] = await inventoryService.generateInventoryUpdates(inventory, { [product.id]: 5 });
+    expect(urgent.priority).toBe('high');
+
+    const [idle] = await inventoryService.generateInventoryUpdates(inventory);
+    expect(idle.priority).toBe('low');
+  });
+
+  test('should compare forecast to actual demand', async () => {
+    await recordSales(store, product, [0, 0, 4, 6, 5, 5, 4, 6, 5, 5]);
+
+    const comparison = (await demandForecastService.getForecastVsActual(product.id, undefined, 3))!;
+    const history = comparison.points.filter(point => point.actual !== null);
+    const upcoming = comparison.points.filter(point => point.actual === null);
+
+    // History starts at the first sale
+    expect(history).toHaveLength(8);
+    expect(history[0]).toMatchObject({ actual: 4, forecast: null });
+    expect(history[7].forecast).not.toBeNull();
+    expect(upcoming).toHaveLength(3);
+    expect(comparison.accuracy.mape).not.toBeNull();
+    expect(await demandForecastService.forecastProduct(product.id, undefined)).not.toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import type { ServerResponse } from 'http';
+import { fulfillmentService } from '../lib/automation/ecommerce/fulfillment';
+import { LocalCarrier } from '../lib/automation/ecommerce/carriers';
+import { orderService } from '../lib/automation/ecommerce/order';
+import { productService } from '../lib/automation/ecommerce/product';
+import { createInMemoryProductRepository } from '../lib/automation/ecommerce/catalog';
+import { InMemoryStore } from '../lib/storage';
+import { ingestCarrierTracking, signCarrierPayload, type CarrierRequest } from '../server/routes/carrierTracking';
+import { type Address, type Order, type Product } from '../lib/automation/ecommerce/types';
+
+// Mock analytics service
+vi.mock('../lib/analytics', () => ({
+  analyticsService: {
+    trackEvent: vi.fn()
+  }
+}));
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const warehouse: Address = { street: '100 Dock Rd', city: 'Dallas', state: 'TX', country: 'US', postalCode: '75201' };
+const customer: Address = { street: '1 Main St', city: 'Austin', state: 'TX', country: 'US', postalCode: '78701' };
+
+async function placeOrder(product: Product, quantity: number): Promise<Order> {
+  await orderService.processOrder({
+    id: 'order-1',
+    customerId: 'customer-1',
+    items: [{ productId: product.id, quantity, price: product.price }],
+    status: 'pending',
+    payment: { method: 'card', status: 'completed', amount: product.price * quantity, currency: 'USD' },
+    shipping: { method: 'standard', carrier: 'local', address: customer, cost: 0 },
+    metrics: { processingTime: 0, issuesReported: [] },
+    timestamps: { created: new Date() }
+  });
+  return (await orderService.getOrder('order-1'))!;
+}
+
+describe('Fulfillment', () => {
+  let carrier: LocalCarrier;
+  let product: Product;
+
+  beforeEach(async () => {
+    productService.useRepository(createInMemoryProductRepository());
+    orderService.useStore(new InMemoryStore<Order>());
+    carrier = new LocalCarrier();
+    fulfillmentService.registerCarrier(carrier);
+    fulfillmentService.setOrigin(warehouse);
+    product = await productService.createProduct({
+      name: 'Trail Jacket',
+      description: '',
+      price: 100,
+      weight: 1.2,
+      category: 'outerwear',
+      inventory: { quantity: 10, reserved: 0, reorderPoint: 2, reorderQuantity: 10, leadTime: 7 }
+    });
+  });
+
+  test('should quote rates by destination and parcel weight', async () => {
+    await placeOrder(product, 2);
+
+    const rates = await fulfillmentService.quoteOrder('order-1');
+    expect(rates.map(rate => rate.service)).toEqual(['standard', 'express']);
+    expect(rates[0]).toMatchObject({ carrier: 'local', cost: 8.6, estimatedDays: 5 });
+
+    const international = await fulfillmentService.quoteRates({ ...customer, country: 'CA' }, { weight: 2.4 });
+    expect(international[0]).toMatchObject({ cost: 17.2, estimatedDays: 10 });
+  });
+
+  test('should buy a label and record it on the order', async () => {
+    await placeOrder(product, 1);
+
+    const order = await fulfillmentService.buyLabel('order-1', 'local', 'express');
+    expect(order.status).toBe('processing');
+    expect(order.shipping).toMatchObject({ carrier: 'local', method: 'express', cost: 15.6 });
+    expect(order.shipping.trackingNumber).toMatch(/^LOCAL/);
+    expect(order.shipping.estimatedDelivery).toBeInstanceOf(Date);
+
+    await expect(fulfillmentService.buyLabel('order-1', 'local', 'express')).rejects.toThrow('already has a label');
+  });
+
+  test('should move orders along as tracking events arrive', async () => {
+    await placeOrder(product, 3);
+    const { shipping } = await fulfillmentService.buyLabel('order-1', 'local', 'standard');
+    const pickedUp = new Date(Date.now() - 30 * HOUR_MS);
+    const dropped = new Date(Date.now() - 6 * HOUR_MS);
+
+    carrier.advance(shipping.trackingNumber!, 'in_transit', pickedUp);
+    expect(await fulfillmentService.pollTracking()).toBe(2);
+
+    const shipped = (await orderService.getOrder('order-1'))!;
+    expect(shipped.status).toBe('shipped');
+    expect(shipped.timestamps.shipped).toEqual(pickedUp);
+    expect((await productService.getProduct(product.id))?.inventory).toMatchObject({ quantity: 7, reserved: 0 });
+
+    carrier.advance(shipping.trackingNumber!, 'delivered', dropped);
+    await fulfillmentService.pollTracking();
+    // Polling again re-reads the same events without reapplying them
+    expect(await fulfillmentService.pollTracking()).toBe(0);
+
+    const delivered = (await orderService.getOrder('order-1'))!;
+    expect(delivered.status).toBe('delivered');
+    expect(delivered.metrics.shippingTime).toBe(24 * HOUR_MS);
+  });
+
+  test('should record carrier exceptions as order issues', async () => {
+    await placeOrder(product, 1);
+    const { shipping } = await fulfillmentService.buyLabel('order-1', 'local', 'standard');
+
+    await fulfillmentService.ingestTrackingEvent({
+      trackingNumber: shipping.trackingNumber!,
+      status: 'exception',
+      timestamp: new Date(),
+      description: 'Address not found'
+    });
+
+    expect((await orderService.getOrder('order-1'))?.metrics.issuesReported).toEqual(['Address not found']);
+    expect(await fulfillmentService.ingestTrackingEvent({
+      trackingNumber: 'UNKNOWN',
+      status: 'delivered',
+      timestamp: new Date()
+    })).toBeNull();
+  });
+
+  test('should accept carrier pushes only with a valid, recent signature', async () => {
+    await placeOrder(product, 1);
+    const { shipping } = await fulfillmentService.buyLabel('order-1', 'local', 'standard');
+    const body = JSON.stringify({ trackingNumber: shipping.trackingNumber, status: 'in_transit', timestamp: new Date().toISOString() });
+
+    const push = async (signature: string) => {
+      const req = { headers: { 'x-carrier-signature': signature }, body: Buffer.from(body) } as unknown as CarrierRequest;
+      const res = { statusCode: 200, setHeader: vi.fn(), end: vi.fn() };
+      await ingestCarrierTracking(req, res as unknown as ServerResponse, vi.fn());
+      return res.statusCode;
+    };
+
+    vi.stubEnv('CARRIER_WEBHOOK_SECRET', 'carrier-secret');
+    try {
+      expect(await push(signCarrierPayload(body, 'wrong-secret'))).toBe(401);
+      expect(await push(signCarrierPayload(body, 'carrier-secret', Math.floor(Date.now() / 1000) - 3600))).toBe(401);
+      expect((await orderService.getOrder('order-1'))?.status).toBe('processing');
+
+      expect(await push(signCarrierPayload(body, 'carrier-secret'))).toBe(202);
+      expect((await orderService.getOrder('order-1'))?.status).toBe('shipped');
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { organizationService, type Organization } from '../server/services/organizationService';
+import { analyticsEventService, type AnalyticsRecord } from '../server/services/analyticsEventService';
+import { funnelService, ONBOARDING_FUNNEL, type FunnelDefinition } from '../server/services/funnelService';
+import { cohortService } from '../server/services/cohortService';
+import { analyticsRouter } from '../server/routers/analytics';
+import { MAX_CLIENT_EVENT_PROPERTIES, clientEventSchema, growthRouter } from '../server/routers/growth';
+import { anonymousIdFor } from '../server/context';
+import { InMemoryLog, InMemoryStore } from '../lib/storage';
+import { CLIENT_EVENTS, STANDARD_METRICS } from '../lib/timeseries';
+import { contextFor, resetAccounts, sessionHeaders, signUpOwner, signUpPlatformAdmin } from './helpers';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// A Monday
+const START = Date.UTC(2024, 5, 3);
+
+function event(distinctId: string, name: string, hour: number, properties: Record<string, unknown> = {}) {
+  return { event: name, timestamp: START + hour * HOUR_MS, properties: { ...properties, distinctId } };
+}
+
+describe('Funnels and retention', () => {
+  let organization: Organization;
+  let token: string;
+
+  async function callers(sessionToken = token) {
+    const ctx = await contextFor(sessionHeaders(sessionToken));
+    return { analytics: analyticsRouter.createCaller(ctx), growth: growthRouter.createCaller(ctx) };
+  }
+
+  beforeEach(async () => {
+    resetAccounts();
+    analyticsEventService.useLog(new InMemoryLog<AnalyticsRecord>());
+    funnelService.useStore(new InMemoryStore<FunnelDefinition>());
+
+    ({ token, organization } = await signUpOwner());
+  });
+
+  test('counts actors through the steps in order and within the conversion window', async () => {
+    await analyticsEventService.ingest({
+      events: [
+        // Completes every step
+        event('a', 'onboarding_started', 0),
+        ...[1, 2, 3, 4, 5].map(step => event('a', 'onboarding_step_completed', step, { step })),
+        event('a', 'onboarding_completed', 6),
+        event('a', 'checkout_started', 8),
+        // Answers question 2 before question 1, so stops after question 1
+        event('b', 'onboarding_started', 0),
+        event('b', 'onboarding_step_completed', 1, { step: 2 }),
+        event('b', 'onboarding_step_completed', 2, { step: 1 }),
+        // Finishes onboarding after the seven-day window has closed
+        event('c', 'onboarding_started', 0),
+        ...[1, 2, 3, 4, 5].map(step => event('c', 'onboarding_step_completed', step, { step })),
+        event('c', 'onboarding_completed', 8 * 24),
+        // Never starts onboarding
+        event('d', 'checkout_started', 1)
+      ]
+    }, { organizationId: null }, START + 9 * DAY_MS);
+
+    const result = await funnelService.computeFunnel(null, ONBOARDING_FUNNEL, START, START + DAY_MS);
+    expect(result.entered).toBe(3);
+    expect(result.completed).toBe(1);
+    expect(result.steps.map(step => step.count)).toEqual([3, 3, 2, 2, 2, 2, 1, 1]);
+    expect(result.steps[1]).toMatchObject({ conversionFromStart: 1, medianMsFromPrevious: HOUR_MS });
+    expect(result.steps[6]).toMatchObject({ label: 'Activated services', conversionFromPrevious: 0.5 });
+  });
+
+  test('builds weekly cohorts of signups and the share still active in later weeks', async () => {
+    await analyticsEventService.ingest({
+      events: [
+        event('a', 'signup_completed', 0),
+        event('a', 'page_viewed', 7 * 24 + 1),
+        event('a', 'page_viewed', 14 * 24 + 1),
+        event('b', 'signup_completed', 1),
+        event('b', 'page_viewed', 14 * 24 + 2),
+        event('c', 'signup_completed', 7 * 24 + 3),
+        event('c', 'page_viewed', 14 * 24 + 3)
+      ]
+    }, { organizationId: organization.id }, START + 15 * DAY_MS);
+
+    const table = await cohortService.computeRetention(organization.id, { signupEvent: 'signup_completed', weeks: 3 }, START + 15 * DAY_MS);
+    expect(table.cohorts).toEqual([
+      { week: '2024-06-03', size: 2, retained: [2, 1, 2] },
+      { week: '2024-06-10', size: 1, retained: [1, 1] },
+      { week: '2024-06-17', size: 0, retained: [0] }
+    ]);
+    // Other organizations' events stay out of the table
+    expect((await cohortService.computeRetention(null, { signupEvent: 'signup_completed', weeks: 3 }, START + 15 * DAY_MS)).cohorts
+      .map(cohort => cohort.size)).toEqual([0, 0, 0]);
+  });
+
+  test('saved funnels need the detailed analytics plan and platform funnels need an administrator', async () => {
+    const steps = [{ event: 'signup_completed' }, { event: 'project_created' }];
+
+    await organizationService.setPlan(organization.id, 'STARTER');
+    await expect((await callers()).analytics.createFunnel({ name: 'Activation', steps, windowHours: 24 }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    await organizationService.setPlan(organization.id, 'GROWTH');
+    const { analytics, growth } = await callers();
+    await expect(analytics.createFunnel({ name: 'Activation', steps: steps.slice(0, 1), windowHours: 24 }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    const funnel = await analytics.createFunnel({ name: 'Activation', steps, windowHours: 24 });
+    expect((await analytics.funnels()).map(saved => saved.id)).toEqual([funnel.id]);
+    await expect(analytics.funnel({ funnelId: 'onboarding', from: new Date(START), to: new Date(START + DAY_MS) }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    await expect(growth.funnels()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    const admin = await signUpPlatformAdmin();
+    try {
+      const platform = (await callers(admin.token)).growth;
+      expect((await platform.funnels()).map(builtIn => builtIn.id)).toEqual(['onboarding']);
+      const report = await platform.funnel({ funnelId: 'onboarding', from: new Date(START), to: new Date(START + DAY_MS) });
+      expect(report.result.entered).toBe(0);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  test('the onboarding funnel is fed only by client events, none of which is a standard metric', () => {
+    const clientEvents: readonly string[] = CLIENT_EVENTS;
+    for (const step of ONBOARDING_FUNNEL.steps) expect(clientEvents).toContain(step.event);
+    for (const name of Object.values(STANDARD_METRICS)) expect(clientEvents).not.toContain(name);
+  });
+
+  test('client events carry a few flat properties and the server decides who sent them', () => {
+    expect(clientEventSchema.safeParse({ eventName: 'checkout_started', properties: { plan: 'GROWTH', step: 2 } }).success).toBe(true);
+    const tooMany = Object.fromEntries(Array.from({ length: MAX_CLIENT_EVENT_PROPERTIES + 1 }, (_, i) => [`key${i}`, i]));
+    expect(clientEventSchema.safeParse({ eventName: 'checkout_started', properties: tooMany }).success).toBe(false);
+    expect(clientEventSchema.safeParse({ eventName: 'checkout_started', properties: { plan: 'x'.repeat(201) } }).success).toBe(false);
+    expect(clientEventSchema.safeParse({ eventName: 'checkout_started', properties: { nested: { deep: true } } }).success).toBe(false);
+
+    const visit = (cookie?: string) => {
+      const req = { headers: cookie ? { cookie } : {} } as unknown as IncomingMessage;
+      const res = { setHeader: vi.fn() };
+      return { req, res, id: () => anonymousIdFor(req, res as unknown as ServerResponse) };
+    };
+
+    const first = visit();
+    const issued = first.id();
+    expect(issued).toMatch(/^anon_/);
+    expect(first.id()).toBe(issued);
+    expect(first.res.setHeader).toHaveBeenCalledTimes(1);
+    expect(first.res.setHeader).toHaveBeenCalledWith('Set-Cookie', expect.stringContaining(`anonymous_id=${issued}; Path=/; HttpOnly`));
+
+    const returning = visit(`anonymous_id=${issued}`);
+    expect(returning.id()).toBe(issued);
+    expect(returning.res.setHeader).not.toHaveBeenCalled();
+
+    // A client-chosen id, e.g. someone's user id, is replaced rather than trusted
+    const forged = visit('anonymous_id=user-123');
+    expect(forged.id()).not.toBe('user-123');
+    expect(forged.res.setHeader).toHaveBeenCalledTimes(1);
+  });
+});
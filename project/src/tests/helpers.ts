@@ -0,0 +1,59 @@
+import { vi } from 'vitest';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { authService, type AuthResult, type Session, type User } from '../server/services/authService';
+import {
+  organizationService,
+  type Invitation,
+  type Membership,
+  type Organization
+} from '../server/services/organizationService';
+import { createContext } from '../server/context';
+import { InMemoryStore } from '../lib/storage';
+
+export const PASSWORD = 'correct horse';
+
+// Empty user, session and organization stores, so every test starts without accounts
+export function resetAccounts() {
+  const stores = {
+    users: new InMemoryStore<User>(),
+    sessions: new InMemoryStore<Session>(),
+    organizations: new InMemoryStore<Organization>(),
+    memberships: new InMemoryStore<Membership>(),
+    invitations: new InMemoryStore<Invitation>()
+  };
+  authService.useStores(stores.users, stores.sessions);
+  organizationService.useStores(stores.organizations, stores.memberships, stores.invitations);
+  return stores;
+}
+
+// The context createContext builds for an HTTP request carrying these headers
+export async function contextFor(headers: Record<string, string> = {}) {
+  return createContext({
+    req: { headers } as unknown as IncomingMessage,
+    res: { setHeader: vi.fn() } as unknown as ServerResponse
+  });
+}
+
+// Headers of a browser request signed in with `token`, optionally acting in a given organization
+export function sessionHeaders(token: string, organizationId?: string): Record<string, string> {
+  const headers: Record<string, string> = { cookie: `session=${token}` };
+  if (organizationId) headers['x-organization-id'] = organizationId;
+  return headers;
+}
+
+export async function signUpOwner(
+  email = 'owner@acme.com',
+  organizationName = 'Acme'
+): Promise<AuthResult & { organization: Organization }> {
+  const result = await authService.signup(email, PASSWORD);
+  const organization = await organizationService.createOrganization(organizationName, result.user.id);
+  return { ...result, organization };
+}
+
+// An operator with a verified email, listed in a stubbed PLATFORM_ADMIN_EMAILS; undo it with vi.unstubAllEnvs()
+export async function signUpPlatformAdmin(email = 'ops@titan.cloud'): Promise<AuthResult> {
+  const result = await authService.signup(email, PASSWORD);
+  const { token } = await authService.createEmailVerification(result.user.id);
+  vi.stubEnv('PLATFORM_ADMIN_EMAILS', email);
+  return { ...result, user: await authService.verifyEmail(token) };
+}
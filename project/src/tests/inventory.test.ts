@@ -0,0 +1,116 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { inventoryService, InsufficientStockError, stockKey } from '../lib/automation/ecommerce/inventory';
+import { orderService } from '../lib/automation/ecommerce/order';
+import { procurementService } from '../lib/automation/ecommerce/procurement';
+import { productService } from '../lib/automation/ecommerce/product';
+import { createInMemoryProductRepository } from '../lib/automation/ecommerce/catalog';
+import { InMemoryStore } from '../lib/storage';
+import { type Order, type Product, type PurchaseOrder, type Supplier } from '../lib/automation/ecommerce/types';
+
+// Mock analytics service
+vi.mock('../lib/analytics', () => ({
+  analyticsService: {
+    trackEvent: vi.fn()
+  }
+}));
+
+function stock(quantity: number, reorderPoint = 2) {
+  return { quantity, reserved: 0, reorderPoint, reorderQuantity: 10, leadTime: 7 };
+}
+
+describe('Variant Inventory', () => {
+  let product: Product;
+  let small: string;
+  let large: string;
+
+  beforeEach(async () => {
+    productService.useRepository(createInMemoryProductRepository());
+    orderService.useStore(new InMemoryStore<Order>());
+    procurementService.useStores(new InMemoryStore<Supplier>(), new InMemoryStore<PurchaseOrder>());
+    product = await productService.createProduct({
+      name: 'Trail Jacket',
+      description: '',
+      price: 100,
+      category: 'outerwear',
+      inventory: stock(999),
+      variants: [
+        { name: 'Small', sku: 'JKT-S', price: 100, attributes: { size: 'S' }, inventory: stock(4) },
+        { name: 'Large', sku: 'JKT-L', price: 100, attributes: { size: 'L' }, inventory: stock(1, 3) }
+      ]
+    });
+    [small, large] = product.variants.map(variant => variant.id);
+  });
+
+  test('should roll product inventory up from its variants', async () => {
+    expect(product.inventory).toMatchObject({ quantity: 5, reserved: 0, reorderPoint: 5 });
+
+    await inventoryService.reserveStock([{ productId: product.id, variantId: small, quantity: 3, price: 100 }]);
+
+    const stored = (await productService.getProduct(product.id))!;
+    expect(stored.variants[0].inventory).toMatchObject({ quantity: 4, reserved: 3 });
+    expect(stored.inventory).toMatchObject({ quantity: 5, reserved: 3 });
+    await expect(productService.updateInventory(product.id, stock(10))).rejects.toThrow('tracked per variant');
+  });
+
+  test('should reserve against the ordered variant only', async () => {
+    const reservation = inventoryService.reserveStock([
+      { productId: product.id, variantId: small, quantity: 1, price: 100 },
+      { productId: product.id, variantId: large, quantity: 2, price: 100 }
+    ]);
+
+    // The product as a whole has 5 units, but the large size only has 1
+    await expect(reservation).rejects.toBeInstanceOf(InsufficientStockError);
+    await expect(reservation).rejects.toThrow(`variant ${large}`);
+    expect((await productService.getProduct(product.id))?.inventory.reserved).toBe(0);
+  });
+
+  test('should require a variant when ordering a variant-driven product', async () => {
+    await expect(orderService.processOrder({
+      id: 'order-1',
+      customerId: 'customer-1',
+      items: [{ productId: product.id, quantity: 1, price: 100 }],
+      status: 'pending',
+      payment: { method: 'card', status: 'completed', amount: 100, currency: 'USD' },
+      shipping: {
+        method: 'standard',
+        carrier: 'local',
+        address: { street: '1 Main St', city: 'Austin', state: 'TX', country: 'US', postalCode: '78701' },
+        cost: 0
+      },
+      metrics: { processingTime: 0, issuesReported: [] },
+      timestamps: { created: new Date() }
+    })).rejects.toThrow('Invalid variant');
+  });
+
+  test('should reorder and receive stock per variant', async () => {
+    await procurementService.createSupplier({
+      name: 'Supplier',
+      leadTime: 5,
+      minimumOrderQuantity: 1,
+      products: [{ productId: product.id, unitCost: 30 }]
+    });
+
+    const levels = await inventoryService.checkInventoryLevels();
+    expect(Object.keys(levels)).toEqual([stockKey(product.id, small), stockKey(product.id, large)]);
+
+    const updates = await inventoryService.generateInventoryUpdates(levels);
+    expect(updates).toEqual([expect.objectContaining({ productId: product.id, variantId: large })]);
+
+    const [draft] = await procurementService.createDraftPurchaseOrders(updates);
+    await procurementService.submitPurchaseOrder(draft.id);
+    await procurementService.receivePurchaseOrder(draft.id, [{ productId: product.id, variantId: large, quantity: 10 }]);
+
+    const stored = (await productService.getProduct(product.id))!;
+    expect(stored.variants[1].inventory.quantity).toBe(11);
+    expect(stored.inventory.quantity).toBe(15);
+  });
+
+  test('should look up stock and raise low-stock alerts by SKU', async () => {
+    expect(await inventoryService.getStockBySku('JKT-S')).toMatchObject({ variantId: small, inventory: { quantity: 4 } });
+    expect(await inventoryService.getStockBySku('JKT-XL')).toBeNull();
+
+    expect(await inventoryService.getLowStockAlerts()).toEqual([
+      { productId: product.id, variantId: large, sku: 'JKT-L', available: 1, reorderPoint: 3 }
+    ]);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { orderService } from '../lib/automation/ecommerce/order';
+import { productService } from '../lib/automation/ecommerce/product';
+import { createInMemoryProductRepository } from '../lib/automation/ecommerce/catalog';
+import { InvalidOrderTransitionError } from '../lib/automation/ecommerce/lifecycle';
+import { InMemoryStore } from '../lib/storage';
+import { type Order, type Product } from '../lib/automation/ecommerce/types';
+
+// Mock analytics service
+vi.mock('../lib/analytics', () => ({
+  analyticsService: {
+    trackEvent: vi.fn()
+  }
+}));
+
+function buildOrder(product: Product, quantity: number, id = 'order-1'): Order {
+  return {
+    id,
+    customerId: 'customer-1',
+    items: [{ productId: product.id, quantity, price: product.price }],
+    status: 'pending',
+    payment: { method: 'card', status: 'completed', amount: product.price * quantity, currency: 'USD' },
+    shipping: {
+      method: 'standard',
+      carrier: 'local',
+      address: { street: '1 Main St', city: 'Austin', state: 'TX', country: 'US', postalCode: '78701' },
+      cost: 0
+    },
+    metrics: { processingTime: 0, issuesReported: [] },
+    timestamps: { created: new Date() }
+  };
+}
+
+describe('Order Lifecycle', () => {
+  let product: Product;
+
+  beforeEach(async () => {
+    productService.useRepository(createInMemoryProductRepository());
+    orderService.useStore(new InMemoryStore<Order>());
+    product = await productService.createProduct({
+      name: 'Trail Jacket',
+      description: '',
+      price: 100,
+      category: 'outerwear',
+      inventory: { quantity: 10, reserved: 0, reorderPoint: 2, reorderQuantity: 10, leadTime: 7 }
+    });
+  });
+
+  test('should reserve stock when an order is placed', async () => {
+    await orderService.processOrder(buildOrder(product, 3));
+
+    const order = await orderService.getOrder('order-1');
+    expect(order?.status).toBe('processing');
+    expect(order?.timestamps.processed).toBeInstanceOf(Date);
+    expect((await productService.getProduct(product.id))?.inventory).toMatchObject({ quantity: 10, reserved: 3 });
+  });
+
+  test('should commit reserved stock on shipment', async () => {
+    await orderService.processOrder(buildOrder(product, 3));
+    await orderService.transitionOrder('order-1', 'shipped');
+    await orderService.transitionOrder('order-1', 'delivered');
+
+    const order = await orderService.getOrder('order-1');
+    expect(order?.timestamps.shipped).toBeInstanceOf(Date);
+    expect(order?.timestamps.delivered).toBeInstanceOf(Date);
+    expect((await productService.getProduct(product.id))?.inventory).toMatchObject({ quantity: 7, reserved: 0 });
+  });
+
+  test('should release stock on cancel', async () => {
+    await orderService.processOrder(buildOrder(product, 3));
+    await orderService.cancelOrder('order-1');
+
+    expect((await orderService.getOrder('order-1'))?.timestamps.cancelled).toBeInstanceOf(Date);
+    expect((await productService.getProduct(product.id))?.inventory).toMatchObject({ quantity: 10, reserved: 0 });
+  });
+
+  test('should reject illegal transitions', async () => {
+    await orderService.processOrder(buildOrder(product, 1));
+
+    await expect(orderService.transitionOrder('order-1', 'delivered')).rejects.toBeInstanceOf(InvalidOrderTransitionError);
+    await orderService.cancelOrder('order-1');
+    await expect(orderService.transitionOrder('order-1', 'processing')).rejects.toThrow('from cancelled to processing');
+  });
+
+  test('should refuse orders that exceed available stock', async () => {
+    await orderService.processOrder(buildOrder(product, 8, 'order-1'));
+    await expect(orderService.processOrder(buildOrder(product, 3, 'order-2'))).rejects.toThrow('Insufficient stock');
+
+    expect(await orderService.getOrder('order-2')).toBeNull();
+    expect((await productService.getProduct(product.id))?.inventory.reserved).toBe(8);
+  });
+
+  test('should cancel and release stock when payment fails', async () => {
+    const order = buildOrder(product, 2);
+    order.payment.status = 'failed';
+
+    await expect(orderService.processOrder(order)).rejects.toThrow('Payment failed');
+    expect((await orderService.getOrder('order-1'))?.status).toBe('cancelled');
+    expect((await productService.getProduct(product.id))?.inventory.reserved).toBe(0);
+  });
+
+  test('should reconcile drifted reservations from open orders', async () => {
+    await orderService.processOrder(buildOrder(product, 2));
+    await productService.updateInventory(product.id, { ...product.inventory, reserved: 9 });
+
+    expect(await orderService.validateOrders()).toEqual([product.id]);
+    expect((await productService.getProduct(product.id))?.inventory.reserved).toBe(2);
+  });
+});
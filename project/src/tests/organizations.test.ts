@@ -0,0 +1,145 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { authService } from '../server/services/authService';
+import { hasPermission, organizationService, type Organization } from '../server/services/organizationService';
+import { emailService } from '../server/services/emailService';
+import { organizationsRouter } from '../server/routers/organizations';
+import { schedulerRouter } from '../server/routers/scheduler';
+import { schedulerService } from '../lib/scheduler';
+import { contextFor, resetAccounts, sessionHeaders, signUpOwner, signUpPlatformAdmin } from './helpers';
+
+vi.mock('../server/services/emailService');
+
+async function callerFor(token: string, organizationId?: string) {
+  const ctx = await contextFor(sessionHeaders(token, organizationId));
+  return {
+    organizations: organizationsRouter.createCaller(ctx),
+    scheduler: schedulerRouter.createCaller(ctx)
+  };
+}
+
+describe('Organizations', () => {
+  let organization: Organization;
+  let ownerToken: string;
+
+  beforeEach(async () => {
+    vi.mocked(emailService.sendInvitationEmail).mockClear();
+    resetAccounts();
+    ({ token: ownerToken, organization } = await signUpOwner());
+  });
+
+  // Invite by email, capture the token from the email link and accept it as the invitee
+  async function addMember(email: string, role: 'admin' | 'billing' | 'developer' | 'viewer'): Promise<string> {
+    const owner = await callerFor(ownerToken);
+    await owner.organizations.inviteMember({ email, role });
+
+    const { acceptUrl } = vi.mocked(emailService.sendInvitationEmail).mock.lastCall![1];
+    const token = new URL(acceptUrl, 'http://localhost').searchParams.get('token')!;
+
+    const { token: session } = await authService.signup(email, 'correct horse');
+    await (await callerFor(session)).organizations.acceptInvitation({ token });
+    return session;
+  }
+
+  test('maps roles to permissions', () => {
+    expect(hasPermission('owner', 'billing:manage')).toBe(true);
+    expect(hasPermission('billing', 'billing:manage')).toBe(true);
+    expect(hasPermission('admin', 'billing:manage')).toBe(false);
+    expect(hasPermission('admin', 'automation:manage')).toBe(true);
+    expect(hasPermission('developer', 'automation:manage')).toBe(false);
+    expect(hasPermission('viewer', 'analytics:read')).toBe(true);
+    expect(hasPermission('viewer', 'billing:read')).toBe(false);
+  });
+
+  test('invited users join with the invited role', async () => {
+    const session = await addMember('finance@acme.com', 'billing');
+
+    const { organizations } = await callerFor(session);
+    const current = await organizations.current();
+    expect(current.organization.id).toBe(organization.id);
+    expect(current.role).toBe('billing');
+    expect(current.permissions).toContain('billing:manage');
+
+    const members = await organizations.listMembers();
+    expect(members.map(member => [member.user?.email, member.role])).toEqual([
+      ['owner@acme.com', 'owner'],
+      ['finance@acme.com', 'billing']
+    ]);
+    expect(await organizationService.listInvitations(organization.id)).toEqual([]);
+  });
+
+  test('invitations only work once and only for the invited address', async () => {
+    const { token } = await organizationService.inviteMember(organization.id, 'dev@acme.com', 'developer', 'owner');
+    const stranger = await authService.signup('stranger@example.com', 'correct horse');
+    await expect((await callerFor(stranger.token)).organizations.acceptInvitation({ token }))
+      .rejects.toThrow('different email address');
+
+    const dev = await authService.signup('dev@acme.com', 'correct horse');
+    await organizationService.acceptInvitation(token, dev.user);
+    await expect(organizationService.acceptInvitation(token, dev.user)).rejects.toThrow('invalid or has expired');
+
+    const { token: revoked, invitation } = await organizationService.inviteMember(organization.id, 'qa@acme.com', 'viewer', 'owner');
+    await organizationService.revokeInvitation(organization.id, invitation.id);
+    await expect(organizationService.getInvitation(revoked)).rejects.toThrow('invalid or has expired');
+    await expect(organizationService.inviteMember(organization.id, 'boss@acme.com', 'owner', 'owner'))
+      .rejects.toThrow('single owner');
+  });
+
+  test('enforces permissions in procedure middleware', async () => {
+    const admin = await callerFor(await addMember('admin@acme.com', 'admin'));
+    const developer = await callerFor(await addMember('dev@acme.com', 'developer'));
+    const viewer = await callerFor(await addMember('viewer@acme.com', 'viewer'));
+
+    expect(await admin.organizations.listInvitations()).toEqual([]);
+    await expect(viewer.organizations.listInvitations()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(developer.organizations.inviteMember({ email: 'x@acme.com', role: 'viewer' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    const viewerId = (await authService.getUserByEmail('viewer@acme.com'))!.id;
+    await admin.organizations.updateMemberRole({ userId: viewerId, role: 'developer' });
+    expect((await organizationService.getMembership(organization.id, viewerId))?.role).toBe('developer');
+    await expect(admin.organizations.removeMember({ userId: organization.ownerId }))
+      .rejects.toThrow('owner cannot be removed');
+  });
+
+  test('does not let admins grant billing, which they do not hold', async () => {
+    const admin = await callerFor(await addMember('admin@acme.com', 'admin'));
+    const adminId = (await authService.getUserByEmail('admin@acme.com'))!.id;
+    await addMember('viewer@acme.com', 'viewer');
+    const viewerId = (await authService.getUserByEmail('viewer@acme.com'))!.id;
+
+    await expect(admin.organizations.inviteMember({ email: 'cfo@acme.com', role: 'billing' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(admin.organizations.updateMemberRole({ userId: viewerId, role: 'billing' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(admin.organizations.updateMemberRole({ userId: adminId, role: 'billing' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    expect((await organizationService.getMembership(organization.id, viewerId))?.role).toBe('viewer');
+
+    const owner = await callerFor(ownerToken);
+    await owner.organizations.updateMemberRole({ userId: viewerId, role: 'billing' });
+    expect((await organizationService.getMembership(organization.id, viewerId))?.role).toBe('billing');
+  });
+
+  test('keeps platform jobs away from organization roles', async () => {
+    schedulerService.registerJob({ name: 'test.job', schedule: '0 * * * *', handler: () => undefined });
+    const { scheduler } = await callerFor(ownerToken);
+    await expect(scheduler.triggerJob({ name: 'test.job' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(scheduler.listJobs()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    const operator = await signUpPlatformAdmin();
+    try {
+      expect((await (await callerFor(operator.token)).scheduler.triggerJob({ name: 'test.job' })).status).toBe('succeeded');
+    } finally {
+      vi.unstubAllEnvs();
+      schedulerService.unregisterJob('test.job');
+    }
+  });
+
+  test('only acts within organizations the user belongs to', async () => {
+    const other = await authService.signup('other@example.com', 'correct horse');
+    const otherOrganization = await organizationService.createOrganization('Other', other.user.id);
+
+    const { organizations } = await callerFor(ownerToken, otherOrganization.id);
+    await expect(organizations.current()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    expect((await (await callerFor(other.token, otherOrganization.id)).organizations.current()).role).toBe('owner');
+  });
+});
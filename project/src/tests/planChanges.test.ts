@@ -0,0 +1,200 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import type Stripe from 'stripe';
+import {
+  organizationService,
+  type Invitation,
+  type Membership,
+  type Organization
+} from '../server/services/organizationService';
+import { subscriptionService, type SubscriptionRecord } from '../server/services/subscriptionService';
+import { PlanChangeError, PlanChangeService, QUOTE_VALIDITY_SECONDS } from '../server/services/planChangeService';
+import { InMemoryStore } from '../lib/storage';
+
+const PERIOD_START = 1_700_000_000;
+const PERIOD_END = 1_702_592_000;
+
+function stripeSubscription(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'sub_1',
+    customer: 'cus_1',
+    status: 'active',
+    schedule: null,
+    metadata: { planId: 'price_growth_monthly', organizationId: 'org' },
+    items: {
+      data: [
+        { id: 'si_plan', quantity: 1, price: { id: 'price_growth_monthly', recurring: { usage_type: 'licensed' } } },
+        { id: 'si_calls', price: { id: 'price_api_calls', recurring: { usage_type: 'metered' } } }
+      ]
+    },
+    current_period_start: PERIOD_START,
+    current_period_end: PERIOD_END,
+    ...overrides
+  } as unknown as Stripe.Subscription;
+}
+
+describe('Plan changes', () => {
+  let organization: Organization;
+  const stripe = {
+    invoices: {
+      retrieveUpcoming: vi.fn(async () => ({
+        currency: 'usd',
+        total: 98_000,
+        lines: {
+          data: [
+            { amount: -10_000, proration: true },
+            { amount: 40_000, proration: true },
+            { amount: 68_000, proration: false }
+          ]
+        }
+      }))
+    },
+    subscriptions: { update: vi.fn(async (id: string) => ({ id })) },
+    subscriptionSchedules: {
+      create: vi.fn(async () => ({ id: 'sub_sched_1' })),
+      update: vi.fn(async () => ({})),
+      release: vi.fn(async () => ({}))
+    }
+  };
+  const planChanges = new PlanChangeService(stripe as unknown as Stripe);
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    organizationService.useStores(
+      new InMemoryStore<Organization>(),
+      new InMemoryStore<Membership>(),
+      new InMemoryStore<Invitation>()
+    );
+    subscriptionService.useStore(new InMemoryStore<SubscriptionRecord>());
+
+    organization = await organizationService.createOrganization('Acme', 'owner-1');
+    await organizationService.setStripeCustomerId(organization.id, 'cus_1');
+    await subscriptionService.syncFromStripe(stripeSubscription(), new Date(PERIOD_START * 1000));
+  });
+
+  test('quotes an immediate change from the upcoming invoice', async () => {
+    const preview = await planChanges.preview(stripeSubscription(), 'price_enterprise_monthly', 'immediate');
+
+    expect(stripe.invoices.retrieveUpcoming).toHaveBeenCalledWith({
+      customer: 'cus_1',
+      subscription: 'sub_1',
+      // The plan item is swapped in place and Enterprise adds its storage meter
+      subscription_items: [{ id: 'si_plan', price: 'price_enterprise_monthly' }, { price: 'price_storage' }],
+      subscription_proration_behavior: 'create_prorations',
+      subscription_proration_date: preview.prorationDate
+    });
+    expect(preview).toMatchObject({
+      plan: 'ENTERPRISE',
+      currentPriceId: 'price_growth_monthly',
+      prorationAmount: 30_000,
+      amountDueNow: 30_000,
+      nextInvoiceTotal: 68_000,
+      nextInvoiceDate: new Date(PERIOD_END * 1000)
+    });
+
+    await expect(planChanges.preview(stripeSubscription(), 'price_growth_monthly', 'immediate'))
+      .rejects.toThrow(PlanChangeError);
+    await expect(planChanges.preview(stripeSubscription(), 'price_unknown', 'immediate'))
+      .rejects.toThrow('Unknown plan price');
+  });
+
+  test('books end-of-period changes on a schedule and clears them once the period rolls over', async () => {
+    await planChanges.apply(stripeSubscription(), 'price_starter_monthly', 'period_end');
+
+    expect(stripe.subscriptions.update).not.toHaveBeenCalled();
+    expect(stripe.subscriptionSchedules.create).toHaveBeenCalledWith({ from_subscription: 'sub_1' });
+    expect(stripe.subscriptionSchedules.update).toHaveBeenCalledWith('sub_sched_1', expect.objectContaining({
+      end_behavior: 'release',
+      phases: [
+        expect.objectContaining({
+          items: [{ price: 'price_growth_monthly', quantity: 1 }, { price: 'price_api_calls' }],
+          start_date: PERIOD_START,
+          end_date: PERIOD_END
+        }),
+        expect.objectContaining({
+          items: [{ price: 'price_starter_monthly', quantity: 1 }, { price: 'price_api_calls' }],
+          metadata: { planId: 'price_starter_monthly', organizationId: 'org' }
+        })
+      ]
+    }));
+
+    const booked = await subscriptionService.getSubscription('sub_1');
+    expect(booked).toMatchObject({ plan: 'GROWTH', scheduledChange: { plan: 'STARTER', effectiveAt: new Date(PERIOD_END * 1000) } });
+
+    await subscriptionService.syncFromStripe(stripeSubscription({
+      metadata: { planId: 'price_starter_monthly' },
+      items: {
+        data: [
+          { id: 'si_plan', quantity: 1, price: { id: 'price_starter_monthly', recurring: { usage_type: 'licensed' } } },
+          { id: 'si_calls', price: { id: 'price_api_calls', recurring: { usage_type: 'metered' } } }
+        ]
+      },
+      current_period_start: PERIOD_END,
+      current_period_end: PERIOD_END + 2_592_000
+    }), new Date(PERIOD_END * 1000));
+    const renewed = await subscriptionService.getSubscription('sub_1');
+    expect(renewed?.plan).toBe('STARTER');
+    expect(renewed?.scheduledChange).toBeUndefined();
+  });
+
+  test('immediate changes replace a pending one and invoice at the quoted proration date', async () => {
+    await subscriptionService.setScheduledChange('sub_1', {
+      priceId: 'price_starter_monthly',
+      plan: 'STARTER',
+      effectiveAt: new Date(PERIOD_END * 1000)
+    });
+
+    // Confirmed two minutes after the preview
+    const confirmedAt = (1_701_000_000 + 120) * 1000;
+    await planChanges.apply(stripeSubscription({ schedule: 'sub_sched_1' }), 'price_enterprise_yearly', 'immediate', 1_701_000_000, confirmedAt);
+
+    expect(stripe.subscriptionSchedules.release).toHaveBeenCalledWith('sub_sched_1');
+    expect(stripe.subscriptions.update).toHaveBeenCalledWith('sub_1', {
+      items: [{ id: 'si_plan', price: 'price_enterprise_yearly' }, { price: 'price_storage' }],
+      proration_behavior: 'always_invoice',
+      proration_date: 1_701_000_000,
+      metadata: { planId: 'price_enterprise_yearly' }
+    });
+    expect((await subscriptionService.getSubscription('sub_1'))?.scheduledChange).toBeUndefined();
+  });
+
+  test('downgrades drop the metered prices the new plan does not bill', async () => {
+    const enterprise = stripeSubscription({
+      metadata: { planId: 'price_enterprise_monthly' },
+      items: {
+        data: [
+          { id: 'si_plan', quantity: 1, price: { id: 'price_enterprise_monthly', recurring: { usage_type: 'licensed' } } },
+          { id: 'si_calls', price: { id: 'price_api_calls', recurring: { usage_type: 'metered' } } },
+          { id: 'si_storage', price: { id: 'price_storage', recurring: { usage_type: 'metered' } } }
+        ]
+      }
+    });
+
+    await planChanges.apply(enterprise, 'price_growth_monthly', 'immediate');
+    expect(stripe.subscriptions.update).toHaveBeenCalledWith('sub_1', expect.objectContaining({
+      items: [{ id: 'si_plan', price: 'price_growth_monthly' }, { id: 'si_storage', deleted: true }]
+    }));
+
+    await planChanges.apply(enterprise, 'price_growth_monthly', 'period_end');
+    expect(stripe.subscriptionSchedules.update).toHaveBeenCalledWith('sub_sched_1', expect.objectContaining({
+      phases: [
+        expect.objectContaining({
+          items: [{ price: 'price_enterprise_monthly', quantity: 1 }, { price: 'price_api_calls' }, { price: 'price_storage' }]
+        }),
+        expect.objectContaining({
+          items: [{ price: 'price_growth_monthly', quantity: 1 }, { price: 'price_api_calls' }]
+        })
+      ]
+    }));
+  });
+
+  test('rejects proration dates no recent preview could have issued', async () => {
+    const now = 1_701_000_000 * 1000;
+    const subscription = stripeSubscription();
+
+    await expect(planChanges.apply(subscription, 'price_enterprise_yearly', 'immediate', 1_701_000_000 - QUOTE_VALIDITY_SECONDS - 1, now))
+      .rejects.toThrow(PlanChangeError);
+    await expect(planChanges.apply(subscription, 'price_enterprise_yearly', 'immediate', 1_701_000_000 + 60, now))
+      .rejects.toThrow(PlanChangeError);
+    expect(stripe.subscriptions.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { pricingService } from '../lib/automation/ecommerce/pricing';
+import { productService } from '../lib/automation/ecommerce/product';
+import { createInMemoryProductRepository } from '../lib/automation/ecommerce/catalog';
+import { buildDemandPoints, estimateElasticity, findOptimalPrice } from '../lib/automation/ecommerce/elasticity';
+import { InMemoryStore } from '../lib/storage';
+import { type PriceObservation, type Product } from '../lib/automation/ecommerce/types';
+
+// Mock analytics service
+vi.mock('../lib/analytics', () => ({
+  analyticsService: {
+    trackEvent: vi.fn()
+  }
+}));
+
+const HOUR = 60 * 60 * 1000;
+
+// Cumulative snapshots where conversion follows a constant elasticity of -2
+function simulateHistory(prices: number[], elasticity = -2): PriceObservation[] {
+  const start = Date.now() - (prices.length + 1) * 24 * HOUR;
+  const history: PriceObservation[] = [{ timestamp: start, price: prices[0], views: 0, addToCart: 0, purchases: 0, revenue: 0 }];
+  prices.forEach((price, i) => {
+    const prev = history[history.length - 1];
+    const purchases = Math.round(1000 * 0.05 * Math.pow(price / 100, elasticity));
+    history.push({
+      timestamp: start + (i + 1) * 24 * HOUR,
+      price,
+      views: prev.views + 1000,
+      addToCart: prev.addToCart + purchases * 2,
+      purchases: prev.purchases + purchases,
+      revenue: prev.revenue + purchases * price
+    });
+  });
+  return history;
+}
+
+describe('Price Elasticity Engine', () => {
+  beforeEach(() => {
+    productService.useRepository(createInMemoryProductRepository());
+    pricingService.useHistoryStore(new InMemoryStore<PriceObservation[]>());
+  });
+
+  test('should recover elasticity from metric history', () => {
+    const estimate = estimateElasticity(buildDemandPoints(simulateHistory([100, 90, 110, 95, 105])));
+
+    expect(estimate).not.toBeNull();
+    expect(estimate!.elasticity).toBeCloseTo(-2, 0);
+    expect(estimate!.rSquared).toBeGreaterThan(0.9);
+  });
+
+  test('should not estimate elasticity without price variation', () => {
+    expect(estimateElasticity(buildDemandPoints(simulateHistory([100, 100, 100])))).toBeNull();
+  });
+
+  test('should stay within price bounds', () => {
+    const price = findOptimalPrice(-0.5, 10, { basePrice: 100, minPrice: 90, maxPrice: 110 });
+    expect(price).toBe(110);
+  });
+
+  test('should emit optimizations that respect guardrails', async () => {
+    const product = await productService.createProduct({
+      name: 'Trail Jacket',
+      description: '',
+      price: 100,
+      cost: 30,
+      category: 'outerwear',
+      inventory: { quantity: 100, reserved: 0, reorderPoint: 20, reorderQuantity: 50, leadTime: 7 }
+    });
+
+    const history = simulateHistory([100, 90, 110, 95, 105]);
+    for (const observation of history) {
+      await pricingService.recordObservation({
+        ...product,
+        price: observation.price,
+        metrics: { ...product.metrics, ...observation }
+      } as Product, observation.timestamp);
+    }
+
+    const latest = history[history.length - 1];
+    const [optimization] = await pricingService.generateOptimizations([{
+      ...product,
+      metrics: { ...product.metrics, ...latest }
+    }]);
+
+    // With elasticity -2 and a $30 cost the profit-maximizing price is $60, capped by the 10% max change
+    expect(optimization.newPrice).toBe(90);
+    expect(optimization.confidence).toBeGreaterThan(0.5);
+    expect(optimization.expectedImpact.profit).toBeGreaterThan(0);
+    expect(optimization.expectedImpact.sales).toBeGreaterThan(0);
+  });
+
+  test('should never price below the minimum margin', async () => {
+    pricingService.configureGuardrails({ minMargin: 0.5 });
+    const product = await productService.createProduct({
+      name: 'Trail Jacket',
+      description: '',
+      price: 100,
+      cost: 48,
+      category: 'outerwear',
+      inventory: { quantity: 100, reserved: 0, reorderPoint: 20, reorderQuantity: 50, leadTime: 7 }
+    });
+
+    const history = simulateHistory([100, 90, 110, 95, 105], -3);
+    for (const observation of history.slice(0, -1)) {
+      await pricingService.recordObservation({ ...product, metrics: { ...product.metrics, ...observation } }, observation.timestamp);
+    }
+
+    const optimizations = await pricingService.generateOptimizations([{
+      ...product,
+      metrics: { ...product.metrics, ...history[history.length - 1] }
+    }]);
+
+    // The profit-maximizing price is $72, but a 50% margin on a $48 cost floors it at $96
+    expect(optimizations).toHaveLength(1);
+    expect(optimizations[0].newPrice).toBe(96);
+    pricingService.configureGuardrails({ minMargin: 0.2 });
+  });
+});
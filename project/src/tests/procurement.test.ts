@@ -0,0 +1,189 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { procurementService } from '../lib/automation/ecommerce/procurement';
+import { inventoryService } from '../lib/automation/ecommerce/inventory';
+import { productService } from '../lib/automation/ecommerce/product';
+import { createInMemoryProductRepository } from '../lib/automation/ecommerce/catalog';
+import { InMemoryStore } from '../lib/storage';
+import { type Product, type PurchaseOrder, type Supplier } from '../lib/automation/ecommerce/types';
+
+// Mock analytics service
+vi.mock('../lib/analytics', () => ({
+  analyticsService: {
+    trackEvent: vi.fn()
+  }
+}));
+
+describe('Purchase Orders', () => {
+  let product: Product;
+
+  beforeEach(async () => {
+    productService.useRepository(createInMemoryProductRepository());
+    procurementService.useStores(new InMemoryStore<Supplier>(), new InMemoryStore<PurchaseOrder>());
+    product = await productService.createProduct({
+      name: 'Trail Jacket',
+      description: '',
+      price: 100,
+      category: 'outerwear',
+      inventory: { quantity: 5, reserved: 0, reorderPoint: 10, reorderQuantity: 20, leadTime: 7 }
+    });
+  });
+
+  test('should draft purchase orders from reorder signals without touching stock', async () => {
+    await procurementService.createSupplier({
+      name: 'Cheap & Slow',
+      leadTime: 21,
+      minimumOrderQuantity: 50,
+      products: [{ productId: product.id, unitCost: 30 }]
+    });
+    await procurementService.createSupplier({
+      name: 'Fast & Pricey',
+      leadTime: 3,
+      minimumOrderQuantity: 10,
+      products: [{ productId: product.id, unitCost: 45 }]
+    });
+
+    const updates = await inventoryService.generateInventoryUpdates(await inventoryService.checkInventoryLevels());
+    const [draft] = await procurementService.createDraftPurchaseOrders(
+      updates.map(update => ({ ...update, priority: 'low' as const }))
+    );
+
+    // The cheapest supplier wins for non-urgent reorders and its MOQ applies
+    expect(draft.status).toBe('draft');
+    expect(draft.lines[0]).toMatchObject({ quantity: 50, unitCost: 30 });
+    expect(draft.total).toBe(1500);
+    expect((await productService.getProduct(product.id))?.inventory.quantity).toBe(5);
+  });
+
+  test('should route urgent reorders to the fastest supplier', async () => {
+    await procurementService.createSupplier({
+      name: 'Cheap & Slow',
+      leadTime: 21,
+      minimumOrderQuantity: 1,
+      products: [{ productId: product.id, unitCost: 30 }]
+    });
+    const fast = await procurementService.createSupplier({
+      name: 'Fast & Pricey',
+      leadTime: 3,
+      minimumOrderQuantity: 1,
+      products: [{ productId: product.id, unitCost: 45 }]
+    });
+
+    const [draft] = await procurementService.createDraftPurchaseOrders([{
+      productId: product.id,
+      oldLevel: 5,
+      newLevel: 25,
+      reason: 'Automatic reorder - Low inventory',
+      priority: 'high',
+      automated: true
+    }]);
+
+    expect(draft.supplierId).toBe(fast.id);
+    expect(draft.lines[0].quantity).toBe(20);
+  });
+
+  test('should not reorder products that already have stock on order', async () => {
+    await procurementService.createSupplier({
+      name: 'Supplier',
+      leadTime: 5,
+      minimumOrderQuantity: 1,
+      products: [{ productId: product.id, unitCost: 30 }]
+    });
+
+    const updates = await inventoryService.generateInventoryUpdates(await inventoryService.checkInventoryLevels());
+    expect(await procurementService.createDraftPurchaseOrders(updates)).toHaveLength(1);
+    expect(await procurementService.createDraftPurchaseOrders(updates)).toHaveLength(0);
+  });
+
+  test('should increment stock only when goods are received', async () => {
+    await procurementService.createSupplier({
+      name: 'Supplier',
+      leadTime: 5,
+      minimumOrderQuantity: 1,
+      products: [{ productId: product.id, unitCost: 30 }]
+    });
+    const updates = await inventoryService.generateInventoryUpdates(await inventoryService.checkInventoryLevels());
+    const [draft] = await procurementService.createDraftPurchaseOrders(updates);
+
+    const submitted = await procurementService.submitPurchaseOrder(draft.id);
+    expect(submitted.expectedDelivery).toBeInstanceOf(Date);
+
+    const partial = await procurementService.receivePurchaseOrder(draft.id, [{ productId: product.id, quantity: 8 }]);
+    expect(partial.status).toBe('partially_received');
+    expect((await productService.getProduct(product.id))?.inventory.quantity).toBe(13);
+
+    const received = await procurementService.receivePurchaseOrder(draft.id, [{ productId: product.id, quantity: 12 }]);
+    expect(received.status).toBe('received');
+    expect((await productService.getProduct(product.id))?.inventory.quantity).toBe(25);
+
+    await expect(procurementService.receivePurchaseOrder(draft.id, [{ productId: product.id, quantity: 1 }]))
+      .rejects.toThrow('Cannot receive a received purchase order');
+  });
+
+  test('should not receive more than was ordered across repeated or concurrent receipts', async () => {
+    await procurementService.createSupplier({
+      name: 'Supplier',
+      leadTime: 5,
+      minimumOrderQuantity: 1,
+      products: [{ productId: product.id, unitCost: 30 }]
+    });
+    const updates = await inventoryService.generateInventoryUpdates(await inventoryService.checkInventoryLevels());
+    const [draft] = await procurementService.createDraftPurchaseOrders(updates);
+    await procurementService.submitPurchaseOrder(draft.id);
+
+    await expect(procurementService.receivePurchaseOrder(draft.id, [
+      { productId: product.id, quantity: 15 },
+      { productId: product.id, quantity: 15 }
+    ])).rejects.toThrow(`Invalid received quantity for product ${product.id}`);
+
+    const results = await Promise.allSettled([
+      procurementService.receivePurchaseOrder(draft.id, [{ productId: product.id, quantity: 15 }]),
+      procurementService.receivePurchaseOrder(draft.id, [{ productId: product.id, quantity: 15 }])
+    ]);
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect((await procurementService.getPurchaseOrder(draft.id))?.lines[0].received).toBe(15);
+    expect((await productService.getProduct(product.id))?.inventory.quantity).toBe(20);
+  });
+
+  test('should keep receipts and cancellations consistent with the stock they add', async () => {
+    const purchaseOrders = new InMemoryStore<PurchaseOrder>();
+    procurementService.useStores(new InMemoryStore<Supplier>(), purchaseOrders);
+    const discontinued = await productService.createProduct({
+      name: 'Old Jacket',
+      description: '',
+      price: 80,
+      category: 'outerwear',
+      inventory: { quantity: 0, reserved: 0, reorderPoint: 0, reorderQuantity: 0, leadTime: 7 }
+    });
+    await purchaseOrders.put('po-1', {
+      id: 'po-1',
+      supplierId: 'supplier-1',
+      status: 'submitted',
+      lines: [
+        { productId: product.id, quantity: 10, received: 0, unitCost: 30 },
+        { productId: discontinued.id, quantity: 10, received: 0, unitCost: 20 }
+      ],
+      total: 500,
+      reason: 'restock',
+      priority: 'medium',
+      timestamps: { created: new Date() }
+    });
+    await productService.deleteProduct(discontinued.id);
+
+    await expect(procurementService.receivePurchaseOrder('po-1', [
+      { productId: product.id, quantity: 10 },
+      { productId: discontinued.id, quantity: 10 }
+    ])).rejects.toThrow(`Product ${discontinued.id} not found`);
+    const stored = await procurementService.getPurchaseOrder('po-1');
+    expect(stored).toMatchObject({ status: 'partially_received', lines: [{ received: 10 }, { received: 0 }] });
+    expect((await productService.getProduct(product.id))?.inventory.quantity).toBe(15);
+
+    await purchaseOrders.put('po-2', { ...stored!, id: 'po-2', status: 'submitted', lines: [{ productId: product.id, quantity: 5, received: 0, unitCost: 30 }] });
+    const results = await Promise.allSettled([
+      procurementService.receivePurchaseOrder('po-2', [{ productId: product.id, quantity: 5 }]),
+      procurementService.cancelPurchaseOrder('po-2')
+    ]);
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect((await procurementService.getPurchaseOrder('po-2'))?.status).toBe('received');
+    expect((await productService.getProduct(product.id))?.inventory.quantity).toBe(20);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { promotionService } from '../lib/automation/ecommerce/promotions';
+import { orderService } from '../lib/automation/ecommerce/order';
+import { productService } from '../lib/automation/ecommerce/product';
+import { createInMemoryProductRepository } from '../lib/automation/ecommerce/catalog';
+import { InMemoryStore } from '../lib/storage';
+import {
+  type CustomerSegments,
+  type Order,
+  type OrderItem,
+  type Product,
+  type Promotion,
+  type PromotionInput,
+  type PromotionRedemption
+} from '../lib/automation/ecommerce/types';
+
+// Mock analytics service
+vi.mock('../lib/analytics', () => ({
+  analyticsService: {
+    trackEvent: vi.fn()
+  }
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function promotion(overrides: Partial<PromotionInput>): PromotionInput {
+  return {
+    name: 'Promotion',
+    type: 'percentage',
+    value: 10,
+    target: {},
+    stacking: 'stackable',
+    priority: 0,
+    startsAt: new Date(Date.now() - DAY_MS),
+    source: 'manual',
+    ...overrides
+  };
+}
+
+function buildOrder(id: string, items: OrderItem[], promotionCodes?: string[]): Order {
+  return {
+    id,
+    customerId: 'customer-1',
+    items,
+    status: 'pending',
+    payment: {
+      method: 'card',
+      status: 'completed',
+      amount: items.reduce((sum, item) => sum + item.price * item.quantity, 0),
+      currency: 'USD'
+    },
+    shipping: {
+      method: 'standard',
+      carrier: 'local',
+      address: { street: '1 Main St', city: 'Austin', state: 'TX', country: 'US', postalCode: '78701' },
+      cost: 0
+    },
+    metrics: { processingTime: 0, issuesReported: [] },
+    timestamps: { created: new Date() },
+    promotionCodes
+  };
+}
+
+describe('Promotions', () => {
+  let jacket: Product;
+  let hat: Product;
+
+  beforeEach(async () => {
+    productService.useRepository(createInMemoryProductRepository());
+    orderService.useStore(new InMemoryStore<Order>());
+    promotionService.useStores(
+      new InMemoryStore<Promotion>(),
+      new InMemoryStore<PromotionRedemption>(),
+      new InMemoryStore<CustomerSegments>()
+    );
+    const inventory = { quantity: 50, reserved: 0, reorderPoint: 2, reorderQuantity: 10, leadTime: 7 };
+    jacket = await productService.createProduct({ name: 'Jacket', description: '', price: 100, category: 'outerwear', inventory });
+    hat = await productService.createProduct({ name: 'Hat', description: '', price: 20, category: 'accessories', inventory });
+  });
+
+  test('should apply automatic discounts to order lines at checkout', async () => {
+    await promotionService.createPromotion(promotion({ name: 'Outerwear sale', value: 25, target: { categories: ['outerwear'] } }));
+
+    await orderService.processOrder(buildOrder('order-1', [
+      { productId: jacket.id, quantity: 2, price: 100 },
+      { productId: hat.id, quantity: 1, price: 20 }
+    ]));
+
+    const order = (await orderService.getOrder('order-1'))!;
+    expect(order.items[0].discount).toBe(50);
+    expect(order.items[1].discount).toBeUndefined();
+    expect(order.payment.amount).toBe(170);
+    expect(order.promotions).toEqual([expect.objectContaining({ name: 'Outerwear sale', amount: 50 })]);
+  });
+
+  test('should stack stackable promotions but let the better exclusive one win', async () => {
+    const items = [{ productId: jacket.id, quantity: 1, price: 100 }];
+    await promotionService.createPromotion(promotion({ name: 'Ten percent', value: 10, priority: 2 }));
+    await promotionService.createPromotion(promotion({ name: 'Five off', type: 'fixed', value: 5, priority: 1 }));
+
+    // 10% first, then 5 off what is left
+    const stacked = await promotionService.priceOrder(items, { customerId: 'customer-1' });
+    expect(stacked.discount).toBe(15);
+    expect(stacked.applied.map(a => a.name)).toEqual(['Ten percent', 'Five off']);
+
+    await promotionService.createPromotion(promotion({ name: 'Weak exclusive', value: 12, stacking: 'exclusive' }));
+    expect((await promotionService.priceOrder(items, { customerId: 'customer-1' })).discount).toBe(15);
+
+    await promotionService.createPromotion(promotion({ name: 'Flash sale', value: 30, stacking: 'exclusive' }));
+    const exclusive = await promotionService.priceOrder(items, { customerId: 'customer-1' });
+    expect(exclusive.applied.map(a => a.name)).toEqual(['Flash sale']);
+    expect(exclusive.total).toBe(70);
+  });
+
+  test('should enforce coupon usage limits and give uses back on cancel', async () => {
+    await promotionService.createPromotion(promotion({ name: 'Welcome', code: 'welcome10', usageLimit: 1 }));
+    const items = () => [{ productId: hat.id, quantity: 1, price: 20 }];
+
+    await expect(orderService.processOrder(buildOrder('order-0', items(), ['NOPE']))).rejects.toThrow('NOPE is not valid');
+
+    await orderService.processOrder(buildOrder('order-1', items(), ['WELCOME10']));
+    expect((await orderService.getOrder('order-1'))?.items[0].discount).toBe(2);
+
+    await expect(orderService.processOrder(buildOrder('order-2', items(), ['welcome10'])))
+      .rejects.toThrow('has reached its usage limit');
+
+    await orderService.cancelOrder('order-1');
+    await orderService.processOrder(buildOrder('order-3', items(), ['welcome10']));
+    expect((await promotionService.listPromotions())[0].usageCount).toBe(1);
+  });
+
+  test('should only apply promotions inside their schedule window', async () => {
+    const items = [{ productId: hat.id, quantity: 1, price: 20 }];
+    await promotionService.createPromotion(promotion({ name: 'Next week', startsAt: new Date(Date.now() + 7 * DAY_MS) }));
+    await promotionService.createPromotion(promotion({
+      name: 'Last month',
+      code: 'OLD',
+      startsAt: new Date(Date.now() - 60 * DAY_MS),
+      endsAt: new Date(Date.now() - 30 * DAY_MS)
+    }));
+
+    expect((await promotionService.priceOrder(items, { customerId: 'customer-1' })).applied).toEqual([]);
+    await expect(promotionService.priceOrder(items, { customerId: 'customer-1', codes: ['OLD'] }))
+      .rejects.toThrow('OLD is not active');
+  });
+
+  test('should only apply segment promotions to customers assigned that segment', async () => {
+    const items = [{ productId: hat.id, quantity: 1, price: 20 }];
+    await promotionService.createPromotion(promotion({ name: 'VIP', code: 'VIP', target: { customerSegments: ['vip'] } }));
+
+    await expect(promotionService.priceOrder(items, { customerId: 'customer-1', codes: ['VIP'] }))
+      .rejects.toThrow('VIP is not available for this customer');
+
+    await promotionService.setCustomerSegments('customer-1', ['vip']);
+    expect((await promotionService.priceOrder(items, { customerId: 'customer-1', codes: ['VIP'] })).discount).toBe(2);
+    await expect(promotionService.priceOrder(items, { customerId: 'customer-2', codes: ['VIP'] }))
+      .rejects.toThrow('is not available for this customer');
+  });
+});
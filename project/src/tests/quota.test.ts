@@ -0,0 +1,131 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import type { ServerResponse } from 'http';
+import { authService, type PublicUser } from '../server/services/authService';
+import { organizationService, type Organization } from '../server/services/organizationService';
+import { apiKeyService, type ApiKey } from '../server/services/apiKeyService';
+import { quotaService, type UsageCounter } from '../server/services/quotaService';
+import { emailService } from '../server/services/emailService';
+import { planLimits, type RateLimitedRequest } from '../server/middleware/rateLimit';
+import { getPlanForPriceId } from '../lib/stripe';
+import { InMemoryStore } from '../lib/storage';
+import { PASSWORD, resetAccounts, signUpOwner } from './helpers';
+
+vi.mock('../server/services/emailService');
+
+// Run a request through the plan limit middleware chain the way Express would
+async function send(headers: Record<string, string>) {
+  const req = { headers, socket: { remoteAddress: '127.0.0.1' } } as unknown as RateLimitedRequest;
+  const responseHeaders: Record<string, string> = {};
+  const res = {
+    statusCode: 200,
+    headersSent: false,
+    setHeader: (name: string, value: string) => { responseHeaders[name] = value; },
+    end: vi.fn()
+  };
+
+  let passed = false;
+  for (const middleware of planLimits) {
+    let called = false;
+    await middleware(req, res as unknown as ServerResponse, (error?: unknown) => {
+      if (error) throw error;
+      called = true;
+    });
+    if (!called) break;
+    passed = middleware === planLimits[planLimits.length - 1];
+  }
+  return { passed, status: res.statusCode, headers: responseHeaders };
+}
+
+describe('Plan quotas', () => {
+  let counters: InMemoryStore<UsageCounter>;
+  let owner: PublicUser;
+  let organization: Organization;
+
+  beforeEach(async () => {
+    vi.mocked(emailService.sendQuotaWarningEmail).mockClear();
+    resetAccounts();
+    apiKeyService.useStore(new InMemoryStore<ApiKey>());
+    counters = new InMemoryStore<UsageCounter>();
+    quotaService.useStore(counters);
+
+    ({ user: owner, organization: organization } = await signUpOwner());
+  });
+
+  test('maps subscription prices to plan tiers', () => {
+    expect(getPlanForPriceId('price_starter_monthly')).toBe('STARTER');
+    expect(getPlanForPriceId('price_growth_yearly')).toBe('GROWTH');
+    expect(getPlanForPriceId('price_unknown')).toBeNull();
+  });
+
+  test('counts usage per key, warns billing contacts at 80% and 100% once and then refuses', async () => {
+    // Developers cannot manage billing, so they are not emailed
+    const developer = await authService.signup('dev@acme.com', PASSWORD);
+    const invited = await organizationService.inviteMember(organization.id, 'dev@acme.com', 'developer', owner.id);
+    await organizationService.acceptInvitation(invited.token, developer.user);
+
+    // Organizations without a subscription get the free allowance of 100 requests
+    for (let i = 0; i < 79; i++) await quotaService.consume(organization, 'key-a');
+    expect(emailService.sendQuotaWarningEmail).not.toHaveBeenCalled();
+
+    await quotaService.consume(organization, 'key-b');
+    expect(emailService.sendQuotaWarningEmail).toHaveBeenCalledTimes(1);
+    expect(emailService.sendQuotaWarningEmail).toHaveBeenCalledWith('owner@acme.com', expect.objectContaining({
+      organizationName: 'Acme',
+      percent: 80,
+      used: 80,
+      limit: 100
+    }));
+
+    for (let i = 0; i < 19; i++) await quotaService.consume(organization, 'key-b');
+    const last = await quotaService.consume(organization, 'key-b');
+    expect(last).toMatchObject({ allowed: true, used: 100, remaining: 0 });
+    expect(emailService.sendQuotaWarningEmail).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(emailService.sendQuotaWarningEmail).mock.calls[1][1].percent).toBe(100);
+
+    const refused = await quotaService.consume(organization, 'key-a');
+    expect(refused.allowed).toBe(false);
+    expect(emailService.sendQuotaWarningEmail).toHaveBeenCalledTimes(2);
+
+    const usage = await quotaService.getUsage(organization.id);
+    expect(usage.requests).toBe(100);
+    expect(usage.byApiKey).toEqual({ 'key-a': 79, 'key-b': 21 });
+  });
+
+  test('enterprise plans are unmetered', async () => {
+    const enterprise = await organizationService.setPlan(organization.id, 'ENTERPRISE');
+    const check = await quotaService.consume(enterprise, 'key-a');
+    expect(check).toMatchObject({ allowed: true, limit: null, remaining: null, used: 1 });
+  });
+
+  test('returns 429 with RateLimit headers past the per-second limit', async () => {
+    const { key } = await apiKeyService.createKey(organization.id, { name: 'Worker', scopes: ['analytics:read'] }, owner.id);
+
+    // The free tier allows 2 requests per second
+    const first = await send({ 'x-api-key': key });
+    expect(first.passed).toBe(true);
+    expect(first.headers['RateLimit-Limit']).toBe('2');
+    expect(first.headers['RateLimit-Remaining']).toBe('1');
+
+    await send({ 'x-api-key': key });
+    const limited = await send({ 'x-api-key': key });
+    expect(limited.passed).toBe(false);
+    expect(limited.status).toBe(429);
+    expect(limited.headers['RateLimit-Remaining']).toBe('0');
+    expect(limited.headers['Retry-After']).toBeDefined();
+  });
+
+  test('returns 429 once the monthly quota is used up', async () => {
+    const starter = await organizationService.setPlan(organization.id, 'STARTER');
+    const { key } = await apiKeyService.createKey(starter.id, { name: 'Worker', scopes: ['analytics:read'] }, owner.id);
+
+    const usage = await quotaService.getUsage(starter.id);
+    await counters.put(usage.id, { ...usage, requests: 1_000, warnedThresholds: [80, 100] });
+
+    const refused = await send({ 'x-api-key': key });
+    expect(refused.passed).toBe(false);
+    expect(refused.status).toBe(429);
+    expect(refused.headers['RateLimit-Limit']).toBe('1000');
+    expect(refused.headers['RateLimit-Remaining']).toBe('0');
+    expect(Number(refused.headers['Retry-After'])).toBeGreaterThan(0);
+  });
+});
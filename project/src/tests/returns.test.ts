@@ -0,0 +1,177 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { returnService } from '../lib/automation/ecommerce/returns';
+import { orderService } from '../lib/automation/ecommerce/order';
+import { productService } from '../lib/automation/ecommerce/product';
+import { createInMemoryProductRepository } from '../lib/automation/ecommerce/catalog';
+import { InMemoryStore } from '../lib/storage';
+import { type Order, type Product, type ReturnRequest } from '../lib/automation/ecommerce/types';
+import { authService } from '../server/services/authService';
+import { returnsRouter } from '../server/routers/returns';
+import { PASSWORD, contextFor, resetAccounts, sessionHeaders, signUpPlatformAdmin } from './helpers';
+
+// Mock analytics service
+vi.mock('../lib/analytics', () => ({
+  analyticsService: {
+    trackEvent: vi.fn()
+  }
+}));
+
+// By default 4 units at 50 with 20 off the line: the customer paid 45 per unit
+async function placeDeliveredOrder(
+  product: Product,
+  { id = 'order-1', quantity = 4, price = 50, discount = 20 } = {}
+): Promise<Order> {
+  await orderService.processOrder({
+    id,
+    customerId: 'customer-1',
+    items: [{ productId: product.id, quantity, price, discount }],
+    status: 'pending',
+    payment: { method: 'card', status: 'completed', amount: quantity * price - discount, currency: 'USD' },
+    shipping: {
+      method: 'standard',
+      carrier: 'local',
+      address: { street: '1 Main St', city: 'Austin', state: 'TX', country: 'US', postalCode: '78701' },
+      cost: 0
+    },
+    metrics: { processingTime: 0, issuesReported: [] },
+    timestamps: { created: new Date() }
+  });
+  await orderService.transitionOrder(id, 'shipped');
+  return await orderService.transitionOrder(id, 'delivered');
+}
+
+describe('Returns', () => {
+  let product: Product;
+
+  beforeEach(async () => {
+    productService.useRepository(createInMemoryProductRepository());
+    orderService.useStore(new InMemoryStore<Order>());
+    returnService.useStore(new InMemoryStore<ReturnRequest>());
+    product = await productService.createProduct({
+      name: 'Trail Jacket',
+      description: '',
+      price: 50,
+      category: 'outerwear',
+      inventory: { quantity: 10, reserved: 0, reorderPoint: 2, reorderQuantity: 10, leadTime: 7 }
+    });
+    await placeDeliveredOrder(product);
+  });
+
+  test('should refund the discounted price and restock resellable goods', async () => {
+    const request = await returnService.requestReturn('order-1', [
+      { productId: product.id, quantity: 1, reason: 'no_longer_needed' }
+    ]);
+    expect(request.refundAmount).toBe(45);
+
+    await returnService.approveReturn(request.id);
+    const received = await returnService.receiveReturn(request.id);
+    expect(received.items[0].disposition).toBe('restock');
+    expect((await productService.getProduct(product.id))?.inventory.quantity).toBe(7);
+
+    await returnService.refundReturn(request.id);
+    const order = (await orderService.getOrder('order-1'))!;
+    expect(order.status).toBe('delivered');
+    expect(order.payment).toMatchObject({ status: 'partially_refunded', refundedAmount: 45 });
+    expect((await productService.getProduct(product.id))?.metrics.returnRate).toBe(0.25);
+  });
+
+  test('should scrap faulty goods and refund the order once everything is back', async () => {
+    const first = await returnService.requestReturn('order-1', [
+      { productId: product.id, quantity: 1, reason: 'defective' }
+    ]);
+    await returnService.approveReturn(first.id);
+    await returnService.receiveReturn(first.id);
+    await returnService.refundReturn(first.id);
+
+    const rest = await returnService.requestReturn('order-1', [
+      { productId: product.id, quantity: 3, reason: 'wrong_item' }
+    ]);
+    await returnService.approveReturn(rest.id);
+    await returnService.receiveReturn(rest.id, [{ productId: product.id, disposition: 'scrap' }]);
+    await returnService.refundReturn(rest.id);
+
+    // Nothing was resellable, so stock stays at what was left after shipping
+    expect((await productService.getProduct(product.id))?.inventory.quantity).toBe(6);
+
+    const order = (await orderService.getOrder('order-1'))!;
+    expect(order.status).toBe('refunded');
+    expect(order.timestamps.refunded).toBeInstanceOf(Date);
+    expect(order.payment).toMatchObject({ status: 'refunded', refundedAmount: 180 });
+  });
+
+  test('should not return more than was ordered', async () => {
+    await returnService.requestReturn('order-1', [{ productId: product.id, quantity: 3, reason: 'other' }]);
+
+    await expect(returnService.requestReturn('order-1', [{ productId: product.id, quantity: 2, reason: 'other' }]))
+      .rejects.toThrow('Invalid return quantity');
+  });
+
+  test('should free up quantity when a return is rejected', async () => {
+    const request = await returnService.requestReturn('order-1', [{ productId: product.id, quantity: 4, reason: 'other' }]);
+    const rejected = await returnService.rejectReturn(request.id, 'Outside the return window');
+    expect(rejected.status).toBe('rejected');
+
+    await expect(returnService.refundReturn(request.id)).rejects.toThrow('Cannot move a rejected return to refunded');
+    await expect(returnService.requestReturn('order-1', [{ productId: product.id, quantity: 4, reason: 'other' }]))
+      .resolves.toMatchObject({ refundAmount: 180 });
+  });
+
+  test('should not over-claim, restock or refund twice when returns race', async () => {
+    const claims = await Promise.allSettled([
+      returnService.requestReturn('order-1', [{ productId: product.id, quantity: 3, reason: 'other' }]),
+      returnService.requestReturn('order-1', [{ productId: product.id, quantity: 3, reason: 'other' }])
+    ]);
+    expect(claims.map(claim => claim.status)).toEqual(['fulfilled', 'rejected']);
+
+    const [request] = await returnService.listReturns('order-1');
+    await returnService.approveReturn(request.id);
+    const receipts = await Promise.allSettled([returnService.receiveReturn(request.id), returnService.receiveReturn(request.id)]);
+    expect(receipts.map(receipt => receipt.status)).toEqual(['fulfilled', 'rejected']);
+    expect((await productService.getProduct(product.id))?.inventory.quantity).toBe(9);
+
+    const refunds = await Promise.allSettled([returnService.refundReturn(request.id), returnService.refundReturn(request.id)]);
+    expect(refunds.map(refund => refund.status)).toEqual(['fulfilled', 'rejected']);
+    expect((await orderService.getOrder('order-1'))?.payment.refundedAmount).toBe(135);
+  });
+
+  test('should give the last unit the rounding remainder', async () => {
+    // 3 units for 20 in total do not split evenly into cents
+    await placeDeliveredOrder(product, { id: 'order-2', quantity: 3, price: 10, discount: 10 });
+
+    const requests = [];
+    for (let unit = 0; unit < 3; unit++) {
+      requests.push(await returnService.requestReturn('order-2', [{ productId: product.id, quantity: 1, reason: 'defective' }]));
+    }
+    expect(requests.map(request => request.refundAmount)).toEqual([6.67, 6.66, 6.67]);
+
+    for (const request of requests) {
+      await returnService.approveReturn(request.id);
+      await returnService.receiveReturn(request.id);
+      await returnService.refundReturn(request.id);
+    }
+    expect((await orderService.getOrder('order-2'))?.payment).toMatchObject({ status: 'refunded', refundedAmount: 20 });
+  });
+
+  test('should only let shoppers return their own orders and leave the rest to operators', async () => {
+    resetAccounts();
+    const caller = async (token: string) => returnsRouter.createCaller(await contextFor(sessionHeaders(token)));
+
+    const shopper = await caller((await authService.signup('shopper@example.com', PASSWORD)).token);
+    await expect(shopper.requestReturn({
+      orderId: 'order-1',
+      items: [{ productId: product.id, quantity: 1, reason: 'no_longer_needed' }]
+    })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+
+    const request = await returnService.requestReturn('order-1', [
+      { productId: product.id, quantity: 1, reason: 'no_longer_needed' }
+    ]);
+    await expect(shopper.refundReturn({ returnId: request.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    const admin = await signUpPlatformAdmin();
+    try {
+      expect(await (await caller(admin.token)).listReturns({})).toHaveLength(1);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+});
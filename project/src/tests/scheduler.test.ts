@@ -0,0 +1,115 @@
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import { everyInterval, intervalJitter, schedulerService } from '../lib/scheduler';
+import { analyticsService } from '../lib/analytics';
+import { ecommerceAutomationService } from '../lib/automation/ecommerce';
+import { productService } from '../lib/automation/ecommerce/product';
+
+vi.mock('../lib/analytics', () => ({
+  analyticsService: {
+    trackEvent: vi.fn()
+  }
+}));
+
+// Runs before the Scheduler tests below unregister every job, including the ones registered on import
+describe('Scheduled automation', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('records a run as failed after the domain error handler has run', async () => {
+    vi.spyOn(productService, 'getAllProducts').mockRejectedValue(new Error('catalog unavailable'));
+    const recover = vi.spyOn(ecommerceAutomationService, 'recoverOperations').mockResolvedValue();
+
+    const run = await schedulerService.triggerJob('ecommerce.pricing-optimization');
+    expect(run).toMatchObject({ status: 'failed', error: 'catalog unavailable' });
+    expect(analyticsService.trackEvent).toHaveBeenCalledWith('ecommerce_automation_error', expect.objectContaining({ type: 'pricing' }));
+    expect(recover).toHaveBeenCalled();
+  });
+});
+
+describe('Scheduler', () => {
+  afterEach(() => {
+    schedulerService.stop();
+    for (const job of schedulerService.listJobs()) {
+      schedulerService.unregisterJob(job.name);
+    }
+    vi.useRealTimers();
+  });
+
+  test('converts millisecond intervals to cron expressions', () => {
+    expect(everyInterval(30 * 1000)).toBe('*/30 * * * * *');
+    expect(everyInterval(60 * 1000)).toBe('* * * * *');
+    expect(everyInterval(15 * 60 * 1000)).toBe('*/15 * * * *');
+    expect(everyInterval(60 * 60 * 1000)).toBe('0 * * * *');
+    expect(everyInterval(6 * 60 * 60 * 1000)).toBe('0 */6 * * *');
+    expect(everyInterval(24 * 60 * 60 * 1000)).toBe('0 0 * * *');
+    expect(intervalJitter(60 * 1000)).toBe(6 * 1000);
+    expect(intervalJitter(24 * 60 * 60 * 1000)).toBe(5 * 60 * 1000);
+    expect(() => schedulerService.registerJob({ name: 'bad', schedule: 'every minute', handler: () => undefined }))
+      .toThrow('Invalid cron expression');
+  });
+
+  test('records manual runs and failures in history', async () => {
+    let fail = false;
+    schedulerService.registerJob({
+      name: 'test.report',
+      schedule: '0 * * * *',
+      handler: async () => {
+        if (fail) throw new Error('upstream unavailable');
+      }
+    });
+
+    expect((await schedulerService.triggerJob('test.report')).status).toBe('succeeded');
+    fail = true;
+    const failed = await schedulerService.triggerJob('test.report');
+    expect(failed.status).toBe('failed');
+    expect(failed.error).toBe('upstream unavailable');
+
+    const history = schedulerService.getJobHistory('test.report');
+    expect(history.map(run => run.status)).toEqual(['failed', 'succeeded']);
+    expect(history.every(run => run.trigger === 'manual')).toBe(true);
+    expect(schedulerService.getJob('test.report')).toMatchObject({ runCount: 2, failureCount: 1 });
+  });
+
+  test('skips a run while the previous one is still going', async () => {
+    let finish!: () => void;
+    schedulerService.registerJob({
+      name: 'test.slow',
+      schedule: '* * * * *',
+      handler: () => new Promise<void>(resolve => { finish = resolve; })
+    });
+
+    const first = schedulerService.triggerJob('test.slow');
+    const second = await schedulerService.triggerJob('test.slow');
+    expect(second.status).toBe('skipped');
+    expect(schedulerService.getJob('test.slow').running).toBe(true);
+
+    finish();
+    expect((await first).status).toBe('succeeded');
+    expect(schedulerService.getJob('test.slow').running).toBe(false);
+  });
+
+  test('runs on schedule only after start and not while paused', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-03-01T10:00:30Z'));
+
+    const handler = vi.fn();
+    schedulerService.registerJob({ name: 'test.tick', schedule: '* * * * *', handler });
+
+    await vi.advanceTimersByTimeAsync(2 * 60 * 1000);
+    expect(handler).not.toHaveBeenCalled();
+
+    schedulerService.start();
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(schedulerService.getJobHistory('test.tick')[0].trigger).toBe('schedule');
+
+    schedulerService.pauseJob('test.tick');
+    await vi.advanceTimersByTimeAsync(2 * 60 * 1000);
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    schedulerService.resumeJob('test.tick');
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import type Stripe from 'stripe';
+import { authService } from '../server/services/authService';
+import { organizationService, type Organization } from '../server/services/organizationService';
+import { subscriptionService, type SubscriptionRecord } from '../server/services/subscriptionService';
+import { trialService } from '../server/services/trialService';
+import { entitlementService } from '../server/services/entitlementService';
+import { emailService } from '../server/services/emailService';
+import { InMemoryStore } from '../lib/storage';
+import { PASSWORD, resetAccounts, signUpOwner } from './helpers';
+
+vi.mock('../server/services/emailService');
+
+const DAY = 24 * 60 * 60;
+const NOW = 1_700_000_000;
+
+function trialingSubscription(trialEnd: number) {
+  return {
+    id: 'sub_1',
+    customer: 'cus_1',
+    status: 'trialing',
+    metadata: { planId: 'price_growth_monthly' },
+    items: { data: [] },
+    current_period_start: NOW - DAY,
+    current_period_end: trialEnd,
+    trial_end: trialEnd
+  } as unknown as Stripe.Subscription;
+}
+
+describe('Trials', () => {
+  let organization: Organization;
+
+  beforeEach(async () => {
+    vi.mocked(emailService.sendTrialEndingEmail).mockClear();
+    resetAccounts();
+    subscriptionService.useStore(new InMemoryStore<SubscriptionRecord>());
+
+    const owner = await signUpOwner();
+    organization = owner.organization;
+    await organizationService.setStripeCustomerId(organization.id, 'cus_1');
+    const { invitation, token } = await organizationService.inviteMember(organization.id, 'dev@acme.com', 'developer', owner.user.id);
+    const member = await authService.signup(invitation.email, PASSWORD);
+    await organizationService.acceptInvitation(token, member.user);
+  });
+
+  test('reminds billing contacts once as the trial nears its end, and again after an extension', async () => {
+    const now = new Date(NOW * 1000);
+    await subscriptionService.syncFromStripe(trialingSubscription(NOW + 5 * DAY), now);
+
+    expect(await trialService.sendReminders(now)).toBe(0);
+
+    const later = new Date((NOW + 3 * DAY) * 1000);
+    expect(await trialService.sendReminders(later)).toBe(1);
+    expect(await trialService.sendReminders(later)).toBe(0);
+    // Members without billing:manage are left out
+    expect(emailService.sendTrialEndingEmail).toHaveBeenCalledTimes(1);
+    expect(emailService.sendTrialEndingEmail).toHaveBeenCalledWith('owner@acme.com', {
+      organizationName: 'Acme',
+      planName: 'Growth',
+      trialEnd: new Date((NOW + 5 * DAY) * 1000)
+    });
+
+    await subscriptionService.syncFromStripe(trialingSubscription(NOW + 6 * DAY), later);
+    expect(await trialService.sendReminders(later)).toBe(1);
+  });
+
+  test('entitlements expose when the trial ends', async () => {
+    expect((await entitlementService.getEntitlements(organization)).trialEndsAt).toBeNull();
+
+    await subscriptionService.syncFromStripe(trialingSubscription(NOW + 5 * DAY), new Date(NOW * 1000));
+    const trialing = await organizationService.getOrganization(organization.id);
+    expect((await entitlementService.getEntitlements(trialing!)).trialEndsAt).toEqual(new Date((NOW + 5 * DAY) * 1000));
+  });
+});
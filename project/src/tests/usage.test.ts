@@ -0,0 +1,128 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { schedulerService } from '../lib/scheduler';
+import {
+  organizationService,
+  type Invitation,
+  type Membership,
+  type Organization
+} from '../server/services/organizationService';
+import {
+  usageService,
+  type UsageBucket,
+  type UsageEventKey,
+  type UsageMetric,
+  type UsageReporter
+} from '../server/services/usageService';
+import { InMemoryStore } from '../lib/storage';
+
+// Behaves like Stripe: replaying an idempotency key returns the original result instead of adding usage again
+class RecordingReporter implements UsageReporter {
+  public totals = new Map<string, number>();
+  public seenKeys = new Set<string>();
+  public failNext = false;
+
+  public async findSubscriptionItem(_stripeCustomerId: string, metric: UsageMetric): Promise<string | null> {
+    return metric === 'api_calls' ? 'si_api_calls' : null;
+  }
+
+  public async reportUsage(subscriptionItemId: string, quantity: number, _timestamp: Date, idempotencyKey: string): Promise<void> {
+    if (!this.seenKeys.has(idempotencyKey)) {
+      this.seenKeys.add(idempotencyKey);
+      this.totals.set(subscriptionItemId, (this.totals.get(subscriptionItemId) ?? 0) + quantity);
+    }
+    // Simulates the response being lost after Stripe applied the record
+    if (this.failNext) {
+      this.failNext = false;
+      throw new Error('Connection reset');
+    }
+  }
+}
+
+describe('Usage metering', () => {
+  let organization: Organization;
+  let reporter: RecordingReporter;
+
+  beforeEach(async () => {
+    organizationService.useStores(
+      new InMemoryStore<Organization>(),
+      new InMemoryStore<Membership>(),
+      new InMemoryStore<Invitation>()
+    );
+    usageService.useStores(new InMemoryStore<UsageBucket>(), new InMemoryStore<UsageEventKey>());
+    reporter = new RecordingReporter();
+    usageService.useReporter(reporter);
+
+    organization = await organizationService.createOrganization('Acme', 'owner-1');
+    organization = await organizationService.setStripeCustomerId(organization.id, 'cus_123');
+  });
+
+  test('aggregates events per period and ignores replayed idempotency keys', async () => {
+    const march = new Date(Date.UTC(2024, 2, 10, 12));
+    expect(await usageService.recordUsage(organization.id, 'api_calls', 3, { occurredAt: march, idempotencyKey: 'evt_1' })).toBe(true);
+    expect(await usageService.recordUsage(organization.id, 'api_calls', 3, { occurredAt: march, idempotencyKey: 'evt_1' })).toBe(false);
+    await usageService.recordUsage(organization.id, 'api_calls', 2, { occurredAt: new Date(Date.UTC(2024, 2, 20)) });
+    await usageService.recordUsage(organization.id, 'storage', 5, { occurredAt: march });
+    await usageService.recordUsage(organization.id, 'api_calls', 100, { occurredAt: new Date(Date.UTC(2024, 3, 1)) });
+
+    const usage = await usageService.getUsageForPeriod(organization.id, new Date(Date.UTC(2024, 2, 1)), new Date(Date.UTC(2024, 3, 1)));
+    expect(usage).toEqual([
+      { metric: 'api_calls', quantity: 5, reportedQuantity: 0 },
+      { metric: 'storage', quantity: 5, reportedQuantity: 0 }
+    ]);
+  });
+
+  test('reports only new usage to metered items and skips unmetered metrics', async () => {
+    await usageService.recordUsage(organization.id, 'api_calls', 4);
+    await usageService.recordUsage(organization.id, 'storage', 2);
+
+    expect(await usageService.reportUsage()).toEqual({ reported: 1, skipped: 1, failed: 0 });
+    expect(reporter.totals.get('si_api_calls')).toBe(4);
+
+    // Nothing new, nothing sent
+    await usageService.reportUsage();
+    expect(reporter.totals.get('si_api_calls')).toBe(4);
+
+    await usageService.recordUsage(organization.id, 'api_calls', 6);
+    await usageService.reportUsage();
+    expect(reporter.totals.get('si_api_calls')).toBe(10);
+  });
+
+  test('retries a lost report with the same idempotency key so usage is billed once', async () => {
+    await usageService.recordUsage(organization.id, 'api_calls', 7);
+    reporter.failNext = true;
+    expect(await usageService.reportUsage()).toMatchObject({ reported: 0, failed: 1 });
+
+    // More usage arrives before the retry; the retry must not fold it into the lost report
+    await usageService.recordUsage(organization.id, 'api_calls', 1);
+    await usageService.reportUsage();
+    await usageService.reportUsage();
+
+    expect(reporter.totals.get('si_api_calls')).toBe(8);
+    const start = new Date(Date.now() - 60 * 60 * 1000);
+    const [apiCalls] = await usageService.getUsageForPeriod(organization.id, start, new Date(Date.now() + 60 * 60 * 1000));
+    expect(apiCalls).toMatchObject({ quantity: 8, reportedQuantity: 8 });
+  });
+
+  test('fails the scheduled run when a report fails', async () => {
+    await usageService.recordUsage(organization.id, 'api_calls', 3);
+    reporter.failNext = true;
+    expect(await schedulerService.triggerJob('billing.report-usage'))
+      .toMatchObject({ status: 'failed', error: 'Failed to report usage for 1 bucket(s)' });
+    expect((await schedulerService.triggerJob('billing.report-usage')).status).toBe('succeeded');
+  });
+
+  test('prunes old buckets only once they are fully reported', async () => {
+    const old = new Date(Date.now() - 100 * 24 * 60 * 60 * 1000);
+    await usageService.recordUsage(organization.id, 'api_calls', 2, { occurredAt: old });
+    await usageService.recordUsage(organization.id, 'storage', 2, { occurredAt: old });
+    await usageService.recordUsage(organization.id, 'api_calls', 1);
+    await usageService.reportUsage();
+
+    const usage = await usageService.getUsageForPeriod(organization.id, new Date(0), new Date(Date.now() + 60 * 60 * 1000));
+    // Storage is not metered for this customer, so it was never reported and stays
+    expect(usage).toEqual([
+      { metric: 'api_calls', quantity: 1, reportedQuantity: 1 },
+      { metric: 'storage', quantity: 2, reportedQuantity: 0 }
+    ]);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { authService } from '../server/services/authService';
+import { organizationService, type Organization } from '../server/services/organizationService';
+import { webhookService, type WebhookEvent, type WebhookEventRecord } from '../server/services/webhookService';
+import { subscriptionService, type SubscriptionRecord } from '../server/services/subscriptionService';
+import { registerStripeWebhookHandlers } from '../server/services/stripeWebhookHandlers';
+import { emailService } from '../server/services/emailService';
+import { authRouter } from '../server/routers/auth';
+import { webhooksRouter } from '../server/routers/webhooks';
+import { InMemoryStore } from '../lib/storage';
+import { PASSWORD, contextFor, resetAccounts, sessionHeaders, signUpPlatformAdmin } from './helpers';
+
+vi.mock('../server/services/emailService');
+
+let sequence = 0;
+function stripeEvent(type: string, object: unknown, created = 1_700_000_000 + sequence): WebhookEvent {
+  return { id: `evt_${++sequence}`, type, created, data: { object } };
+}
+
+function stripeSubscription(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'sub_1',
+    customer: 'cus_1',
+    status: 'active',
+    metadata: { planId: 'price_growth_monthly' },
+    items: { data: [{ id: 'si_1', price: { id: 'price_growth_monthly' } }, { id: 'si_2', price: { id: 'price_api_calls' } }] },
+    current_period_start: 1_700_000_000,
+    current_period_end: 1_702_592_000,
+    cancel_at_period_end: false,
+    ...overrides
+  };
+}
+
+describe('Webhooks', () => {
+  let organization: Organization;
+  const stripe = {
+    customers: { retrieve: vi.fn(async (id: string) => ({ id, email: 'billing@acme.com' })) },
+    subscriptions: { retrieve: vi.fn(async () => stripeSubscription()) }
+  };
+
+  beforeEach(async () => {
+    vi.mocked(emailService.sendInvoiceEmail).mockClear();
+    resetAccounts();
+    webhookService.useStore(new InMemoryStore<WebhookEventRecord>());
+    subscriptionService.useStore(new InMemoryStore<SubscriptionRecord>());
+    for (const { name } of webhookService.listHandlers()) webhookService.unregisterHandler(name);
+    registerStripeWebhookHandlers(stripe as unknown as Parameters<typeof registerStripeWebhookHandlers>[0]);
+
+    organization = await organizationService.createOrganization('Acme', 'owner-1');
+    await organizationService.setStripeCustomerId(organization.id, 'cus_1');
+  });
+
+  test('redelivered events are acknowledged without repeating side effects', async () => {
+    const event = stripeEvent('invoice.created', { id: 'in_1', customer: 'cus_1', number: '0001' });
+
+    const first = await webhookService.receive(event);
+    const second = await webhookService.receive(event);
+
+    expect(first).toMatchObject({ duplicate: false, record: { status: 'processed', attempts: 1 } });
+    expect(second.duplicate).toBe(true);
+    expect(emailService.sendInvoiceEmail).toHaveBeenCalledTimes(1);
+    expect(emailService.sendInvoiceEmail).toHaveBeenCalledWith('billing@acme.com', expect.objectContaining({ id: 'in_1' }));
+
+    const unknown = await webhookService.receive(stripeEvent('customer.created', { id: 'cus_2' }));
+    expect(unknown.record.status).toBe('ignored');
+  });
+
+  test('retries only the handlers that failed, and replay can force all of them', async () => {
+    const audit = vi.fn();
+    let failing = true;
+    webhookService.registerHandler('test.audit', 'invoice.created', async (event) => audit(event.id));
+    webhookService.registerHandler('test.flaky', 'invoice.created', async () => {
+      if (failing) throw new Error('Downstream unavailable');
+    });
+
+    const event = stripeEvent('invoice.created', { id: 'in_2', customer: 'cus_1' });
+    const failed = await webhookService.receive(event);
+    expect(failed.record.status).toBe('failed');
+    expect(failed.record.lastError).toContain('test.flaky');
+    expect((await webhookService.listEvents({ status: 'failed' })).map(record => record.id)).toEqual([event.id]);
+
+    failing = false;
+    const retried = await webhookService.receive(event);
+    expect(retried.record).toMatchObject({ status: 'processed', attempts: 2 });
+    expect(audit).toHaveBeenCalledTimes(1);
+    expect(emailService.sendInvoiceEmail).toHaveBeenCalledTimes(1);
+
+    await webhookService.replay(event.id, { force: true });
+    expect(audit).toHaveBeenCalledTimes(2);
+  });
+
+  test('keeps the subscription mirror and organization plan current, ignoring stale events', async () => {
+    await webhookService.receive(stripeEvent('customer.subscription.created', stripeSubscription(), 100));
+    expect((await organizationService.getOrganization(organization.id))?.plan).toBe('GROWTH');
+
+    const mirror = await subscriptionService.getForOrganization(organization.id);
+    expect(mirror).toMatchObject({ id: 'sub_1', status: 'active', plan: 'GROWTH', priceId: 'price_growth_monthly' });
+
+    // The billed items decide the plan, even when the metadata still names an earlier one
+    await webhookService.receive(stripeEvent('customer.subscription.updated', stripeSubscription({ metadata: { planId: 'price_starter_monthly' } }), 120));
+    expect((await subscriptionService.getSubscription('sub_1'))?.plan).toBe('GROWTH');
+
+    // Delivered late: older than what the mirror already holds
+    await webhookService.receive(stripeEvent('customer.subscription.updated', stripeSubscription({ status: 'incomplete' }), 50));
+    expect((await subscriptionService.getSubscription('sub_1'))?.status).toBe('active');
+
+    await webhookService.receive(stripeEvent('invoice.paid', { id: 'in_3', subscription: 'sub_1', status: 'paid', status_transitions: { paid_at: 150 } }, 150));
+    expect((await subscriptionService.getSubscription('sub_1'))?.lastPaidAt).toEqual(new Date(150_000));
+
+    await webhookService.receive(stripeEvent('customer.subscription.deleted', stripeSubscription({ status: 'canceled', canceled_at: 200 }), 200));
+    expect((await organizationService.getOrganization(organization.id))?.plan).toBeUndefined();
+  });
+
+  test('checkout completion links the customer and mirrors the new subscription', async () => {
+    const newOrganization = await organizationService.createOrganization('Globex', 'owner-2');
+    stripe.subscriptions.retrieve.mockResolvedValueOnce(stripeSubscription({ id: 'sub_2', customer: 'cus_2' }));
+
+    await webhookService.receive(stripeEvent('checkout.session.completed', {
+      mode: 'subscription',
+      customer: 'cus_2',
+      subscription: 'sub_2',
+      client_reference_id: newOrganization.id
+    }));
+
+    expect((await organizationService.getOrganization(newOrganization.id))).toMatchObject({ stripeCustomerId: 'cus_2', plan: 'GROWTH' });
+    expect((await subscriptionService.getForOrganization(newOrganization.id))?.id).toBe('sub_2');
+  });
+
+  test('only platform administrators can inspect and replay events', async () => {
+    const admin = await signUpPlatformAdmin();
+    const member = await authService.signup('owner@acme.com', PASSWORD);
+
+    try {
+      const callerFor = async (token: string) => webhooksRouter.createCaller(await contextFor(sessionHeaders(token)));
+
+      await webhookService.receive(stripeEvent('charge.refunded', { id: 'ch_1', amount_refunded: 500, receipt_email: 'buyer@acme.com' }));
+
+      await expect((await callerFor(member.token)).listEvents({})).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      const events = await (await callerFor(admin.token)).listEvents({ type: 'charge.*' });
+      expect(events).toHaveLength(1);
+      expect(emailService.sendRefundNotice).toHaveBeenCalledWith('buyer@acme.com', expect.objectContaining({ id: 'ch_1' }));
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  test('an admin email does not make a platform administrator until it is verified', async () => {
+    vi.stubEnv('PLATFORM_ADMIN_EMAILS', 'ops@titan.cloud');
+
+    try {
+      const signup = await authRouter.createCaller(await contextFor()).signup({ email: 'ops@titan.cloud', password: PASSWORD });
+      const callerFor = async () => webhooksRouter.createCaller(await contextFor(sessionHeaders(signup.token)));
+      await expect((await callerFor()).listEvents({})).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      expect(authService.isPlatformAdmin(signup.user)).toBe(false);
+
+      const [to, { verifyUrl }] = vi.mocked(emailService.sendVerificationEmail).mock.calls[0];
+      expect(to).toBe('ops@titan.cloud');
+      const token = new URL(verifyUrl, 'https://app.titan.cloud').searchParams.get('token') ?? '';
+      await expect(authService.verifyEmail('not-the-token')).rejects.toThrow('invalid or has expired');
+      await authRouter.createCaller(await contextFor()).verifyEmail({ token });
+
+      await expect((await callerFor()).listEvents({})).resolves.toEqual([]);
+      await expect(authService.verifyEmail(token)).rejects.toThrow('invalid or has expired');
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+});